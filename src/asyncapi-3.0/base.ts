@@ -0,0 +1,79 @@
+import { currentFrame, currentLocation } from "tool-json";
+import { ValidationError } from "../error.ts";
+import type { SchemaContext, SchemaFrame } from "../context.ts";
+import type { Keyword } from "../keyword.ts";
+import { AnnotationKeyword } from "../keyword.ts";
+import { deprecatedKeyword } from "../draft-2020-12/meta-data.ts";
+import type { ExternalDocsKeyword } from "../oas-3.1/base.ts";
+import { externalDocsKeyword } from "../oas-3.1/base.ts";
+
+/**
+ * A Schema Object that uses the fields AsyncAPI v3.0 adds to JSON Schema.
+ *
+ * @see [AsyncAPI Specification v3.0.0 §Schema Object](https://www.asyncapi.com/docs/reference/specification/v3.0.0#schemaObject)
+ * @category Vocabularies
+ */
+export interface BaseVocabulary {
+  /**
+   * The name of the property used to differentiate between schemas that
+   * inherit this schema. The property MUST be defined at this schema,
+   * and it MUST be in the `required` property list.
+   *
+   * @see [AsyncAPI Specification v3.0.0 §Schema Object](https://www.asyncapi.com/docs/reference/specification/v3.0.0#schemaObject)
+   */
+  readonly discriminator?: string;
+
+  /**
+   * Additional external documentation for this schema.
+   *
+   * @see [AsyncAPI Specification v3.0.0 §External Documentation Object](https://www.asyncapi.com/docs/reference/specification/v3.0.0#externalDocumentationObject)
+   */
+  readonly externalDocs?: ExternalDocsKeyword;
+
+  /**
+   * Specifies that the schema is deprecated and should be
+   * transitioned out of usage.
+   *
+   * @see [AsyncAPI Specification v3.0.0 §Schema Object](https://www.asyncapi.com/docs/reference/specification/v3.0.0#schemaObject)
+   */
+  readonly deprecated?: boolean;
+}
+
+/**
+ * The `discriminator` keyword.
+ *
+ * Unlike its OpenAPI counterpart, the AsyncAPI `discriminator`
+ * is the name of the discriminating property.
+ *
+ * @see [AsyncAPI Specification v3.0.0 §Schema Object](https://www.asyncapi.com/docs/reference/specification/v3.0.0#schemaObject)
+ * @category Keywords
+ */
+export const discriminatorKeyword = {
+  ...AnnotationKeyword.prototype,
+  key: "discriminator",
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    if (typeof node !== "string") {
+      throw new ValidationError('"discriminator" must be a string', {
+        location: currentLocation(context),
+      });
+    }
+  },
+} as const satisfies Keyword<string>;
+
+/**
+ * The fields AsyncAPI v3.0 adds to JSON Schema.
+ *
+ * @see [AsyncAPI Specification v3.0.0 §Schema Object](https://www.asyncapi.com/docs/reference/specification/v3.0.0#schemaObject)
+ * @category Vocabularies
+ */
+export const baseVocabulary = {
+  keywords: {
+    discriminator: discriminatorKeyword,
+    externalDocs: externalDocsKeyword,
+    deprecated: deprecatedKeyword,
+  },
+} as const;
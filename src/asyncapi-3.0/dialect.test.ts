@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { parseSchema, asyncapi30 } from "tool-schema";
+
+void suite("AsyncAPI 3.0", () => {
+  void test("supports Draft 07 keywords", async () => {
+    const schema = await parseSchema({
+      $schema: "http://asyncapi.com/definitions/3.0.0/schema.json",
+      type: "array",
+      items: [{ type: "string" }, { type: "integer" }],
+      additionalItems: false,
+    });
+    assert(schema.validate(["a", 1]).valid);
+    assert(!schema.validate([1, "a"]).valid);
+    assert(!schema.validate(["a", 1, true]).valid);
+  });
+
+  void test("annotates AsyncAPI keywords", async () => {
+    const schema = await parseSchema({
+      $schema: "http://asyncapi.com/definitions/3.0.0/schema.json",
+      type: "object",
+      discriminator: "petType",
+      required: ["petType"],
+      properties: {
+        petType: { type: "string" },
+      },
+      externalDocs: { url: "https://example.com/docs/pets" },
+      deprecated: true,
+    });
+    assert(schema.validate({ petType: "cat" }).valid);
+    assert(!schema.validate({}).valid);
+  });
+
+  void test("rejects non-string discriminators", async () => {
+    await assert.rejects(
+      parseSchema({
+        $schema: "http://asyncapi.com/definitions/3.0.0/schema.json",
+        discriminator: { propertyName: "petType" },
+      }),
+    );
+  });
+
+  void test("selects dialects by schema format", () => {
+    assert.equal(
+      asyncapi30.getSchemaFormatDialect(
+        "application/vnd.aai.asyncapi+json;version=3.0.0",
+      )?.uri,
+      "http://asyncapi.com/definitions/3.0.0/schema.json",
+    );
+    assert.equal(
+      asyncapi30.getSchemaFormatDialect(
+        "application/schema+yaml;version=draft-07",
+      )?.uri,
+      "http://json-schema.org/draft-07/schema#",
+    );
+    assert.equal(
+      asyncapi30.getSchemaFormatDialect(
+        "application/schema+json;version=2020-12",
+      )?.uri,
+      "https://json-schema.org/draft/2020-12/schema",
+    );
+    assert.equal(
+      asyncapi30.getSchemaFormatDialect(
+        "application/vnd.oai.openapi;version=3.0.0",
+      )?.uri,
+      "https://spec.openapis.org/oas/3.0/dialect/base",
+    );
+    assert.equal(
+      asyncapi30.getSchemaFormatDialect(
+        "application/vnd.apache.avro;version=1.9.0",
+      ),
+      undefined,
+    );
+  });
+
+  void test("parses message payloads", async () => {
+    const schema = await asyncapi30.parseMessageSchema({
+      type: "object",
+      required: ["userId"],
+      properties: {
+        userId: { type: "string" },
+      },
+    });
+    assert(schema.validate({ userId: "1" }).valid);
+    assert(!schema.validate({}).valid);
+  });
+
+  void test("parses multi format message payloads", async () => {
+    const schema = await asyncapi30.parseMessageSchema({
+      schemaFormat: "application/vnd.oai.openapi+json;version=3.0.0",
+      schema: {
+        type: "string",
+        nullable: true,
+      },
+    });
+    assert(schema.validate("hello").valid);
+    assert(schema.validate(null).valid);
+    assert(!schema.validate(1).valid);
+  });
+
+  void test("rejects unsupported schema formats", async () => {
+    await assert.rejects(
+      asyncapi30.parseMessageSchema({
+        schemaFormat: "application/vnd.apache.avro;version=1.9.0",
+        schema: { type: "record", fields: [] },
+      }),
+    );
+  });
+});
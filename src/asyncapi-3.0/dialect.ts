@@ -0,0 +1,114 @@
+import type { Format } from "../format.ts";
+import type { Dialect } from "../dialect.ts";
+import * as formats from "../format/mod.ts";
+import type { CoreVocabulary } from "../draft-07/core.ts";
+import { coreVocabulary } from "../draft-07/core.ts";
+import type { ValidationVocabulary } from "../draft-07/validation.ts";
+import { validationVocabulary } from "../draft-07/validation.ts";
+import type { BaseVocabulary } from "./base.ts";
+import { baseVocabulary } from "./base.ts";
+
+/**
+ * A Schema Object that uses the AsyncAPI v3.0 dialect.
+ *
+ * @see [JSON Schema Core Draft 07](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-01)
+ * @see [JSON Schema Validation Draft 07](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-validation-01)
+ * @see [AsyncAPI Specification v3.0.0 §Schema Object](https://www.asyncapi.com/docs/reference/specification/v3.0.0#schemaObject)
+ * @category Dialect
+ */
+export interface Schema
+  extends CoreVocabulary, ValidationVocabulary<Schema>, BaseVocabulary {}
+
+/**
+ * The AsyncAPI v3.0 Schema Object dialect, a superset
+ * of JSON Schema Draft 07.
+ *
+ * @see [AsyncAPI Specification v3.0.0 §Schema Object](https://www.asyncapi.com/docs/reference/specification/v3.0.0#schemaObject)
+ * @category Dialect
+ */
+export const dialect = {
+  uri: "http://asyncapi.com/definitions/3.0.0/schema.json",
+
+  formats: formats as { readonly [format: string]: Format },
+
+  keywords: {
+    ...coreVocabulary.keywords,
+    ...validationVocabulary.keywords,
+    ...baseVocabulary.keywords,
+  },
+
+  vocabularies: {},
+
+  node: {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    $id: "http://asyncapi.com/definitions/3.0.0/schema.json",
+    description:
+      "The Schema Object allows the definition of input and output data types.",
+    allOf: [
+      { $ref: "http://json-schema.org/draft-07/schema#" },
+      {
+        patternProperties: {
+          "^x-[\\w\\d\\.\\x2d_]+$": {},
+        },
+        properties: {
+          additionalProperties: {
+            anyOf: [{ $ref: "#" }, { type: "boolean" }],
+            default: {},
+          },
+          items: {
+            anyOf: [
+              { $ref: "#" },
+              { type: "array", minItems: 1, items: { $ref: "#" } },
+            ],
+            default: {},
+          },
+          allOf: { type: "array", minItems: 1, items: { $ref: "#" } },
+          oneOf: { type: "array", minItems: 1, items: { $ref: "#" } },
+          anyOf: { type: "array", minItems: 1, items: { $ref: "#" } },
+          not: { $ref: "#" },
+          properties: {
+            type: "object",
+            additionalProperties: { $ref: "#" },
+            default: {},
+          },
+          patternProperties: {
+            type: "object",
+            additionalProperties: { $ref: "#" },
+            default: {},
+          },
+          propertyNames: { $ref: "#" },
+          contains: { $ref: "#" },
+          discriminator: { type: "string" },
+          externalDocs: {
+            oneOf: [
+              { $ref: "#/definitions/Reference" },
+              { $ref: "#/definitions/ExternalDocumentation" },
+            ],
+          },
+          deprecated: { type: "boolean", default: false },
+        },
+      },
+    ],
+    definitions: {
+      Reference: {
+        type: "object",
+        required: ["$ref"],
+        properties: {
+          $ref: { type: "string", format: "uri-reference" },
+        },
+      },
+      ExternalDocumentation: {
+        type: "object",
+        required: ["url"],
+        properties: {
+          description: { type: "string" },
+          url: { type: "string", format: "uri" },
+        },
+        patternProperties: {
+          "^x-[\\w\\d\\.\\x2d_]+$": {},
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+} as const satisfies Dialect;
@@ -0,0 +1,8 @@
+export type { BaseVocabulary } from "./base.ts";
+export { discriminatorKeyword, baseVocabulary } from "./base.ts";
+
+export type { Schema } from "./dialect.ts";
+export { dialect } from "./dialect.ts";
+
+export type { MultiFormatSchema } from "./schema-format.ts";
+export { getSchemaFormatDialect, parseMessageSchema } from "./schema-format.ts";
@@ -0,0 +1,138 @@
+import { isObject } from "tool-json";
+import { ValidationError } from "../error.ts";
+import type { Dialect } from "../dialect.ts";
+import type { Schema, SchemaOptions } from "../schema.ts";
+import { parseSchema, dialects as standardDialects } from "../schema.ts";
+import { dialect } from "./dialect.ts";
+
+/**
+ * A schema of an AsyncAPI message payload or headers, expressed
+ * in the schema format identified by a MIME type.
+ *
+ * @see [AsyncAPI Specification v3.0.0 §Multi Format Schema Object](https://www.asyncapi.com/docs/reference/specification/v3.0.0#multiFormatSchemaObject)
+ * @category AsyncAPI
+ */
+export interface MultiFormatSchema {
+  /**
+   * The MIME type of the schema format, such as
+   * `"application/schema+json;version=draft-07"`.
+   */
+  readonly schemaFormat: string;
+
+  /**
+   * The schema in the given format.
+   */
+  readonly schema: unknown;
+}
+
+/**
+ * The URIs of the JSON Schema dialects identified by the `version`
+ * parameter of the `application/schema+json` MIME type.
+ */
+const jsonSchemaVersions: { readonly [version: string]: string } = {
+  "draft-03": "http://json-schema.org/draft-03/schema#",
+  "draft-04": "http://json-schema.org/draft-04/schema#",
+  "draft-06": "http://json-schema.org/draft-06/schema#",
+  "draft-07": "http://json-schema.org/draft-07/schema#",
+  "draft-2019-09": "https://json-schema.org/draft/2019-09/schema",
+  "2019-09": "https://json-schema.org/draft/2019-09/schema",
+  "draft-2020-12": "https://json-schema.org/draft/2020-12/schema",
+  "2020-12": "https://json-schema.org/draft/2020-12/schema",
+};
+
+/**
+ * Returns the dialect of the given `schemaFormat` MIME type, or `undefined`
+ * if the schema format isn't a supported JSON Schema based format.
+ * Supports AsyncAPI, JSON Schema, and OpenAPI schema formats, in both
+ * their JSON and YAML flavors.
+ *
+ * @see [AsyncAPI Specification v3.0.0 §Multi Format Schema Object](https://www.asyncapi.com/docs/reference/specification/v3.0.0#multiFormatSchemaObject)
+ * @category AsyncAPI
+ */
+export function getSchemaFormatDialect(
+  schemaFormat: string,
+  dialects: ReadonlyMap<string, Dialect> = standardDialects,
+): Dialect | undefined {
+  const [essence, ...parameters] = schemaFormat.split(";");
+  let type = essence!.trim().toLowerCase();
+  if (type.endsWith("+json") || type.endsWith("+yaml")) {
+    type = type.slice(0, -5);
+  }
+
+  let version: string | undefined;
+  for (const parameter of parameters) {
+    const index = parameter.indexOf("=");
+    if (
+      index >= 0 &&
+      parameter.slice(0, index).trim().toLowerCase() === "version"
+    ) {
+      version = parameter
+        .slice(index + 1)
+        .trim()
+        .replace(/^"(.*)"$/, "$1");
+    }
+  }
+
+  switch (type) {
+    case "application/vnd.aai.asyncapi":
+      // The Schema Object is compatible across AsyncAPI v2 and v3.
+      if (version === undefined || /^[23]\./.test(version)) {
+        return dialects.get(dialect.uri) ?? dialect;
+      }
+      return undefined;
+    case "application/schema": {
+      const uri = jsonSchemaVersions[version ?? "draft-07"];
+      return uri !== undefined ? dialects.get(uri) : undefined;
+    }
+    case "application/vnd.oai.openapi":
+      if (version === undefined || version.startsWith("3.0.")) {
+        return dialects.get("https://spec.openapis.org/oas/3.0/dialect/base");
+      }
+      if (version.startsWith("3.1.")) {
+        return dialects.get("https://spec.openapis.org/oas/3.1/dialect/base");
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Parses the payload or headers schema of an AsyncAPI message.
+ * The dialect of a Multi Format Schema Object is selected by its
+ * `schemaFormat`; other schemas use the AsyncAPI dialect.
+ *
+ * @throws ValidationError if the schema format isn't supported.
+ * @category AsyncAPI
+ */
+export async function parseMessageSchema(
+  node: unknown,
+  options?: SchemaOptions,
+): Promise<Schema> {
+  let schemaDialect: Dialect | undefined = dialect;
+  if (isObject(node) && "schemaFormat" in node && "schema" in node) {
+    const schemaFormat = node.schemaFormat;
+    if (typeof schemaFormat !== "string") {
+      throw new ValidationError('"schemaFormat" must be a string');
+    }
+    const dialects = options?.dialects ?? standardDialects;
+    schemaDialect = getSchemaFormatDialect(
+      schemaFormat,
+      dialects instanceof Map ? dialects : (
+        new Map(
+          (dialects as readonly Dialect[]).map(
+            (entry: Dialect): [string, Dialect] => [entry.uri, entry],
+          ),
+        )
+      ),
+    );
+    if (schemaDialect === undefined) {
+      throw new ValidationError(
+        "Unsupported schema format " + JSON.stringify(schemaFormat),
+      );
+    }
+    node = node.schema;
+  }
+
+  return parseSchema(node, { ...options, dialect: schemaDialect });
+}
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { bestMatch, parseSchema } from "tool-schema";
+
+void suite("bestMatch", () => {
+  const schemaNode = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    type: "object",
+    properties: {
+      pet: {
+        oneOf: [
+          {
+            type: "object",
+            properties: {
+              kind: { const: "cat" },
+              lives: { type: "integer", maximum: 9 },
+            },
+            required: ["kind", "lives"],
+          },
+          {
+            type: "object",
+            properties: {
+              kind: { const: "dog" },
+              bark: { type: "string" },
+            },
+            required: ["kind", "bark"],
+          },
+          { type: "string" },
+        ],
+      },
+    },
+  } as const;
+
+  void test("returns undefined for valid output", async () => {
+    const schema = await parseSchema(schemaNode);
+
+    assert.equal(bestMatch(schema.validate({ pet: "Rex" })), undefined);
+  });
+
+  void test("selects the alternative matching the discriminator", async () => {
+    const schema = await parseSchema(schemaNode);
+    const output = schema.validate({ pet: { kind: "cat", lives: 10 } });
+
+    const error = bestMatch(output);
+    assert.equal(
+      error?.keywordLocation,
+      "/properties/pet/oneOf/0/properties/lives/maximum",
+    );
+    assert.equal(error?.instanceLocation, "/pet/lives");
+    assert.equal(error?.code, "maximum");
+  });
+
+  void test("prefers the alternative with the fewest failures", async () => {
+    const schema = await parseSchema(schemaNode);
+    const output = schema.validate({ pet: { kind: "dog" } });
+
+    const error = bestMatch(output);
+    assert.equal(error?.keywordLocation, "/properties/pet/oneOf/1/required");
+    assert.deepEqual(error?.params, { missing: ["bark"] });
+  });
+
+  void test("prefers the deepest instance location", async () => {
+    const schema = await parseSchema({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      properties: {
+        a: { properties: { b: { type: "string" } } },
+      },
+      required: ["c"],
+    });
+    const output = schema.validate({ a: { b: 1 } });
+
+    assert.equal(bestMatch(output)?.instanceLocation, "/a/b");
+  });
+});
@@ -0,0 +1,152 @@
+import type { OutputUnit } from "./output.ts";
+
+/**
+ * Error codes of keywords whose errors summarize the errors of alternative
+ * subschemas, rather than describing a root cause.
+ */
+const weakCodes: ReadonlySet<string> = new Set(["anyOf", "oneOf"]);
+
+/**
+ * Error codes of keywords that typically discriminate between alternative
+ * subschemas. A subschema whose discriminating keywords fail most likely
+ * wasn't the alternative the instance intended to match.
+ */
+const discriminatingCodes: ReadonlySet<string> = new Set([
+  "type",
+  "const",
+  "enum",
+]);
+
+/**
+ * Returns the error in the given validation output that most plausibly
+ * describes the root cause of the validation failure, or `undefined`
+ * if the output is valid.
+ *
+ * The error tree is descended from the root. Among sibling errors,
+ * errors at the deepest instance location are preferred, followed by errors
+ * that don't merely summarize failed alternatives. At each `anyOf` and
+ * `oneOf` error, the alternative most likely intended by the instance is
+ * selected: alternatives whose discriminating `type`, `const`, and `enum`
+ * keywords hold are preferred, followed by alternatives with the fewest
+ * failures, and then by alternatives that fail deepest in the instance.
+ *
+ * Hierarchical output, in the `"detailed"` or `"verbose"` format,
+ * retains the structure needed to select among alternatives.
+ * Flat `"basic"` output can only be ranked by instance location.
+ *
+ * @see [jsonschema.exceptions.best_match](https://python-jsonschema.readthedocs.io/en/stable/api/jsonschema/exceptions/#jsonschema.exceptions.best_match)
+ * @category Output
+ */
+export function bestMatch(output: OutputUnit): OutputUnit | undefined {
+  if (output.valid) {
+    return undefined;
+  }
+  return selectError(output);
+}
+
+/**
+ * Returns the most relevant error at or below the given output unit.
+ */
+function selectError(unit: OutputUnit): OutputUnit {
+  const errors = unit.errors?.filter((error) => !error.valid);
+  if (errors === undefined || errors.length === 0) {
+    return unit;
+  }
+
+  // Descend into the most plausible alternative of a failed combinator.
+  if (unit.code !== undefined && weakCodes.has(unit.code)) {
+    let best: OutputUnit | undefined;
+    let bestRank: readonly number[] | undefined;
+    for (const error of errors) {
+      const rank = rankAlternative(error);
+      if (bestRank === undefined || compareRanks(rank, bestRank) < 0) {
+        best = error;
+        bestRank = rank;
+      }
+    }
+    return selectError(best!);
+  }
+
+  // Select the most relevant root cause among sibling errors.
+  let best: OutputUnit | undefined;
+  let bestRank: readonly number[] | undefined;
+  for (const error of errors) {
+    const cause = selectError(error);
+    const rank = [
+      -pointerDepth(cause.instanceLocation),
+      cause.code !== undefined && weakCodes.has(cause.code) ? 1 : 0,
+    ];
+    if (bestRank === undefined || compareRanks(rank, bestRank) < 0) {
+      best = cause;
+      bestRank = rank;
+    }
+  }
+  return best!;
+}
+
+/**
+ * Returns the rank of an alternative subschema error, where lower ranks
+ * are more plausible.
+ */
+function rankAlternative(unit: OutputUnit): readonly number[] {
+  const leaves: OutputUnit[] = [];
+  collectLeafErrors(unit, leaves);
+
+  let discriminatingCount = 0;
+  let maxDepth = 0;
+  for (const leaf of leaves) {
+    if (leaf.code !== undefined && discriminatingCodes.has(leaf.code)) {
+      discriminatingCount += 1;
+    }
+    maxDepth = Math.max(maxDepth, pointerDepth(leaf.instanceLocation));
+  }
+
+  return [discriminatingCount, leaves.length, -maxDepth];
+}
+
+/**
+ * Accumulates the errors in the given output hierarchy
+ * that have no nested errors.
+ */
+function collectLeafErrors(unit: OutputUnit, leaves: OutputUnit[]): void {
+  if (unit.valid) {
+    return;
+  }
+  const errors = unit.errors;
+  if (errors === undefined || errors.length === 0) {
+    leaves.push(unit);
+    return;
+  }
+  for (const error of errors) {
+    collectLeafErrors(error, leaves);
+  }
+}
+
+/**
+ * Compares two ranks lexicographically.
+ */
+function compareRanks(a: readonly number[], b: readonly number[]): number {
+  for (let i = 0; i < a.length; i += 1) {
+    const delta = a[i]! - b[i]!;
+    if (delta !== 0) {
+      return delta;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Returns the number of reference tokens in a JSON Pointer.
+ */
+function pointerDepth(pointer: string | undefined): number {
+  if (pointer === undefined || pointer.length === 0) {
+    return 0;
+  }
+  let depth = 0;
+  for (let i = 0; i < pointer.length; i += 1) {
+    if (pointer.charCodeAt(i) === 0x2f /* "/" */) {
+      depth += 1;
+    }
+  }
+  return depth;
+}
@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { parseSchema } from "tool-schema";
+
+async function assertEquivalent(
+  schemaNode: unknown,
+  instances: readonly unknown[],
+): Promise<void> {
+  const schema = await parseSchema(schemaNode);
+  const validate = schema.compile();
+  for (const instance of instances) {
+    assert.deepEqual(validate(instance), schema.validate(instance));
+  }
+}
+
+void suite("Compiled schemas", () => {
+  void test("validate boolean schemas", async () => {
+    await assertEquivalent(true, [null, 1, "a", [], {}]);
+    await assertEquivalent(false, [null, 1, "a", [], {}]);
+  });
+
+  void test("validate assertion keywords", async () => {
+    await assertEquivalent(
+      {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        type: ["string", "number"],
+        minimum: 1,
+        exclusiveMaximum: 10,
+        multipleOf: 2,
+        minLength: 2,
+        maxLength: 4,
+        pattern: "^[a-z]+$",
+      },
+      [null, 0, 2, 3, 10, "a", "ab", "abcde", "AB"],
+    );
+    await assertEquivalent(
+      {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        enum: [1, "a", { b: 2 }],
+      },
+      [1, "a", { b: 2 }, { b: 3 }, null],
+    );
+    await assertEquivalent(
+      {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        const: [1, 2],
+      },
+      [[1, 2], [2, 1], null],
+    );
+  });
+
+  void test("validate applicator keywords", async () => {
+    await assertEquivalent(
+      {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          tags: {
+            type: "array",
+            prefixItems: [{ const: "first" }],
+            items: { type: "string" },
+            minItems: 1,
+          },
+        },
+        required: ["name", "tags"],
+        allOf: [{ maxProperties: 3 }, { not: { required: ["forbidden"] } }],
+      },
+      [
+        { name: "a", tags: ["first", "second"] },
+        { name: 1, tags: ["second", 2] },
+        { tags: [] },
+        { name: "a", tags: ["first"], forbidden: true },
+        [],
+      ],
+    );
+  });
+
+  void test("validate annotations and unevaluated keywords", async () => {
+    await assertEquivalent(
+      {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        title: "Test",
+        properties: { a: { description: "A" } },
+        anyOf: [{ properties: { b: true } }, { properties: { c: true } }],
+        unevaluatedProperties: false,
+      },
+      [{ a: 1 }, { a: 1, b: 2 }, { a: 1, d: 3 }],
+    );
+  });
+
+  void test("validate recursive references", async () => {
+    await assertEquivalent(
+      {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        $id: "https://example.com/tree",
+        type: "object",
+        properties: {
+          value: { type: "number" },
+          children: { type: "array", items: { $ref: "#" } },
+        },
+      },
+      [
+        { value: 1, children: [{ value: 2, children: [] }] },
+        { value: 1, children: [{ value: "2" }, { children: [{ value: {} }] }] },
+      ],
+    );
+  });
+
+  void test("validate dynamic references", async () => {
+    await assertEquivalent(
+      {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        $id: "https://example.com/strict-tree",
+        $dynamicAnchor: "node",
+        $ref: "tree",
+        unevaluatedProperties: false,
+        $defs: {
+          tree: {
+            $id: "tree",
+            $dynamicAnchor: "node",
+            type: "object",
+            properties: {
+              data: true,
+              children: { type: "array", items: { $dynamicRef: "#node" } },
+            },
+          },
+        },
+      },
+      [
+        { children: [{ data: 1 }] },
+        { children: [{ daat: 1 }] },
+        { data: 1, extra: 2 },
+      ],
+    );
+  });
+
+  void test("reuse compiled validators", async () => {
+    const schema = await parseSchema({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      required: ["a"],
+    });
+    const validate = schema.compile();
+    assert.equal(validate({ a: 1 }).valid, true);
+    assert.equal(validate({}).valid, false);
+    assert.equal(validate({ a: 1 }).valid, true);
+  });
+});
@@ -0,0 +1,294 @@
+import {
+  ProcessingError,
+  isObject,
+  nestFrame,
+  currentFrame,
+  currentLocation,
+  getResource,
+} from "tool-json";
+import type { SchemaContext, SchemaFrame } from "./context.ts";
+import { createSchemaFrame } from "./context.ts";
+import type { OutputUnit, ErrorCode, ErrorParams } from "./output.ts";
+import {
+  emitOutput,
+  attachFrameError,
+  attachFrameAnnotation,
+} from "./output.ts";
+import { Keyword, AnnotationKeyword } from "./keyword.ts";
+import { isSchemaResource } from "./resource.ts";
+
+/**
+ * A schema node compiled into a validator closure. Validates the instance
+ * of the given schema stack frame, emitting output to the nearest frame
+ * that has an output unit.
+ *
+ * @category Compile
+ */
+export type SchemaValidator = (frame: SchemaFrame) => void;
+
+/**
+ * A keyword node compiled into a validator closure that is pre-bound to
+ * the keyword's value. Receives the stack frame of the schema that contains
+ * the keyword.
+ *
+ * @category Compile
+ */
+export type KeywordValidator = (frame: SchemaFrame) => void;
+
+/**
+ * A function that validates instances against a compiled schema.
+ *
+ * @category Compile
+ */
+export type CompiledValidator = (instance: unknown) => OutputUnit;
+
+/**
+ * Compiles the schema node at the top of the stack into a validator closure.
+ * The compiled validator produces the same output as `validateSchemaResource`,
+ * but without dispatching keywords or pushing stack frames for keywords that
+ * produce no output.
+ *
+ * Compiled validators are cached in their schema resources, so recursive
+ * references compile to direct calls of the referenced validator.
+ *
+ * @category Compile
+ * @internal
+ */
+export function compileSchemaResource(context: SchemaContext): SchemaValidator {
+  // Get the schema node from the top of the stack.
+  const frame = currentFrame(context) as SchemaFrame;
+  const node = frame.node;
+
+  // Compile boolean schemas.
+  if (node === true) {
+    return validateTrue;
+  } else if (node === false) {
+    return (frame: SchemaFrame): void => {
+      attachFrameError(context, frame, "never valid", "falseSchema", {});
+    };
+  }
+
+  // Ensure the schema is an object.
+  if (!isObject(node)) {
+    throw new ProcessingError("Unexpected schema node", {
+      location: currentLocation(context),
+    });
+  }
+
+  // Get the JSON resource associated with the schema node.
+  const resource = getResource(context, node);
+  if (!isSchemaResource(resource)) {
+    throw new ProcessingError("Uninitialized schema resource", {
+      location: currentLocation(context),
+    });
+  }
+
+  // Return the cached validator, if the schema has already been compiled.
+  if (resource.validator !== undefined) {
+    return resource.validator;
+  }
+
+  // Use the base URI of the schema as the base URI for the frame.
+  const baseUri = resource.baseUri;
+  if (frame.baseUri === undefined) {
+    frame.baseUri = baseUri;
+  }
+
+  // Cache a trampoline to the validator so that recursive references
+  // resolve while the schema's keywords are being compiled.
+  let validator: SchemaValidator | undefined;
+  resource.validator = (frame: SchemaFrame): void => {
+    validator!(frame);
+  };
+
+  // Compile the schema's keywords in dependency order.
+  const validators: KeywordValidator[] = [];
+  for (const keyword of resource.keys!) {
+    const keywordValidator = nestFrame(
+      context,
+      (frame: SchemaFrame): KeywordValidator | undefined => {
+        frame.nodeKey = keyword.key;
+        frame.node = node[keyword.key];
+        return compileKeyword(context, keyword);
+      },
+    );
+    if (keywordValidator !== undefined) {
+      validators.push(keywordValidator);
+    }
+  }
+
+  validator = (frame: SchemaFrame): void => {
+    if (frame.baseUri === undefined) {
+      frame.baseUri = baseUri;
+    }
+    for (let i = 0; i < validators.length; i += 1) {
+      validators[i]!(frame);
+    }
+  };
+
+  // Replace the trampoline with the compiled validator.
+  resource.validator = validator;
+
+  return validator;
+}
+
+/**
+ * Returns the compiled validator for the given subschema node, compiling
+ * the subschema in a nested stack frame if it hasn't already been compiled.
+ *
+ * @category Compile
+ * @internal
+ */
+export function compileSchemaNode(
+  context: SchemaContext,
+  node: unknown,
+  nodeKey?: string | number,
+): SchemaValidator {
+  return nestFrame(context, (frame: SchemaFrame): SchemaValidator => {
+    frame.nodeKey = nodeKey;
+    frame.node = node;
+    return compileSchemaResource(context);
+  });
+}
+
+/**
+ * Compiles the keyword node at the top of the stack. Returns `undefined`
+ * if the keyword never produces validation output.
+ *
+ * Keywords that don't implement `compile` are evaluated by their `validate`
+ * method in a stack frame equivalent to the one the interpreter would use.
+ *
+ * @category Compile
+ * @internal
+ */
+export function compileKeyword(
+  context: SchemaContext,
+  keyword: Keyword,
+): KeywordValidator | undefined {
+  if (keyword.compile !== undefined) {
+    return keyword.compile(context);
+  }
+
+  // Skip keywords with no validation behavior.
+  if (keyword.validate === Keyword.prototype.validate) {
+    return undefined;
+  }
+
+  const key = keyword.key;
+  const node = (currentFrame(context) as SchemaFrame).node;
+
+  // Annotation keywords annotate their own value.
+  if (keyword.validate === AnnotationKeyword.prototype.validate) {
+    return (frame: SchemaFrame): void => {
+      emitKeywordAnnotation(context, frame, key, node, node);
+    };
+  }
+
+  // Interpret all other keywords.
+  return (frame: SchemaFrame): void => {
+    const keywordFrame = createKeywordFrame(frame, key, node);
+    const stack = context.stack;
+    context.stack = keywordFrame;
+    try {
+      keyword.validate(context);
+    } finally {
+      context.stack = stack;
+    }
+    emitOutput(context, keywordFrame);
+  };
+}
+
+/**
+ * A compiled validator for the `true` schema.
+ */
+function validateTrue(frame: SchemaFrame): void {
+  // nop
+}
+
+/**
+ * Creates a stack frame for evaluating the keyword `key` of the schema
+ * being evaluated in the given schema frame.
+ *
+ * @category Compile
+ * @internal
+ */
+export function createKeywordFrame(
+  frame: SchemaFrame,
+  key: string,
+  node: unknown,
+): SchemaFrame {
+  const keywordFrame = createSchemaFrame(frame);
+  keywordFrame.nodeKey = key;
+  keywordFrame.node = node;
+  keywordFrame.instance = frame.instance;
+  keywordFrame.output = { valid: true };
+  return keywordFrame;
+}
+
+/**
+ * Creates a stack frame for applying a subschema to an instance.
+ * Subschema frames are initialized with an output unit, unless `output`
+ * is `false`, in which case output is emitted to the nearest ancestor frame.
+ *
+ * @category Compile
+ * @internal
+ */
+export function createSubschemaFrame(
+  parent: SchemaFrame,
+  nodeKey: string | number | undefined,
+  node: unknown,
+  instanceKey: string | number | undefined,
+  instance: unknown,
+  output: boolean = true,
+): SchemaFrame {
+  const frame = createSchemaFrame(parent);
+  frame.nodeKey = nodeKey;
+  frame.node = node;
+  frame.instanceKey = instanceKey;
+  frame.instance = instance;
+  if (output) {
+    frame.output = { valid: true };
+  }
+  return frame;
+}
+
+/**
+ * Attaches an error, identified by an optional error `code` with its
+ * associated `params`, to the keyword `key` of the schema being evaluated
+ * in the given schema frame, and emits the keyword's output.
+ *
+ * @category Compile
+ * @internal
+ */
+export function emitKeywordError<Code extends ErrorCode>(
+  context: SchemaContext,
+  frame: SchemaFrame,
+  key: string,
+  node: unknown,
+  message: string,
+  code?: Code,
+  params?: ErrorParams[Code],
+): void {
+  const keywordFrame = createKeywordFrame(frame, key, node);
+  attachFrameError(context, keywordFrame, message, code, params);
+  emitOutput(context, keywordFrame);
+}
+
+/**
+ * Attaches an annotation to the keyword `key` of the schema being evaluated
+ * in the given schema frame, and emits the keyword's output.
+ *
+ * @category Compile
+ * @internal
+ */
+export function emitKeywordAnnotation(
+  context: SchemaContext,
+  frame: SchemaFrame,
+  key: string,
+  node: unknown,
+  value: unknown,
+): void {
+  const keywordFrame = createKeywordFrame(frame, key, node);
+  attachFrameAnnotation(context, keywordFrame, value);
+  emitOutput(context, keywordFrame);
+}
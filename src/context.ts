@@ -7,9 +7,16 @@ import {
   currentPointer,
   currentLocation,
 } from "tool-json";
-import type { OutputUnit } from "./output.ts";
+import type { ValidationError } from "./error.ts";
+import type { OutputUnit, OutputFormat } from "./output.ts";
+import type { EvaluationNode } from "./evaluation.ts";
 import type { Format } from "./format.ts";
+import type { MessageCatalog } from "./message.ts";
 import type { Dialect } from "./dialect.ts";
+import type { StrictOptions, SchemaWarning } from "./strict.ts";
+import type { ResourceLoader } from "./loader.ts";
+import type { Schema } from "./schema.ts";
+import { strictOptions } from "./strict.ts";
 
 /**
  * A context for JSON Schema processing.
@@ -58,12 +65,93 @@ export interface SchemaContext extends Context {
    */
   validation: "strict" | true | false | undefined;
 
+  /**
+   * Whether to enforce OpenAPI `discriminator` keywords, evaluating only
+   * the `oneOf` or `anyOf` subschema selected by an instance's discriminating
+   * property. Discriminators are only annotations by default.
+   */
+  discriminator: boolean | undefined;
+
+  /**
+   * The locale in which to render error messages, such as `"de"` or
+   * `"pt-BR"`. Error messages are rendered in English by default.
+   */
+  locale: string | undefined;
+
+  /**
+   * Message catalogs to use when rendering error messages,
+   * keyed by locale.
+   * @readonly
+   */
+  catalogs: ReadonlyMap<string, MessageCatalog> | undefined;
+
+  /**
+   * The policies of strict mode checks to apply when parsing schemas,
+   * or `undefined` if strict mode is disabled.
+   */
+  strict: StrictOptions | undefined;
+
+  /**
+   * A callback that receives the warnings of strict mode checks
+   * with the `"warn"` policy.
+   */
+  onWarning: ((warning: SchemaWarning) => void) | undefined;
+
+  /**
+   * A function to load external resources referenced by parsed schemas
+   * that aren't registered in this context.
+   */
+  loadResource: ResourceLoader | undefined;
+
+  /**
+   * URI prefixes and patterns of the external resources that may be loaded,
+   * or `undefined` to permit loading any resource.
+   * @readonly
+   */
+  allowedResources: readonly (string | RegExp)[] | undefined;
+
+  /**
+   * The errors of keywords that failed to parse, if schemas are being
+   * parsed in tolerant mode. Parse errors are thrown otherwise.
+   * @internal
+   */
+  diagnostics: ValidationError[] | undefined;
+
+  /**
+   * Whether schemas are being evaluated in flag mode, which stops at the
+   * first failing keyword and skips collecting annotations that aren't
+   * required to determine the validation result.
+   * @internal
+   */
+  flag: boolean | undefined;
+
+  /**
+   * The output format produced by the current schema evaluation, if any.
+   * Output units aren't collapsed when producing verbose output.
+   * @internal
+   */
+  outputFormat: OutputFormat | undefined;
+
+  /**
+   * The evaluation node of the schema currently being evaluated,
+   * if evaluation output is being recorded.
+   * @internal
+   */
+  evaluation: EvaluationNode | undefined;
+
   /**
    * A cache of compiled regular expressions.
    * @readonly
    * @internal
    */
   patternCache: Map<string, RegExp> | undefined;
+
+  /**
+   * A cache of the meta-schemas used to validate schemas, keyed by dialect.
+   * @readonly
+   * @internal
+   */
+  metaSchemaCache: Map<Dialect, Schema> | undefined;
 }
 
 /**
@@ -94,6 +182,52 @@ export interface SchemaContextOptions extends ContextOptions {
    * - `"strict"`: validate all formats, failing on unknown formats
    */
   validation?: "strict" | true | false | undefined;
+
+  /**
+   * Whether to enforce OpenAPI `discriminator` keywords, evaluating only
+   * the `oneOf` or `anyOf` subschema selected by an instance's discriminating
+   * property. Discriminators are only annotations by default.
+   */
+  discriminator?: boolean | undefined;
+
+  /**
+   * The locale in which to render error messages, such as `"de"` or
+   * `"pt-BR"`. Error messages are rendered in English by default.
+   */
+  locale?: string | undefined;
+
+  /**
+   * Message catalogs to use when rendering error messages.
+   */
+  catalogs?:
+    readonly MessageCatalog[] | ReadonlyMap<string, MessageCatalog> | undefined;
+
+  /**
+   * Whether to reject schemas that are valid, but likely mistaken,
+   * such as schemas with misspelled keywords. `true` rejects every
+   * strict mode violation; an object configures the policy of each check.
+   * Strict mode is disabled by default.
+   */
+  strict?: boolean | StrictOptions | undefined;
+
+  /**
+   * A callback that receives the warnings of strict mode checks
+   * with the `"warn"` policy.
+   */
+  onWarning?: ((warning: SchemaWarning) => void) | undefined;
+
+  /**
+   * A function to load external resources referenced by parsed schemas
+   * that aren't registered in the context, such as `loadFileResource`,
+   * or a loader returned by `createMemoryLoader`.
+   */
+  loadResource?: ResourceLoader | undefined;
+
+  /**
+   * URI prefixes and patterns of the external resources that may be loaded.
+   * Any resource may be loaded by default.
+   */
+  allowedResources?: readonly (string | RegExp)[] | undefined;
 }
 
 /**
@@ -118,6 +252,39 @@ export function initSchemaContext(
   if (!("validation" in context)) {
     context.validation = undefined;
   }
+  if (!("discriminator" in context)) {
+    context.discriminator = undefined;
+  }
+  if (!("locale" in context)) {
+    context.locale = undefined;
+  }
+  if (!("catalogs" in context)) {
+    context.catalogs = undefined;
+  }
+  if (!("strict" in context)) {
+    context.strict = undefined;
+  }
+  if (!("onWarning" in context)) {
+    context.onWarning = undefined;
+  }
+  if (!("loadResource" in context)) {
+    context.loadResource = undefined;
+  }
+  if (!("allowedResources" in context)) {
+    context.allowedResources = undefined;
+  }
+  if (!("diagnostics" in context)) {
+    context.diagnostics = undefined;
+  }
+  if (!("flag" in context)) {
+    context.flag = undefined;
+  }
+  if (!("outputFormat" in context)) {
+    context.outputFormat = undefined;
+  }
+  if (!("evaluation" in context)) {
+    context.evaluation = undefined;
+  }
 
   // Configure the stack frame factory.
   if (context.createFrame === undefined) {
@@ -172,6 +339,55 @@ export function initSchemaContext(
     context.validation = options.validation;
   }
 
+  // Configure discriminator enforcement.
+  if (options?.discriminator !== undefined) {
+    context.discriminator = options.discriminator;
+  }
+
+  // Configure the locale of error messages.
+  if (options?.locale !== undefined) {
+    context.locale = options.locale;
+  }
+
+  // Configure additional message catalogs.
+  if (options?.catalogs !== undefined) {
+    if (isArray(options.catalogs)) {
+      const catalogs = new Map<string, MessageCatalog>(context.catalogs);
+      for (const catalog of options.catalogs) {
+        catalogs.set(catalog.locale, catalog);
+      }
+      context.catalogs = catalogs;
+    } else if (context.catalogs !== undefined) {
+      const catalogs = new Map<string, MessageCatalog>(context.catalogs);
+      for (const [locale, catalog] of options.catalogs.entries()) {
+        catalogs.set(locale, catalog);
+      }
+      context.catalogs = catalogs;
+    } else {
+      context.catalogs = options.catalogs;
+    }
+  }
+
+  // Configure strict mode.
+  if (options?.strict !== undefined) {
+    context.strict = strictOptions(options.strict);
+  }
+
+  // Configure the strict mode warning callback.
+  if (options?.onWarning !== undefined) {
+    context.onWarning = options.onWarning;
+  }
+
+  // Configure the external resource loader.
+  if (options?.loadResource !== undefined) {
+    context.loadResource = options.loadResource;
+  }
+
+  // Configure the external resources that may be loaded.
+  if (options?.allowedResources !== undefined) {
+    context.allowedResources = options.allowedResources;
+  }
+
   return context as SchemaContext;
 }
 
@@ -241,6 +457,13 @@ export interface SchemaFrame extends Frame {
    * The output unit for the schema node being processed in this stack frame.
    */
   output?: OutputUnit | undefined;
+
+  /**
+   * Whether annotations produced at this stack frame are required
+   * to determine the validation result, if known.
+   * @internal
+   */
+  annotate?: boolean | undefined;
 }
 
 /**
@@ -254,6 +477,7 @@ export function createSchemaFrame(parent?: SchemaFrame): SchemaFrame {
   frame.instanceKey = undefined;
   frame.instance = undefined;
   frame.output = undefined;
+  frame.annotate = undefined;
   return frame;
 }
 
@@ -0,0 +1,47 @@
+import { $schemaKeyword, $refKeyword } from "../draft-2020-12/core.ts";
+import { idKeyword } from "../draft-05/core.ts";
+
+/**
+ * A JSON Schema that uses the Draft 03 Core vocabulary.
+ *
+ * @see [JSON Schema Draft 03](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03)
+ * @category Vocabularies
+ */
+export interface CoreVocabulary {
+  /**
+   * A URI identifying the JSON Schema dialect used for validation.
+   * Should be used only in the root schema.
+   *
+   * @see [JSON Schema §5.29](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.29)
+   */
+  readonly $schema?: string;
+
+  /**
+   * A URI-reference to the schema to include. Resolves to a full schema
+   * which replaces the `$ref` at its location.
+   *
+   * @see [JSON Schema §5.28](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.28)
+   */
+  readonly $ref?: string;
+
+  /**
+   * A URI for identifying and resolving references to the schema.
+   *
+   * @see [JSON Schema §5.27](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.27)
+   */
+  readonly id?: string;
+}
+
+/**
+ * The JSON Schema Draft 03 Core vocabulary.
+ *
+ * @see [JSON Schema Draft 03](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03)
+ * @category Vocabularies
+ */
+export const coreVocabulary = {
+  keywords: {
+    $schema: $schemaKeyword,
+    id: idKeyword,
+    $ref: $refKeyword,
+  },
+} as const;
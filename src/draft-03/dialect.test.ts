@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { parseSchema } from "tool-schema";
+
+void suite("Draft 03", () => {
+  void test("supports type assertions", async () => {
+    const schema = await parseSchema({
+      $schema: "http://json-schema.org/draft-03/schema#",
+      type: "string",
+    });
+    assert(schema.validate("hello").valid);
+    assert(!schema.validate(1).valid);
+  });
+
+  void test("supports union types containing schemas", async () => {
+    const schema = await parseSchema({
+      $schema: "http://json-schema.org/draft-03/schema#",
+      type: ["null", { type: "string", minLength: 2 }],
+    });
+    assert(schema.validate(null).valid);
+    assert(schema.validate("ok").valid);
+    assert(!schema.validate("x").valid);
+    assert(!schema.validate(1).valid);
+  });
+
+  void test("supports required properties", async () => {
+    const schema = await parseSchema({
+      $schema: "http://json-schema.org/draft-03/schema#",
+      properties: {
+        name: { type: "string", required: true },
+        age: { type: "integer" },
+      },
+      additionalProperties: false,
+    });
+    assert(schema.validate({ name: "a", age: 1 }).valid);
+
+    const output = schema.validate({ age: 1 }, { output: "basic" });
+    assert(!output.valid);
+    const locations = output.errors?.map((unit) => unit.keywordLocation);
+    assert.equal(locations?.includes("/properties/name/required"), true);
+    assert.equal(locations?.includes("/additionalProperties"), false);
+  });
+
+  void test("supports disallow", async () => {
+    const schema = await parseSchema({
+      $schema: "http://json-schema.org/draft-03/schema#",
+      disallow: ["string", { type: "number", minimum: 10 }],
+    });
+    assert(schema.validate(5).valid);
+    assert(!schema.validate("a").valid);
+    assert(!schema.validate(20).valid);
+  });
+
+  void test("supports extends", async () => {
+    const schema = await parseSchema({
+      $schema: "http://json-schema.org/draft-03/schema#",
+      extends: { type: "integer" },
+      divisibleBy: 3,
+    });
+    assert(schema.validate(9).valid);
+    assert(!schema.validate(10).valid);
+    assert(!schema.validate(4.5).valid);
+  });
+
+  void test("supports string dependencies", async () => {
+    const schema = await parseSchema({
+      $schema: "http://json-schema.org/draft-03/schema#",
+      dependencies: { bar: "foo" },
+    });
+    assert(schema.validate({ foo: 1, bar: 2 }).valid);
+    assert(!schema.validate({ bar: 2 }).valid);
+  });
+});
@@ -0,0 +1,175 @@
+import type { Format } from "../format.ts";
+import type { Dialect } from "../dialect.ts";
+import * as formats from "../format/mod.ts";
+import type { CoreVocabulary } from "./core.ts";
+import { coreVocabulary } from "./core.ts";
+import type { ValidationVocabulary } from "./validation.ts";
+import { validationVocabulary } from "./validation.ts";
+
+/**
+ * A JSON Schema that uses the Draft 03 dialect.
+ *
+ * @see [JSON Schema Draft 03](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03)
+ * @category Dialect
+ */
+export interface Schema extends CoreVocabulary, ValidationVocabulary<Schema> {}
+
+/**
+ * The JSON Schema Draft 03 dialect.
+ *
+ * @category Dialect
+ */
+export const dialect = {
+  uri: "http://json-schema.org/draft-03/schema#",
+
+  formats: formats as { readonly [format: string]: Format },
+
+  keywords: {
+    ...coreVocabulary.keywords,
+    ...validationVocabulary.keywords,
+  },
+
+  vocabularies: {},
+
+  node: {
+    $schema: "http://json-schema.org/draft-03/schema#",
+    id: "http://json-schema.org/draft-03/schema#",
+    type: "object",
+    properties: {
+      type: {
+        type: ["string", "array"],
+        items: {
+          type: ["string", { $ref: "#" }],
+        },
+        uniqueItems: true,
+        default: "any",
+      },
+      properties: {
+        type: "object",
+        additionalProperties: { $ref: "#", type: "object" },
+        default: {},
+      },
+      patternProperties: {
+        type: "object",
+        additionalProperties: { $ref: "#" },
+        default: {},
+      },
+      additionalProperties: {
+        type: [{ $ref: "#" }, "boolean"],
+        default: {},
+      },
+      items: {
+        type: [{ $ref: "#" }, "array"],
+        items: { $ref: "#" },
+        default: {},
+      },
+      additionalItems: {
+        type: [{ $ref: "#" }, "boolean"],
+        default: {},
+      },
+      required: {
+        type: "boolean",
+        default: false,
+      },
+      dependencies: {
+        type: "object",
+        additionalProperties: {
+          type: ["string", "array", { $ref: "#" }],
+          items: {
+            type: "string",
+          },
+        },
+        default: {},
+      },
+      minimum: {
+        type: "number",
+      },
+      maximum: {
+        type: "number",
+      },
+      exclusiveMinimum: {
+        type: "boolean",
+        default: false,
+      },
+      exclusiveMaximum: {
+        type: "boolean",
+        default: false,
+      },
+      minItems: {
+        type: "integer",
+        minimum: 0,
+        default: 0,
+      },
+      maxItems: {
+        type: "integer",
+        minimum: 0,
+      },
+      uniqueItems: {
+        type: "boolean",
+        default: false,
+      },
+      pattern: {
+        type: "string",
+        format: "regex",
+      },
+      minLength: {
+        type: "integer",
+        minimum: 0,
+        default: 0,
+      },
+      maxLength: {
+        type: "integer",
+      },
+      enum: {
+        type: "array",
+        minItems: 1,
+        uniqueItems: true,
+      },
+      default: {
+        type: "any",
+      },
+      title: {
+        type: "string",
+      },
+      description: {
+        type: "string",
+      },
+      format: {
+        type: "string",
+      },
+      divisibleBy: {
+        type: "number",
+        minimum: 0,
+        exclusiveMinimum: true,
+        default: 1,
+      },
+      disallow: {
+        type: ["string", "array"],
+        items: {
+          type: ["string", { $ref: "#" }],
+        },
+        uniqueItems: true,
+      },
+      extends: {
+        type: [{ $ref: "#" }, "array"],
+        items: { $ref: "#" },
+        default: {},
+      },
+      id: {
+        type: "string",
+      },
+      $ref: {
+        type: "string",
+      },
+      $schema: {
+        type: "string",
+        format: "uri",
+      },
+    },
+    dependencies: {
+      exclusiveMinimum: "minimum",
+      exclusiveMaximum: "maximum",
+    },
+    default: {},
+  },
+} as const satisfies Dialect;
@@ -0,0 +1,18 @@
+export type { CoreVocabulary } from "./core.ts";
+export { coreVocabulary } from "./core.ts";
+
+export type { SimpleType, ValidationVocabulary } from "./validation.ts";
+export {
+  typeKeyword,
+  disallowKeyword,
+  extendsKeyword,
+  divisibleByKeyword,
+  requiredKeyword,
+  propertiesKeyword,
+  additionalPropertiesKeyword,
+  dependenciesKeyword,
+  validationVocabulary,
+} from "./validation.ts";
+
+export type { Schema } from "./dialect.ts";
+export { dialect } from "./dialect.ts";
@@ -0,0 +1,1200 @@
+import type { NodeType } from "tool-json";
+import {
+  referToType,
+  isInteger,
+  isArray,
+  isObject,
+  isType,
+  nestFrame,
+  currentFrame,
+  currentLocation,
+} from "tool-json";
+import { ValidationError } from "../error.ts";
+import type { SchemaContext, SchemaFrame } from "../context.ts";
+import { cachePattern } from "../context.ts";
+import {
+  emitOutput,
+  attachError,
+  saveCheckpoint,
+  restoreCheckpoint,
+} from "../output.ts";
+import { Keyword } from "../keyword.ts";
+import type { ModuleGenerator } from "../generate.ts";
+import {
+  generateSchemaNode,
+  generateError,
+  generateAssertion,
+  generateApply,
+  declareConstant,
+  declareHelper,
+  indent,
+} from "../generate.ts";
+import { parseSchemaResource, validateSchemaResource } from "../resource.ts";
+import {
+  propertiesKeyword as propertiesKeyword202012,
+  patternPropertiesKeyword,
+  additionalPropertiesKeyword as additionalPropertiesKeyword202012,
+} from "../draft-2020-12/applicator.ts";
+import {
+  enumKeyword,
+  maxLengthKeyword,
+  minLengthKeyword,
+  patternKeyword,
+  maxItemsKeyword,
+  minItemsKeyword,
+  uniqueItemsKeyword,
+  getType,
+} from "../draft-2020-12/validation.ts";
+import { formatAnnotationKeyword } from "../draft-2020-12/format-annotation.ts";
+import {
+  titleKeyword,
+  descriptionKeyword,
+  defaultKeyword,
+} from "../draft-2020-12/meta-data.ts";
+import {
+  itemsKeyword,
+  additionalItemsKeyword,
+} from "../draft-07/validation.ts";
+import {
+  maximumKeyword,
+  exclusiveMaximumKeyword,
+  minimumKeyword,
+  exclusiveMinimumKeyword,
+} from "../draft-05/validation.ts";
+
+declare module "../output.ts" {
+  interface ErrorParams {
+    /** The instance of the `actual` type matches a disallowed type. */
+    disallow: { readonly actual: NodeType };
+  }
+}
+
+/**
+ * A Draft 03 simple type name. The `"any"` type matches all instances.
+ *
+ * @see [JSON Schema §5.1](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.1)
+ * @category Vocabularies
+ */
+export type SimpleType = NodeType | "any";
+
+/**
+ * A JSON Schema that uses the Draft 03 Validation vocabulary.
+ *
+ * @see [JSON Schema Draft 03](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03)
+ * @category Vocabularies
+ */
+export interface ValidationVocabulary<Schema> {
+  /**
+   * The allowed types of valid instances. Union type arrays may contain
+   * schemas, which are allowed if the instance is valid against them.
+   *
+   * @see [JSON Schema §5.1](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.1)
+   */
+  readonly type?: SimpleType | readonly (SimpleType | Schema)[];
+
+  /**
+   * Schemas for validating the properties of object instances.
+   *
+   * @see [JSON Schema §5.2](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.2)
+   */
+  readonly properties?: { readonly [key: string]: Schema };
+
+  /**
+   * Schemas for properties matching regex patterns.
+   * Patterns should be valid regex as per ECMA-262.
+   *
+   * @see [JSON Schema §5.3](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.3)
+   */
+  readonly patternProperties?: { readonly [key: string]: Schema };
+
+  /**
+   * A schema for properties not matched by `properties` or `patternProperties`,
+   * or `false` to disallow additional properties.
+   *
+   * @see [JSON Schema §5.4](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.4)
+   */
+  readonly additionalProperties?: Schema | boolean;
+
+  /**
+   * A schema or array of schemas to validate items in array instances.
+   *
+   * @see [JSON Schema §5.5](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.5)
+   */
+  readonly items?: Schema | readonly Schema[];
+
+  /**
+   * A schema to validate items beyond those covered by `items`,
+   * when `items` is an array, or `false` to disallow additional items.
+   *
+   * @see [JSON Schema §5.6](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.6)
+   */
+  readonly additionalItems?: Schema | boolean;
+
+  /**
+   * Indicates that the property described by this schema
+   * must be present in its parent object instance.
+   *
+   * @see [JSON Schema §5.7](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.7)
+   */
+  readonly required?: boolean;
+
+  /**
+   * Property dependencies. If a key is present, its dependencies must
+   * be satisfied.
+   *
+   * @see [JSON Schema §5.8](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.8)
+   */
+  readonly dependencies?: {
+    readonly [key: string]: string | readonly string[] | Schema;
+  };
+
+  /**
+   * The lower bound for numeric instances.
+   *
+   * @see [JSON Schema §5.9](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.9)
+   */
+  readonly minimum?: number;
+
+  /**
+   * The upper bound for numeric instances.
+   *
+   * @see [JSON Schema §5.10](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.10)
+   */
+  readonly maximum?: number;
+
+  /**
+   * Indicates that `minimum` is an exclusive lower bound.
+   *
+   * @see [JSON Schema §5.11](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.11)
+   */
+  readonly exclusiveMinimum?: boolean;
+
+  /**
+   * Indicates that `maximum` is an exclusive upper bound.
+   *
+   * @see [JSON Schema §5.12](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.12)
+   */
+  readonly exclusiveMaximum?: boolean;
+
+  /**
+   * The minimum number of items required in array instances.
+   *
+   * @see [JSON Schema §5.13](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.13)
+   */
+  readonly minItems?: number;
+
+  /**
+   * The maximum number of items allowed in array instances.
+   *
+   * @see [JSON Schema §5.14](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.14)
+   */
+  readonly maxItems?: number;
+
+  /**
+   * Indicates that all items in array instances must be unique.
+   *
+   * @see [JSON Schema §5.15](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.15)
+   */
+  readonly uniqueItems?: boolean;
+
+  /**
+   * A regular expression pattern that string instances must match.
+   *
+   * @see [JSON Schema §5.16](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.16)
+   */
+  readonly pattern?: string;
+
+  /**
+   * The minimum length of string instances.
+   *
+   * @see [JSON Schema §5.17](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.17)
+   */
+  readonly minLength?: number;
+
+  /**
+   * The maximum length of string instances.
+   *
+   * @see [JSON Schema §5.18](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.18)
+   */
+  readonly maxLength?: number;
+
+  /**
+   * An array of values, to one of which an instance must be equal.
+   *
+   * @see [JSON Schema §5.19](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.19)
+   */
+  readonly enum?: readonly unknown[];
+
+  /**
+   * A default value to use when an instance is not provided.
+   *
+   * @see [JSON Schema §5.20](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.20)
+   */
+  readonly default?: unknown;
+
+  /**
+   * A short description for documentation purposes.
+   *
+   * @see [JSON Schema §5.21](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.21)
+   */
+  readonly title?: string;
+
+  /**
+   * A detailed description for documentation purposes.
+   *
+   * @see [JSON Schema §5.22](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.22)
+   */
+  readonly description?: string;
+
+  /**
+   * Semantic validation for formats like "date-time", "email", etc.
+   *
+   * @see [JSON Schema §5.23](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.23)
+   */
+  readonly format?: string;
+
+  /**
+   * A number by which numeric instances must be divisible with no remainder.
+   * Must not be `0`.
+   *
+   * @see [JSON Schema §5.24](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.24)
+   */
+  readonly divisibleBy?: number;
+
+  /**
+   * The disallowed types of valid instances. Union type arrays may contain
+   * schemas, which are disallowed if the instance is valid against them.
+   *
+   * @see [JSON Schema §5.25](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.25)
+   */
+  readonly disallow?: SimpleType | readonly (SimpleType | Schema)[];
+
+  /**
+   * A schema or array of schemas whose constraints instances
+   * must also satisfy.
+   *
+   * @see [JSON Schema §5.26](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.26)
+   */
+  readonly extends?: Schema | readonly Schema[];
+}
+
+/**
+ * The `type` keyword.
+ *
+ * @see [JSON Schema §5.1](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.1)
+ * @category Keywords
+ */
+export const typeKeyword = {
+  ...Keyword.prototype,
+  key: "type",
+
+  parse(context: SchemaContext): void {
+    parseUnionType(context, "type");
+  },
+
+  validate(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as SimpleType | readonly unknown[];
+    const instance = frame.instance;
+
+    const checkpoint = saveCheckpoint(frame.output);
+
+    // §5.1 ¶1: An instance validates successfully if its type matches
+    // one of the types in the union, or if it is valid against one of
+    // the schemas in the union.
+    let valid = false;
+    if (typeof node === "string") {
+      valid = matchesType(node, instance);
+    } else {
+      for (let index = 0; index < node.length && !valid; index += 1) {
+        const type = node[index];
+        if (typeof type === "string") {
+          valid = matchesType(type, instance);
+          continue;
+        }
+        nestFrame(context, (frame: SchemaFrame): void => {
+          frame.nodeKey = index;
+          frame.node = type;
+          frame.instance = instance;
+          frame.output = { valid: true };
+          validateSchemaResource(context);
+          valid = frame.output.valid;
+          emitOutput(context, frame);
+        });
+      }
+    }
+
+    if (!valid) {
+      const types: readonly unknown[] =
+        typeof node === "string" ? [node] : node;
+      attachError(context, typeMessage(types), "type", {
+        expected: types.filter(
+          (type): type is NodeType => typeof type === "string",
+        ),
+        actual: getType(instance),
+      });
+      return;
+    }
+
+    restoreCheckpoint(checkpoint);
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as SimpleType | readonly unknown[];
+
+    if (typeof node === "string") {
+      return generateAssertion(
+        context,
+        "!(" + generateTypeCheck(node) + ")",
+        typeMessage([node]),
+      );
+    }
+
+    let source = "const typeErrors = [];\n";
+    source += "let typeValid = false;\n";
+    for (let index = 0; index < node.length; index += 1) {
+      const type = node[index];
+      if (typeof type === "string") {
+        source += "if (" + generateTypeCheck(type) + ") {\n";
+        source += "  typeValid = true;\n";
+        source += "}\n";
+        continue;
+      }
+      const validator = generateSchemaNode(context, generator, type, index);
+      source += "if (!typeValid && ";
+      source += generateApply(
+        validator,
+        "instance",
+        "location",
+        "createEvaluated()",
+        "typeErrors",
+      );
+      source += ") {\n";
+      source += "  typeValid = true;\n";
+      source += "}\n";
+    }
+    source += "if (!typeValid) {\n";
+    source += "  errors.push(...typeErrors);\n";
+    source += indent(generateError(context, JSON.stringify(typeMessage(node))));
+    source += "\n}";
+    return source;
+  },
+} as const satisfies Keyword<SimpleType | readonly unknown[]>;
+
+/**
+ * The `disallow` keyword.
+ *
+ * @see [JSON Schema §5.25](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.25)
+ * @category Keywords
+ */
+export const disallowKeyword = {
+  ...Keyword.prototype,
+  key: "disallow",
+
+  parse(context: SchemaContext): void {
+    parseUnionType(context, "disallow");
+  },
+
+  validate(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as SimpleType | readonly unknown[];
+    const instance = frame.instance;
+
+    // §5.25 ¶1: If the instance matches any type or schema in the union,
+    // then this instance is not valid.
+    const types: readonly unknown[] = typeof node === "string" ? [node] : node;
+    for (let index = 0; index < types.length; index += 1) {
+      const type = types[index];
+      let disallowed: boolean;
+      if (typeof type === "string") {
+        disallowed = matchesType(type, instance);
+      } else {
+        disallowed = nestFrame(context, (frame: SchemaFrame): boolean => {
+          frame.nodeKey = index;
+          frame.node = type;
+          frame.instance = instance;
+          frame.output = { valid: true };
+          validateSchemaResource(context);
+          return frame.output.valid;
+        });
+      }
+      if (disallowed) {
+        attachError(context, disallowMessage(type), "disallow", {
+          actual: getType(instance),
+        });
+        return;
+      }
+    }
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as SimpleType | readonly unknown[];
+
+    const types: readonly unknown[] = typeof node === "string" ? [node] : node;
+    let source = "";
+    for (let index = 0; index < types.length; index += 1) {
+      const type = types[index];
+      let disallowed: string;
+      if (typeof type === "string") {
+        disallowed = generateTypeCheck(type);
+      } else {
+        const validator = generateSchemaNode(context, generator, type, index);
+        disallowed = generateApply(
+          validator,
+          "instance",
+          "location",
+          "createEvaluated()",
+          "[]",
+        );
+      }
+      if (index !== 0) {
+        source += " else ";
+      }
+      source += "if (" + disallowed + ") {\n";
+      source += indent(
+        generateError(context, JSON.stringify(disallowMessage(type))),
+      );
+      source += "\n}";
+    }
+    return source;
+  },
+} as const satisfies Keyword<SimpleType | readonly unknown[]>;
+
+/**
+ * Ensures that the keyword node at the top of the stack is a simple type
+ * name, or a union array of simple type names and schemas.
+ */
+function parseUnionType(context: SchemaContext, key: string): void {
+  const frame = currentFrame(context) as SchemaFrame;
+  const node = frame.node;
+
+  // §5.1 ¶1: A string or an array.
+  if (typeof node === "string") {
+    return;
+  }
+  if (!isArray(node)) {
+    throw new ValidationError(
+      JSON.stringify(key) + " must be a string or an array",
+      { location: currentLocation(context) },
+    );
+  }
+
+  // §5.1 ¶2: An array with each element a simple type name or a schema.
+  for (let index = 0; index < node.length; index += 1) {
+    const type = node[index];
+    if (typeof type === "string") {
+      continue;
+    }
+    if (!isObject(type)) {
+      throw new ValidationError(
+        JSON.stringify(key) + " array elements must be type names or schemas",
+        { location: currentLocation(context) },
+      );
+    }
+    nestFrame(context, (frame: SchemaFrame): void => {
+      frame.nodeKey = index;
+      frame.node = type;
+      parseSchemaResource(context);
+    });
+  }
+}
+
+/**
+ * Returns `true` if the given instance matches the named simple type.
+ */
+function matchesType(type: string, instance: unknown): boolean {
+  switch (type) {
+    case "null":
+    case "boolean":
+    case "integer":
+    case "number":
+    case "string":
+    case "array":
+    case "object":
+      return isType(type, instance);
+    default:
+      // §5.1 ¶2: If the property is not defined or is not in this list,
+      // then any type of value is acceptable.
+      return true;
+  }
+}
+
+/**
+ * Returns a JavaScript expression that checks whether `instance`
+ * matches the named simple type.
+ */
+function generateTypeCheck(type: string): string {
+  switch (type) {
+    case "null":
+      return "instance === null";
+    case "boolean":
+      return 'typeof instance === "boolean"';
+    case "integer":
+      return "Number.isInteger(instance)";
+    case "number":
+      return 'typeof instance === "number"';
+    case "string":
+      return 'typeof instance === "string"';
+    case "array":
+      return "Array.isArray(instance)";
+    case "object":
+      return "isObject(instance)";
+    default:
+      return "true";
+  }
+}
+
+/**
+ * Returns an error message listing the allowed types of a union.
+ */
+function typeMessage(types: readonly unknown[]): string {
+  const names = types.filter(
+    (type): type is NodeType => typeof type === "string",
+  );
+  const hasSchemas = names.length !== types.length;
+
+  let message = "not ";
+  for (let i = 0; i < names.length; i += 1) {
+    if (i !== 0) {
+      message += i !== names.length - 1 || hasSchemas ? ", " : " or ";
+    }
+    message += referToType(names[i]!);
+  }
+  if (hasSchemas) {
+    message += names.length !== 0 ? " or " : "";
+    message += "valid against any type schema";
+  }
+  return message;
+}
+
+/**
+ * Returns an error message for an instance that matches
+ * the given disallowed type.
+ */
+function disallowMessage(type: unknown): string {
+  if (typeof type !== "string") {
+    return "valid against disallowed schema";
+  }
+  switch (type) {
+    case "null":
+    case "boolean":
+    case "integer":
+    case "number":
+    case "string":
+    case "array":
+    case "object":
+      return "must not be " + referToType(type);
+    default:
+      return "disallowed type " + JSON.stringify(type);
+  }
+}
+
+/**
+ * The `extends` keyword.
+ *
+ * @see [JSON Schema §5.26](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.26)
+ * @category Keywords
+ */
+export const extendsKeyword = {
+  ...Keyword.prototype,
+  key: "extends",
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    // §5.26 ¶1: The value of this property MUST be another schema
+    // which will provide a base schema which the current schema
+    // will inherit from.
+    if (!isArray(node)) {
+      parseSchemaResource(context);
+      return;
+    }
+
+    // §5.26 ¶1: The value of this property MAY also be an array
+    // of schemas, in which case all the schemas must be satisfied.
+    for (let index = 0; index < node.length; index += 1) {
+      const subschema = node[index]!;
+      nestFrame(context, (frame: SchemaFrame): void => {
+        frame.nodeKey = index;
+        frame.node = subschema;
+        parseSchemaResource(context);
+      });
+    }
+  },
+
+  validate(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+    const instance = frame.instance;
+
+    // §5.26 ¶2: An instance MUST be valid against the base schema,
+    // and any constraints of the base schema.
+    if (!isArray(node)) {
+      validateSchemaResource(context);
+      if (frame.output?.valid === false) {
+        attachError(context, "not valid against extended schema", "allOf", {});
+      }
+      return;
+    }
+
+    let valid = true;
+    for (let index = 0; index < node.length; index += 1) {
+      const subschema = node[index]!;
+      nestFrame(context, (frame: SchemaFrame): void => {
+        frame.nodeKey = index;
+        frame.node = subschema;
+        frame.instance = instance;
+        frame.output = { valid: true };
+        validateSchemaResource(context);
+        valid &&= frame.output.valid;
+        emitOutput(context, frame);
+      });
+      if (!valid && context.flag === true) {
+        break;
+      }
+    }
+
+    if (!valid) {
+      attachError(
+        context,
+        "not valid against all extended schemas",
+        "allOf",
+        {},
+      );
+    }
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    if (!isArray(node)) {
+      const validator = generateSchemaNode(context, generator, node);
+      return generateAssertion(
+        context,
+        "!" + generateApply(validator, "instance", "location", "evaluated"),
+        "not valid against extended schema",
+      );
+    }
+
+    let source = "let extendsValid = true;\n";
+    for (let index = 0; index < node.length; index += 1) {
+      const validator = generateSchemaNode(
+        context,
+        generator,
+        node[index],
+        index,
+      );
+      source += "if (!";
+      source += generateApply(validator, "instance", "location", "evaluated");
+      source += ") {\n";
+      source += "  extendsValid = false;\n";
+      source += "}\n";
+    }
+    source += generateAssertion(
+      context,
+      "!extendsValid",
+      "not valid against all extended schemas",
+    );
+    return source;
+  },
+} as const satisfies Keyword<unknown>;
+
+/**
+ * The `divisibleBy` keyword.
+ *
+ * @see [JSON Schema §5.24](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.24)
+ * @category Keywords
+ */
+export const divisibleByKeyword = {
+  ...Keyword.prototype,
+  key: "divisibleBy",
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    // §5.24 ¶1: The value of this attribute SHOULD NOT be 0.
+    if (typeof node !== "number" || node === 0) {
+      throw new ValidationError('"divisibleBy" must be a non-zero number', {
+        location: currentLocation(context),
+      });
+    }
+  },
+
+  validate(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as number;
+    const instance = frame.instance;
+
+    if (typeof instance !== "number") {
+      return; // Not applicable.
+    }
+
+    // §5.24 ¶1: The number instance must be divisible by this value
+    // with no remainder (the result of the division must be an integer.)
+    if (!isInteger(instance / node)) {
+      attachError(context, "not a multiple of " + node, "multipleOf", {
+        divisor: node,
+        actual: instance,
+      });
+    }
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    return generateAssertion(
+      context,
+      'typeof instance === "number" && !Number.isInteger(instance / ' +
+        node +
+        ")",
+      "not a multiple of " + node,
+    );
+  },
+} as const satisfies Keyword<number>;
+
+/**
+ * The `required` keyword. Required properties are enforced by the
+ * `properties` keyword of the parent schema.
+ *
+ * @see [JSON Schema §5.7](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.7)
+ * @category Keywords
+ */
+export const requiredKeyword = {
+  ...Keyword.prototype,
+  key: "required",
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    // §5.7 ¶1: This attribute indicates if the instance must have a value,
+    // and not be undefined.
+    if (typeof node !== "boolean") {
+      throw new ValidationError('"required" must be a boolean', {
+        location: currentLocation(context),
+      });
+    }
+  },
+} as const satisfies Keyword<boolean>;
+
+/**
+ * The `properties` keyword. Unlike later drafts, Draft 03 property schemas
+ * declare whether their properties are required.
+ *
+ * @see [JSON Schema §5.2](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.2)
+ * @category Keywords
+ */
+export const propertiesKeyword = {
+  ...Keyword.prototype,
+  key: "properties",
+
+  parse: propertiesKeyword202012.parse,
+
+  validate(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as { readonly [key: string]: unknown };
+    const instance = frame.instance;
+
+    if (!isObject(instance)) {
+      return; // Not applicable.
+    }
+
+    // §5.2 ¶1: Each property value of this object is a schema that
+    // defines the instance property with the same name.
+    propertiesKeyword202012.validate(context);
+
+    // §5.7 ¶1: Property schemas with "required" set to true indicate that
+    // the instance must have a value for the property.
+    for (const [key, subschema] of Object.entries(node)) {
+      if (
+        !isObject(subschema) ||
+        subschema.required !== true ||
+        instance[key] !== undefined
+      ) {
+        continue;
+      }
+      nestFrame(context, (frame: SchemaFrame): void => {
+        frame.nodeKey = key;
+        frame.node = subschema;
+        frame.output = { valid: true };
+        nestFrame(context, (frame: SchemaFrame): void => {
+          frame.nodeKey = "required";
+          frame.node = true;
+          frame.output = { valid: true };
+          attachError(
+            context,
+            "missing required property " + JSON.stringify(key),
+            "required",
+            { missing: [key] },
+          );
+          emitOutput(context, frame);
+        });
+        emitOutput(context, frame);
+      });
+      if (context.flag === true) {
+        break;
+      }
+    }
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as { readonly [key: string]: unknown };
+
+    let source = propertiesKeyword202012.generate(context, generator);
+    for (const [key, subschema] of Object.entries(node)) {
+      if (!isObject(subschema) || subschema.required !== true) {
+        continue;
+      }
+      const name = JSON.stringify(key);
+      nestFrame(context, (frame: SchemaFrame): void => {
+        frame.nodeKey = key;
+        frame.node = subschema;
+        nestFrame(context, (frame: SchemaFrame): void => {
+          frame.nodeKey = "required";
+          frame.node = true;
+          source += "\n";
+          source += generateAssertion(
+            context,
+            "isObject(instance) && instance[" + name + "] === undefined",
+            "missing required property " + name,
+          );
+        });
+      });
+    }
+    return source;
+  },
+} as const satisfies Keyword<{ readonly [key: string]: unknown }>;
+
+/**
+ * The `additionalProperties` keyword. Unlike later drafts, Draft 03
+ * determines additional properties from the property names and patterns
+ * declared by the parent schema, rather than from the annotation results
+ * of adjacent keywords, so that failed properties aren't also reported
+ * as additional.
+ *
+ * @see [JSON Schema §5.4](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.4)
+ * @category Keywords
+ */
+export const additionalPropertiesKeyword = {
+  ...additionalPropertiesKeyword202012,
+
+  validate(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+    const instance = frame.instance;
+
+    if (!isObject(instance)) {
+      return; // Not applicable.
+    }
+
+    // §5.4 ¶1: This attribute defines a schema for all properties that are
+    // not explicitly defined in an object type definition.
+    const parentNode = frame.parent?.node;
+    const properties =
+      isObject(parentNode) && isObject(parentNode.properties) ?
+        parentNode.properties
+      : undefined;
+    const patterns =
+      isObject(parentNode) && isObject(parentNode.patternProperties) ?
+        Object.keys(parentNode.patternProperties).map((pattern) =>
+          cachePattern(context, pattern),
+        )
+      : [];
+
+    let invalidProperties: string[] | undefined;
+    for (const [key, value] of Object.entries(instance)) {
+      if (
+        value === undefined ||
+        (properties !== undefined && Object.hasOwn(properties, key)) ||
+        patterns.some((pattern) => pattern.test(key))
+      ) {
+        continue;
+      }
+
+      nestFrame(context, (frame: SchemaFrame): void => {
+        frame.node = node;
+        frame.instanceKey = key;
+        frame.instance = value;
+        frame.output = { valid: true };
+        validateSchemaResource(context);
+        if (!frame.output.valid) {
+          invalidProperties ??= [];
+          invalidProperties.push(key);
+        }
+        emitOutput(context, frame);
+      });
+      if (invalidProperties !== undefined && context.flag === true) {
+        break;
+      }
+    }
+
+    if (invalidProperties !== undefined) {
+      let message: string;
+      if (invalidProperties.length === 1) {
+        message =
+          "invalid additional property " + JSON.stringify(invalidProperties[0]);
+      } else {
+        message = "invalid additional properties ";
+        for (let i = 0; i < invalidProperties.length; i += 1) {
+          if (i !== 0) {
+            message += i !== invalidProperties.length - 1 ? ", " : " and ";
+          }
+          message += JSON.stringify(invalidProperties[i]);
+        }
+      }
+      attachError(context, message, "additionalProperties", {
+        properties: invalidProperties,
+      });
+    }
+  },
+} as const satisfies Keyword<unknown>;
+
+/**
+ * The `dependencies` keyword.
+ *
+ * @see [JSON Schema §5.8](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03#section-5.8)
+ * @category Keywords
+ */
+export const dependenciesKeyword = {
+  ...Keyword.prototype,
+  key: "dependencies",
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    // §5.8 ¶1: MUST be an object.
+    if (!isObject(node)) {
+      throw new ValidationError('"dependencies" must be an object', {
+        location: currentLocation(context),
+      });
+    }
+
+    // §5.8 ¶2: The dependency value can take one of two forms:
+    // a string or an array of strings, or a schema.
+    for (const [key, dependency] of Object.entries(node)) {
+      if (typeof dependency === "string") {
+        continue;
+      } else if (isArray(dependency)) {
+        if (!dependency.every((item) => typeof item === "string")) {
+          throw new ValidationError(
+            '"dependencies" array items must be strings',
+            { location: currentLocation(context) },
+          );
+        }
+      } else {
+        nestFrame(context, (frame: SchemaFrame): void => {
+          frame.nodeKey = key;
+          frame.node = dependency;
+          parseSchemaResource(context);
+        });
+      }
+    }
+  },
+
+  validate(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as { readonly [key: string]: unknown };
+    const instance = frame.instance;
+
+    if (!isObject(instance)) {
+      return; // Not applicable.
+    }
+
+    let missingProperties: string[] | undefined;
+    let invalidDependents: string[] | undefined;
+    for (const [key, dependency] of Object.entries(node)) {
+      if (instance[key] === undefined) {
+        continue;
+      }
+
+      if (typeof dependency === "string" || isArray(dependency)) {
+        // §5.8 ¶2: If the dependency value is a string, then the instance
+        // object MUST have a property with the same name as the dependency
+        // value. If the dependency value is an array of strings, then the
+        // instance object MUST have a property with the same name as each
+        // string in the dependency value's array.
+        const dependents =
+          typeof dependency === "string" ? [dependency] : dependency;
+        for (const dependent of dependents) {
+          if (instance[dependent as string] === undefined) {
+            missingProperties ??= [];
+            missingProperties.push(dependent as string);
+            break;
+          }
+        }
+      } else {
+        // §5.8 ¶2: If the dependency value is a schema, then the instance
+        // object MUST be valid against the schema.
+        nestFrame(context, (frame: SchemaFrame): void => {
+          frame.nodeKey = key;
+          frame.node = dependency;
+          frame.instance = instance;
+          frame.output = { valid: true };
+          validateSchemaResource(context);
+          if (!frame.output.valid) {
+            invalidDependents ??= [];
+            invalidDependents.push(key);
+          }
+          emitOutput(context, frame);
+        });
+      }
+      if (
+        (missingProperties !== undefined || invalidDependents !== undefined) &&
+        context.flag === true
+      ) {
+        break;
+      }
+    }
+
+    if (missingProperties !== undefined) {
+      let message: string;
+      if (missingProperties.length === 1) {
+        message =
+          "missing dependent property " + JSON.stringify(missingProperties[0]);
+      } else {
+        message = "missing dependent properties ";
+        for (let i = 0; i < missingProperties.length; i += 1) {
+          if (i !== 0) {
+            message += i !== missingProperties.length - 1 ? ", " : " and ";
+          }
+          message += JSON.stringify(missingProperties[i]);
+        }
+      }
+      attachError(context, message, "dependencies", {
+        properties: invalidDependents ?? [],
+        missing: missingProperties,
+      });
+    } else if (invalidDependents !== undefined) {
+      let message: string;
+      if (invalidDependents.length === 1) {
+        message = JSON.stringify(invalidDependents[0]) + " dependent subschema";
+      } else {
+        message = "not valid against ";
+        for (let i = 0; i < invalidDependents.length; i += 1) {
+          if (i !== 0) {
+            message += i !== invalidDependents.length - 1 ? ", " : " and ";
+          }
+          message += JSON.stringify(invalidDependents[i]);
+        }
+        message += " dependent subschemas";
+      }
+      attachError(context, message, "dependencies", {
+        properties: invalidDependents,
+        missing: [],
+      });
+    }
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as { readonly [key: string]: unknown };
+    const joinList = declareHelper(generator, "joinList");
+
+    let source = "if (isObject(instance)) {\n";
+    source += "  const missingProperties = [];\n";
+    source += "  const invalidDependents = [];\n";
+    for (const [key, dependency] of Object.entries(node)) {
+      const name = JSON.stringify(key);
+      source += "  if (instance[" + name + "] !== undefined) {\n";
+      if (typeof dependency === "string" || isArray(dependency)) {
+        const dependents = declareConstant(
+          generator,
+          JSON.stringify(
+            typeof dependency === "string" ? [dependency] : dependency,
+          ),
+        );
+        source += "    const missing = " + dependents;
+        source += ".find((dependent) => instance[dependent] === undefined);\n";
+        source += "    if (missing !== undefined) {\n";
+        source += "      missingProperties.push(JSON.stringify(missing));\n";
+        source += "    }\n";
+      } else {
+        const validator = generateSchemaNode(
+          context,
+          generator,
+          dependency,
+          key,
+        );
+        source += "    if (!";
+        source += generateApply(validator, "instance", "location", "evaluated");
+        source += ") {\n";
+        source +=
+          "      invalidDependents.push(" + JSON.stringify(name) + ");\n";
+        source += "    }\n";
+      }
+      source += "  }\n";
+    }
+    source += "  if (missingProperties.length !== 0) {\n";
+    source += indent(
+      generateError(
+        context,
+        '(missingProperties.length === 1 ? "missing dependent property " : ' +
+          '"missing dependent properties ") + ' +
+          joinList +
+          '(missingProperties, "and")',
+      ),
+      "    ",
+    );
+    source += "\n  } else if (invalidDependents.length === 1) {\n";
+    source += indent(
+      generateError(context, 'invalidDependents[0] + " dependent subschema"'),
+      "    ",
+    );
+    source += "\n  } else if (invalidDependents.length !== 0) {\n";
+    source += indent(
+      generateError(
+        context,
+        '"not valid against " + ' +
+          joinList +
+          '(invalidDependents, "and") + " dependent subschemas"',
+      ),
+      "    ",
+    );
+    source += "\n  }\n";
+    source += "}";
+    return source;
+  },
+} as const satisfies Keyword<{ readonly [key: string]: unknown }>;
+
+/**
+ * The JSON Schema Draft 03 Validation vocabulary.
+ *
+ * @see [JSON Schema Draft 03](https://datatracker.ietf.org/doc/html/draft-zyp-json-schema-03)
+ * @category Vocabularies
+ */
+export const validationVocabulary = {
+  keywords: {
+    type: typeKeyword,
+    properties: propertiesKeyword,
+    patternProperties: patternPropertiesKeyword,
+    additionalProperties: additionalPropertiesKeyword,
+    items: itemsKeyword,
+    additionalItems: additionalItemsKeyword,
+    required: requiredKeyword,
+    dependencies: dependenciesKeyword,
+    minimum: minimumKeyword,
+    maximum: maximumKeyword,
+    exclusiveMinimum: exclusiveMinimumKeyword,
+    exclusiveMaximum: exclusiveMaximumKeyword,
+    minItems: minItemsKeyword,
+    maxItems: maxItemsKeyword,
+    uniqueItems: uniqueItemsKeyword,
+    pattern: patternKeyword,
+    minLength: minLengthKeyword,
+    maxLength: maxLengthKeyword,
+    enum: enumKeyword,
+    default: defaultKeyword,
+    title: titleKeyword,
+    description: descriptionKeyword,
+    format: formatAnnotationKeyword,
+    divisibleBy: divisibleByKeyword,
+    disallow: disallowKeyword,
+    extends: extendsKeyword,
+  },
+} as const;
@@ -4,6 +4,8 @@ import { ValidationError } from "../error.ts";
 import type { SchemaContext, SchemaFrame } from "../context.ts";
 import { attachError } from "../output.ts";
 import { Keyword, AnnotationKeyword } from "../keyword.ts";
+import type { ModuleGenerator } from "../generate.ts";
+import { generateAssertion } from "../generate.ts";
 import {
   allOfKeyword,
   anyOfKeyword,
@@ -325,14 +327,49 @@ export const maximumKeyword = {
     // if "exclusiveMaximum" is true and instance is less than the
     // provided value.
     if (exclusive && instance >= node) {
-      attachError(context, "greater than or equal to " + node);
+      attachError(
+        context,
+        "greater than or equal to " + node,
+        "exclusiveMaximum",
+        {
+          limit: node,
+          actual: instance,
+        },
+      );
     }
 
     // §5.2 ¶2: Or else if the instance is less than or exactly equal
     // to the provided value.
     if (!exclusive && instance > node) {
-      attachError(context, "greater than " + node);
+      attachError(context, "greater than " + node, "maximum", {
+        limit: node,
+        actual: instance,
+      });
+    }
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as number;
+
+    const parentNode = frame.parent?.node;
+    const exclusive =
+      isObject(parentNode) &&
+      typeof parentNode.exclusiveMaximum === "boolean" &&
+      parentNode.exclusiveMaximum;
+
+    if (exclusive) {
+      return generateAssertion(
+        context,
+        'typeof instance === "number" && instance >= ' + node,
+        "greater than or equal to " + node,
+      );
     }
+    return generateAssertion(
+      context,
+      'typeof instance === "number" && instance > ' + node,
+      "greater than " + node,
+    );
   },
 } as const satisfies Keyword<number>;
 
@@ -400,14 +437,49 @@ export const minimumKeyword = {
     // if "exclusiveMinimum" is true and instance is greater than the
     // provided value.
     if (exclusive && instance <= node) {
-      attachError(context, "less than or equal to " + node);
+      attachError(
+        context,
+        "less than or equal to " + node,
+        "exclusiveMinimum",
+        {
+          limit: node,
+          actual: instance,
+        },
+      );
     }
 
     // §5.4 ¶2: Or else if the instance is greater than or exactly equal
     // to the provided value.
     if (!exclusive && instance < node) {
-      attachError(context, "less than " + node);
+      attachError(context, "less than " + node, "minimum", {
+        limit: node,
+        actual: instance,
+      });
+    }
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as number;
+
+    const parentNode = frame.parent?.node;
+    const exclusive =
+      isObject(parentNode) &&
+      typeof parentNode.exclusiveMinimum === "boolean" &&
+      parentNode.exclusiveMinimum;
+
+    if (exclusive) {
+      return generateAssertion(
+        context,
+        'typeof instance === "number" && instance <= ' + node,
+        "less than or equal to " + node,
+      );
     }
+    return generateAssertion(
+      context,
+      'typeof instance === "number" && instance < ' + node,
+      "less than " + node,
+    );
   },
 } as const satisfies Keyword<number>;
 
@@ -0,0 +1,50 @@
+import { $schemaKeyword, $refKeyword } from "../draft-2020-12/core.ts";
+import { $idKeyword } from "../draft-07/core.ts";
+
+/**
+ * A JSON Schema that uses the Draft 06 Core vocabulary.
+ *
+ * @see [JSON Schema Core Draft 06](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-01)
+ * @category Vocabularies
+ */
+export interface CoreVocabulary {
+  /**
+   * A URI identifying the JSON Schema dialect used for validation.
+   * Should be used only in the root schema.
+   *
+   * @see [JSON Schema Core §7](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-01#section-7)
+   */
+  readonly $schema?: string;
+
+  /**
+   * A URI for identifying and resolving references to the schema.
+   *
+   * @see [JSON Schema Core §9.2](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-01#section-9.2)
+   */
+  readonly $id?: string;
+
+  /**
+   * A URI-reference to the schema to include. Resolves to a full schema
+   * which replaces the `$ref` at its location.
+   *
+   * @see [JSON Schema Core §8](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-01#section-8)
+   */
+  readonly $ref?: string;
+}
+
+/**
+ * The JSON Schema Draft 06 Core vocabulary.
+ *
+ * The Draft 06 `$id` keyword has the same semantics as the Draft 07
+ * `$id` keyword, including plain name fragment identifiers.
+ *
+ * @see [JSON Schema Core Draft 06](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-01)
+ * @category Vocabularies
+ */
+export const coreVocabulary = {
+  keywords: {
+    $schema: $schemaKeyword,
+    $id: $idKeyword,
+    $ref: $refKeyword,
+  },
+} as const;
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { parseSchema } from "tool-schema";
+
+void suite("Draft 06", () => {
+  void test("supports type assertions", async () => {
+    const schema = await parseSchema({
+      $schema: "http://json-schema.org/draft-06/schema#",
+      type: "string",
+    });
+    assert(schema.validate("hello").valid);
+  });
+
+  void test("supports numeric exclusive bounds", async () => {
+    const schema = await parseSchema({
+      $schema: "http://json-schema.org/draft-06/schema#",
+      exclusiveMinimum: 0,
+      exclusiveMaximum: 10,
+    });
+    assert(schema.validate(5).valid);
+    assert(!schema.validate(0).valid);
+    assert(!schema.validate(10).valid);
+  });
+
+  void test("supports boolean schemas", async () => {
+    const schema = await parseSchema({
+      $schema: "http://json-schema.org/draft-06/schema#",
+      properties: { foo: true, bar: false },
+    });
+    assert(schema.validate({ foo: 1 }).valid);
+    assert(!schema.validate({ bar: 1 }).valid);
+  });
+
+  void test("ignores conditional keywords", async () => {
+    const schema = await parseSchema({
+      $schema: "http://json-schema.org/draft-06/schema#",
+      if: { type: "string" },
+      then: { minLength: 10 },
+    });
+    assert(schema.validate("short").valid);
+  });
+});
@@ -0,0 +1,8 @@
+export type { CoreVocabulary } from "./core.ts";
+export { coreVocabulary } from "./core.ts";
+
+export type { ValidationVocabulary } from "./validation.ts";
+export { validationVocabulary } from "./validation.ts";
+
+export type { Schema } from "./dialect.ts";
+export { dialect } from "./dialect.ts";
@@ -0,0 +1,362 @@
+import type { NodeType } from "tool-json";
+import {
+  allOfKeyword,
+  anyOfKeyword,
+  oneOfKeyword,
+  notKeyword,
+  containsKeyword,
+  propertiesKeyword,
+  patternPropertiesKeyword,
+  additionalPropertiesKeyword,
+  propertyNamesKeyword,
+} from "../draft-2020-12/applicator.ts";
+import {
+  typeKeyword,
+  enumKeyword,
+  constKeyword,
+  multipleOfKeyword,
+  maximumKeyword,
+  exclusiveMaximumKeyword,
+  minimumKeyword,
+  exclusiveMinimumKeyword,
+  maxLengthKeyword,
+  minLengthKeyword,
+  patternKeyword,
+  maxItemsKeyword,
+  minItemsKeyword,
+  uniqueItemsKeyword,
+  maxPropertiesKeyword,
+  minPropertiesKeyword,
+  requiredKeyword,
+} from "../draft-2020-12/validation.ts";
+import { formatAnnotationKeyword } from "../draft-2020-12/format-annotation.ts";
+import {
+  titleKeyword,
+  descriptionKeyword,
+  defaultKeyword,
+  examplesKeyword,
+} from "../draft-2020-12/meta-data.ts";
+import {
+  definitionsKeyword,
+  itemsKeyword,
+  additionalItemsKeyword,
+  dependenciesKeyword,
+} from "../draft-07/validation.ts";
+
+/**
+ * A JSON Schema that uses the Draft 06 Validation vocabulary.
+ *
+ * @see [JSON Schema Validation Draft 06](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01)
+ * @category Vocabularies
+ */
+export interface ValidationVocabulary<Schema> {
+  /**
+   * Inline schema definitions for re-use.
+   * Used to define subschemas for `$ref`.
+   *
+   * @see [JSON Schema Validation §7.1](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-7.1)
+   */
+  readonly definitions?: { readonly [key: string]: Schema | boolean };
+
+  /**
+   * A short description for documentation purposes.
+   *
+   * @see [JSON Schema Validation §7.2](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-7.2)
+   */
+  readonly title?: string;
+
+  /**
+   * A detailed description for documentation purposes.
+   *
+   * @see [JSON Schema Validation §7.2](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-7.2)
+   */
+  readonly description?: string;
+
+  /**
+   * A default value to use when an instance is not provided.
+   *
+   * @see [JSON Schema Validation §7.3](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-7.3)
+   */
+  readonly default?: unknown;
+
+  /**
+   * An array of example instances that conform to this schema.
+   *
+   * @see [JSON Schema Validation §7.4](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-7.4)
+   */
+  readonly examples?: readonly unknown[];
+
+  /**
+   * The allowed types of valid instances.
+   *
+   * @see [JSON Schema Validation §6.25](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.25)
+   */
+  readonly type?: readonly NodeType[] | NodeType;
+
+  /**
+   * An array of values, to one of which an instance must be equal.
+   * Elements should be unique; order is not significant.
+   *
+   * @see [JSON Schema Validation §6.23](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.23)
+   */
+  readonly enum?: readonly unknown[];
+
+  /**
+   * A value to which an instance must be equal.
+   *
+   * @see [JSON Schema Validation §6.24](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.24)
+   */
+  readonly const?: unknown;
+
+  /**
+   * Semantic validation for formats like "date-time", "email", etc.
+   * Implementations may choose to validate or not.
+   *
+   * @see [JSON Schema Validation §8](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-8)
+   */
+  readonly format?: string;
+
+  /**
+   * A factor by which numeric instances must be an integer multiple.
+   * Must be strictly greater than `0`.
+   *
+   * @see [JSON Schema Validation §6.1](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.1)
+   */
+  readonly multipleOf?: number;
+
+  /**
+   * The inclusive upper bound for numeric instances.
+   *
+   * @see [JSON Schema Validation §6.2](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.2)
+   */
+  readonly maximum?: number;
+
+  /**
+   * The exclusive upper bound for numeric instances.
+   *
+   * @see [JSON Schema Validation §6.3](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.3)
+   */
+  readonly exclusiveMaximum?: number;
+
+  /**
+   * The inclusive lower bound for numeric instances.
+   *
+   * @see [JSON Schema Validation §6.4](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.4)
+   */
+  readonly minimum?: number;
+
+  /**
+   * The exclusive lower bound for numeric instances.
+   *
+   * @see [JSON Schema Validation §6.5](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.5)
+   */
+  readonly exclusiveMinimum?: number;
+
+  /**
+   * The maximum length of string instances. Must be a non-negative integer.
+   *
+   * @see [JSON Schema Validation §6.6](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.6)
+   */
+  readonly maxLength?: number;
+
+  /**
+   * The minimum length of string instances. Must be a non-negative integer.
+   *
+   * @see [JSON Schema Validation §6.7](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.7)
+   */
+  readonly minLength?: number;
+
+  /**
+   * A regular expression pattern that string instances must match.
+   * Should be a valid regex according to ECMA-262.
+   *
+   * @see [JSON Schema Validation §6.8](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.8)
+   */
+  readonly pattern?: string;
+
+  /**
+   * A schema or array of schemas to validate items in array instances.
+   *
+   * @see [JSON Schema Validation §6.9](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.9)
+   */
+  readonly items?: readonly (Schema | boolean)[] | Schema | boolean;
+
+  /**
+   * A schema to validate items beyond those covered by `items`,
+   * when `items` is an array.
+   *
+   * @see [JSON Schema Validation §6.10](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.10)
+   */
+  readonly additionalItems?: Schema | boolean;
+
+  /**
+   * The maximum number of items allowed in array instances.
+   * Must be a non-negative integer.
+   *
+   * @see [JSON Schema Validation §6.11](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.11)
+   */
+  readonly maxItems?: number;
+
+  /**
+   * The minimum number of items required in array instances.
+   * Must be a non-negative integer.
+   *
+   * @see [JSON Schema Validation §6.12](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.12)
+   */
+  readonly minItems?: number;
+
+  /**
+   * Indicates that all items in array instances must be unique.
+   *
+   * @see [JSON Schema Validation §6.13](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.13)
+   */
+  readonly uniqueItems?: boolean;
+
+  /**
+   * A schema that at least one item in array instances must satisfy.
+   *
+   * @see [JSON Schema Validation §6.14](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.14)
+   */
+  readonly contains?: Schema | boolean;
+
+  /**
+   * The maximum number of properties allowed in object instances.
+   * Must be a non-negative integer.
+   *
+   * @see [JSON Schema Validation §6.15](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.15)
+   */
+  readonly maxProperties?: number;
+
+  /**
+   * The minimum number of properties required in object instances.
+   * Must be a non-negative integer.
+   *
+   * @see [JSON Schema Validation §6.16](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.16)
+   */
+  readonly minProperties?: number;
+
+  /**
+   * A list of property names that object instances are required to have.
+   * Elements must be unique.
+   *
+   * @see [JSON Schema Validation §6.17](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.17)
+   */
+  readonly required?: readonly string[];
+
+  /**
+   * Schemas for validating the properties of object instances.
+   *
+   * @see [JSON Schema Validation §6.18](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.18)
+   */
+  readonly properties?: { readonly [key: string]: Schema | boolean };
+
+  /**
+   * Schemas for properties matching regex patterns.
+   * Patterns should be valid regex as per ECMA-262.
+   *
+   * @see [JSON Schema Validation §6.19](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.19)
+   */
+  readonly patternProperties?: { readonly [key: string]: Schema | boolean };
+
+  /**
+   * A schema for properties not matched by `properties` or `patternProperties`.
+   *
+   * @see [JSON Schema Validation §6.20](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.20)
+   */
+  readonly additionalProperties?: Schema | boolean;
+
+  /**
+   * Property dependencies. If a key is present, its dependencies must
+   * be satisfied.
+   *
+   * @see [JSON Schema Validation §6.21](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.21)
+   */
+  readonly dependencies?: {
+    readonly [key: string]: readonly string[] | Schema | boolean;
+  };
+
+  /**
+   * A schema to validate all property names of object instances.
+   *
+   * @see [JSON Schema Validation §6.22](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.22)
+   */
+  readonly propertyNames?: Schema | boolean;
+
+  /**
+   * An array of schemas, all of which must validate instances.
+   * Provides a conjunction (logical AND) of subschemas.
+   *
+   * @see [JSON Schema Validation §6.26](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.26)
+   */
+  readonly allOf?: readonly (Schema | boolean)[];
+
+  /**
+   * An array of schemas, at least one of which must validate instances.
+   * Provides a disjunction (logical OR) of subschemas.
+   *
+   * @see [JSON Schema Validation §6.27](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.27)
+   */
+  readonly anyOf?: readonly (Schema | boolean)[];
+
+  /**
+   * An array of schemas, exactly one of which must validate instances.
+   * Ensures exclusivity among subschemas.
+   *
+   * @see [JSON Schema Validation §6.28](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.28)
+   */
+  readonly oneOf?: readonly (Schema | boolean)[];
+
+  /**
+   * A schema which instances must not validate against.
+   * Used to negate subschema matches.
+   *
+   * @see [JSON Schema Validation §6.29](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01#section-6.29)
+   */
+  readonly not?: Schema | boolean;
+}
+
+/**
+ * The JSON Schema Draft 06 Validation vocabulary.
+ *
+ * @see [JSON Schema Validation Draft 06](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-01)
+ * @category Vocabularies
+ */
+export const validationVocabulary = {
+  keywords: {
+    definitions: definitionsKeyword,
+    title: titleKeyword,
+    description: descriptionKeyword,
+    default: defaultKeyword,
+    examples: examplesKeyword,
+    type: typeKeyword,
+    enum: enumKeyword,
+    const: constKeyword,
+    format: formatAnnotationKeyword,
+    multipleOf: multipleOfKeyword,
+    maximum: maximumKeyword,
+    exclusiveMaximum: exclusiveMaximumKeyword,
+    minimum: minimumKeyword,
+    exclusiveMinimum: exclusiveMinimumKeyword,
+    maxLength: maxLengthKeyword,
+    minLength: minLengthKeyword,
+    pattern: patternKeyword,
+    items: itemsKeyword,
+    additionalItems: additionalItemsKeyword,
+    maxItems: maxItemsKeyword,
+    minItems: minItemsKeyword,
+    uniqueItems: uniqueItemsKeyword,
+    contains: containsKeyword,
+    maxProperties: maxPropertiesKeyword,
+    minProperties: minPropertiesKeyword,
+    required: requiredKeyword,
+    properties: propertiesKeyword,
+    patternProperties: patternPropertiesKeyword,
+    additionalProperties: additionalPropertiesKeyword,
+    dependencies: dependenciesKeyword,
+    propertyNames: propertyNamesKeyword,
+    allOf: allOfKeyword,
+    anyOf: anyOfKeyword,
+    oneOf: oneOfKeyword,
+    not: notKeyword,
+  },
+} as const;
@@ -15,6 +15,16 @@ import {
   getChildAnnotation,
 } from "../output.ts";
 import { Keyword } from "../keyword.ts";
+import type { ModuleGenerator } from "../generate.ts";
+import {
+  generateSchemaNode,
+  generateError,
+  generateApply,
+  declareConstant,
+  declareLocal,
+  declareHelper,
+  indent,
+} from "../generate.ts";
 import { parseSchemaResource, validateSchemaResource } from "../resource.ts";
 import {
   allOfKeyword,
@@ -474,10 +484,13 @@ export const itemsKeyword = {
           valid &&= frame.output.valid;
           emitOutput(context, frame);
         });
+        if (!valid && context.flag === true) {
+          break;
+        }
       }
 
       if (!valid) {
-        attachError(context, "not valid against all items");
+        attachError(context, "not valid against all items", "items", {});
       } else if (instance.length !== 0) {
         attachAnnotation(context, true);
       }
@@ -501,6 +514,9 @@ export const itemsKeyword = {
         valid &&= frame.output.valid;
         emitOutput(context, frame);
       });
+      if (!valid && context.flag === true) {
+        break;
+      }
     }
 
     if (commonLength !== node.length) {
@@ -518,7 +534,10 @@ export const itemsKeyword = {
         message += " expected prefix ";
         message += node.length === 1 ? "item" : "items";
       }
-      attachError(context, message);
+      attachError(context, message, "prefixItems", {
+        expected: node.length,
+        actual: instance.length,
+      });
     }
 
     if (valid) {
@@ -529,6 +548,90 @@ export const itemsKeyword = {
       }
     }
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+    const itemsCount = declareLocal(generator, "itemsCount", "0");
+
+    if (!isArray(node)) {
+      const validator = generateSchemaNode(context, generator, node);
+      let source = "if (Array.isArray(instance)) {\n";
+      source += "  let itemsValid = true;\n";
+      source +=
+        "  for (let index = 0; index < instance.length; index += 1) {\n";
+      source += "    if (!";
+      source += generateApply(
+        validator,
+        "instance[index]",
+        'location + "/" + index',
+      );
+      source += ") {\n";
+      source += "      itemsValid = false;\n";
+      source += "    }\n";
+      source += "  }\n";
+      source += "  if (!itemsValid) {\n";
+      source += indent(
+        generateError(context, '"not valid against all items"'),
+        "    ",
+      );
+      source += "\n  } else {\n";
+      source += "    " + itemsCount + " = instance.length;\n";
+      source += "    evaluated.items = instance.length;\n";
+      source += "  }\n";
+      source += "}";
+      return source;
+    }
+
+    let source = "if (Array.isArray(instance)) {\n";
+    source += "  let itemsValid = true;\n";
+    for (let index = 0; index < node.length; index += 1) {
+      const validator = generateSchemaNode(
+        context,
+        generator,
+        node[index],
+        index,
+      );
+      source += "  if (instance.length > " + index + " && !";
+      source += generateApply(
+        validator,
+        "instance[" + index + "]",
+        'location + "/' + index + '"',
+      );
+      source += ") {\n";
+      source += "    itemsValid = false;\n";
+      source += "  }\n";
+    }
+    const noun = node.length === 1 ? "item" : "items";
+    source += "  if (instance.length < " + node.length + ") {\n";
+    source += indent(
+      generateError(
+        context,
+        "instance.length === 0 ? " +
+          JSON.stringify(
+            "empty array is missing " +
+              node.length +
+              " expected prefix " +
+              noun,
+          ) +
+          ' : "array is missing " + (' +
+          node.length +
+          " - instance.length) + " +
+          JSON.stringify(" of " + node.length + " expected prefix " + noun),
+      ),
+      "    ",
+    );
+    source += "\n  }\n";
+    source += "  if (itemsValid) {\n";
+    source += "    " + itemsCount + " = Math.min(";
+    source += node.length + ", instance.length);\n";
+    source += "    if (" + itemsCount + " > evaluated.items) {\n";
+    source += "      evaluated.items = " + itemsCount + ";\n";
+    source += "    }\n";
+    source += "  }\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<readonly unknown[] | unknown>;
 
 /**
@@ -580,14 +683,53 @@ export const additionalItemsKeyword = {
         valid &&= frame.output.valid;
         emitOutput(context, frame);
       });
+      if (!valid && context.flag === true) {
+        break;
+      }
     }
 
     if (!valid) {
-      attachError(context, "not valid against all additional items");
+      attachError(
+        context,
+        "not valid against all additional items",
+        "additionalItems",
+        {},
+      );
     } else if (startIndex < instance.length) {
       attachAnnotation(context, true);
     }
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const validator = generateSchemaNode(context, generator, frame.node);
+    const itemsCount = declareLocal(generator, "itemsCount", "0");
+
+    let source = "if (Array.isArray(instance)) {\n";
+    source += "  let additionalValid = true;\n";
+    source += "  for (let index = " + itemsCount + "; ";
+    source += "index < instance.length; index += 1) {\n";
+    source += "    if (!";
+    source += generateApply(
+      validator,
+      "instance[index]",
+      'location + "/" + index',
+    );
+    source += ") {\n";
+    source += "      additionalValid = false;\n";
+    source += "    }\n";
+    source += "  }\n";
+    source += "  if (!additionalValid) {\n";
+    source += indent(
+      generateError(context, '"not valid against all additional items"'),
+      "    ",
+    );
+    source += "\n  } else {\n";
+    source += "    evaluated.items = instance.length;\n";
+    source += "  }\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<unknown>;
 
 /**
@@ -689,6 +831,12 @@ export const dependenciesKeyword = {
           emitOutput(context, frame);
         });
       }
+      if (
+        (missingProperties !== undefined || invalidDependents !== undefined) &&
+        context.flag === true
+      ) {
+        break;
+      }
     }
 
     if (missingProperties !== undefined || invalidDependents !== undefined) {
@@ -730,8 +878,81 @@ export const dependenciesKeyword = {
         }
       }
 
-      attachError(context, message);
+      attachError(context, message, "dependencies", {
+        properties: invalidDependents ?? [],
+        missing: missingProperties ?? [],
+      });
+    }
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as {
+      readonly [key: string]: readonly string[] | unknown;
+    };
+    const joinList = declareHelper(generator, "joinList");
+
+    let source = "if (isObject(instance)) {\n";
+    source += "  const missingProperties = [];\n";
+    source += "  const invalidDependents = [];\n";
+    for (const [key, dependency] of Object.entries(node)) {
+      const name = JSON.stringify(key);
+      source += "  if (instance[" + name + "] !== undefined) {\n";
+      if (isArray(dependency)) {
+        const dependents = declareConstant(
+          generator,
+          JSON.stringify(dependency),
+        );
+        source += "    const missing = " + dependents;
+        source += ".find((dependent) => instance[dependent] === undefined);\n";
+        source += "    if (missing !== undefined) {\n";
+        source += "      missingProperties.push(JSON.stringify(missing));\n";
+        source += "    }\n";
+      } else {
+        const validator = generateSchemaNode(
+          context,
+          generator,
+          dependency,
+          key,
+        );
+        source += "    if (!";
+        source += generateApply(validator, "instance", "location", "evaluated");
+        source += ") {\n";
+        source +=
+          "      invalidDependents.push(" + JSON.stringify(name) + ");\n";
+        source += "    }\n";
+      }
+      source += "  }\n";
     }
+    source += "  if (missingProperties.length !== 0) {\n";
+    source += indent(
+      generateError(
+        context,
+        '(missingProperties.length === 1 ? "missing dependent property " : ' +
+          '"missing dependent properties ") + ' +
+          joinList +
+          '(missingProperties, "and")',
+      ),
+      "    ",
+    );
+    source += "\n  } else if (invalidDependents.length === 1) {\n";
+    source += indent(
+      generateError(context, 'invalidDependents[0] + " dependent subschema"'),
+      "    ",
+    );
+    source += "\n  } else if (invalidDependents.length !== 0) {\n";
+    source += indent(
+      generateError(
+        context,
+        '"not valid against " + ' +
+          joinList +
+          '(invalidDependents, "and") + " dependent subschemas"',
+      ),
+      "    ",
+    );
+    source += "\n  }\n";
+    source += "}";
+    return source;
   },
 } as const as Keyword<{ readonly [key: string]: readonly string[] | unknown }>;
 
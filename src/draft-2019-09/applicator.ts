@@ -0,0 +1,282 @@
+import { isArray, nestFrame, currentFrame } from "tool-json";
+import type { SchemaContext, SchemaFrame } from "../context.ts";
+import type { OutputUnit } from "../output.ts";
+import {
+  emitOutput,
+  attachError,
+  attachAnnotation,
+  getAnnotations,
+} from "../output.ts";
+import { Keyword } from "../keyword.ts";
+import type { Vocabulary } from "../vocabulary.ts";
+import type { ModuleGenerator } from "../generate.ts";
+import { generateSchemaNode, generateApply } from "../generate.ts";
+import { parseSchemaResource, validateSchemaResource } from "../resource.ts";
+import type { ApplicatorVocabulary as ApplicatorVocabulary202012 } from "../draft-2020-12/applicator.ts";
+import {
+  allOfKeyword,
+  anyOfKeyword,
+  oneOfKeyword,
+  notKeyword,
+  ifKeyword,
+  thenKeyword,
+  elseKeyword,
+  dependentSchemasKeyword,
+  containsKeyword,
+  propertiesKeyword,
+  patternPropertiesKeyword,
+  additionalPropertiesKeyword,
+  propertyNamesKeyword,
+} from "../draft-2020-12/applicator.ts";
+import { unevaluatedPropertiesKeyword } from "../draft-2020-12/unevaluated.ts";
+import {
+  itemsKeyword,
+  additionalItemsKeyword,
+} from "../draft-07/validation.ts";
+
+/**
+ * A JSON Schema that uses the Draft 2019-09 Applicator vocabulary.
+ *
+ * @see [JSON Schema Core §9](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-9)
+ * @category Vocabularies
+ */
+export interface ApplicatorVocabulary<Schema> extends Omit<
+  ApplicatorVocabulary202012<Schema>,
+  "prefixItems" | "items"
+> {
+  /**
+   * A schema to apply to all items of array instances, or an array of
+   * schemas to apply to items by position.
+   *
+   * @see [JSON Schema Core §9.3.1.1](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-9.3.1.1)
+   */
+  readonly items?: Schema | boolean | readonly (Schema | boolean)[];
+
+  /**
+   * A schema to apply to items beyond those covered by the array form
+   * of `items`.
+   *
+   * @see [JSON Schema Core §9.3.1.2](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-9.3.1.2)
+   */
+  readonly additionalItems?: Schema | boolean;
+
+  /**
+   * A schema to validate items not evaluated by `items`, `additionalItems`,
+   * or `unevaluatedItems` in the same or adjacent subschemas.
+   *
+   * @see [JSON Schema Core §9.3.1.3](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-9.3.1.3)
+   */
+  readonly unevaluatedItems?: Schema | boolean;
+
+  /**
+   * A schema to validate properties not evaluated by `properties`,
+   * `patternProperties`, `additionalProperties`, or `unevaluatedProperties`
+   * in the same or adjacent subschemas.
+   *
+   * @see [JSON Schema Core §9.3.2.4](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-9.3.2.4)
+   */
+  readonly unevaluatedProperties?: Schema | boolean;
+}
+
+/**
+ * The `unevaluatedItems` keyword.
+ *
+ * Unlike Draft 2020-12, the Draft 2019-09 `unevaluatedItems` keyword
+ * doesn't consider items matched by `contains` to be evaluated.
+ *
+ * @see [JSON Schema Core §9.3.1.3](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-9.3.1.3)
+ * @category Keywords
+ */
+export const unevaluatedItemsKeyword = {
+  ...Keyword.prototype,
+  key: "unevaluatedItems",
+
+  // §9.3.1.3 ¶4: "items" and "additionalItems", and all in-place applicators,
+  // MUST be evaluated before this keyword can be evaluated.
+  dependencies: [
+    ...Keyword.prototype.dependencies,
+    "@unevaluated",
+    "items",
+    "additionalItems",
+  ],
+
+  parse(context: SchemaContext): void {
+    // §9.3.1.3 ¶1: MUST be a valid JSON Schema.
+    parseSchemaResource(context);
+  },
+
+  validate(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+    const instance = frame.instance;
+
+    if (!isArray(instance)) {
+      return; // Not applicable.
+    }
+
+    // §9.3.1.3 ¶2: The behavior of this keyword depends on the annotation
+    // results of adjacent keywords that apply to the instance location
+    // being validated. Specifically, the annotations from "items" and
+    // "additionalItems", which can come from those keywords when they are
+    // adjacent to the "unevaluatedItems" keyword. Those two annotations,
+    // as well as "unevaluatedItems", can also result from any and all
+    // adjacent in-place applicator keywords.
+    const annotations: OutputUnit[] = [];
+    getAnnotations(frame.parent?.output, "/items", annotations);
+    getAnnotations(frame.parent?.output, "/additionalItems", annotations);
+    getAnnotations(frame.parent?.output, "/unevaluatedItems", annotations);
+
+    // §9.3.1.3 ¶3: If no relevant annotations are present, the
+    // "unevaluatedItems" subschema MUST be applied to all locations
+    // in the array.
+    let startIndex = 0;
+
+    // §9.3.1.3 ¶3: If a boolean true value is present from any of the
+    // relevant annotations, "unevaluatedItems" MUST be ignored. Otherwise,
+    // the subschema MUST be applied to any index greater than the largest
+    // annotation value for "items".
+    for (const annotation of annotations) {
+      const value = annotation.annotation;
+      if (value === true) {
+        return;
+      } else if (typeof value === "number") {
+        startIndex = Math.max(startIndex, value);
+      }
+    }
+
+    let valid = true;
+    for (let index = startIndex; index < instance.length; index += 1) {
+      nestFrame(context, (frame: SchemaFrame): void => {
+        frame.node = node;
+        frame.instanceKey = index;
+        frame.instance = instance[index];
+        frame.output = { valid: true };
+        validateSchemaResource(context);
+        valid &&= frame.output.valid;
+        emitOutput(context, frame);
+      });
+      if (!valid && context.flag === true) {
+        break;
+      }
+    }
+
+    if (!valid) {
+      attachError(
+        context,
+        "not valid against all unevaluated items",
+        "unevaluatedItems",
+        {},
+      );
+    }
+
+    // §9.3.1.3 ¶5: If the "unevaluatedItems" subschema is applied to any
+    // positions within the instance array, it produces an annotation result
+    // of boolean true, analogous to the single schema behavior of "items".
+    attachAnnotation(context, true);
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const validator = generateSchemaNode(context, generator, frame.node);
+
+    let source = "if (Array.isArray(instance)) {\n";
+    source += "  for (let index = evaluated.items; ";
+    source += "index < instance.length; index += 1) {\n";
+    source += "    if (!";
+    source += generateApply(
+      validator,
+      "instance[index]",
+      'location + "/" + index',
+    );
+    source += ") {\n";
+    source += "      valid = false;\n";
+    source += "    }\n";
+    source += "  }\n";
+    source += "  evaluated.items = instance.length;\n";
+    source += "}";
+    return source;
+  },
+} as const satisfies Keyword<unknown>;
+
+/**
+ * The JSON Schema Draft 2019-09 Applicator vocabulary.
+ *
+ * @see [JSON Schema Core §9](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-9)
+ * @category Vocabularies
+ */
+export const applicatorVocabulary = {
+  uri: "https://json-schema.org/draft/2019-09/vocab/applicator",
+
+  keywords: {
+    additionalItems: additionalItemsKeyword,
+    unevaluatedItems: unevaluatedItemsKeyword,
+    items: itemsKeyword,
+    contains: containsKeyword,
+    additionalProperties: additionalPropertiesKeyword,
+    unevaluatedProperties: unevaluatedPropertiesKeyword,
+    properties: propertiesKeyword,
+    patternProperties: patternPropertiesKeyword,
+    dependentSchemas: dependentSchemasKeyword,
+    propertyNames: propertyNamesKeyword,
+    if: ifKeyword,
+    then: thenKeyword,
+    else: elseKeyword,
+    allOf: allOfKeyword,
+    anyOf: anyOfKeyword,
+    oneOf: oneOfKeyword,
+    not: notKeyword,
+  },
+
+  node: {
+    $schema: "https://json-schema.org/draft/2019-09/schema",
+    $id: "https://json-schema.org/draft/2019-09/meta/applicator",
+    $vocabulary: {
+      "https://json-schema.org/draft/2019-09/vocab/applicator": true,
+    },
+    $recursiveAnchor: true,
+    title: "Applicator vocabulary meta-schema",
+    type: ["object", "boolean"],
+    properties: {
+      additionalItems: { $recursiveRef: "#" },
+      unevaluatedItems: { $recursiveRef: "#" },
+      items: {
+        anyOf: [{ $recursiveRef: "#" }, { $ref: "#/$defs/schemaArray" }],
+      },
+      contains: { $recursiveRef: "#" },
+      additionalProperties: { $recursiveRef: "#" },
+      unevaluatedProperties: { $recursiveRef: "#" },
+      properties: {
+        type: "object",
+        additionalProperties: { $recursiveRef: "#" },
+        default: {},
+      },
+      patternProperties: {
+        type: "object",
+        additionalProperties: { $recursiveRef: "#" },
+        propertyNames: { format: "regex" },
+        default: {},
+      },
+      dependentSchemas: {
+        type: "object",
+        additionalProperties: {
+          $recursiveRef: "#",
+        },
+      },
+      propertyNames: { $recursiveRef: "#" },
+      if: { $recursiveRef: "#" },
+      then: { $recursiveRef: "#" },
+      else: { $recursiveRef: "#" },
+      allOf: { $ref: "#/$defs/schemaArray" },
+      anyOf: { $ref: "#/$defs/schemaArray" },
+      oneOf: { $ref: "#/$defs/schemaArray" },
+      not: { $recursiveRef: "#" },
+    },
+    $defs: {
+      schemaArray: {
+        type: "array",
+        minItems: 1,
+        items: { $recursiveRef: "#" },
+      },
+    },
+  },
+} as const satisfies Vocabulary;
@@ -0,0 +1,31 @@
+import type { Vocabulary } from "../vocabulary.ts";
+import { contentVocabulary as contentVocabulary202012 } from "../draft-2020-12/content.ts";
+
+/**
+ * The JSON Schema Draft 2019-09 Content vocabulary, whose keywords
+ * are unchanged in Draft 2020-12.
+ *
+ * @see [JSON Schema Validation §8](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-validation-02#section-8)
+ * @category Vocabularies
+ */
+export const contentVocabulary = {
+  uri: "https://json-schema.org/draft/2019-09/vocab/content",
+
+  keywords: contentVocabulary202012.keywords,
+
+  node: {
+    $schema: "https://json-schema.org/draft/2019-09/schema",
+    $id: "https://json-schema.org/draft/2019-09/meta/content",
+    $vocabulary: {
+      "https://json-schema.org/draft/2019-09/vocab/content": true,
+    },
+    $recursiveAnchor: true,
+    title: "Content vocabulary meta-schema",
+    type: ["object", "boolean"],
+    properties: {
+      contentMediaType: { type: "string" },
+      contentEncoding: { type: "string" },
+      contentSchema: { $recursiveRef: "#" },
+    },
+  },
+} as const satisfies Vocabulary;
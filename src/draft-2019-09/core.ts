@@ -0,0 +1,429 @@
+import type { Uri } from "tool-uri";
+import { parseUriReference, resolveUri } from "tool-uri";
+import {
+  isObject,
+  nestFrame,
+  currentFrame,
+  currentBaseUri,
+  currentLocation,
+  currentResource,
+  setResourceAnchor,
+  getReference,
+  registerReference,
+} from "tool-json";
+import { ValidationError } from "../error.ts";
+import type { SchemaContext, SchemaFrame } from "../context.ts";
+import { emitOutput, attachError } from "../output.ts";
+import { Keyword } from "../keyword.ts";
+import type { Vocabulary } from "../vocabulary.ts";
+import type { KeywordValidator } from "../compile.ts";
+import {
+  compileSchemaNode,
+  createKeywordFrame,
+  createSubschemaFrame,
+  emitKeywordError,
+} from "../compile.ts";
+import { validateSchemaResource } from "../resource.ts";
+import {
+  $schemaKeyword,
+  $vocabularyKeyword,
+  $idKeyword,
+  $refKeyword,
+  $defsKeyword,
+  $commentKeyword,
+} from "../draft-2020-12/core.ts";
+
+/**
+ * A JSON Schema that uses the Draft 2019-09 Core vocabulary.
+ *
+ * @see [JSON Schema Core §8](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-8)
+ * @category Vocabularies
+ */
+export interface CoreVocabulary<Schema> {
+  /**
+   * A URI identifying the JSON Schema dialect used for validation.
+   * Should be used only in the root schema.
+   *
+   * @see [JSON Schema Core §8.1.1](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-8.1.1)
+   */
+  readonly $schema?: string;
+
+  /**
+   * A mapping of vocabulary URIs to boolean values indicating whether the
+   * vocabulary is required.
+   *
+   * @see [JSON Schema Core §8.1.2](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-8.1.2)
+   */
+  readonly $vocabulary?: { readonly [uri: string]: boolean };
+
+  /**
+   * A URI for identifying and resolving references to the schema.
+   *
+   * @see [JSON Schema Core §8.2.2](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-8.2.2)
+   */
+  readonly $id?: string;
+
+  /**
+   * Defines a plain name fragment identifier for the schema.
+   *
+   * @see [JSON Schema Core §8.2.3](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-8.2.3)
+   */
+  readonly $anchor?: string;
+
+  /**
+   * Marks the schema resource as a target for dynamic extension
+   * by `$recursiveRef`.
+   *
+   * @see [JSON Schema Core §8.2.4.2.2](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-8.2.4.2.2)
+   */
+  readonly $recursiveAnchor?: boolean;
+
+  /**
+   * A URI-reference to the schema to include.
+   *
+   * @see [JSON Schema Core §8.2.4.1](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-8.2.4.1)
+   */
+  readonly $ref?: string;
+
+  /**
+   * A URI-reference to a schema whose base URI is determined dynamically
+   * by `$recursiveAnchor`.
+   *
+   * @see [JSON Schema Core §8.2.4.2.1](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-8.2.4.2.1)
+   */
+  readonly $recursiveRef?: string;
+
+  /**
+   * Inline schema definitions for reuse.
+   *
+   * @see [JSON Schema Core §8.2.5](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-8.2.5)
+   */
+  readonly $defs?: { readonly [key: string]: Schema | boolean };
+
+  /**
+   * A comment for schema maintainers. Not intended for end-users.
+   *
+   * @see [JSON Schema Core §8.3](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-8.3)
+   */
+  readonly $comment?: string;
+}
+
+/**
+ * The `$anchor` keyword.
+ *
+ * @see [JSON Schema Core §8.2.3](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-8.2.3)
+ * @category Keywords
+ */
+export const $anchorKeyword = {
+  ...Keyword.prototype,
+  key: "$anchor",
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    // §8.2.3 ¶2: MUST be a string.
+    if (typeof node !== "string") {
+      throw new ValidationError('"$anchor" must be a string', {
+        location: currentLocation(context),
+      });
+    }
+
+    // §8.2.3 ¶3: MUST start with a letter ([A-Za-z]), followed by any number
+    // of letters, digits ([0-9]), hyphens ("-"), underscores ("_"),
+    // colons (":"), or periods (".").
+    if (!/^[A-Za-z][A-Za-z0-9\-_:.]*$/.test(node)) {
+      throw new ValidationError('"$anchor" must be a valid identifier', {
+        location: currentLocation(context),
+      });
+    }
+
+    // Get the stack frame associated with the keyword's parent schema.
+    const schemaFrame = frame.parent;
+    if (!isObject(schemaFrame?.node)) {
+      throw new ValidationError("Unknown parent schema", {
+        location: currentLocation(context),
+      });
+    }
+
+    // Get the nearest enclosing canonical resource.
+    const resource = currentResource(context, schemaFrame);
+    if (resource === undefined) {
+      throw new ValidationError("No current resource", {
+        location: currentLocation(context),
+      });
+    }
+
+    // §8.2.3 ¶1: Defines a plain name fragment identifier that can be used
+    // in place of JSON Pointer fragments.
+    setResourceAnchor(resource, node, schemaFrame.node);
+  },
+} as const satisfies Keyword<string>;
+
+/**
+ * The `$recursiveAnchor` keyword.
+ *
+ * @see [JSON Schema Core §8.2.4.2.2](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-8.2.4.2.2)
+ * @category Keywords
+ */
+export const $recursiveAnchorKeyword = {
+  ...Keyword.prototype,
+  key: "$recursiveAnchor",
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    // §8.2.4.2.2 ¶1: MUST be a boolean.
+    if (typeof node !== "boolean") {
+      throw new ValidationError('"$recursiveAnchor" must be a boolean', {
+        location: currentLocation(context),
+      });
+    }
+  },
+} as const satisfies Keyword<boolean>;
+
+/**
+ * The `$recursiveRef` keyword.
+ *
+ * @see [JSON Schema Core §8.2.4.2.1](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-8.2.4.2.1)
+ * @category Keywords
+ */
+export const $recursiveRefKeyword = {
+  ...Keyword.prototype,
+  key: "$recursiveRef",
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    // §8.2.4.2.1 ¶1: MUST be a string which is a URI-reference.
+    if (typeof node !== "string") {
+      throw new ValidationError('"$recursiveRef" must be a string', {
+        location: currentLocation(context),
+      });
+    }
+
+    let refUri: Uri;
+    try {
+      refUri = parseUriReference(node);
+    } catch (cause) {
+      throw new ValidationError(
+        '"$recursiveRef" must be a valid URI reference',
+        { location: currentLocation(context), cause },
+      );
+    }
+
+    // §8.2.4.2.2 ¶4: The initial target is resolved against the current
+    // base URI, as if "$ref" had been used.
+    refUri = resolveUri(currentBaseUri(frame), refUri);
+
+    // Get the stack frame associated with the keyword's parent schema.
+    const schemaFrame = frame.parent;
+    if (!isObject(schemaFrame?.node)) {
+      throw new ValidationError("Unknown parent schema", {
+        location: currentLocation(context),
+      });
+    }
+
+    registerReference(context, schemaFrame.node, "$recursiveRef", refUri.href);
+  },
+
+  validate(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as string;
+    const instance = frame.instance;
+
+    const reference = getReference(context, frame.parent?.node);
+    if (reference === undefined) {
+      attachError(context, "unknown schema reference", "unknownReference", {
+        reference: node,
+      });
+      return;
+    }
+
+    const target = reference.target;
+    if (!isObject(target)) {
+      attachError(
+        context,
+        "unresolved schema reference",
+        "unresolvedReference",
+        { reference: node },
+      );
+      return;
+    }
+
+    const resolved = resolveRecursiveTarget(frame, target);
+    nestFrame(context, (frame: SchemaFrame): void => {
+      frame.node = resolved;
+      frame.instance = instance;
+      validateSchemaResource(context);
+    });
+  },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as string;
+
+    const reference = getReference(context, frame.parent?.node);
+    if (reference === undefined) {
+      return (frame: SchemaFrame): void => {
+        emitKeywordError(
+          context,
+          frame,
+          "$recursiveRef",
+          node,
+          "unknown schema reference",
+          "unknownReference",
+          { reference: node },
+        );
+      };
+    }
+
+    const target = reference.target;
+    if (!isObject(target)) {
+      return (frame: SchemaFrame): void => {
+        emitKeywordError(
+          context,
+          frame,
+          "$recursiveRef",
+          node,
+          "unresolved schema reference",
+          "unresolvedReference",
+          { reference: node },
+        );
+      };
+    }
+
+    // Statically bind the initially resolved schema's validator.
+    const validator = compileSchemaNode(context, target);
+
+    return (frame: SchemaFrame): void => {
+      const keywordFrame = createKeywordFrame(frame, "$recursiveRef", node);
+
+      // Dynamically resolved schemas are compiled on first use.
+      const resolved = resolveRecursiveTarget(frame, target);
+      const resolvedValidator =
+        resolved === target ? validator : compileSchemaNode(context, resolved);
+      resolvedValidator(
+        createSubschemaFrame(
+          keywordFrame,
+          undefined,
+          resolved,
+          undefined,
+          frame.instance,
+          false,
+        ),
+      );
+      emitOutput(context, keywordFrame);
+    };
+  },
+} as const satisfies Keyword<string>;
+
+/**
+ * Returns the schema dynamically referenced by a `$recursiveRef` keyword
+ * with the given initial target, evaluated in the given stack frame.
+ */
+function resolveRecursiveTarget(
+  frame: SchemaFrame,
+  target: { readonly [key: string]: unknown },
+): { readonly [key: string]: unknown } {
+  // §8.2.4.2.2 ¶5: If the initially resolved target does not have
+  // "$recursiveAnchor" set to true, processing proceeds as if "$ref"
+  // had been used.
+  if (target.$recursiveAnchor !== true) {
+    return target;
+  }
+
+  // §8.2.4.2.2 ¶6: Otherwise, the new base URI is the outermost schema
+  // resource in the dynamic scope that has "$recursiveAnchor" set to true.
+  let resolved = target;
+  let dynamicFrame: SchemaFrame | undefined = frame;
+  do {
+    const dynamicNode = dynamicFrame.node;
+    if (isObject(dynamicNode) && dynamicNode.$recursiveAnchor === true) {
+      resolved = dynamicNode;
+    }
+    dynamicFrame = dynamicFrame.parent;
+  } while (dynamicFrame !== undefined);
+  return resolved;
+}
+
+/**
+ * The JSON Schema Draft 2019-09 Core vocabulary.
+ *
+ * @see [JSON Schema Core §8](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02#section-8)
+ * @category Vocabularies
+ */
+export const coreVocabulary = {
+  uri: "https://json-schema.org/draft/2019-09/vocab/core",
+
+  keywords: {
+    $schema: $schemaKeyword,
+    $vocabulary: $vocabularyKeyword,
+    $id: $idKeyword,
+    $anchor: $anchorKeyword,
+    $recursiveAnchor: $recursiveAnchorKeyword,
+    $ref: $refKeyword,
+    $recursiveRef: $recursiveRefKeyword,
+    $defs: $defsKeyword,
+    $comment: $commentKeyword,
+  },
+
+  node: {
+    $schema: "https://json-schema.org/draft/2019-09/schema",
+    $id: "https://json-schema.org/draft/2019-09/meta/core",
+    $vocabulary: {
+      "https://json-schema.org/draft/2019-09/vocab/core": true,
+    },
+    $recursiveAnchor: true,
+    title: "Core vocabulary meta-schema",
+    type: ["object", "boolean"],
+    properties: {
+      $id: {
+        type: "string",
+        format: "uri-reference",
+        $comment: "Non-empty fragments not allowed.",
+        pattern: "^[^#]*#?$",
+      },
+      $schema: {
+        type: "string",
+        format: "uri",
+      },
+      $anchor: {
+        type: "string",
+        pattern: "^[A-Za-z][-A-Za-z0-9.:_]*$",
+      },
+      $ref: {
+        type: "string",
+        format: "uri-reference",
+      },
+      $recursiveRef: {
+        type: "string",
+        format: "uri-reference",
+      },
+      $recursiveAnchor: {
+        type: "boolean",
+        default: false,
+      },
+      $vocabulary: {
+        type: "object",
+        propertyNames: {
+          type: "string",
+          format: "uri",
+        },
+        additionalProperties: {
+          type: "boolean",
+        },
+      },
+      $comment: {
+        type: "string",
+      },
+      $defs: {
+        type: "object",
+        additionalProperties: { $recursiveRef: "#" },
+        default: {},
+      },
+    },
+  },
+} as const satisfies Vocabulary;
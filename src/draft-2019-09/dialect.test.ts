@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { parseSchema } from "tool-schema";
+
+void suite("Draft 2019-09", () => {
+  void test("supports type assertions", async () => {
+    const schema = await parseSchema({
+      $schema: "https://json-schema.org/draft/2019-09/schema",
+      type: "string",
+    });
+    assert(schema.validate("hello").valid);
+    assert(!schema.validate(1).valid);
+  });
+
+  void test("supports array form items with additionalItems", async () => {
+    const schema = await parseSchema({
+      $schema: "https://json-schema.org/draft/2019-09/schema",
+      items: [{ type: "string" }, { type: "number" }],
+      additionalItems: { type: "boolean" },
+    });
+    assert(schema.validate(["a", 1, true, false]).valid);
+    assert(!schema.validate(["a", 1, "b"]).valid);
+    assert(!schema.validate([1]).valid);
+  });
+
+  void test("ignores contains when evaluating unevaluatedItems", async () => {
+    const schema = await parseSchema({
+      $schema: "https://json-schema.org/draft/2019-09/schema",
+      items: [{ type: "string" }],
+      contains: { type: "number" },
+      unevaluatedItems: false,
+    });
+    assert(!schema.validate(["a", 1]).valid);
+
+    const open = await parseSchema({
+      $schema: "https://json-schema.org/draft/2019-09/schema",
+      allOf: [{ items: [true] }, { items: [true, true] }],
+      unevaluatedItems: false,
+    });
+    assert(open.validate([1, 2]).valid);
+    assert(!open.validate([1, 2, 3]).valid);
+  });
+
+  void test("supports $recursiveRef and $recursiveAnchor", async () => {
+    const schema = await parseSchema({
+      $schema: "https://json-schema.org/draft/2019-09/schema",
+      $id: "https://example.com/strict-tree",
+      $recursiveAnchor: true,
+      $ref: "tree",
+      unevaluatedProperties: false,
+      $defs: {
+        tree: {
+          $id: "https://example.com/tree",
+          $recursiveAnchor: true,
+          type: "object",
+          properties: {
+            value: true,
+            children: {
+              type: "array",
+              items: { $recursiveRef: "#" },
+            },
+          },
+        },
+      },
+    });
+    assert(schema.validate({ value: 1, children: [{ value: 2 }] }).valid);
+    // The nested node resolves to the strict outer schema.
+    assert(!schema.validate({ children: [{ value: 2, extra: true }] }).valid);
+    assert(!schema.validate({ extra: true }).valid);
+  });
+
+  void test("treats $recursiveRef as $ref without $recursiveAnchor", async () => {
+    const schema = await parseSchema({
+      $schema: "https://json-schema.org/draft/2019-09/schema",
+      $id: "https://example.com/strict-tree",
+      $recursiveAnchor: true,
+      $ref: "tree",
+      unevaluatedProperties: false,
+      $defs: {
+        tree: {
+          $id: "https://example.com/tree",
+          type: "object",
+          properties: {
+            value: true,
+            children: {
+              type: "array",
+              items: { $recursiveRef: "#" },
+            },
+          },
+        },
+      },
+    });
+    assert(schema.validate({ children: [{ value: 2, extra: true }] }).valid);
+  });
+});
@@ -0,0 +1,104 @@
+import type { Format } from "../format.ts";
+import type { Dialect } from "../dialect.ts";
+import * as formats from "../format/mod.ts";
+import type { ValidationVocabulary } from "../draft-2020-12/validation.ts";
+import type { FormatAnnotationVocabulary } from "../draft-2020-12/format-annotation.ts";
+import type { ContentVocabulary } from "../draft-2020-12/content.ts";
+import type { MetaDataVocabulary } from "../draft-2020-12/meta-data.ts";
+import type { CoreVocabulary } from "./core.ts";
+import { coreVocabulary } from "./core.ts";
+import type { ApplicatorVocabulary } from "./applicator.ts";
+import { applicatorVocabulary } from "./applicator.ts";
+import { validationVocabulary } from "./validation.ts";
+import { metaDataVocabulary } from "./meta-data.ts";
+import { formatVocabulary } from "./format.ts";
+import { contentVocabulary } from "./content.ts";
+
+/**
+ * A JSON Schema that uses the Draft 2019-09 dialect.
+ *
+ * @see [JSON Schema Core Draft 2019-09](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-02)
+ * @see [JSON Schema Validation Draft 2019-09](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-validation-02)
+ * @category Dialect
+ */
+export interface Schema
+  extends
+    CoreVocabulary<Schema>,
+    ApplicatorVocabulary<Schema>,
+    ValidationVocabulary,
+    MetaDataVocabulary,
+    FormatAnnotationVocabulary,
+    ContentVocabulary<Schema> {}
+
+/**
+ * The JSON Schema Draft 2019-09 dialect.
+ *
+ * @category Dialect
+ */
+export const dialect = {
+  uri: "https://json-schema.org/draft/2019-09/schema",
+
+  formats: formats as { readonly [format: string]: Format },
+
+  keywords: {
+    ...coreVocabulary.keywords,
+    ...applicatorVocabulary.keywords,
+    ...validationVocabulary.keywords,
+    ...metaDataVocabulary.keywords,
+    ...formatVocabulary.keywords,
+    ...contentVocabulary.keywords,
+  },
+
+  vocabularies: {
+    [coreVocabulary.uri]: coreVocabulary,
+    [applicatorVocabulary.uri]: applicatorVocabulary,
+    [validationVocabulary.uri]: validationVocabulary,
+    [metaDataVocabulary.uri]: metaDataVocabulary,
+    [formatVocabulary.uri]: formatVocabulary,
+    [contentVocabulary.uri]: contentVocabulary,
+  },
+
+  node: {
+    $schema: "https://json-schema.org/draft/2019-09/schema",
+    $id: "https://json-schema.org/draft/2019-09/schema",
+    $vocabulary: {
+      "https://json-schema.org/draft/2019-09/vocab/core": true,
+      "https://json-schema.org/draft/2019-09/vocab/applicator": true,
+      "https://json-schema.org/draft/2019-09/vocab/validation": true,
+      "https://json-schema.org/draft/2019-09/vocab/meta-data": true,
+      "https://json-schema.org/draft/2019-09/vocab/format": false,
+      "https://json-schema.org/draft/2019-09/vocab/content": true,
+    },
+    $recursiveAnchor: true,
+    title: "Core and Validation specifications meta-schema",
+    allOf: [
+      { $ref: "meta/core" },
+      { $ref: "meta/applicator" },
+      { $ref: "meta/validation" },
+      { $ref: "meta/meta-data" },
+      { $ref: "meta/format" },
+      { $ref: "meta/content" },
+    ],
+    type: ["object", "boolean"],
+    properties: {
+      definitions: {
+        $comment:
+          "While no longer an official keyword as it is replaced by $defs, this keyword is retained in the meta-schema to prevent incompatible extensions as it remains in common use.",
+        type: "object",
+        additionalProperties: { $recursiveRef: "#" },
+        default: {},
+      },
+      dependencies: {
+        $comment:
+          '"dependencies" is no longer a keyword, but schema authors should avoid redefining it to facilitate a smooth transition to "dependentSchemas" and "dependentRequired"',
+        type: "object",
+        additionalProperties: {
+          anyOf: [
+            { $recursiveRef: "#" },
+            { $ref: "meta/validation#/$defs/stringArray" },
+          ],
+        },
+      },
+    },
+  },
+} as const satisfies Dialect;
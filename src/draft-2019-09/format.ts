@@ -0,0 +1,31 @@
+import type { Vocabulary } from "../vocabulary.ts";
+import { formatAnnotationVocabulary } from "../draft-2020-12/format-annotation.ts";
+
+/**
+ * The JSON Schema Draft 2019-09 Format vocabulary. The `format` keyword
+ * only produces annotations, unless format assertion is enabled.
+ *
+ * @see [JSON Schema Validation §7](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-validation-02#section-7)
+ * @category Vocabularies
+ */
+export const formatVocabulary = {
+  uri: "https://json-schema.org/draft/2019-09/vocab/format",
+
+  formats: formatAnnotationVocabulary.formats,
+
+  keywords: formatAnnotationVocabulary.keywords,
+
+  node: {
+    $schema: "https://json-schema.org/draft/2019-09/schema",
+    $id: "https://json-schema.org/draft/2019-09/meta/format",
+    $vocabulary: {
+      "https://json-schema.org/draft/2019-09/vocab/format": true,
+    },
+    $recursiveAnchor: true,
+    title: "Format vocabulary meta-schema",
+    type: ["object", "boolean"],
+    properties: {
+      format: { type: "string" },
+    },
+  },
+} as const satisfies Vocabulary;
@@ -0,0 +1,51 @@
+import type { Vocabulary } from "../vocabulary.ts";
+import { metaDataVocabulary as metaDataVocabulary202012 } from "../draft-2020-12/meta-data.ts";
+
+/**
+ * The JSON Schema Draft 2019-09 Meta-Data vocabulary, whose keywords
+ * are unchanged in Draft 2020-12.
+ *
+ * @see [JSON Schema Validation §9](https://datatracker.ietf.org/doc/html/draft-handrews-json-schema-validation-02#section-9)
+ * @category Vocabularies
+ */
+export const metaDataVocabulary = {
+  uri: "https://json-schema.org/draft/2019-09/vocab/meta-data",
+
+  keywords: metaDataVocabulary202012.keywords,
+
+  node: {
+    $schema: "https://json-schema.org/draft/2019-09/schema",
+    $id: "https://json-schema.org/draft/2019-09/meta/meta-data",
+    $vocabulary: {
+      "https://json-schema.org/draft/2019-09/vocab/meta-data": true,
+    },
+    $recursiveAnchor: true,
+    title: "Meta-data vocabulary meta-schema",
+    type: ["object", "boolean"],
+    properties: {
+      title: {
+        type: "string",
+      },
+      description: {
+        type: "string",
+      },
+      default: true,
+      deprecated: {
+        type: "boolean",
+        default: false,
+      },
+      readOnly: {
+        type: "boolean",
+        default: false,
+      },
+      writeOnly: {
+        type: "boolean",
+        default: false,
+      },
+      examples: {
+        type: "array",
+        items: true,
+      },
+    },
+  },
+} as const satisfies Vocabulary;
@@ -0,0 +1,21 @@
+export type { CoreVocabulary } from "./core.ts";
+export {
+  $anchorKeyword,
+  $recursiveAnchorKeyword,
+  $recursiveRefKeyword,
+  coreVocabulary,
+} from "./core.ts";
+
+export type { ApplicatorVocabulary } from "./applicator.ts";
+export { unevaluatedItemsKeyword, applicatorVocabulary } from "./applicator.ts";
+
+export { validationVocabulary } from "./validation.ts";
+
+export { metaDataVocabulary } from "./meta-data.ts";
+
+export { formatVocabulary } from "./format.ts";
+
+export { contentVocabulary } from "./content.ts";
+
+export type { Schema } from "./dialect.ts";
+export { dialect } from "./dialect.ts";
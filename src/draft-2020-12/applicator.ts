@@ -1,6 +1,7 @@
 import {
   isArray,
   isObject,
+  escapePointer,
   nestFrame,
   currentFrame,
   currentLocation,
@@ -11,14 +12,38 @@ import { cachePattern } from "../context.ts";
 import {
   emitOutput,
   attachError,
+  attachFrameError,
   attachAnnotation,
+  attachFrameAnnotation,
   getChildAnnotation,
   saveCheckpoint,
   restoreCheckpoint,
 } from "../output.ts";
 import { Keyword } from "../keyword.ts";
 import type { Vocabulary } from "../vocabulary.ts";
-import { parseSchemaResource, validateSchemaResource } from "../resource.ts";
+import type { SchemaValidator, KeywordValidator } from "../compile.ts";
+import {
+  compileSchemaNode,
+  createKeywordFrame,
+  createSubschemaFrame,
+} from "../compile.ts";
+import type { ModuleGenerator } from "../generate.ts";
+import {
+  generateSchemaNode,
+  generateError,
+  generateAssertion,
+  generateApply,
+  declareConstant,
+  declarePattern,
+  declareLocal,
+  declareHelper,
+  indent,
+} from "../generate.ts";
+import {
+  parseSchemaResource,
+  validateSchemaResource,
+  requiresAnnotations,
+} from "../resource.ts";
 
 /**
  * A JSON Schema that uses the Draft 2020-12 Applicator vocabulary.
@@ -199,11 +224,80 @@ export const allOfKeyword = {
         valid &&= frame.output.valid;
         emitOutput(context, frame);
       });
+      if (!valid && context.flag === true) {
+        break;
+      }
     }
 
     if (!valid) {
-      attachError(context, "not valid against all subschemas");
+      attachError(context, "not valid against all subschemas", "allOf", {});
+    }
+  },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as readonly unknown[];
+
+    const validators: SchemaValidator[] = [];
+    for (let index = 0; index < node.length; index += 1) {
+      validators.push(compileSchemaNode(context, node[index], index));
+    }
+
+    return (frame: SchemaFrame): void => {
+      const keywordFrame = createKeywordFrame(frame, "allOf", node);
+      const instance = frame.instance;
+
+      let valid = true;
+      for (let index = 0; index < node.length; index += 1) {
+        const subschemaFrame = createSubschemaFrame(
+          keywordFrame,
+          index,
+          node[index],
+          undefined,
+          instance,
+        );
+        validators[index]!(subschemaFrame);
+        valid &&= subschemaFrame.output!.valid;
+        emitOutput(context, subschemaFrame);
+      }
+
+      if (!valid) {
+        attachFrameError(
+          context,
+          keywordFrame,
+          "not valid against all subschemas",
+          "allOf",
+          {},
+        );
+      }
+      emitOutput(context, keywordFrame);
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as readonly unknown[];
+
+    let source = "let allValid = true;\n";
+    for (let index = 0; index < node.length; index += 1) {
+      const validator = generateSchemaNode(
+        context,
+        generator,
+        node[index],
+        index,
+      );
+      source += "if (!";
+      source += generateApply(validator, "instance", "location", "evaluated");
+      source += ") {\n";
+      source += "  allValid = false;\n";
+      source += "}\n";
     }
+    source += generateAssertion(
+      context,
+      "!allValid",
+      "not valid against all subschemas",
+    );
+    return source;
   },
 } as const satisfies Keyword<readonly unknown[]>;
 
@@ -263,15 +357,58 @@ export const anyOfKeyword = {
         valid ||= frame.output.valid;
         emitOutput(context, frame);
       });
+      // In flag mode, only evaluate subsequent subschemas
+      // if their annotations are required.
+      if (valid && !requiresAnnotations(context, frame)) {
+        break;
+      }
     }
 
     if (!valid) {
-      attachError(context, "not valid against any subschemas");
+      attachError(context, "not valid against any subschemas", "anyOf", {});
       return;
     }
 
     restoreCheckpoint(checkpoint);
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as readonly unknown[];
+
+    let source = "const anyErrors = [];\n";
+    source += "let anyValid = false;\n";
+    for (let index = 0; index < node.length; index += 1) {
+      const validator = generateSchemaNode(
+        context,
+        generator,
+        node[index],
+        index,
+      );
+      source += "{\n";
+      source += "  const anyEvaluated = createEvaluated();\n";
+      source += "  if (";
+      source += generateApply(
+        validator,
+        "instance",
+        "location",
+        "anyEvaluated",
+        "anyErrors",
+      );
+      source += ") {\n";
+      source += "    anyValid = true;\n";
+      source += "    mergeEvaluated(evaluated, anyEvaluated);\n";
+      source += "  }\n";
+      source += "}\n";
+    }
+    source += "if (!anyValid) {\n";
+    source += "  errors.push(...anyErrors);\n";
+    source += indent(
+      generateError(context, '"not valid against any subschemas"'),
+    );
+    source += "\n}";
+    return source;
+  },
 } as const satisfies Keyword<readonly unknown[]>;
 
 /**
@@ -332,15 +469,61 @@ export const oneOfKeyword = {
         }
         emitOutput(context, frame);
       });
+      if (validCount > 1 && context.flag === true) {
+        break;
+      }
     }
 
     if (validCount !== 1) {
-      attachError(context, "not valid against exactly one subschema");
+      attachError(context, "not valid against exactly one subschema", "oneOf", {
+        matches: validCount,
+      });
       return;
     }
 
     restoreCheckpoint(checkpoint);
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as readonly unknown[];
+
+    let source = "const oneErrors = [];\n";
+    source += "const oneEvaluated = createEvaluated();\n";
+    source += "let validCount = 0;\n";
+    for (let index = 0; index < node.length; index += 1) {
+      const validator = generateSchemaNode(
+        context,
+        generator,
+        node[index],
+        index,
+      );
+      source += "{\n";
+      source += "  const subschemaEvaluated = createEvaluated();\n";
+      source += "  if (";
+      source += generateApply(
+        validator,
+        "instance",
+        "location",
+        "subschemaEvaluated",
+        "oneErrors",
+      );
+      source += ") {\n";
+      source += "    validCount += 1;\n";
+      source += "    mergeEvaluated(oneEvaluated, subschemaEvaluated);\n";
+      source += "  }\n";
+      source += "}\n";
+    }
+    source += "if (validCount === 1) {\n";
+    source += "  mergeEvaluated(evaluated, oneEvaluated);\n";
+    source += "} else {\n";
+    source += "  errors.push(...oneErrors);\n";
+    source += indent(
+      generateError(context, '"not valid against exactly one subschema"'),
+    );
+    source += "\n}";
+    return source;
+  },
 } as const satisfies Keyword<readonly unknown[]>;
 
 /**
@@ -368,12 +551,28 @@ export const notKeyword = {
     validateSchemaResource(context);
 
     if (frame.output?.valid !== false) {
-      attachError(context, "unexpectedly valid");
+      attachError(context, "unexpectedly valid", "not", {});
       return;
     }
 
     restoreCheckpoint(checkpoint);
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const validator = generateSchemaNode(context, generator, frame.node);
+    return generateAssertion(
+      context,
+      generateApply(
+        validator,
+        "instance",
+        "location",
+        "createEvaluated()",
+        "[]",
+      ),
+      "unexpectedly valid",
+    );
+  },
 } as const satisfies Keyword<unknown>;
 
 /**
@@ -404,6 +603,27 @@ export const ifKeyword = {
     // has no direct effect on the overall validation result.
     restoreCheckpoint(checkpoint);
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const validator = generateSchemaNode(context, generator, frame.node);
+    const ifValid = declareLocal(generator, "ifValid");
+
+    let source = "const ifEvaluated = createEvaluated();\n";
+    source += ifValid + " = ";
+    source += generateApply(
+      validator,
+      "instance",
+      "location",
+      "ifEvaluated",
+      "[]",
+    );
+    source += ";\n";
+    source += "if (" + ifValid + ") {\n";
+    source += "  mergeEvaluated(evaluated, ifEvaluated);\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<unknown>;
 
 /**
@@ -437,6 +657,19 @@ export const thenKeyword = {
       validateSchemaResource(context);
     }
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const validator = generateSchemaNode(context, generator, frame.node);
+    const ifValid = declareLocal(generator, "ifValid");
+
+    let source = "if (" + ifValid + " === true && !";
+    source += generateApply(validator, "instance", "location", "evaluated");
+    source += ") {\n";
+    source += "  valid = false;\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<unknown>;
 
 /**
@@ -469,6 +702,19 @@ export const elseKeyword = {
       validateSchemaResource(context);
     }
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const validator = generateSchemaNode(context, generator, frame.node);
+    const ifValid = declareLocal(generator, "ifValid");
+
+    let source = "if (" + ifValid + " === false && !";
+    source += generateApply(validator, "instance", "location", "evaluated");
+    source += ") {\n";
+    source += "  valid = false;\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<unknown>;
 
 /**
@@ -534,6 +780,9 @@ export const dependentSchemasKeyword = {
         }
         emitOutput(context, frame);
       });
+      if (invalidDependents !== undefined && context.flag === true) {
+        break;
+      }
     }
 
     if (invalidDependents !== undefined) {
@@ -550,8 +799,46 @@ export const dependentSchemasKeyword = {
         }
         message += " dependent subschemas";
       }
-      attachError(context, message);
+      attachError(context, message, "dependentSchemas", {
+        properties: invalidDependents,
+      });
+    }
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as { readonly [key: string]: unknown };
+    const joinList = declareHelper(generator, "joinList");
+
+    let source = "if (isObject(instance)) {\n";
+    source += "  const invalidDependents = [];\n";
+    for (const [key, subschema] of Object.entries(node)) {
+      const validator = generateSchemaNode(context, generator, subschema, key);
+      const name = JSON.stringify(key);
+      source += "  if (instance[" + name + "] !== undefined && !";
+      source += generateApply(validator, "instance", "location", "evaluated");
+      source += ") {\n";
+      source += "    invalidDependents.push(" + JSON.stringify(name) + ");\n";
+      source += "  }\n";
     }
+    source += "  if (invalidDependents.length === 1) {\n";
+    source += indent(
+      generateError(context, 'invalidDependents[0] + " dependent subschema"'),
+      "    ",
+    );
+    source += "\n  } else if (invalidDependents.length !== 0) {\n";
+    source += indent(
+      generateError(
+        context,
+        '"not valid against " + ' +
+          joinList +
+          '(invalidDependents, "and") + " dependent subschemas"',
+      ),
+      "    ",
+    );
+    source += "\n  }\n";
+    source += "}";
+    return source;
   },
 } as const satisfies Keyword<{ readonly [key: string]: unknown }>;
 
@@ -612,24 +899,18 @@ export const prefixItemsKeyword = {
         valid &&= frame.output.valid;
         emitOutput(context, frame);
       });
+      if (!valid && context.flag === true) {
+        break;
+      }
     }
 
     if (commonLength !== node.length) {
-      let message: string;
-      if (instance.length === 0) {
-        message = "empty array is missing ";
-        message += node.length;
-        message += " expected prefix ";
-        message += node.length === 1 ? "item" : "items";
-      } else {
-        message = "array is missing ";
-        message += node.length - instance.length;
-        message += " of ";
-        message += node.length;
-        message += " expected prefix ";
-        message += node.length === 1 ? "item" : "items";
-      }
-      attachError(context, message);
+      attachError(
+        context,
+        missingPrefixItemsMessage(node, instance),
+        "prefixItems",
+        { expected: node.length, actual: instance.length },
+      );
     }
 
     // 10.3.1.1 ¶3: This keyword produces an annotation value which is the
@@ -644,8 +925,140 @@ export const prefixItemsKeyword = {
       }
     }
   },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as readonly unknown[];
+
+    const validators: SchemaValidator[] = [];
+    for (let index = 0; index < node.length; index += 1) {
+      validators.push(compileSchemaNode(context, node[index], index));
+    }
+
+    return (frame: SchemaFrame): void => {
+      const instance = frame.instance;
+      if (!isArray(instance)) {
+        return; // Not applicable.
+      }
+
+      const keywordFrame = createKeywordFrame(frame, "prefixItems", node);
+
+      let valid = true;
+      const commonLength = Math.min(node.length, instance.length);
+      for (let index = 0; index < commonLength; index += 1) {
+        const subschemaFrame = createSubschemaFrame(
+          keywordFrame,
+          index,
+          node[index],
+          index,
+          instance[index],
+        );
+        validators[index]!(subschemaFrame);
+        valid &&= subschemaFrame.output!.valid;
+        emitOutput(context, subschemaFrame);
+      }
+
+      if (commonLength !== node.length) {
+        attachFrameError(
+          context,
+          keywordFrame,
+          missingPrefixItemsMessage(node, instance),
+          "prefixItems",
+          { expected: node.length, actual: instance.length },
+        );
+      }
+
+      if (valid) {
+        attachFrameAnnotation(
+          context,
+          keywordFrame,
+          commonLength === instance.length ? true : commonLength,
+        );
+      }
+      emitOutput(context, keywordFrame);
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as readonly unknown[];
+    const prefixItemsCount = declareLocal(generator, "prefixItemsCount", "0");
+
+    let source = "if (Array.isArray(instance)) {\n";
+    source += "  let prefixValid = true;\n";
+    for (let index = 0; index < node.length; index += 1) {
+      const validator = generateSchemaNode(
+        context,
+        generator,
+        node[index],
+        index,
+      );
+      source += "  if (instance.length > " + index + " && !";
+      source += generateApply(
+        validator,
+        "instance[" + index + "]",
+        'location + "/' + index + '"',
+      );
+      source += ") {\n";
+      source += "    prefixValid = false;\n";
+      source += "  }\n";
+    }
+    const noun = node.length === 1 ? "item" : "items";
+    source += "  if (instance.length < " + node.length + ") {\n";
+    source += indent(
+      generateError(
+        context,
+        "instance.length === 0 ? " +
+          JSON.stringify(
+            "empty array is missing " +
+              node.length +
+              " expected prefix " +
+              noun,
+          ) +
+          ' : "array is missing " + (' +
+          node.length +
+          " - instance.length) + " +
+          JSON.stringify(" of " + node.length + " expected prefix " + noun),
+      ),
+      "    ",
+    );
+    source += "\n  }\n";
+    source += "  if (prefixValid) {\n";
+    source += "    " + prefixItemsCount + " = Math.min(";
+    source += node.length + ", instance.length);\n";
+    source += "    if (" + prefixItemsCount + " > evaluated.items) {\n";
+    source += "      evaluated.items = " + prefixItemsCount + ";\n";
+    source += "    }\n";
+    source += "  }\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<readonly unknown[]>;
 
+/**
+ * Returns an error message describing the prefix items missing from an array.
+ */
+function missingPrefixItemsMessage(
+  node: readonly unknown[],
+  instance: readonly unknown[],
+): string {
+  let message: string;
+  if (instance.length === 0) {
+    message = "empty array is missing ";
+    message += node.length;
+    message += " expected prefix ";
+    message += node.length === 1 ? "item" : "items";
+  } else {
+    message = "array is missing ";
+    message += node.length - instance.length;
+    message += " of ";
+    message += node.length;
+    message += " expected prefix ";
+    message += node.length === 1 ? "item" : "items";
+  }
+  return message;
+}
+
 /**
  * The `items` keyword.
  *
@@ -697,10 +1110,13 @@ export const itemsKeyword = {
         valid &&= frame.output.valid;
         emitOutput(context, frame);
       });
+      if (!valid && context.flag === true) {
+        break;
+      }
     }
 
     if (!valid) {
-      attachError(context, "not valid against all items");
+      attachError(context, "not valid against all items", "items", {});
     }
 
     // §10.3.1.2 ¶3: If the "items" subschema is applied to any positions
@@ -711,6 +1127,91 @@ export const itemsKeyword = {
       attachAnnotation(context, true);
     }
   },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    const validator = compileSchemaNode(context, node);
+
+    return (frame: SchemaFrame): void => {
+      const instance = frame.instance;
+      if (!isArray(instance)) {
+        return; // Not applicable.
+      }
+
+      const keywordFrame = createKeywordFrame(frame, "items", node);
+
+      const prefixItemsAnnotation = getChildAnnotation(
+        frame,
+        "prefixItems",
+      )?.annotation;
+      const startIndex =
+        prefixItemsAnnotation === true ? instance.length
+        : typeof prefixItemsAnnotation === "number" ? prefixItemsAnnotation
+        : 0;
+
+      let valid = true;
+      for (let index = startIndex; index < instance.length; index += 1) {
+        const subschemaFrame = createSubschemaFrame(
+          keywordFrame,
+          undefined,
+          node,
+          index,
+          instance[index],
+        );
+        validator(subschemaFrame);
+        valid &&= subschemaFrame.output!.valid;
+        emitOutput(context, subschemaFrame);
+      }
+
+      if (!valid) {
+        attachFrameError(
+          context,
+          keywordFrame,
+          "not valid against all items",
+          "items",
+          {},
+        );
+      }
+
+      if (valid && startIndex < instance.length) {
+        attachFrameAnnotation(context, keywordFrame, true);
+      }
+      emitOutput(context, keywordFrame);
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const validator = generateSchemaNode(context, generator, frame.node);
+    const prefixItemsCount = declareLocal(generator, "prefixItemsCount", "0");
+
+    let source = "if (Array.isArray(instance)) {\n";
+    source += "  let itemsValid = true;\n";
+    source += "  for (let index = " + prefixItemsCount + "; ";
+    source += "index < instance.length; index += 1) {\n";
+    source += "    if (!";
+    source += generateApply(
+      validator,
+      "instance[index]",
+      'location + "/" + index',
+    );
+    source += ") {\n";
+    source += "      itemsValid = false;\n";
+    source += "    }\n";
+    source += "  }\n";
+    source += "  if (!itemsValid) {\n";
+    source += indent(
+      generateError(context, '"not valid against all items"'),
+      "    ",
+    );
+    source += "\n  } else {\n";
+    source += "    evaluated.items = instance.length;\n";
+    source += "  }\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<unknown>;
 
 /**
@@ -782,7 +1283,7 @@ export const containsKeyword = {
       : 1;
 
     if (containsCount === 0 && minContains !== 0) {
-      attachError(context, "does not contain item");
+      attachError(context, "does not contain item", "contains", {});
       return;
     }
 
@@ -796,6 +1297,53 @@ export const containsKeyword = {
     // array to which this keyword's schema applies is empty.
     attachAnnotation(context, contains);
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const validator = generateSchemaNode(context, generator, frame.node);
+    const containsCount = declareLocal(generator, "containsCount");
+
+    const parentNode = frame.parent?.node;
+    const minContains =
+      isObject(parentNode) && typeof parentNode.minContains === "number" ?
+        parentNode.minContains
+      : 1;
+
+    let source = "if (Array.isArray(instance)) {\n";
+    source += "  const containsErrors = [];\n";
+    source += "  const contained = [];\n";
+    source += "  for (let index = 0; index < instance.length; index += 1) {\n";
+    source += "    if (";
+    source += generateApply(
+      validator,
+      "instance[index]",
+      'location + "/" + index',
+      "createEvaluated()",
+      "containsErrors",
+    );
+    source += ") {\n";
+    source += "      contained.push(index);\n";
+    source += "    }\n";
+    source += "  }\n";
+    if (minContains !== 0) {
+      source += "  if (contained.length === 0) {\n";
+      source += "    errors.push(...containsErrors);\n";
+      source += indent(
+        generateError(context, '"does not contain item"'),
+        "    ",
+      );
+      source += "\n  } else {\n";
+    } else {
+      source += "  {\n";
+    }
+    source += "    " + containsCount + " = contained.length;\n";
+    source += "    for (const index of contained) {\n";
+    source += "      evaluated.contained.add(index);\n";
+    source += "    }\n";
+    source += "  }\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<unknown>;
 
 /**
@@ -864,22 +1412,18 @@ export const propertiesKeyword = {
         }
         emitOutput(context, frame);
       });
+      if (invalidProperties !== undefined && context.flag === true) {
+        break;
+      }
     }
 
     if (invalidProperties !== undefined) {
-      let message: string;
-      if (invalidProperties.length === 1) {
-        message = "invalid property " + JSON.stringify(invalidProperties[0]);
-      } else {
-        message = "invalid properties ";
-        for (let i = 0; i < invalidProperties.length; i += 1) {
-          if (i !== 0) {
-            message += i !== invalidProperties.length - 1 ? ", " : " and ";
-          }
-          message += JSON.stringify(invalidProperties[i]);
-        }
-      }
-      attachError(context, message);
+      attachError(
+        context,
+        invalidPropertiesMessage(invalidProperties),
+        "properties",
+        { properties: invalidProperties },
+      );
     }
 
     // §10.3.2.1 ¶3: The annotation result of this keyword is the set of
@@ -890,8 +1434,125 @@ export const propertiesKeyword = {
       attachAnnotation(context, evaluatedProperties);
     }
   },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as { readonly [key: string]: unknown };
+
+    const validators = new Map<string, SchemaValidator>();
+    for (const [key, subschema] of Object.entries(node)) {
+      validators.set(key, compileSchemaNode(context, subschema, key));
+    }
+
+    return (frame: SchemaFrame): void => {
+      const instance = frame.instance;
+      if (!isObject(instance)) {
+        return; // Not applicable.
+      }
+
+      const keywordFrame = createKeywordFrame(frame, "properties", node);
+
+      const evaluatedProperties: string[] = [];
+      let invalidProperties: string[] | undefined;
+      for (const [key, value] of Object.entries(instance)) {
+        const validator = validators.get(key);
+        if (validator === undefined || value === undefined) {
+          continue;
+        }
+
+        const subschemaFrame = createSubschemaFrame(
+          keywordFrame,
+          key,
+          node[key],
+          key,
+          value,
+        );
+        validator(subschemaFrame);
+        evaluatedProperties.push(key);
+        if (!subschemaFrame.output!.valid) {
+          invalidProperties ??= [];
+          invalidProperties.push(key);
+        }
+        emitOutput(context, subschemaFrame);
+      }
+
+      if (invalidProperties !== undefined) {
+        attachFrameError(
+          context,
+          keywordFrame,
+          invalidPropertiesMessage(invalidProperties),
+          "properties",
+          { properties: invalidProperties },
+        );
+      } else {
+        attachFrameAnnotation(context, keywordFrame, evaluatedProperties);
+      }
+      emitOutput(context, keywordFrame);
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as { readonly [key: string]: unknown };
+    const joinList = declareHelper(generator, "joinList");
+
+    let source = "if (isObject(instance)) {\n";
+    source += "  const invalidProperties = [];\n";
+    for (const [key, subschema] of Object.entries(node)) {
+      const validator = generateSchemaNode(context, generator, subschema, key);
+      const name = JSON.stringify(key);
+      source += "  if (Object.hasOwn(instance, " + name + ") && ";
+      source += "instance[" + name + "] !== undefined) {\n";
+      source += "    evaluated.properties.add(" + name + ");\n";
+      source += "    if (!";
+      source += generateApply(
+        validator,
+        "instance[" + name + "]",
+        "location + " + JSON.stringify("/" + escapePointer(key)),
+      );
+      source += ") {\n";
+      source += "      invalidProperties.push(" + JSON.stringify(name) + ");\n";
+      source += "    }\n";
+      source += "  }\n";
+    }
+    source += "  if (invalidProperties.length !== 0) {\n";
+    source += indent(
+      generateError(
+        context,
+        '(invalidProperties.length === 1 ? "invalid property " : ' +
+          '"invalid properties ") + ' +
+          joinList +
+          '(invalidProperties, "and")',
+      ),
+      "    ",
+    );
+    source += "\n  }\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<{ readonly [key: string]: unknown }>;
 
+/**
+ * Returns an error message listing the given invalid property names.
+ */
+function invalidPropertiesMessage(
+  invalidProperties: readonly string[],
+): string {
+  let message: string;
+  if (invalidProperties.length === 1) {
+    message = "invalid property " + JSON.stringify(invalidProperties[0]);
+  } else {
+    message = "invalid properties ";
+    for (let i = 0; i < invalidProperties.length; i += 1) {
+      if (i !== 0) {
+        message += i !== invalidProperties.length - 1 ? ", " : " and ";
+      }
+      message += JSON.stringify(invalidProperties[i]);
+    }
+  }
+  return message;
+}
+
 /**
  * The `patternProperties` keyword.
  * @see [JSON Schema Core §10.3.2.2](https://datatracker.ietf.org/doc/html/draft-bhutton-json-schema-01#section-10.3.2.2)
@@ -972,6 +1633,12 @@ export const patternPropertiesKeyword = {
             }
           }
         });
+        if (invalidProperties !== undefined && context.flag === true) {
+          break;
+        }
+      }
+      if (invalidProperties !== undefined && context.flag === true) {
+        break;
       }
     }
 
@@ -989,7 +1656,9 @@ export const patternPropertiesKeyword = {
           message += JSON.stringify(invalidProperties[i]);
         }
       }
-      attachError(context, message);
+      attachError(context, message, "patternProperties", {
+        properties: invalidProperties,
+      });
     }
 
     // §10.3.2.2 ¶3: The annotation result of this keyword is the set of
@@ -1000,6 +1669,61 @@ export const patternPropertiesKeyword = {
       attachAnnotation(context, evaluatedProperties);
     }
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as { readonly [pattern: string]: unknown };
+    const joinList = declareHelper(generator, "joinList");
+
+    let source = "if (isObject(instance)) {\n";
+    source += "  const invalidProperties = [];\n";
+    source += "  for (const key of Object.keys(instance)) {\n";
+    source += "    const value = instance[key];\n";
+    source += "    if (value === undefined) {\n";
+    source += "      continue;\n";
+    source += "    }\n";
+    for (const [pattern, subschema] of Object.entries(node)) {
+      const regex = declarePattern(generator, pattern);
+      const validator = generateSchemaNode(
+        context,
+        generator,
+        subschema,
+        pattern,
+      );
+      source += "    if (" + regex + ".test(key)) {\n";
+      source += "      evaluated.properties.add(key);\n";
+      source += "      if (!";
+      source += generateApply(
+        validator,
+        "value",
+        'location + "/" + escapePointer(key)',
+        "createEvaluated()",
+        "[]",
+      );
+      source += ") {\n";
+      source += "        const name = JSON.stringify(key);\n";
+      source += "        if (!invalidProperties.includes(name)) {\n";
+      source += "          invalidProperties.push(name);\n";
+      source += "        }\n";
+      source += "      }\n";
+      source += "    }\n";
+    }
+    source += "  }\n";
+    source += "  if (invalidProperties.length !== 0) {\n";
+    source += indent(
+      generateError(
+        context,
+        '(invalidProperties.length === 1 ? "invalid pattern property " : ' +
+          '"invalid pattern properties ") + ' +
+          joinList +
+          '(invalidProperties, "and")',
+      ),
+      "    ",
+    );
+    source += "\n  }\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<{ readonly [pattern: string]: unknown }>;
 
 /**
@@ -1075,6 +1799,9 @@ export const additionalPropertiesKeyword = {
           invalidProperties.push(key);
         }
       });
+      if (invalidProperties !== undefined && context.flag === true) {
+        break;
+      }
     }
 
     if (invalidProperties !== undefined) {
@@ -1091,7 +1818,9 @@ export const additionalPropertiesKeyword = {
           message += JSON.stringify(invalidProperties[i]);
         }
       }
-      attachError(context, message);
+      attachError(context, message, "additionalProperties", {
+        properties: invalidProperties,
+      });
     }
 
     // §10.3.2.3 ¶4: The annotation result of this keyword is the set of
@@ -1102,6 +1831,70 @@ export const additionalPropertiesKeyword = {
       attachAnnotation(context, evaluatedProperties);
     }
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const validator = generateSchemaNode(context, generator, frame.node);
+    const joinList = declareHelper(generator, "joinList");
+
+    // Statically determine the properties evaluated by adjacent keywords.
+    const parentNode = frame.parent?.node;
+    const conditions: string[] = [];
+    if (isObject(parentNode) && isObject(parentNode.properties)) {
+      const propertyNames = Object.keys(parentNode.properties);
+      if (propertyNames.length !== 0) {
+        const names = declareConstant(
+          generator,
+          "new Set(" + JSON.stringify(propertyNames) + ")",
+        );
+        conditions.push(names + ".has(key)");
+      }
+    }
+    if (isObject(parentNode) && isObject(parentNode.patternProperties)) {
+      for (const pattern of Object.keys(parentNode.patternProperties)) {
+        conditions.push(declarePattern(generator, pattern) + ".test(key)");
+      }
+    }
+
+    let source = "if (isObject(instance)) {\n";
+    source += "  const invalidProperties = [];\n";
+    source += "  for (const key of Object.keys(instance)) {\n";
+    source += "    const value = instance[key];\n";
+    source += "    if (value === undefined";
+    for (const condition of conditions) {
+      source += " || " + condition;
+    }
+    source += ") {\n";
+    source += "      continue;\n";
+    source += "    }\n";
+    source += "    evaluated.properties.add(key);\n";
+    source += "    if (!";
+    source += generateApply(
+      validator,
+      "value",
+      'location + "/" + escapePointer(key)',
+      "createEvaluated()",
+      "[]",
+    );
+    source += ") {\n";
+    source += "      invalidProperties.push(JSON.stringify(key));\n";
+    source += "    }\n";
+    source += "  }\n";
+    source += "  if (invalidProperties.length !== 0) {\n";
+    source += indent(
+      generateError(
+        context,
+        '(invalidProperties.length === 1 ? "invalid additional property " : ' +
+          '"invalid additional properties ") + ' +
+          joinList +
+          '(invalidProperties, "and")',
+      ),
+      "    ",
+    );
+    source += "\n  }\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<unknown>;
 
 /**
@@ -1149,6 +1942,9 @@ export const propertyNamesKeyword = {
           invalidProperties.push(key);
         }
       });
+      if (invalidProperties !== undefined && context.flag === true) {
+        break;
+      }
     }
 
     if (invalidProperties !== undefined) {
@@ -1165,9 +1961,47 @@ export const propertyNamesKeyword = {
           message += JSON.stringify(invalidProperties[i]);
         }
       }
-      attachError(context, message);
+      attachError(context, message, "propertyNames", {
+        properties: invalidProperties,
+      });
     }
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const validator = generateSchemaNode(context, generator, frame.node);
+    const joinList = declareHelper(generator, "joinList");
+
+    let source = "if (isObject(instance)) {\n";
+    source += "  const invalidProperties = [];\n";
+    source += "  for (const key of Object.keys(instance)) {\n";
+    source += "    if (instance[key] !== undefined && !";
+    source += generateApply(
+      validator,
+      "key",
+      'location + "/" + escapePointer(key)',
+      "createEvaluated()",
+      "[]",
+    );
+    source += ") {\n";
+    source += "      invalidProperties.push(JSON.stringify(key));\n";
+    source += "    }\n";
+    source += "  }\n";
+    source += "  if (invalidProperties.length !== 0) {\n";
+    source += indent(
+      generateError(
+        context,
+        '(invalidProperties.length === 1 ? "invalid property name " : ' +
+          '"invalid property names ") + ' +
+          joinList +
+          '(invalidProperties, "and")',
+      ),
+      "    ",
+    );
+    source += "\n  }\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<unknown>;
 
 /**
@@ -20,10 +20,24 @@ import {
 } from "tool-json";
 import { ValidationError } from "../error.ts";
 import type { SchemaContext, SchemaFrame } from "../context.ts";
-import { attachError } from "../output.ts";
+import { emitOutput, attachError } from "../output.ts";
 import type { Format } from "../format.ts";
 import { Keyword } from "../keyword.ts";
 import type { Vocabulary } from "../vocabulary.ts";
+import type { KeywordValidator } from "../compile.ts";
+import {
+  compileSchemaNode,
+  createKeywordFrame,
+  createSubschemaFrame,
+  emitKeywordError,
+} from "../compile.ts";
+import type { ModuleGenerator } from "../generate.ts";
+import {
+  generateSchemaNode,
+  generateError,
+  generateApply,
+} from "../generate.ts";
+import type { MetaSchemaResource } from "../resource.ts";
 import {
   isSchemaResource,
   parseSchemaResource,
@@ -167,7 +181,8 @@ export const $vocabularyKeyword = {
       // §8.1.2 ¶4: If the value is true, then implementations that do not
       // recognize the vocabulary MUST refuse to process any schemas that
       // declare this meta-schema.
-      const vocabulary = resource.vocabularies[uri];
+      const vocabulary =
+        resource.vocabularies[uri] ?? findVocabulary(context, resource, uri);
       if (vocabulary === undefined && required) {
         throw new ValidationError(
           "Unsupported vocabulary: " + JSON.stringify(uri),
@@ -449,17 +464,25 @@ export const $refKeyword = {
 
   validate(context: SchemaContext): void {
     const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as string;
     const instance = frame.instance;
 
     const reference = getReference(context, frame.parent?.node);
     if (reference === undefined) {
-      attachError(context, "unknown schema reference");
+      attachError(context, "unknown schema reference", "unknownReference", {
+        reference: node,
+      });
       return;
     }
 
     const resolved = reference.target;
     if (!isObject(resolved)) {
-      attachError(context, "unresolved schema reference");
+      attachError(
+        context,
+        "unresolved schema reference",
+        "unresolvedReference",
+        { reference: node },
+      );
       return;
     }
 
@@ -469,6 +492,82 @@ export const $refKeyword = {
       validateSchemaResource(context);
     });
   },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as string;
+
+    const reference = getReference(context, frame.parent?.node);
+    if (reference === undefined) {
+      return (frame: SchemaFrame): void => {
+        emitKeywordError(
+          context,
+          frame,
+          "$ref",
+          node,
+          "unknown schema reference",
+          "unknownReference",
+          { reference: node },
+        );
+      };
+    }
+
+    const resolved = reference.target;
+    if (!isObject(resolved)) {
+      return (frame: SchemaFrame): void => {
+        emitKeywordError(
+          context,
+          frame,
+          "$ref",
+          node,
+          "unresolved schema reference",
+          "unresolvedReference",
+          { reference: node },
+        );
+      };
+    }
+
+    // Statically bind the referenced schema's validator.
+    const validator = compileSchemaNode(context, resolved);
+
+    return (frame: SchemaFrame): void => {
+      const keywordFrame = createKeywordFrame(frame, "$ref", node);
+      validator(
+        createSubschemaFrame(
+          keywordFrame,
+          undefined,
+          resolved,
+          undefined,
+          frame.instance,
+          false,
+        ),
+      );
+      emitOutput(context, keywordFrame);
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+
+    const reference = getReference(context, frame.parent?.node);
+    if (reference === undefined) {
+      return generateError(context, '"unknown schema reference"');
+    }
+
+    const resolved = reference.target;
+    if (!isObject(resolved)) {
+      return generateError(context, '"unresolved schema reference"');
+    }
+
+    const validator = generateSchemaNode(context, generator, resolved);
+
+    let source = "if (!";
+    source += generateApply(validator, "instance", "location", "evaluated");
+    source += ") {\n";
+    source += "  valid = false;\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<string>;
 
 /**
@@ -526,13 +625,20 @@ export const $dynamicRefKeyword = {
 
     const reference = getReference(context, frame.parent?.node);
     if (reference === undefined) {
-      attachError(context, "unknown schema reference");
+      attachError(context, "unknown schema reference", "unknownReference", {
+        reference: node,
+      });
       return;
     }
 
     let resolved = reference.target;
     if (!isObject(resolved)) {
-      attachError(context, "unresolved schema reference");
+      attachError(
+        context,
+        "unresolved schema reference",
+        "unresolvedReference",
+        { reference: node },
+      );
       return;
     }
 
@@ -562,6 +668,119 @@ export const $dynamicRefKeyword = {
       validateSchemaResource(context);
     });
   },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as string;
+
+    const reference = getReference(context, frame.parent?.node);
+    if (reference === undefined) {
+      return (frame: SchemaFrame): void => {
+        emitKeywordError(
+          context,
+          frame,
+          "$dynamicRef",
+          node,
+          "unknown schema reference",
+          "unknownReference",
+          { reference: node },
+        );
+      };
+    }
+
+    const target = reference.target;
+    if (!isObject(target)) {
+      return (frame: SchemaFrame): void => {
+        emitKeywordError(
+          context,
+          frame,
+          "$dynamicRef",
+          node,
+          "unresolved schema reference",
+          "unresolvedReference",
+          { reference: node },
+        );
+      };
+    }
+
+    // Statically bind the initially resolved schema's validator.
+    const validator = compileSchemaNode(context, target);
+
+    const hashIndex = node.indexOf("#");
+    const anchor = hashIndex !== -1 ? node.slice(hashIndex + 1) : undefined;
+
+    return (frame: SchemaFrame): void => {
+      const keywordFrame = createKeywordFrame(frame, "$dynamicRef", node);
+
+      // §8.2.3.2 ¶4: Resolve the outermost schema resource in the dynamic
+      // scope that defines an identically named "$dynamicAnchor".
+      let resolved: object = target;
+      if (anchor !== undefined) {
+        let dynamicFrame: SchemaFrame | undefined = frame;
+        do {
+          const dynamicNode = dynamicFrame.node;
+          if (isObject(dynamicNode) && dynamicNode?.$dynamicAnchor === anchor) {
+            resolved = dynamicNode;
+          }
+          dynamicFrame = dynamicFrame.parent;
+        } while (dynamicFrame !== undefined);
+      }
+
+      // Dynamically resolved schemas are compiled on first use.
+      const resolvedValidator =
+        resolved === target ? validator : compileSchemaNode(context, resolved);
+      resolvedValidator(
+        createSubschemaFrame(
+          keywordFrame,
+          undefined,
+          resolved,
+          undefined,
+          frame.instance,
+          false,
+        ),
+      );
+      emitOutput(context, keywordFrame);
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as string;
+
+    const reference = getReference(context, frame.parent?.node);
+    if (reference === undefined) {
+      return generateError(context, '"unknown schema reference"');
+    }
+
+    const resolved = reference.target;
+    if (!isObject(resolved)) {
+      return generateError(context, '"unresolved schema reference"');
+    }
+
+    const validator = generateSchemaNode(context, generator, resolved);
+
+    let source = "let validator = " + validator + ";\n";
+
+    // §8.2.3.2 ¶4: Resolve the outermost schema resource in the dynamic
+    // scope that defines an identically named "$dynamicAnchor".
+    const hashIndex = node.indexOf("#");
+    const anchor = hashIndex !== -1 ? node.slice(hashIndex + 1) : undefined;
+    if (anchor !== undefined) {
+      source += "for (let scope = dynamicScope; scope !== undefined; ";
+      source += "scope = scope.parent) {\n";
+      source += "  if (scope.anchor === " + JSON.stringify(anchor) + ") {\n";
+      source += "    validator = scope.validate;\n";
+      source += "  }\n";
+      source += "}\n";
+    }
+
+    source += "if (!";
+    source += generateApply("validator", "instance", "location", "evaluated");
+    source += ") {\n";
+    source += "  valid = false;\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<string>;
 
 /**
@@ -688,3 +907,25 @@ export const coreVocabulary = {
     },
   },
 } as const satisfies Vocabulary;
+
+/**
+ * Returns the vocabulary with the given URI, if it's used by the dialect
+ * of a meta-schema, or by any dialect supported by the context.
+ */
+function findVocabulary(
+  context: SchemaContext,
+  resource: MetaSchemaResource,
+  uri: string,
+): Vocabulary | undefined {
+  const vocabulary = resource.dialect?.vocabularies[uri];
+  if (vocabulary !== undefined) {
+    return vocabulary;
+  }
+  for (const dialect of context.dialects?.values() ?? []) {
+    const vocabulary = dialect.vocabularies[uri];
+    if (vocabulary !== undefined) {
+      return vocabulary;
+    }
+  }
+  return undefined;
+}
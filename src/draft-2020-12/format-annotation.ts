@@ -1,16 +1,12 @@
-import {
-  isObject,
-  currentFrame,
-  currentLocation,
-  getResource,
-} from "tool-json";
-import { ValidationError } from "../error.ts";
+import { currentFrame, currentLocation } from "tool-json";
+import { ValidationError, GenerateError } from "../error.ts";
 import type { SchemaContext, SchemaFrame } from "../context.ts";
 import { attachError, attachAnnotation } from "../output.ts";
-import { Format } from "../format.ts";
+import { Format, getFormat } from "../format.ts";
 import { Keyword } from "../keyword.ts";
+import type { ModuleGenerator } from "../generate.ts";
+import { generateError } from "../generate.ts";
 import type { Vocabulary } from "../vocabulary.ts";
-import { isSchemaResource } from "../resource.ts";
 import * as formats from "../format/mod.ts";
 
 /**
@@ -67,28 +63,17 @@ export const formatAnnotationKeyword = {
       return;
     }
 
-    // Get the stack frame associated with the keyword's parent schema.
-    const schemaFrame = frame.parent;
-    if (!isObject(schemaFrame?.node)) {
-      throw new ValidationError("Unknown parent schema", {
-        location: currentLocation(context),
-      });
-    }
-
-    const resource = getResource(context, schemaFrame.node);
-    if (!isSchemaResource(resource)) {
-      throw new ValidationError("Unknown parent schema", {
-        location: currentLocation(context),
-      });
-    }
-
-    const format =
-      context.formats?.get(node) ?? resource.dialect?.formats?.[node];
+    const format = getFormat(context, node);
 
     // $7.2.1 ¶4: SHOULD provide an implementation-specific best effort
     // validation for each format attribute.
     if (format === undefined && context.validation === "strict") {
-      attachError(context, "Unknown format: " + JSON.stringify(node));
+      attachError(
+        context,
+        "Unknown format: " + JSON.stringify(node),
+        "unknownFormat",
+        { format: node },
+      );
       return;
     }
 
@@ -100,6 +85,37 @@ export const formatAnnotationKeyword = {
       Format.prototype.validate.call(format, context);
     }
   },
+
+  generate(
+    context: SchemaContext,
+    generator: ModuleGenerator,
+  ): string | undefined {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as string;
+
+    // Format assertion is disabled by default.
+    if (context.validation === undefined || context.validation === false) {
+      return undefined;
+    }
+
+    const format = getFormat(context, node);
+
+    if (format === undefined && context.validation === "strict") {
+      return generateError(
+        context,
+        JSON.stringify("Unknown format: " + JSON.stringify(node)),
+      );
+    } else if (format === undefined) {
+      return undefined;
+    }
+
+    // Format validators are implemented in terms of tool-schema parsers,
+    // which can't be inlined into standalone modules.
+    throw new GenerateError(
+      "Format " + JSON.stringify(node) + " does not support generation",
+      { location: currentLocation(context) },
+    );
+  },
 } as const satisfies Keyword<string>;
 
 /**
@@ -1,8 +1,15 @@
 import { isArray, isObject, nestFrame, currentFrame } from "tool-json";
 import type { SchemaContext, SchemaFrame } from "../context.ts";
 import type { OutputUnit } from "../output.ts";
-import { emitOutput, attachAnnotation, getAnnotations } from "../output.ts";
+import {
+  emitOutput,
+  attachError,
+  attachAnnotation,
+  getAnnotations,
+} from "../output.ts";
 import { Keyword } from "../keyword.ts";
+import type { ModuleGenerator } from "../generate.ts";
+import { generateSchemaNode, generateApply } from "../generate.ts";
 import type { Vocabulary } from "../vocabulary.ts";
 import { parseSchemaResource, validateSchemaResource } from "../resource.ts";
 
@@ -113,6 +120,18 @@ export const unevaluatedItemsKeyword = {
         count += 1;
         emitOutput(context, frame);
       });
+      if (!valid && context.flag === true) {
+        break;
+      }
+    }
+
+    if (!valid) {
+      attachError(
+        context,
+        "not valid against all unevaluated items",
+        "unevaluatedItems",
+        {},
+      );
     }
 
     // §11.2 ¶5: If the "unevaluatedItems" subschema is applied to any
@@ -121,6 +140,28 @@ export const unevaluatedItemsKeyword = {
     // affects the behavior of "unevaluatedItems" in parent schemas.
     attachAnnotation(context, true);
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const validator = generateSchemaNode(context, generator, frame.node);
+
+    let source = "if (Array.isArray(instance)) {\n";
+    source += "  for (let index = evaluated.items; ";
+    source += "index < instance.length; index += 1) {\n";
+    source += "    if (!evaluated.contained.has(index) && !";
+    source += generateApply(
+      validator,
+      "instance[index]",
+      'location + "/" + index',
+    );
+    source += ") {\n";
+    source += "      valid = false;\n";
+    source += "    }\n";
+    source += "  }\n";
+    source += "  evaluated.items = instance.length;\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<unknown>;
 
 /**
@@ -185,7 +226,7 @@ export const unevaluatedPropertiesKeyword = {
 
     // §11.3 ¶4: For all such properties, validation succeeds if the child
     // instance validates against the "unevaluatedProperties" schema.
-    let valid = true;
+    let invalidProperties: string[] | undefined;
     const evaluatedProperties: string[] = [];
     for (const [key, value] of Object.entries(instance)) {
       if (propertyNames?.has(key) === true) {
@@ -199,9 +240,35 @@ export const unevaluatedPropertiesKeyword = {
         frame.output = { valid: true };
         validateSchemaResource(context);
         evaluatedProperties.push(key);
-        valid &&= frame.output.valid;
+        if (!frame.output.valid) {
+          invalidProperties ??= [];
+          invalidProperties.push(key);
+        }
         emitOutput(context, frame);
       });
+      if (invalidProperties !== undefined && context.flag === true) {
+        break;
+      }
+    }
+
+    if (invalidProperties !== undefined) {
+      let message: string;
+      if (invalidProperties.length === 1) {
+        message =
+          "invalid unevaluated property " +
+          JSON.stringify(invalidProperties[0]);
+      } else {
+        message = "invalid unevaluated properties ";
+        for (let i = 0; i < invalidProperties.length; i += 1) {
+          if (i !== 0) {
+            message += i !== invalidProperties.length - 1 ? ", " : " and ";
+          }
+          message += JSON.stringify(invalidProperties[i]);
+        }
+      }
+      attachError(context, message, "unevaluatedProperties", {
+        properties: invalidProperties,
+      });
     }
 
     // §11.3 ¶6: The annotation result of this keyword is the set of instance
@@ -209,6 +276,30 @@ export const unevaluatedPropertiesKeyword = {
     // affects the behavior of "unevaluatedProperties" in parent schemas.
     attachAnnotation(context, evaluatedProperties);
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const validator = generateSchemaNode(context, generator, frame.node);
+
+    let source = "if (isObject(instance)) {\n";
+    source += "  for (const key of Object.keys(instance)) {\n";
+    source += "    if (evaluated.properties.has(key)) {\n";
+    source += "      continue;\n";
+    source += "    }\n";
+    source += "    evaluated.properties.add(key);\n";
+    source += "    if (!";
+    source += generateApply(
+      validator,
+      "instance[key]",
+      'location + "/" + escapePointer(key)',
+    );
+    source += ") {\n";
+    source += "      valid = false;\n";
+    source += "    }\n";
+    source += "  }\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<unknown>;
 
 /**
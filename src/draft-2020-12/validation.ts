@@ -16,6 +16,18 @@ import { cachePattern } from "../context.ts";
 import { attachError, getChildAnnotation } from "../output.ts";
 import { Keyword } from "../keyword.ts";
 import type { Vocabulary } from "../vocabulary.ts";
+import type { KeywordValidator } from "../compile.ts";
+import { emitKeywordError } from "../compile.ts";
+import type { ModuleGenerator } from "../generate.ts";
+import {
+  generateError,
+  generateAssertion,
+  declareConstant,
+  declarePattern,
+  declareLocal,
+  declareHelper,
+  indent,
+} from "../generate.ts";
 
 /**
  * A JSON Schema that uses the Draft 2020-12 Validation vocabulary.
@@ -215,7 +227,10 @@ export const typeKeyword = {
     // §6.1.1 ¶3: An instance validates successfully if its type matches
     // the type represented by the value of the string.
     if (typeof node === "string" && !isType(node, instance)) {
-      attachError(context, "not " + referToType(node));
+      attachError(context, "not " + referToType(node), "type", {
+        expected: [node],
+        actual: getType(instance),
+      });
       return;
     }
 
@@ -227,24 +242,135 @@ export const typeKeyword = {
         valid ||= isType(type, instance);
       }
       if (!valid) {
-        let message: string;
-        if (node.length === 0) {
-          message = "no types allowed";
-        } else {
-          message = "not ";
-          for (let i = 0; i < node.length; i += 1) {
-            if (i !== 0) {
-              message += i !== node.length - 1 ? ", " : " or ";
-            }
-            message += referToType(node[i]!);
-          }
+        attachError(context, typeMessage(node), "type", {
+          expected: node,
+          actual: getType(instance),
+        });
+      }
+    }
+  },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const node = (currentFrame(context) as SchemaFrame).node as
+      readonly NodeType[] | NodeType;
+
+    if (typeof node === "string") {
+      const message = "not " + referToType(node);
+      const expected = [node];
+      return (frame: SchemaFrame): void => {
+        if (!isType(node, frame.instance)) {
+          emitKeywordError(context, frame, "type", node, message, "type", {
+            expected,
+            actual: getType(frame.instance),
+          });
+        }
+      };
+    }
+
+    const message = typeMessage(node);
+    return (frame: SchemaFrame): void => {
+      const instance = frame.instance;
+      for (let i = 0; i < node.length; i += 1) {
+        if (isType(node[i]!, instance)) {
+          return;
         }
-        attachError(context, message);
       }
+      emitKeywordError(context, frame, "type", node, message, "type", {
+        expected: node,
+        actual: getType(instance),
+      });
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as
+      readonly NodeType[] | NodeType;
+
+    if (typeof node === "string") {
+      return generateAssertion(
+        context,
+        "!(" + generateTypeCheck(node) + ")",
+        "not " + referToType(node),
+      );
     }
+
+    return generateAssertion(
+      context,
+      node.length !== 0 ?
+        "!(" + node.map(generateTypeCheck).join(" || ") + ")"
+      : "true",
+      typeMessage(node),
+    );
   },
 } as const satisfies Keyword<readonly NodeType[] | NodeType>;
 
+/**
+ * Returns a JavaScript expression that checks the type of `instance`.
+ */
+function generateTypeCheck(type: NodeType): string {
+  switch (type) {
+    case "null":
+      return "instance === null";
+    case "boolean":
+      return 'typeof instance === "boolean"';
+    case "integer":
+      return "Number.isInteger(instance)";
+    case "number":
+      return 'typeof instance === "number"';
+    case "string":
+      return 'typeof instance === "string"';
+    case "array":
+      return "Array.isArray(instance)";
+    case "object":
+      return "isObject(instance)";
+    default:
+      return "false";
+  }
+}
+
+/**
+ * Returns the most specific type of the given instance.
+ *
+ * @category Dialect
+ * @internal
+ */
+export function getType(instance: unknown): NodeType {
+  if (instance === null) {
+    return "null";
+  } else if (isArray(instance)) {
+    return "array";
+  } else if (isInteger(instance)) {
+    return "integer";
+  }
+  switch (typeof instance) {
+    case "boolean":
+      return "boolean";
+    case "number":
+      return "number";
+    case "string":
+      return "string";
+    default:
+      return "object";
+  }
+}
+
+/**
+ * Returns an error message listing the allowed types.
+ */
+function typeMessage(types: readonly NodeType[]): string {
+  if (types.length === 0) {
+    return "no types allowed";
+  }
+  let message = "not ";
+  for (let i = 0; i < types.length; i += 1) {
+    if (i !== 0) {
+      message += i !== types.length - 1 ? ", " : " or ";
+    }
+    message += referToType(types[i]!);
+  }
+  return message;
+}
+
 /**
  * The `enum` keyword.
  *
@@ -291,22 +417,69 @@ export const enumKeyword = {
     }
 
     if (!valid) {
-      let message = "not one of ";
-      if (node.length === 0) {
-        message += "empty enum";
-      } else {
-        for (let i = 0; i < node.length; i += 1) {
-          if (i !== 0) {
-            message += i !== node.length - 1 ? ", " : " or ";
+      attachError(context, enumMessage(node), "enum", { allowed: node });
+    }
+  },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const node = (currentFrame(context) as SchemaFrame)
+      .node as readonly unknown[];
+    const message = enumMessage(node);
+    return (frame: SchemaFrame): void => {
+      const instance = frame.instance;
+      let valid: boolean;
+      switch (instance === null ? "null" : typeof instance) {
+        case "null":
+        case "boolean":
+        case "number":
+        case "string":
+          valid = node.includes(instance);
+          break;
+        default:
+          valid = false;
+          for (const value of node) {
+            valid ||= equal(instance, value);
           }
-          message += JSON.stringify(node[i]);
-        }
       }
-      attachError(context, message);
-    }
+      if (!valid) {
+        emitKeywordError(context, frame, "enum", node, message, "enum", {
+          allowed: node,
+        });
+      }
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame)
+      .node as readonly unknown[];
+    const values = declareConstant(generator, JSON.stringify(node));
+    const equal = declareHelper(generator, "equal");
+    return generateAssertion(
+      context,
+      "!" + values + ".some((value) => " + equal + "(instance, value))",
+      enumMessage(node),
+    );
   },
 } as const satisfies Keyword<readonly unknown[]>;
 
+/**
+ * Returns an error message listing the allowed enum values.
+ */
+function enumMessage(values: readonly unknown[]): string {
+  let message = "not one of ";
+  if (values.length === 0) {
+    message += "empty enum";
+  } else {
+    for (let i = 0; i < values.length; i += 1) {
+      if (i !== 0) {
+        message += i !== values.length - 1 ? ", " : " or ";
+      }
+      message += JSON.stringify(values[i]);
+    }
+  }
+  return message;
+}
+
 /**
  * The `const` keyword.
  *
@@ -329,8 +502,41 @@ export const constKeyword = {
     // §6.1.3 ¶3: An instance validates successfully against this keyword
     // if its value is equal to the value of the keyword.
     if (!equal(node, instance)) {
-      attachError(context, "not equal to " + JSON.stringify(node));
+      attachError(context, "not equal to " + JSON.stringify(node), "const", {
+        expected: node,
+      });
+    }
+  },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const node = (currentFrame(context) as SchemaFrame).node;
+    const message = "not equal to " + JSON.stringify(node);
+    return (frame: SchemaFrame): void => {
+      if (!equal(node, frame.instance)) {
+        emitKeywordError(context, frame, "const", node, message, "const", {
+          expected: node,
+        });
+      }
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node;
+    const message = "not equal to " + JSON.stringify(node);
+    if (node === null || typeof node !== "object") {
+      return generateAssertion(
+        context,
+        "instance !== " + JSON.stringify(node),
+        message,
+      );
     }
+    const value = declareConstant(generator, JSON.stringify(node));
+    const equal = declareHelper(generator, "equal");
+    return generateAssertion(
+      context,
+      "!" + equal + "(instance, " + value + ")",
+      message,
+    );
   },
 } as const satisfies Keyword<unknown>;
 
@@ -368,9 +574,45 @@ export const multipleOfKeyword = {
     // §6.2.1 ¶2: A numeric instance is valid only if division
     // by this keyword's value results in an integer.
     if (!isInteger(instance / node)) {
-      attachError(context, "not a multiple of " + node);
+      attachError(context, "not a multiple of " + node, "multipleOf", {
+        divisor: node,
+        actual: instance,
+      });
     }
   },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    const message = "not a multiple of " + node;
+    return (frame: SchemaFrame): void => {
+      const instance = frame.instance;
+      if (typeof instance === "number" && !isInteger(instance / node)) {
+        emitKeywordError(
+          context,
+          frame,
+          "multipleOf",
+          node,
+          message,
+          "multipleOf",
+          {
+            divisor: node,
+            actual: instance,
+          },
+        );
+      }
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    return generateAssertion(
+      context,
+      'typeof instance === "number" && !Number.isInteger(instance / ' +
+        node +
+        ")",
+      "not a multiple of " + node,
+    );
+  },
 } as const satisfies Keyword<number>;
 
 /**
@@ -407,9 +649,35 @@ export const maximumKeyword = {
     // §6.2.2 ¶2: If the instance is a number, then this keyword validates
     // only if the instance is less than or exactly equal to "maximum".
     if (instance > node) {
-      attachError(context, "greater than " + node);
+      attachError(context, "greater than " + node, "maximum", {
+        limit: node,
+        actual: instance,
+      });
     }
   },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    const message = "greater than " + node;
+    return (frame: SchemaFrame): void => {
+      const instance = frame.instance;
+      if (typeof instance === "number" && instance > node) {
+        emitKeywordError(context, frame, "maximum", node, message, "maximum", {
+          limit: node,
+          actual: instance,
+        });
+      }
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    return generateAssertion(
+      context,
+      'typeof instance === "number" && instance > ' + node,
+      "greater than " + node,
+    );
+  },
 } as const satisfies Keyword<number>;
 
 /**
@@ -446,9 +714,48 @@ export const exclusiveMaximumKeyword = {
     // §6.2.3 ¶2: If the instance is a number, then the instance is valid only
     // if it has a value strictly less than (not equal to) "exclusiveMaximum".
     if (instance >= node) {
-      attachError(context, "greater than or equal to " + node);
+      attachError(
+        context,
+        "greater than or equal to " + node,
+        "exclusiveMaximum",
+        {
+          limit: node,
+          actual: instance,
+        },
+      );
     }
   },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    const message = "greater than or equal to " + node;
+    return (frame: SchemaFrame): void => {
+      const instance = frame.instance;
+      if (typeof instance === "number" && instance >= node) {
+        emitKeywordError(
+          context,
+          frame,
+          "exclusiveMaximum",
+          node,
+          message,
+          "exclusiveMaximum",
+          {
+            limit: node,
+            actual: instance,
+          },
+        );
+      }
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    return generateAssertion(
+      context,
+      'typeof instance === "number" && instance >= ' + node,
+      "greater than or equal to " + node,
+    );
+  },
 } as const satisfies Keyword<number>;
 
 /**
@@ -485,9 +792,35 @@ export const minimumKeyword = {
     // §6.2.4 ¶2: If the instance is a number, then this keyword validates
     // only if the instance is greater than or exactly equal to "minimum".
     if (instance < node) {
-      attachError(context, "less than " + node);
+      attachError(context, "less than " + node, "minimum", {
+        limit: node,
+        actual: instance,
+      });
     }
   },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    const message = "less than " + node;
+    return (frame: SchemaFrame): void => {
+      const instance = frame.instance;
+      if (typeof instance === "number" && instance < node) {
+        emitKeywordError(context, frame, "minimum", node, message, "minimum", {
+          limit: node,
+          actual: instance,
+        });
+      }
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    return generateAssertion(
+      context,
+      'typeof instance === "number" && instance < ' + node,
+      "less than " + node,
+    );
+  },
 } as const satisfies Keyword<number>;
 
 /**
@@ -524,9 +857,48 @@ export const exclusiveMinimumKeyword = {
     // §6.2.5 ¶2: If the instance is a number, then the instance is valid only
     // if it has a value strictly greater than (not equal to) "exclusiveMinimum".
     if (instance <= node) {
-      attachError(context, "less than or equal to " + node);
+      attachError(
+        context,
+        "less than or equal to " + node,
+        "exclusiveMinimum",
+        {
+          limit: node,
+          actual: instance,
+        },
+      );
     }
   },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    const message = "less than or equal to " + node;
+    return (frame: SchemaFrame): void => {
+      const instance = frame.instance;
+      if (typeof instance === "number" && instance <= node) {
+        emitKeywordError(
+          context,
+          frame,
+          "exclusiveMinimum",
+          node,
+          message,
+          "exclusiveMinimum",
+          {
+            limit: node,
+            actual: instance,
+          },
+        );
+      }
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    return generateAssertion(
+      context,
+      'typeof instance === "number" && instance <= ' + node,
+      "less than or equal to " + node,
+    );
+  },
 } as const satisfies Keyword<number>;
 
 /**
@@ -563,9 +935,47 @@ export const maxLengthKeyword = {
     // §6.3.1 ¶2: A string instance is valid against this keyword if
     // its length is less than, or equal to, the value of this keyword.
     if (unicodeLength(instance) > node) {
-      attachError(context, "longer than " + node + " characters");
+      attachError(context, "longer than " + node + " characters", "maxLength", {
+        limit: node,
+        actual: unicodeLength(instance),
+      });
     }
   },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    const message = "longer than " + node + " characters";
+    return (frame: SchemaFrame): void => {
+      const instance = frame.instance;
+      if (typeof instance === "string" && unicodeLength(instance) > node) {
+        emitKeywordError(
+          context,
+          frame,
+          "maxLength",
+          node,
+          message,
+          "maxLength",
+          {
+            limit: node,
+            actual: unicodeLength(instance),
+          },
+        );
+      }
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    const unicodeLength = declareHelper(generator, "unicodeLength");
+    return generateAssertion(
+      context,
+      'typeof instance === "string" && ' +
+        unicodeLength +
+        "(instance) > " +
+        node,
+      "longer than " + node + " characters",
+    );
+  },
 } as const satisfies Keyword<number>;
 
 /**
@@ -602,9 +1012,52 @@ export const minLengthKeyword = {
     // §6.3.2 ¶2: A string instance is valid against this keyword if
     // its length is greater than, or equal to, the value of this keyword.
     if (unicodeLength(instance) < node) {
-      attachError(context, "shorter than " + node + " characters");
+      attachError(
+        context,
+        "shorter than " + node + " characters",
+        "minLength",
+        {
+          limit: node,
+          actual: unicodeLength(instance),
+        },
+      );
     }
   },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    const message = "shorter than " + node + " characters";
+    return (frame: SchemaFrame): void => {
+      const instance = frame.instance;
+      if (typeof instance === "string" && unicodeLength(instance) < node) {
+        emitKeywordError(
+          context,
+          frame,
+          "minLength",
+          node,
+          message,
+          "minLength",
+          {
+            limit: node,
+            actual: unicodeLength(instance),
+          },
+        );
+      }
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    const unicodeLength = declareHelper(generator, "unicodeLength");
+    return generateAssertion(
+      context,
+      'typeof instance === "string" && ' +
+        unicodeLength +
+        "(instance) < " +
+        node,
+      "shorter than " + node + " characters",
+    );
+  },
 } as const satisfies Keyword<number>;
 
 /**
@@ -653,9 +1106,38 @@ export const patternKeyword = {
     // the regular expression matches the instance successfully.
     // Recall: regular expressions are not implicitly anchored.
     if (!cachePattern(context, node).test(instance)) {
-      attachError(context, "does not match pattern " + JSON.stringify(node));
+      attachError(
+        context,
+        "does not match pattern " + JSON.stringify(node),
+        "pattern",
+        { pattern: node },
+      );
     }
   },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const node = (currentFrame(context) as SchemaFrame).node as string;
+    const regex = cachePattern(context, node);
+    const message = "does not match pattern " + JSON.stringify(node);
+    return (frame: SchemaFrame): void => {
+      const instance = frame.instance;
+      if (typeof instance === "string" && !regex.test(instance)) {
+        emitKeywordError(context, frame, "pattern", node, message, "pattern", {
+          pattern: node,
+        });
+      }
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as string;
+    const regex = declarePattern(generator, node);
+    return generateAssertion(
+      context,
+      'typeof instance === "string" && !' + regex + ".test(instance)",
+      "does not match pattern " + JSON.stringify(node),
+    );
+  },
 } as const satisfies Keyword<string>;
 
 /**
@@ -692,9 +1174,43 @@ export const maxItemsKeyword = {
     // §6.4.1 ¶2: An array instance is valid against "maxItems" if
     // its size is less than, or equal to, the value of this keyword.
     if (instance.length > node) {
-      attachError(context, "more than " + node + " items");
+      attachError(context, "more than " + node + " items", "maxItems", {
+        limit: node,
+        actual: instance.length,
+      });
     }
   },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    const message = "more than " + node + " items";
+    return (frame: SchemaFrame): void => {
+      const instance = frame.instance;
+      if (isArray(instance) && instance.length > node) {
+        emitKeywordError(
+          context,
+          frame,
+          "maxItems",
+          node,
+          message,
+          "maxItems",
+          {
+            limit: node,
+            actual: instance.length,
+          },
+        );
+      }
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    return generateAssertion(
+      context,
+      "Array.isArray(instance) && instance.length > " + node,
+      "more than " + node + " items",
+    );
+  },
 } as const satisfies Keyword<number>;
 
 /**
@@ -731,9 +1247,43 @@ export const minItemsKeyword = {
     // §6.4.2 ¶2: An array instance is valid against "minItems" if
     // its size is greater than, or equal to, the value of this keyword.
     if (instance.length < node) {
-      attachError(context, "fewer than " + node + " items");
+      attachError(context, "fewer than " + node + " items", "minItems", {
+        limit: node,
+        actual: instance.length,
+      });
     }
   },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    const message = "fewer than " + node + " items";
+    return (frame: SchemaFrame): void => {
+      const instance = frame.instance;
+      if (isArray(instance) && instance.length < node) {
+        emitKeywordError(
+          context,
+          frame,
+          "minItems",
+          node,
+          message,
+          "minItems",
+          {
+            limit: node,
+            actual: instance.length,
+          },
+        );
+      }
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    return generateAssertion(
+      context,
+      "Array.isArray(instance) && instance.length < " + node,
+      "fewer than " + node + " items",
+    );
+  },
 } as const satisfies Keyword<number>;
 
 /**
@@ -773,12 +1323,44 @@ export const uniqueItemsKeyword = {
     for (let i = 0; i < instance.length; i += 1) {
       for (let j = i + 1; j < instance.length; j += 1) {
         if (equal(instance[i], instance[j])) {
-          attachError(context, "duplicate item at index " + i + " and " + j);
+          attachError(
+            context,
+            "duplicate item at index " + i + " and " + j,
+            "uniqueItems",
+            { indices: [i, j] },
+          );
           return;
         }
       }
     }
   },
+
+  generate(
+    context: SchemaContext,
+    generator: ModuleGenerator,
+  ): string | undefined {
+    const node = (currentFrame(context) as SchemaFrame).node as boolean;
+    if (!node) {
+      return undefined;
+    }
+
+    const equal = declareHelper(generator, "equal");
+
+    let source = "if (Array.isArray(instance)) {\n";
+    source += "  search: for (let i = 0; i < instance.length; i += 1) {\n";
+    source += "    for (let j = i + 1; j < instance.length; j += 1) {\n";
+    source += "      if (" + equal + "(instance[i], instance[j])) {\n";
+    source += indent(
+      generateError(context, '"duplicate item at index " + i + " and " + j'),
+      "        ",
+    );
+    source += "\n        break search;\n";
+    source += "      }\n";
+    source += "    }\n";
+    source += "  }\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<boolean>;
 
 /**
@@ -831,9 +1413,27 @@ export const maxContainsKeyword = {
       (isArray(contained) && contained.length > node) ||
       (contained === true && instance.length > node)
     ) {
-      attachError(context, "more than " + node + " contained items");
+      attachError(
+        context,
+        "more than " + node + " contained items",
+        "maxContains",
+        {
+          limit: node,
+          actual: isArray(contained) ? contained.length : instance.length,
+        },
+      );
     }
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    declareLocal(generator, "containsCount");
+    return generateAssertion(
+      context,
+      "containsCount !== undefined && containsCount > " + node,
+      "more than " + node + " contained items",
+    );
+  },
 } as const satisfies Keyword<number>;
 
 /**
@@ -884,9 +1484,27 @@ export const minContainsKeyword = {
       (isArray(contained) && contained.length < node) ||
       (contained === true && instance.length < node)
     ) {
-      attachError(context, "fewer than " + node + " contained items");
+      attachError(
+        context,
+        "fewer than " + node + " contained items",
+        "minContains",
+        {
+          limit: node,
+          actual: isArray(contained) ? contained.length : instance.length,
+        },
+      );
     }
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    declareLocal(generator, "containsCount");
+    return generateAssertion(
+      context,
+      "containsCount !== undefined && containsCount < " + node,
+      "fewer than " + node + " contained items",
+    );
+  },
 } as const satisfies Keyword<number>;
 
 /**
@@ -923,10 +1541,28 @@ export const maxPropertiesKeyword = {
 
     // §6.5.1 ¶2: An object instance is valid against "maxProperties" if its
     // number of properties is less than, or equal to, the value of this keyword.
-    if (Object.keys(instance).length > node) {
-      attachError(context, "more than " + node + " properties");
+    const count = Object.keys(instance).length;
+    if (count > node) {
+      attachError(
+        context,
+        "more than " + node + " properties",
+        "maxProperties",
+        {
+          limit: node,
+          actual: count,
+        },
+      );
     }
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    return generateAssertion(
+      context,
+      "isObject(instance) && Object.keys(instance).length > " + node,
+      "more than " + node + " properties",
+    );
+  },
 } as const satisfies Keyword<number>;
 
 /**
@@ -964,10 +1600,28 @@ export const minPropertiesKeyword = {
     // §6.5.2 ¶2: An object instance is valid against "minProperties" if its
     // number of properties is greater than, or equal to, the value of this
     // keyword.
-    if (Object.keys(instance).length < node) {
-      attachError(context, "fewer than " + node + " properties");
+    const count = Object.keys(instance).length;
+    if (count < node) {
+      attachError(
+        context,
+        "fewer than " + node + " properties",
+        "minProperties",
+        {
+          limit: node,
+          actual: count,
+        },
+      );
     }
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as number;
+    return generateAssertion(
+      context,
+      "isObject(instance) && Object.keys(instance).length < " + node,
+      "fewer than " + node + " properties",
+    );
+  },
 } as const satisfies Keyword<number>;
 
 /**
@@ -1032,19 +1686,87 @@ export const requiredKeyword = {
     }
 
     if (missing !== undefined && missing.length !== 0) {
-      let message = "missing required ";
-      message += missing.length === 1 ? "property " : "properties ";
-      for (let i = 0; i < missing.length; i += 1) {
-        if (i !== 0) {
-          message += i !== missing.length - 1 ? ", " : " and ";
+      attachError(context, requiredMessage(missing), "required", { missing });
+    }
+  },
+
+  compile(context: SchemaContext): KeywordValidator {
+    const node = (currentFrame(context) as SchemaFrame)
+      .node as readonly string[];
+    return (frame: SchemaFrame): void => {
+      const instance = frame.instance;
+      if (!isObject(instance)) {
+        return; // Not applicable.
+      }
+
+      let missing: string[] | undefined;
+      for (let i = 0; i < node.length; i += 1) {
+        const key = node[i]!;
+        if (instance[key] === undefined) {
+          missing ??= [];
+          missing.push(key);
         }
-        message += JSON.stringify(missing[i]!);
       }
-      attachError(context, message);
-    }
+
+      if (missing !== undefined) {
+        emitKeywordError(
+          context,
+          frame,
+          "required",
+          node,
+          requiredMessage(missing),
+          "required",
+          { missing },
+        );
+      }
+    };
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame)
+      .node as readonly string[];
+    const joinList = declareHelper(generator, "joinList");
+
+    let source = "if (isObject(instance)) {\n";
+    source += "  const missing = [];\n";
+    for (const key of node) {
+      const name = JSON.stringify(key);
+      source += "  if (instance[" + name + "] === undefined) {\n";
+      source += "    missing.push(" + JSON.stringify(name) + ");\n";
+      source += "  }\n";
+    }
+    source += "  if (missing.length !== 0) {\n";
+    source += indent(
+      generateError(
+        context,
+        '"missing required " + ' +
+          '(missing.length === 1 ? "property " : "properties ") + ' +
+          joinList +
+          '(missing, "and")',
+      ),
+      "    ",
+    );
+    source += "\n  }\n";
+    source += "}";
+    return source;
   },
 } as const satisfies Keyword<readonly string[]>;
 
+/**
+ * Returns an error message listing the missing required properties.
+ */
+function requiredMessage(missing: readonly string[]): string {
+  let message = "missing required ";
+  message += missing.length === 1 ? "property " : "properties ";
+  for (let i = 0; i < missing.length; i += 1) {
+    if (i !== 0) {
+      message += i !== missing.length - 1 ? ", " : " and ";
+    }
+    message += JSON.stringify(missing[i]!);
+  }
+  return message;
+}
+
 /**
  * The `dependentRequired` keyword.
  *
@@ -1122,10 +1844,12 @@ export const dependentRequiredKeyword = {
     }
 
     if (missing !== undefined && missing.length !== 0) {
+      const missingByKey: { [key: string]: string[] } = {};
       let message = "missing dependent ";
       message += missing.length === 1 ? "property " : "properties ";
       for (let i = 0; i < missing.length; i += 1) {
         const [key, requirement] = missing[i]!;
+        (missingByKey[key] ??= []).push(requirement);
         if (i !== 0) {
           message += i !== missing.length - 1 ? ", " : " and ";
         }
@@ -1135,9 +1859,51 @@ export const dependentRequiredKeyword = {
           JSON.stringify(key) +
           ")";
       }
-      attachError(context, message);
+      attachError(context, message, "dependentRequired", {
+        missing: missingByKey,
+      });
     }
   },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const node = (currentFrame(context) as SchemaFrame).node as {
+      readonly [key: string]: readonly string[];
+    };
+    const joinList = declareHelper(generator, "joinList");
+
+    let source = "if (isObject(instance)) {\n";
+    source += "  const missing = [];\n";
+    for (const [key, requirements] of Object.entries(node)) {
+      source +=
+        "  if (instance[" + JSON.stringify(key) + "] !== undefined) {\n";
+      for (const requirement of requirements) {
+        const part =
+          JSON.stringify(requirement) +
+          " (required by " +
+          JSON.stringify(key) +
+          ")";
+        source += "    if (instance[" + JSON.stringify(requirement);
+        source += "] === undefined) {\n";
+        source += "      missing.push(" + JSON.stringify(part) + ");\n";
+        source += "    }\n";
+      }
+      source += "  }\n";
+    }
+    source += "  if (missing.length !== 0) {\n";
+    source += indent(
+      generateError(
+        context,
+        '"missing dependent " + ' +
+          '(missing.length === 1 ? "property " : "properties ") + ' +
+          joinList +
+          '(missing, "and")',
+      ),
+      "    ",
+    );
+    source += "\n  }\n";
+    source += "}";
+    return source;
+  },
 } as const satisfies Keyword<{ readonly [key: string]: readonly string[] }>;
 
 /**
@@ -0,0 +1,171 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import type { Dialect } from "tool-schema";
+import { dialect202012, errorMessage, parseSchema } from "tool-schema";
+
+const dialect = {
+  ...dialect202012,
+  keywords: {
+    ...dialect202012.keywords,
+    ...errorMessage.errorMessageVocabulary.keywords,
+  },
+  vocabularies: {
+    ...dialect202012.vocabularies,
+    [errorMessage.errorMessageVocabulary.uri]:
+      errorMessage.errorMessageVocabulary,
+  },
+} as const satisfies Dialect;
+
+async function parse(node: object) {
+  return parseSchema(
+    { $schema: "https://json-schema.org/draft/2020-12/schema", ...node },
+    { dialects: [dialect] },
+  );
+}
+
+void suite("Error Message vocabulary", () => {
+  void test("replaces all errors with a string message", async () => {
+    const schema = await parse({
+      type: "integer",
+      minimum: 2,
+      errorMessage: "must be an integer of at least 2",
+    });
+    const output = schema.validate(1.5, { output: "basic" });
+
+    assert.equal(output.valid, false);
+    assert.equal(output.errors?.length, 1);
+    const unit = output.errors![0]!;
+    assert.equal(unit.error, "must be an integer of at least 2");
+    assert.equal(unit.keywordLocation, "/errorMessage");
+    assert.equal(unit.code, "errorMessage");
+    assert.deepEqual(
+      (unit.params!.errors as { keywordLocation: string }[])
+        .map((error) => error.keywordLocation)
+        .sort(),
+      ["/minimum", "/type"],
+    );
+    assert(schema.validate(2).valid);
+  });
+
+  void test("replaces errors per keyword", async () => {
+    const schema = await parse({
+      type: "string",
+      minLength: 3,
+      pattern: "^[a-z]+$",
+      errorMessage: { minLength: "too short" },
+    });
+    const output = schema.validate("A");
+
+    assert.deepEqual(output.errors?.map((unit) => unit.error).sort(), [
+      'does not match pattern "^[a-z]+$"',
+      "too short",
+    ]);
+    const minLength = output.errors?.find((unit) => unit.error === "too short");
+    assert.equal(minLength?.keywordLocation, "/errorMessage/minLength");
+  });
+
+  void test("replaces errors per property", async () => {
+    const schema = await parse({
+      properties: {
+        name: { type: "string" },
+        age: { type: "integer", minimum: 0 },
+      },
+      errorMessage: {
+        properties: { age: "age must be a non-negative integer" },
+      },
+    });
+    const output = schema.validate(
+      { name: 1, age: -1.5 },
+      { output: "detailed" },
+    );
+
+    const age = output.errors?.find(
+      (unit) => unit.keywordLocation === "/errorMessage/properties/age",
+    );
+    assert.equal(age?.error, "age must be a non-negative integer");
+    assert.equal(age?.instanceLocation, "/age");
+    const properties = output.errors?.find(
+      (unit) => unit.keywordLocation === "/properties",
+    );
+    assert.deepEqual(
+      properties?.errors?.map((unit) => unit.keywordLocation),
+      ["/properties/name/type"],
+    );
+  });
+
+  void test("extracts fully replaced errors once", async () => {
+    const schema = await parse({
+      properties: {
+        age: { type: "integer", minimum: 0 },
+      },
+      errorMessage: {
+        properties: { age: "age must be a non-negative integer" },
+      },
+    });
+    const output = schema.validate({ age: -1.5 }, { output: "basic" });
+
+    const age = output.errors?.find(
+      (unit) => unit.keywordLocation === "/errorMessage/properties/age",
+    );
+    assert.deepEqual(
+      (age?.params?.errors as { keywordLocation: string }[]).map(
+        (error) => error.keywordLocation,
+      ),
+      ["/properties"],
+    );
+  });
+
+  void test("replaces errors per required property", async () => {
+    const schema = await parse({
+      required: ["id", "name"],
+      errorMessage: { required: { id: "an id is required" } },
+    });
+
+    const output = schema.validate({ name: "a" });
+    assert.deepEqual(
+      output.errors?.map((unit) => unit.error),
+      ["an id is required"],
+    );
+    // Errors for properties without messages are retained.
+    assert.deepEqual(
+      schema.validate({}).errors?.map((unit) => unit.error),
+      ['missing required properties "id" and "name"', "an id is required"],
+    );
+  });
+
+  void test("replaces remaining errors with a default message", async () => {
+    const schema = await parse({
+      type: "object",
+      maxProperties: 1,
+      required: ["a"],
+      errorMessage: { type: "not an object", _: "invalid object" },
+    });
+
+    assert.deepEqual(
+      schema.validate({ b: 1, c: 2 }).errors?.map((unit) => unit.error),
+      ["invalid object"],
+    );
+    assert.deepEqual(
+      schema.validate(null).errors?.map((unit) => unit.error),
+      ["not an object"],
+    );
+  });
+
+  void test("interpolates instance values", async () => {
+    const schema = await parse({
+      properties: { age: { minimum: 18 } },
+      errorMessage: "${/name} is ${/age} years old",
+    });
+
+    assert.equal(
+      schema.validate({ name: "Ann", age: 12 }).errors?.[0]?.error,
+      "Ann is 12 years old",
+    );
+  });
+
+  void test("rejects invalid messages", async () => {
+    await assert.rejects(parse({ errorMessage: 1 }));
+    await assert.rejects(parse({ errorMessage: { minimum: 1 } }));
+    await assert.rejects(parse({ errorMessage: "${name}" }));
+  });
+});
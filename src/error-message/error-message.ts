@@ -0,0 +1,463 @@
+import {
+  isArray,
+  isObject,
+  escapePointer,
+  parsePointer,
+  currentFrame,
+  currentPointer,
+  currentLocation,
+} from "tool-json";
+import { ValidationError } from "../error.ts";
+import type { SchemaContext, SchemaFrame } from "../context.ts";
+import { instanceLocation } from "../context.ts";
+import type { OutputUnit } from "../output.ts";
+import { Keyword } from "../keyword.ts";
+import type { Vocabulary } from "../vocabulary.ts";
+import { dialect as dialect202012 } from "../draft-2020-12/dialect.ts";
+import { baseVocabulary } from "../oas-3.1/base.ts";
+
+declare module "../output.ts" {
+  interface ErrorParams {
+    /** The given `errors` were replaced by a custom error message. */
+    errorMessage: { readonly errors: readonly OutputUnit[] };
+  }
+}
+
+/**
+ * A JSON Schema that uses the Error Message vocabulary.
+ *
+ * @see [ajv-errors](https://github.com/ajv-validator/ajv-errors)
+ * @category Vocabularies
+ */
+export interface ErrorMessageVocabulary {
+  /**
+   * Custom error messages that replace the errors produced by the other
+   * keywords of the schema. A string message replaces all errors of the
+   * schema with a single error.
+   */
+  readonly errorMessage?: string | ErrorMessageKeyword;
+}
+
+/**
+ * Custom error messages for the keywords, properties, and items
+ * of a schema. Messages can reference instance values with JSON Pointer
+ * templates, such as `${/name}`, relative to the instance of the schema.
+ *
+ * @see [ajv-errors](https://github.com/ajv-validator/ajv-errors#messages-for-keywords)
+ * @category Vocabularies
+ */
+export interface ErrorMessageKeyword {
+  /**
+   * Messages that replace all errors for the given instance properties,
+   * keyed by property name.
+   */
+  readonly properties?: string | { readonly [property: string]: string };
+
+  /**
+   * Messages that replace all errors for the given instance items,
+   * by item index.
+   */
+  readonly items?: string | readonly string[];
+
+  /**
+   * Messages for missing required properties, keyed by property name.
+   */
+  readonly required?: string | { readonly [property: string]: string };
+
+  /**
+   * Messages for missing dependent properties, keyed by the name of the
+   * property that requires them.
+   */
+  readonly dependentRequired?: string | { readonly [property: string]: string };
+
+  /**
+   * A default message that replaces all errors not replaced by any other
+   * message.
+   */
+  readonly _?: string;
+
+  /**
+   * Messages that replace the errors produced by the given keywords,
+   * keyed by keyword name.
+   */
+  readonly [keyword: string]:
+    | string
+    | { readonly [property: string]: string }
+    | readonly string[]
+    | undefined;
+}
+
+/**
+ * The `errorMessage` keyword.
+ *
+ * @see [ajv-errors](https://github.com/ajv-validator/ajv-errors)
+ * @category Keywords
+ */
+export const errorMessageKeyword = {
+  ...Keyword.prototype,
+  key: "errorMessage",
+
+  // Replace errors only after all other keywords have been evaluated.
+  dependencies: [
+    ...Keyword.prototype.dependencies,
+    ...Object.keys(dialect202012.keywords),
+    ...Object.keys(baseVocabulary.keywords),
+  ],
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    if (typeof node === "string") {
+      parseMessage(context, node);
+      return;
+    }
+
+    if (!isObject(node)) {
+      throw new ValidationError(
+        '"errorMessage" must be a string or an object',
+        { location: currentLocation(context) },
+      );
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      if (typeof value === "string") {
+        parseMessage(context, value);
+      } else if (
+        key === "items" &&
+        isArray(value) &&
+        value.every((message) => typeof message === "string")
+      ) {
+        for (const message of value) {
+          parseMessage(context, message);
+        }
+      } else if (
+        (key === "properties" ||
+          key === "required" ||
+          key === "dependentRequired") &&
+        isObject(value) &&
+        Object.values(value).every((message) => typeof message === "string")
+      ) {
+        for (const message of Object.values(value) as string[]) {
+          parseMessage(context, message);
+        }
+      } else {
+        throw new ValidationError(
+          '"errorMessage" has an invalid message for ' + JSON.stringify(key),
+          { location: currentLocation(context) },
+        );
+      }
+    }
+  },
+
+  validate(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as string | ErrorMessageKeyword;
+    const schemaOutput = frame.parent?.output;
+
+    let errors = schemaOutput?.errors;
+    if (errors === undefined || errors.length === 0) {
+      return; // No errors to replace.
+    }
+
+    const schemaPointer = currentPointer(frame.parent);
+    const replacements: OutputUnit[] = [];
+
+    // A string message replaces all errors of the schema.
+    if (typeof node === "string") {
+      replacements.push(
+        createErrorUnit(context, frame, "", undefined, node, errors),
+      );
+      schemaOutput!.errors = replacements;
+      return;
+    }
+
+    // Replace all errors for instance properties.
+    const properties = node.properties;
+    if (isObject(properties)) {
+      for (const [key, message] of Object.entries(properties)) {
+        const location = instanceLocation(frame) + "/" + escapePointer(key);
+        const extracted: OutputUnit[] = [];
+        errors = extractErrors(errors, location, extracted);
+        if (extracted.length !== 0) {
+          replacements.push(
+            createErrorUnit(
+              context,
+              frame,
+              "/properties/" + escapePointer(key),
+              location,
+              message,
+              extracted,
+            ),
+          );
+        }
+      }
+    }
+
+    // Replace all errors for instance items.
+    const items = node.items;
+    if (isArray(items)) {
+      for (let index = 0; index < items.length; index += 1) {
+        const location = instanceLocation(frame) + "/" + index;
+        const extracted: OutputUnit[] = [];
+        errors = extractErrors(errors, location, extracted);
+        if (extracted.length !== 0) {
+          replacements.push(
+            createErrorUnit(
+              context,
+              frame,
+              "/items/" + index,
+              location,
+              items[index]!,
+              extracted,
+            ),
+          );
+        }
+      }
+    }
+
+    // Replace errors for individual missing properties.
+    for (const key of ["required", "dependentRequired"] as const) {
+      const messages = node[key];
+      if (!isObject(messages)) {
+        continue;
+      }
+      const remaining: OutputUnit[] = [];
+      for (const unit of errors) {
+        const missing =
+          getErrorKeyword(unit, schemaPointer) === key ?
+            getMissingProperties(unit)
+          : undefined;
+        if (missing === undefined) {
+          remaining.push(unit);
+          continue;
+        }
+        let replacedAll = true;
+        for (const property of missing) {
+          const message = messages[property];
+          if (message === undefined) {
+            replacedAll = false;
+            continue;
+          }
+          replacements.push(
+            createErrorUnit(
+              context,
+              frame,
+              "/" + key + "/" + escapePointer(property),
+              undefined,
+              message,
+              [unit],
+            ),
+          );
+        }
+        if (!replacedAll) {
+          remaining.push(unit);
+        }
+      }
+      errors = remaining;
+    }
+
+    // Replace the errors produced by individual keywords.
+    const keywordErrors = new Map<string, OutputUnit[]>();
+    const remaining: OutputUnit[] = [];
+    for (const unit of errors) {
+      const keyword = getErrorKeyword(unit, schemaPointer);
+      if (
+        keyword === undefined ||
+        keyword === "_" ||
+        typeof node[keyword] !== "string"
+      ) {
+        remaining.push(unit);
+        continue;
+      }
+      let units = keywordErrors.get(keyword);
+      if (units === undefined) {
+        units = [];
+        keywordErrors.set(keyword, units);
+      }
+      units.push(unit);
+    }
+    for (const [keyword, units] of keywordErrors) {
+      replacements.push(
+        createErrorUnit(
+          context,
+          frame,
+          "/" + escapePointer(keyword),
+          undefined,
+          node[keyword] as string,
+          units,
+        ),
+      );
+    }
+    errors = remaining;
+
+    // Replace all remaining errors with the default message.
+    if (typeof node._ === "string" && errors.length !== 0) {
+      replacements.push(
+        createErrorUnit(context, frame, "/_", undefined, node._, errors),
+      );
+      errors = [];
+    }
+
+    schemaOutput!.errors = [...errors, ...replacements];
+  },
+
+  generate(context: SchemaContext): undefined {
+    // Custom error messages never affect the validation result.
+    return undefined;
+  },
+} as const satisfies Keyword<string | ErrorMessageKeyword>;
+
+/**
+ * Ensures that all JSON Pointer templates in the given message are valid.
+ */
+function parseMessage(context: SchemaContext, message: string): void {
+  for (const match of message.matchAll(/\$\{([^}]*)\}/g)) {
+    try {
+      parsePointer(match[1]!);
+    } catch {
+      throw new ValidationError(
+        '"errorMessage" has an invalid template ' + JSON.stringify(match[0]),
+        { location: currentLocation(context) },
+      );
+    }
+  }
+}
+
+/**
+ * Replaces the JSON Pointer templates in the given message with the
+ * referenced values of the instance.
+ */
+function renderMessage(message: string, instance: unknown): string {
+  return message.replace(
+    /\$\{([^}]*)\}/g,
+    (match: string, pointer: string): string => {
+      let value = instance;
+      for (const token of parsePointer(pointer)) {
+        if (isArray(value)) {
+          value = value[Number(token)];
+        } else if (isObject(value)) {
+          value = value[token];
+        } else {
+          value = undefined;
+        }
+      }
+      if (value === undefined) {
+        return "";
+      }
+      return typeof value === "string" ? value : JSON.stringify(value);
+    },
+  );
+}
+
+/**
+ * Creates an output unit for a custom error message that replaces
+ * the given errors.
+ */
+function createErrorUnit(
+  context: SchemaContext,
+  frame: SchemaFrame,
+  suffix: string,
+  location: string | undefined,
+  message: string,
+  errors: readonly OutputUnit[],
+): OutputUnit {
+  return {
+    valid: false,
+    keywordLocation: currentPointer(frame) + suffix,
+    absoluteKeywordLocation: currentLocation(context, frame) + suffix,
+    instanceLocation: location ?? instanceLocation(frame),
+    error: renderMessage(message, frame.instance),
+    code: "errorMessage",
+    params: { errors },
+  };
+}
+
+/**
+ * Returns the name of the keyword of the schema at `schemaPointer`
+ * that produced the given error.
+ */
+function getErrorKeyword(
+  unit: OutputUnit,
+  schemaPointer: string,
+): string | undefined {
+  const keywordLocation = unit.keywordLocation;
+  if (keywordLocation?.startsWith(schemaPointer + "/") !== true) {
+    return undefined;
+  }
+  const token = keywordLocation.slice(schemaPointer.length + 1).split("/")[0]!;
+  return token.replaceAll("~1", "/").replaceAll("~0", "~");
+}
+
+/**
+ * Returns the names of the missing properties reported by the given
+ * `required` or `dependentRequired` error.
+ */
+function getMissingProperties(unit: OutputUnit): readonly string[] | undefined {
+  const missing = unit.params?.missing;
+  if (isArray(missing)) {
+    return missing as readonly string[];
+  } else if (isObject(missing)) {
+    return Object.keys(missing);
+  }
+  return undefined;
+}
+
+/**
+ * Removes all errors at or below the given instance location from the
+ * given output units, accumulating them in `extracted`. Output units
+ * whose nested errors were all extracted are extracted in place of them.
+ * Returns the remaining output units.
+ */
+function extractErrors(
+  units: readonly OutputUnit[],
+  location: string,
+  extracted: OutputUnit[],
+): OutputUnit[] {
+  const remaining: OutputUnit[] = [];
+  for (const unit of units) {
+    const unitLocation = unit.instanceLocation;
+    if (
+      unitLocation !== undefined &&
+      (unitLocation === location || unitLocation.startsWith(location + "/"))
+    ) {
+      extracted.push(unit);
+      continue;
+    }
+
+    const errors = unit.errors;
+    if (errors === undefined || errors.length === 0) {
+      remaining.push(unit);
+      continue;
+    }
+
+    const count = extracted.length;
+    const rest = extractErrors(errors, location, extracted);
+    if (rest.length === 0) {
+      // Extract the unit in place of its nested errors.
+      extracted.length = count;
+      extracted.push(unit);
+    } else if (extracted.length !== count) {
+      remaining.push({ ...unit, errors: rest });
+    } else {
+      remaining.push(unit);
+    }
+  }
+  return remaining;
+}
+
+/**
+ * The Error Message vocabulary, which replaces the errors produced by
+ * the other keywords of a schema with custom error messages. Mix this
+ * vocabulary into a dialect to opt in to custom error messages.
+ *
+ * @see [ajv-errors](https://github.com/ajv-validator/ajv-errors)
+ * @category Vocabularies
+ */
+export const errorMessageVocabulary = {
+  uri: "https://github.com/toolcog/tool-schema/vocab/error-message",
+
+  keywords: {
+    errorMessage: errorMessageKeyword,
+  },
+} as const satisfies Vocabulary;
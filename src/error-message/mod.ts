@@ -0,0 +1,8 @@
+export type {
+  ErrorMessageVocabulary,
+  ErrorMessageKeyword,
+} from "./error-message.ts";
+export {
+  errorMessageKeyword,
+  errorMessageVocabulary,
+} from "./error-message.ts";
@@ -1,8 +1,32 @@
 import { ProcessingError } from "tool-json";
+import type { OutputUnit } from "./output.ts";
 
 /**
  * An error that occurs when validating JSON instances.
  *
  * @category Dialect
  */
-export class ValidationError extends ProcessingError {}
+export class ValidationError extends ProcessingError {
+  /**
+   * The output of validating a schema against the meta-schema of its
+   * dialect, if the error was caused by an invalid schema.
+   */
+  readonly output: OutputUnit | undefined;
+
+  constructor(
+    message?: string,
+    options?: ConstructorParameters<typeof ProcessingError>[1] & {
+      readonly output?: OutputUnit | undefined;
+    },
+  ) {
+    super(message, options);
+    this.output = options?.output;
+  }
+}
+
+/**
+ * An error that occurs when generating code for a JSON schema.
+ *
+ * @category Generate
+ */
+export class GenerateError extends ProcessingError {}
@@ -0,0 +1,239 @@
+import { currentPointer, currentLocation } from "tool-json";
+import type { SchemaContext, SchemaFrame } from "./context.ts";
+import { instanceLocation } from "./context.ts";
+import type { OutputUnit } from "./output.ts";
+
+/**
+ * The result of evaluating a schema, or subschema, against an instance
+ * location, in the format of the JSON Schema output proposal. Keyword
+ * results are grouped into `errors` and `annotations` maps keyed by
+ * keyword name.
+ *
+ * @see [Fixing JSON Schema Output](https://json-schema.org/blog/posts/fixing-json-schema-output)
+ * @category Output
+ */
+export interface EvaluationNode {
+  /**
+   * Indicates whether the instance is valid against the schema.
+   */
+  valid: boolean;
+
+  /**
+   * A JSON Pointer to the schema, following the path of keywords
+   * traversed during evaluation, including references.
+   */
+  evaluationPath: string;
+
+  /**
+   * The absolute, dereferenced URI of the schema.
+   */
+  schemaLocation: string;
+
+  /**
+   * A JSON Pointer to the evaluated location of the instance.
+   */
+  instanceLocation: string;
+
+  /**
+   * The error messages produced by the schema's failed keywords,
+   * keyed by keyword name.
+   */
+  errors?: { [keyword: string]: string } | undefined;
+
+  /**
+   * The annotations produced by the schema's keywords, keyed by keyword name.
+   * Only present if the instance is valid against the schema.
+   */
+  annotations?: { [keyword: string]: unknown } | undefined;
+
+  /**
+   * The annotations produced by the schema's keywords, keyed by keyword name,
+   * that were dropped because the instance is invalid against the schema.
+   */
+  droppedAnnotations?: { [keyword: string]: unknown } | undefined;
+
+  /**
+   * The evaluations of the schema's subschemas.
+   */
+  details?: EvaluationNode[] | undefined;
+}
+
+/**
+ * A JSON Schema output proposal format:
+ * - `"list"`: a flat list of the evaluations of all subschemas
+ * - `"hierarchical"`: a tree of subschema evaluations that follows
+ *   the evaluation path
+ *
+ * @category Output
+ */
+export type EvaluationFormat = "list" | "hierarchical";
+
+/**
+ * Creates an evaluation node for the schema at the given stack frame,
+ * appends it to the details of the current evaluation node, and makes
+ * it the current evaluation node of the context.
+ *
+ * @category Output
+ * @internal
+ */
+export function beginEvaluation(
+  context: SchemaContext,
+  frame: SchemaFrame,
+): EvaluationNode {
+  const evaluation: EvaluationNode = {
+    valid: true,
+    evaluationPath: currentPointer(frame),
+    schemaLocation: currentLocation(context, frame),
+    instanceLocation: instanceLocation(frame),
+  };
+
+  const parent = context.evaluation;
+  if (parent !== undefined) {
+    let details = parent.details;
+    if (details === undefined) {
+      parent.details = details = [];
+    }
+    details.push(evaluation);
+  }
+
+  context.evaluation = evaluation;
+  return evaluation;
+}
+
+/**
+ * Records the output of the given keyword of the current evaluation node.
+ *
+ * @category Output
+ * @internal
+ */
+export function recordEvaluation(
+  evaluation: EvaluationNode,
+  keyword: string,
+  output: OutputUnit | undefined,
+): void {
+  if (output === undefined) {
+    return;
+  }
+
+  if (!output.valid) {
+    evaluation.valid = false;
+  }
+
+  if (output.error !== undefined) {
+    let errors = evaluation.errors;
+    if (errors === undefined) {
+      evaluation.errors = errors = {};
+    }
+    errors[keyword] = output.error;
+  }
+
+  if (output.annotation !== undefined) {
+    let annotations = evaluation.annotations;
+    if (annotations === undefined) {
+      evaluation.annotations = annotations = {};
+    }
+    annotations[keyword] = output.annotation;
+  }
+}
+
+/**
+ * Completes the current evaluation node, and restores the given parent
+ * as the current evaluation node of the context.
+ *
+ * @category Output
+ * @internal
+ */
+export function endEvaluation(
+  context: SchemaContext,
+  parent: EvaluationNode | undefined,
+): void {
+  const evaluation = context.evaluation;
+
+  // Annotations produced by failed schemas are dropped.
+  if (
+    evaluation !== undefined &&
+    !evaluation.valid &&
+    evaluation.annotations !== undefined
+  ) {
+    evaluation.droppedAnnotations = evaluation.annotations;
+    evaluation.annotations = undefined;
+  }
+
+  context.evaluation = parent;
+}
+
+/**
+ * Converts the root evaluation node of a schema evaluation to the given
+ * JSON Schema output proposal format.
+ *
+ * @category Output
+ */
+export function formatEvaluation(
+  evaluation: EvaluationNode,
+  format: EvaluationFormat,
+): EvaluationNode {
+  if (format === "hierarchical") {
+    return formatEvaluationNode(evaluation, true);
+  }
+
+  // Flatten all descendant evaluation nodes into the details of the root.
+  const details: EvaluationNode[] = [];
+  if (evaluation.details !== undefined) {
+    for (const detail of evaluation.details) {
+      collectEvaluationNodes(detail, details);
+    }
+  }
+
+  const result = formatEvaluationNode(evaluation, false);
+  if (details.length !== 0) {
+    result.details = details;
+  }
+  return result;
+}
+
+/**
+ * Returns a copy of the given evaluation node, omitting undefined properties.
+ */
+function formatEvaluationNode(
+  evaluation: EvaluationNode,
+  deep: boolean,
+): EvaluationNode {
+  const result: EvaluationNode = {
+    valid: evaluation.valid,
+    evaluationPath: evaluation.evaluationPath,
+    schemaLocation: evaluation.schemaLocation,
+    instanceLocation: evaluation.instanceLocation,
+  };
+  if (evaluation.errors !== undefined) {
+    result.errors = evaluation.errors;
+  }
+  if (evaluation.annotations !== undefined) {
+    result.annotations = evaluation.annotations;
+  }
+  if (evaluation.droppedAnnotations !== undefined) {
+    result.droppedAnnotations = evaluation.droppedAnnotations;
+  }
+  if (deep && evaluation.details !== undefined) {
+    result.details = evaluation.details.map(
+      (detail: EvaluationNode): EvaluationNode =>
+        formatEvaluationNode(detail, true),
+    );
+  }
+  return result;
+}
+
+/**
+ * Accumulates the given evaluation node, and all of its descendants,
+ * in evaluation order.
+ */
+function collectEvaluationNodes(
+  evaluation: EvaluationNode,
+  details: EvaluationNode[],
+): void {
+  details.push(formatEvaluationNode(evaluation, false));
+  if (evaluation.details !== undefined) {
+    for (const detail of evaluation.details) {
+      collectEvaluationNodes(detail, details);
+    }
+  }
+}
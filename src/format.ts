@@ -1,6 +1,13 @@
-import { currentFrame } from "tool-json";
+import {
+  isObject,
+  currentFrame,
+  currentLocation,
+  getResource,
+} from "tool-json";
+import { ValidationError } from "./error.ts";
 import type { SchemaContext, SchemaFrame } from "./context.ts";
 import { attachError } from "./output.ts";
+import { isSchemaResource } from "./resource.ts";
 
 /**
  * A JSON Schema format validator.
@@ -39,7 +46,10 @@ export const Format = {
         this.parse?.(instance);
       } catch (error) {
         if (error instanceof Error) {
-          attachError(context, error.message);
+          attachError(context, error.message, "format", {
+            format: this.name,
+            message: error.message,
+          });
         } else {
           throw error;
         }
@@ -47,3 +57,35 @@ export const Format = {
     },
   },
 } as const satisfies ThisType<Format>;
+
+/**
+ * Returns the format with the given name from the context's additional
+ * formats, or from the dialect of the schema that contains the keyword
+ * at the top of the stack.
+ *
+ * @category Dialect
+ * @internal
+ */
+export function getFormat(
+  context: SchemaContext,
+  name: string,
+): Format | undefined {
+  const frame = currentFrame(context) as SchemaFrame;
+
+  // Get the stack frame associated with the keyword's parent schema.
+  const schemaFrame = frame.parent;
+  if (!isObject(schemaFrame?.node)) {
+    throw new ValidationError("Unknown parent schema", {
+      location: currentLocation(context),
+    });
+  }
+
+  const resource = getResource(context, schemaFrame.node);
+  if (!isSchemaResource(resource)) {
+    throw new ValidationError("Unknown parent schema", {
+      location: currentLocation(context),
+    });
+  }
+
+  return context.formats?.get(name) ?? resource.dialect?.formats?.[name];
+}
@@ -0,0 +1,174 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { GenerateError, parseSchema } from "tool-schema";
+
+type GeneratedValidator = (instance: unknown) => { valid: boolean };
+
+async function importModule(source: string): Promise<GeneratedValidator> {
+  const url = "data:text/javascript," + encodeURIComponent(source);
+  const module = (await import(url)) as { default: GeneratedValidator };
+  return module.default;
+}
+
+async function assertEquivalent(
+  schemaNode: unknown,
+  instances: readonly unknown[],
+): Promise<void> {
+  const schema = await parseSchema(schemaNode);
+  const validate = await importModule(schema.generate());
+  for (const instance of instances) {
+    assert.equal(
+      validate(instance).valid,
+      schema.validate(instance).valid,
+      JSON.stringify(instance),
+    );
+  }
+}
+
+void suite("Generated modules", () => {
+  void test("generate self-contained modules", async () => {
+    const schema = await parseSchema({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "string",
+    });
+    const source = schema.generate();
+    assert.doesNotMatch(source, /\bimport\b/);
+    assert.doesNotMatch(source, /\bnew Function\b/);
+    assert.doesNotMatch(source, /\beval\b/);
+  });
+
+  void test("validate assertion keywords", async () => {
+    await assertEquivalent(
+      {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        type: ["string", "number"],
+        minimum: 1,
+        exclusiveMaximum: 10,
+        multipleOf: 2,
+        minLength: 2,
+        maxLength: 4,
+        pattern: "^[a-z]+$",
+      },
+      [null, 0, 2, 3, 10, "a", "ab", "abcde", "AB"],
+    );
+    await assertEquivalent(
+      {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        enum: [1, "a", { b: 2 }],
+        uniqueItems: true,
+      },
+      [1, "a", { b: 2 }, { b: 3 }, null],
+    );
+  });
+
+  void test("validate applicator keywords", async () => {
+    await assertEquivalent(
+      {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          tags: {
+            type: "array",
+            prefixItems: [{ const: "first" }],
+            items: { type: "string" },
+            contains: { const: "second" },
+          },
+        },
+        patternProperties: { "^x-": { type: "number" } },
+        additionalProperties: { type: "boolean" },
+        required: ["name"],
+        oneOf: [{ required: ["tags"] }, { required: ["flag"] }],
+        if: { properties: { name: { const: "a" } } },
+        then: { maxProperties: 2 },
+        else: { not: { required: ["x-a"] } },
+      },
+      [
+        { name: "a", tags: ["first", "second"] },
+        { name: "a", tags: ["first", "second"], "x-a": 1 },
+        { name: "b", tags: ["first"] },
+        { name: "b", flag: true, "x-a": 1 },
+        { name: "b", flag: "true" },
+        { name: "b", tags: [], flag: true },
+        [],
+      ],
+    );
+  });
+
+  void test("validate unevaluated keywords", async () => {
+    await assertEquivalent(
+      {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        properties: { a: true },
+        anyOf: [{ properties: { b: true } }, { properties: { c: true } }],
+        unevaluatedProperties: false,
+        prefixItems: [true],
+        unevaluatedItems: { type: "number" },
+      },
+      [{ a: 1 }, { a: 1, b: 2 }, { a: 1, d: 3 }, ["a", 1], ["a", "b"]],
+    );
+  });
+
+  void test("validate recursive references", async () => {
+    await assertEquivalent(
+      {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        $id: "https://example.com/strict-tree",
+        $dynamicAnchor: "node",
+        $ref: "tree",
+        unevaluatedProperties: false,
+        $defs: {
+          tree: {
+            $id: "tree",
+            $dynamicAnchor: "node",
+            type: "object",
+            properties: {
+              data: true,
+              children: { type: "array", items: { $dynamicRef: "#node" } },
+            },
+          },
+        },
+      },
+      [
+        { children: [{ data: 1 }] },
+        { children: [{ daat: 1 }] },
+        { data: 1, extra: 2 },
+      ],
+    );
+  });
+
+  void test("validate draft 07 schemas", async () => {
+    await assertEquivalent(
+      {
+        $schema: "http://json-schema.org/draft-07/schema#",
+        items: [{ type: "string" }],
+        additionalItems: { type: "number" },
+        dependencies: { a: ["b"], c: { required: ["d"] } },
+      },
+      [["a", 1], ["a", "b"], [1], { a: 1 }, { a: 1, b: 2 }, { c: 1 }],
+    );
+  });
+
+  void test("validate draft 05 schemas", async () => {
+    await assertEquivalent(
+      {
+        $schema: "http://json-schema.org/draft-04/schema#",
+        maximum: 10,
+        exclusiveMaximum: true,
+        minimum: 0,
+      },
+      [-1, 0, 5, 10, 11],
+    );
+  });
+
+  void test("reject keywords that don't support generation", async () => {
+    const schema = await parseSchema(
+      {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        format: "email",
+      },
+      { validation: true },
+    );
+    assert.throws(() => schema.generate(), GenerateError);
+  });
+});
@@ -0,0 +1,528 @@
+import {
+  ProcessingError,
+  isObject,
+  nestFrame,
+  currentFrame,
+  currentLocation,
+  getResource,
+} from "tool-json";
+import { GenerateError } from "./error.ts";
+import type { SchemaContext, SchemaFrame } from "./context.ts";
+import type { Keyword } from "./keyword.ts";
+import { Keyword as KeywordMixin, AnnotationKeyword } from "./keyword.ts";
+import { isSchemaResource } from "./resource.ts";
+
+/**
+ * The state of a standalone validator module being generated.
+ *
+ * Keyword `generate` hooks emit JavaScript statements that run in the body
+ * of a generated schema function, with the following bindings in scope:
+ * - `instance`: the instance being validated
+ * - `location`: the JSON Pointer location of the instance
+ * - `errors`: an array that collects error output units
+ * - `evaluated`: the locations of the instance evaluated so far, with
+ *   `properties` (a set of property names), `items` (the number of leading
+ *   items), and `contained` (a set of item indexes) fields
+ * - `dynamicScope`: the linked list of dynamic anchors in scope
+ * - `valid`: a mutable flag indicating whether the instance is valid
+ *
+ * Keyword statements are evaluated in a block scope, so they may freely
+ * declare local variables. Variables shared between keywords of the same
+ * schema must be declared with `declareLocal`.
+ *
+ * @category Generate
+ */
+export interface ModuleGenerator {
+  /**
+   * Hoisted module declarations, keyed by declaration name.
+   */
+  readonly declarations: Map<string, string>;
+
+  /**
+   * Names of generated schema functions, keyed by schema node.
+   */
+  readonly functions: Map<object, string>;
+
+  /**
+   * Names of hoisted constants, keyed by their source code.
+   */
+  readonly constants: Map<string, string>;
+
+  /**
+   * Function-scoped variables of the schema function being generated,
+   * mapped to their initializer expressions.
+   */
+  locals: Map<string, string>;
+
+  /**
+   * The number of identifiers allocated by the generator.
+   */
+  identifierCount: number;
+}
+
+/**
+ * Creates a new standalone validator module generator.
+ *
+ * @category Generate
+ * @internal
+ */
+export function createModuleGenerator(): ModuleGenerator {
+  return {
+    declarations: new Map(),
+    functions: new Map(),
+    constants: new Map(),
+    locals: new Map(),
+    identifierCount: 0,
+  };
+}
+
+/**
+ * Generates the source code of a self-contained ES module that validates
+ * instances against the schema node at the top of the stack. The generated
+ * module has no runtime dependencies, and doesn't evaluate code at runtime.
+ *
+ * The module's default export, also exported as `validate`, returns an
+ * output unit with `valid` and, for invalid instances, an `errors` list of
+ * output units with `absoluteKeywordLocation`, `instanceLocation`,
+ * and `error` fields.
+ *
+ * @throws GenerateError if the schema uses a keyword or format that
+ * doesn't support code generation.
+ * @category Generate
+ * @internal
+ */
+export function generateModule(context: SchemaContext): string {
+  const generator = createModuleGenerator();
+  const validator = generateSchemaResource(context, generator);
+
+  let source = "// Generated by tool-schema. Do not edit.\n";
+  source += "\n";
+  source += prelude;
+  for (const declaration of generator.declarations.values()) {
+    source += "\n";
+    source += declaration;
+    source += "\n";
+  }
+  source += "\n";
+  source += "export function validate(instance) {\n";
+  source += "  const errors = [];\n";
+  source += "  const valid = " + validator;
+  source += '(instance, "", errors, createEvaluated(), undefined);\n';
+  source += "  return valid ? { valid } : { valid, errors };\n";
+  source += "}\n";
+  source += "\n";
+  source += "export default validate;\n";
+  return source;
+}
+
+/**
+ * Generates a function that validates instances against the schema node
+ * at the top of the stack. Returns the name of the generated function.
+ *
+ * @throws GenerateError if the schema uses a keyword that doesn't support
+ * code generation.
+ * @category Generate
+ * @internal
+ */
+export function generateSchemaResource(
+  context: SchemaContext,
+  generator: ModuleGenerator,
+): string {
+  // Get the schema node from the top of the stack.
+  const frame = currentFrame(context) as SchemaFrame;
+  const node = frame.node;
+
+  // Generate boolean schemas.
+  if (node === true) {
+    return declareHelper(generator, "validateTrue");
+  } else if (node === false) {
+    const name = allocateIdentifier(generator, "validateFalse");
+    let source = "function " + name + "(instance, location, errors) {\n";
+    source += "  errors.push(";
+    source += generateOutputUnit(context, JSON.stringify("never valid"));
+    source += ");\n";
+    source += "  return false;\n";
+    source += "}";
+    generator.declarations.set(name, source);
+    return name;
+  }
+
+  // Ensure the schema is an object.
+  if (!isObject(node)) {
+    throw new ProcessingError("Unexpected schema node", {
+      location: currentLocation(context),
+    });
+  }
+
+  // Get the JSON resource associated with the schema node.
+  const resource = getResource(context, node);
+  if (!isSchemaResource(resource)) {
+    throw new ProcessingError("Uninitialized schema resource", {
+      location: currentLocation(context),
+    });
+  }
+
+  // Return the previously generated function, if one exists.
+  let name = generator.functions.get(node);
+  if (name !== undefined) {
+    return name;
+  }
+
+  // Register the function name before generating keywords
+  // so that recursive references resolve.
+  name = allocateIdentifier(generator, "validate");
+  generator.functions.set(node, name);
+  // Reserve the function's position in the module.
+  generator.declarations.set(name, "");
+
+  // Use the base URI of the schema as the base URI for the frame.
+  if (frame.baseUri === undefined) {
+    frame.baseUri = resource.baseUri;
+  }
+
+  let body = "";
+
+  // Push the schema's dynamic anchor onto the dynamic scope.
+  const dynamicAnchor = node.$dynamicAnchor;
+  if (typeof dynamicAnchor === "string") {
+    body += "  dynamicScope = { anchor: " + JSON.stringify(dynamicAnchor);
+    body += ", validate: " + name + ", parent: dynamicScope };\n";
+  }
+
+  // Isolate the local variables of the schema function.
+  const locals = generator.locals;
+  generator.locals = new Map();
+
+  // Generate the schema's keywords in dependency order.
+  for (const keyword of resource.keys!) {
+    const statements = nestFrame(
+      context,
+      (frame: SchemaFrame): string | undefined => {
+        frame.nodeKey = keyword.key;
+        frame.node = node[keyword.key];
+        return generateKeyword(context, generator, keyword);
+      },
+    );
+    if (statements !== undefined) {
+      body += "  {\n";
+      body += indent(statements, "    ");
+      body += "\n  }\n";
+    }
+  }
+
+  let source = "function " + name;
+  source += "(instance, location, errors, evaluated, dynamicScope) {\n";
+  source += "  let valid = true;\n";
+  for (const [local, initializer] of generator.locals) {
+    source += "  let " + local + " = " + initializer + ";\n";
+  }
+  source += body;
+  source += "  return valid;\n";
+  source += "}";
+  generator.declarations.set(name, source);
+  generator.locals = locals;
+
+  return name;
+}
+
+/**
+ * Generates a function that validates instances against the given subschema
+ * node. Returns the name of the generated function.
+ *
+ * @category Generate
+ * @internal
+ */
+export function generateSchemaNode(
+  context: SchemaContext,
+  generator: ModuleGenerator,
+  node: unknown,
+  nodeKey?: string | number,
+): string {
+  return nestFrame(context, (frame: SchemaFrame): string => {
+    frame.nodeKey = nodeKey;
+    frame.node = node;
+    return generateSchemaResource(context, generator);
+  });
+}
+
+/**
+ * Generates statements that validate instances against the keyword node
+ * at the top of the stack. Returns `undefined` if the keyword never
+ * produces validation errors.
+ *
+ * @throws GenerateError if the keyword doesn't support code generation.
+ * @category Generate
+ * @internal
+ */
+export function generateKeyword(
+  context: SchemaContext,
+  generator: ModuleGenerator,
+  keyword: Keyword,
+): string | undefined {
+  if (keyword.generate !== undefined) {
+    return keyword.generate(context, generator);
+  }
+
+  // Skip keywords that have no validation behavior,
+  // or that only produce annotations.
+  if (
+    keyword.validate === KeywordMixin.prototype.validate ||
+    keyword.validate === AnnotationKeyword.prototype.validate
+  ) {
+    return undefined;
+  }
+
+  throw new GenerateError(
+    "Keyword " + JSON.stringify(keyword.key) + " does not support generation",
+    { location: currentLocation(context) },
+  );
+}
+
+/**
+ * Returns a statement that records a validation error for the keyword
+ * at the top of the stack. The `message` argument is a JavaScript
+ * expression that evaluates to the error message.
+ *
+ * @category Generate
+ * @internal
+ */
+export function generateError(context: SchemaContext, message: string): string {
+  return (
+    "valid = false;\nerrors.push(" + generateOutputUnit(context, message) + ");"
+  );
+}
+
+/**
+ * Returns a statement that records a validation error with the given
+ * static message when the `invalid` JavaScript expression is truthy.
+ *
+ * @category Generate
+ * @internal
+ */
+export function generateAssertion(
+  context: SchemaContext,
+  invalid: string,
+  message: string,
+): string {
+  let source = "if (" + invalid + ") {\n";
+  source += indent(generateError(context, JSON.stringify(message)), "  ");
+  source += "\n}";
+  return source;
+}
+
+/**
+ * Returns an expression that creates an error output unit
+ * for the schema node at the top of the stack.
+ */
+function generateOutputUnit(context: SchemaContext, message: string): string {
+  let source = "{ valid: false, absoluteKeywordLocation: ";
+  source += JSON.stringify(currentLocation(context));
+  source += ", instanceLocation: location, error: " + message + " }";
+  return source;
+}
+
+/**
+ * Returns an expression that applies the named schema function
+ * to an instance, evaluating to `true` if the instance is valid.
+ *
+ * @category Generate
+ * @internal
+ */
+export function generateApply(
+  validator: string,
+  instance: string = "instance",
+  location: string = "location",
+  evaluated: string = "createEvaluated()",
+  errors: string = "errors",
+): string {
+  let source = validator + "(" + instance + ", " + location + ", ";
+  source += errors + ", " + evaluated + ", dynamicScope)";
+  return source;
+}
+
+/**
+ * Declares a hoisted module constant initialized by the given JavaScript
+ * expression. Returns the name of the constant.
+ *
+ * @category Generate
+ * @internal
+ */
+export function declareConstant(
+  generator: ModuleGenerator,
+  expression: string,
+): string {
+  let name = generator.constants.get(expression);
+  if (name === undefined) {
+    name = allocateIdentifier(generator, "constant");
+    generator.constants.set(expression, name);
+    generator.declarations.set(
+      name,
+      "const " + name + " = " + expression + ";",
+    );
+  }
+  return name;
+}
+
+/**
+ * Declares a hoisted regular expression for the given pattern.
+ * Returns the name of the constant.
+ *
+ * @category Generate
+ * @internal
+ */
+export function declarePattern(
+  generator: ModuleGenerator,
+  pattern: string,
+): string {
+  return declareConstant(
+    generator,
+    "new RegExp(" + JSON.stringify(pattern) + ', "u")',
+  );
+}
+
+/**
+ * Declares a variable shared by the keywords of the schema function
+ * being generated. Returns the name of the variable.
+ *
+ * @category Generate
+ * @internal
+ */
+export function declareLocal(
+  generator: ModuleGenerator,
+  name: string,
+  initializer: string = "undefined",
+): string {
+  if (!generator.locals.has(name)) {
+    generator.locals.set(name, initializer);
+  }
+  return name;
+}
+
+/**
+ * Declares the named runtime helper function. Returns the name of the helper.
+ *
+ * @category Generate
+ * @internal
+ */
+export function declareHelper(
+  generator: ModuleGenerator,
+  name: keyof typeof helpers,
+): string {
+  if (!generator.declarations.has(name)) {
+    generator.declarations.set(name, helpers[name]);
+  }
+  return name;
+}
+
+/**
+ * Allocates a unique module-level identifier with the given prefix.
+ */
+function allocateIdentifier(
+  generator: ModuleGenerator,
+  prefix: string,
+): string {
+  generator.identifierCount += 1;
+  return prefix + generator.identifierCount;
+}
+
+/**
+ * Indents each non-empty line of the given source code.
+ *
+ * @category Generate
+ * @internal
+ */
+export function indent(source: string, prefix: string = "  "): string {
+  return source
+    .split("\n")
+    .map((line) => (line.length !== 0 ? prefix + line : line))
+    .join("\n");
+}
+
+/**
+ * Runtime declarations included in every generated module.
+ */
+const prelude = `function createEvaluated() {
+  return { properties: new Set(), items: 0, contained: new Set() };
+}
+
+function mergeEvaluated(target, source) {
+  for (const key of source.properties) {
+    target.properties.add(key);
+  }
+  if (source.items > target.items) {
+    target.items = source.items;
+  }
+  for (const index of source.contained) {
+    target.contained.add(index);
+  }
+}
+
+function isObject(value) {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function escapePointer(key) {
+  return key.replace(/~/g, "~0").replace(/\\//g, "~1");
+}
+`;
+
+/**
+ * Runtime helper functions declared on demand by generated keywords.
+ */
+const helpers = {
+  validateTrue: `function validateTrue() {
+  return true;
+}`,
+
+  equal: `function equal(x, y) {
+  if (x === y) {
+    return true;
+  }
+  if (Array.isArray(x)) {
+    if (!Array.isArray(y) || x.length !== y.length) {
+      return false;
+    }
+    for (let i = 0; i < x.length; i += 1) {
+      if (!equal(x[i], y[i])) {
+        return false;
+      }
+    }
+    return true;
+  }
+  if (isObject(x)) {
+    if (!isObject(y)) {
+      return false;
+    }
+    const keys = Object.keys(x);
+    if (keys.length !== Object.keys(y).length) {
+      return false;
+    }
+    for (const key of keys) {
+      if (!Object.prototype.hasOwnProperty.call(y, key) || !equal(x[key], y[key])) {
+        return false;
+      }
+    }
+    return true;
+  }
+  return false;
+}`,
+
+  unicodeLength: `function unicodeLength(value) {
+  let length = 0;
+  for (const _ of value) {
+    length += 1;
+  }
+  return length;
+}`,
+
+  joinList: `function joinList(parts, conjunction) {
+  let message = "";
+  for (let i = 0; i < parts.length; i += 1) {
+    if (i !== 0) {
+      message += i !== parts.length - 1 ? ", " : " " + conjunction + " ";
+    }
+    message += parts[i];
+  }
+  return message;
+}`,
+} as const;
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { jtd, parseSchema } from "tool-schema";
+
+const person = jtd.checkSchema({
+  definitions: {
+    pet: {
+      discriminator: "kind",
+      mapping: {
+        cat: { properties: { lives: { type: "uint8" } } },
+        dog: { optionalProperties: { good: { type: "boolean" } } },
+      },
+    },
+  },
+  properties: {
+    name: { type: "string" },
+    born: { type: "timestamp" },
+    pets: { elements: { ref: "pet" } },
+  },
+  optionalProperties: {
+    nickname: { type: "string", nullable: true },
+    scores: { values: { type: "float64" } },
+  },
+});
+
+void suite("JTD conversion", () => {
+  void test("converts JTD schemas to JSON schemas", async () => {
+    const schema = await parseSchema(jtd.toJsonSchema(person));
+    assert(
+      schema.validate({
+        name: "Ada",
+        born: "1815-12-10T00:00:00Z",
+        pets: [{ kind: "cat", lives: 9 }, { kind: "dog" }],
+        nickname: null,
+        scores: { math: 100 },
+      }).valid,
+    );
+    assert(
+      !schema.validate({
+        name: "Ada",
+        born: "1815-12-10T00:00:00Z",
+        pets: [{ kind: "cat", lives: 300 }],
+      }).valid,
+    );
+    assert(
+      !schema.validate({
+        name: "Ada",
+        born: "1815-12-10T00:00:00Z",
+        pets: [{ kind: "dog", lives: 9 }],
+      }).valid,
+    );
+    assert(
+      !schema.validate({
+        name: "Ada",
+        born: "1815-12-10T00:00:00Z",
+        pets: [],
+        extra: true,
+      }).valid,
+    );
+  });
+
+  void test("round trips JTD schemas through JSON schemas", () => {
+    assert.deepEqual(jtd.fromJsonSchema(jtd.toJsonSchema(person)), person);
+  });
+
+  void test("converts the supported JSON Schema subset to JTD", () => {
+    assert.deepEqual(
+      jtd.fromJsonSchema({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        title: "Point",
+        type: "object",
+        required: ["x", "y"],
+        properties: {
+          x: { type: "number" },
+          y: { type: "number" },
+          label: { type: ["string", "null"] },
+        },
+        additionalProperties: false,
+      }),
+      {
+        metadata: { title: "Point" },
+        properties: {
+          x: { type: "float64" },
+          y: { type: "float64" },
+        },
+        optionalProperties: {
+          label: { type: "string", nullable: true },
+        },
+      },
+    );
+    assert.deepEqual(
+      jtd.fromJsonSchema({
+        type: "object",
+        additionalProperties: { enum: ["on", "off"] },
+      }),
+      { values: { enum: ["on", "off"] } },
+    );
+  });
+
+  void test("rejects JSON schemas JTD can't express", () => {
+    assert.throws(() => jtd.fromJsonSchema({ type: "string", minLength: 1 }));
+    assert.throws(() =>
+      jtd.fromJsonSchema({ type: "integer", minimum: 0, maximum: 100 }),
+    );
+    assert.throws(() => jtd.fromJsonSchema({ oneOf: [{ type: "string" }] }));
+  });
+});
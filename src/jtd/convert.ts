@@ -0,0 +1,503 @@
+import { isArray, isObject, escapePointer, parsePointer } from "tool-json";
+import { ValidationError } from "../error.ts";
+import type { JtdSchema, JtdType } from "./schema.ts";
+import { integerRanges } from "./validate.ts";
+
+/**
+ * The JSON Schema keywords that only annotate instances, and which
+ * are dropped when converting to JTD.
+ */
+const annotationKeywords: readonly string[] = [
+  "$comment",
+  "title",
+  "description",
+  "examples",
+  "default",
+  "deprecated",
+  "readOnly",
+  "writeOnly",
+];
+
+/**
+ * Converts a well-formed JTD schema into an equivalent JSON Schema
+ * Draft 2020-12 schema, so that it can be parsed and validated like
+ * any other JSON schema.
+ *
+ * @see [RFC 8927 Appendix B](https://datatracker.ietf.org/doc/html/rfc8927#appendix-B)
+ * @category JTD
+ */
+export function toJsonSchema(schema: JtdSchema): {
+  [key: string]: unknown;
+} {
+  const node: { [key: string]: unknown } = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    ...convertJtdSchema(schema, undefined),
+  };
+  if (schema.definitions !== undefined) {
+    const definitions: { [name: string]: unknown } = {};
+    for (const [name, definition] of Object.entries(schema.definitions)) {
+      definitions[name] = convertJtdSchema(definition, undefined);
+    }
+    node.$defs = definitions;
+  }
+  return node;
+}
+
+/**
+ * Converts a JTD subschema into an equivalent JSON schema. The `tag`
+ * of a discriminator mapping is admitted as an additional property.
+ */
+function convertJtdSchema(
+  schema: JtdSchema,
+  tag: string | undefined,
+): { [key: string]: unknown } {
+  const nullable = schema.nullable === true;
+  const node: { [key: string]: unknown } = {};
+
+  const metadata = schema.metadata;
+  if (typeof metadata?.title === "string") {
+    node.title = metadata.title;
+  }
+  if (typeof metadata?.description === "string") {
+    node.description = metadata.description;
+  }
+
+  const withType = (type: string): string | string[] =>
+    nullable ? [type, "null"] : type;
+
+  if (schema.ref !== undefined) {
+    const ref = "#/$defs/" + encodeURIComponent(escapePointer(schema.ref));
+    if (nullable) {
+      node.anyOf = [{ $ref: ref }, { type: "null" }];
+    } else {
+      node.$ref = ref;
+    }
+  } else if (schema.type !== undefined) {
+    const type = schema.type;
+    switch (type) {
+      case "boolean":
+      case "string":
+        node.type = withType(type);
+        break;
+      case "timestamp":
+        node.type = withType("string");
+        node.format = "date-time";
+        break;
+      case "float32":
+      case "float64":
+        node.type = withType("number");
+        break;
+      default: {
+        const range = integerRanges[type]!;
+        node.type = withType("integer");
+        node.minimum = range[0];
+        node.maximum = range[1];
+        break;
+      }
+    }
+  } else if (schema.enum !== undefined) {
+    node.enum = nullable ? [...schema.enum, null] : [...schema.enum];
+  } else if (schema.elements !== undefined) {
+    node.type = withType("array");
+    node.items = convertJtdSchema(schema.elements, undefined);
+  } else if (
+    schema.properties !== undefined ||
+    schema.optionalProperties !== undefined
+  ) {
+    if (tag === undefined) {
+      node.type = withType("object");
+    }
+    const properties: { [name: string]: unknown } = {};
+    for (const [name, property] of Object.entries(schema.properties ?? {})) {
+      properties[name] = convertJtdSchema(property, undefined);
+    }
+    for (const [name, property] of Object.entries(
+      schema.optionalProperties ?? {},
+    )) {
+      properties[name] = convertJtdSchema(property, undefined);
+    }
+    if (tag !== undefined) {
+      properties[tag] = true;
+    }
+    node.properties = properties;
+    const required = Object.keys(schema.properties ?? {});
+    if (required.length !== 0) {
+      node.required = required;
+    }
+    if (schema.additionalProperties !== true) {
+      node.additionalProperties = false;
+    }
+  } else if (schema.values !== undefined) {
+    node.type = withType("object");
+    node.additionalProperties = convertJtdSchema(schema.values, undefined);
+  } else if (schema.discriminator !== undefined) {
+    const discriminator = schema.discriminator;
+    const mapping = schema.mapping ?? {};
+    node.type = withType("object");
+    node.required = [discriminator];
+    node.properties = {
+      [discriminator]: { type: "string", enum: Object.keys(mapping) },
+    };
+    node.allOf = Object.entries(mapping).map(
+      ([value, variant]: [string, JtdSchema]): unknown => ({
+        if: { properties: { [discriminator]: { const: value } } },
+        then: convertJtdSchema(variant, discriminator),
+      }),
+    );
+  }
+
+  return node;
+}
+
+/**
+ * Converts a JSON Schema Draft 2020-12 schema into an equivalent JTD schema.
+ * Only the subset of JSON Schema that JTD can express is supported:
+ * `type`, `enum`, `items`, `properties`, `required`, `additionalProperties`,
+ * local `$ref`s to `$defs`, nullable types, integer ranges, the
+ * `date-time` format, and the discriminated unions produced by
+ * {@link toJsonSchema}.
+ *
+ * @throws ValidationError if the schema uses unsupported keywords.
+ * @category JTD
+ */
+export function fromJsonSchema(node: unknown): JtdSchema {
+  const definitions: { [name: string]: JtdSchema } = {};
+  if (isObject(node) && node.$defs !== undefined) {
+    if (!isObject(node.$defs)) {
+      throw new ValidationError('"$defs" must be an object', {
+        location: "#/$defs",
+      });
+    }
+    for (const [name, definition] of Object.entries(node.$defs)) {
+      definitions[name] = convertJsonSchema(
+        definition,
+        "/$defs/" + escapePointer(name),
+      );
+    }
+  }
+
+  const schema = convertJsonSchema(node, "", ["$schema", "$id", "$defs"]);
+  return Object.keys(definitions).length !== 0 ?
+      { definitions, ...schema }
+    : schema;
+}
+
+/**
+ * Converts a JSON subschema into an equivalent JTD schema.
+ */
+function convertJsonSchema(
+  node: unknown,
+  pointer: string,
+  ignoredKeys: readonly string[] = [],
+): JtdSchema {
+  const fail = (message: string, key?: string): never => {
+    throw new ValidationError(message, {
+      location: "#" + pointer + (key !== undefined ? "/" + key : ""),
+    });
+  };
+
+  if (node === true) {
+    return {};
+  }
+  if (!isObject(node)) {
+    return fail("Unsupported schema " + JSON.stringify(node));
+  }
+
+  const metadata: { [key: string]: unknown } = {};
+  const keys = new Set<string>();
+  for (const key of Object.keys(node)) {
+    if (ignoredKeys.includes(key)) {
+      continue;
+    }
+    if (key === "title" || key === "description") {
+      metadata[key] = node[key];
+    }
+    if (!annotationKeywords.includes(key)) {
+      keys.add(key);
+    }
+  }
+
+  const result: { -readonly [K in keyof JtdSchema]: JtdSchema[K] } = {};
+  if (Object.keys(metadata).length !== 0) {
+    result.metadata = metadata;
+  }
+
+  const take = (key: string): unknown => {
+    keys.delete(key);
+    return node[key];
+  };
+
+  // Nullable references.
+  const anyOf = node.anyOf;
+  if (
+    isArray(anyOf) &&
+    anyOf.length === 2 &&
+    isObject(anyOf[0]) &&
+    typeof anyOf[0].$ref === "string" &&
+    isObject(anyOf[1]) &&
+    anyOf[1].type === "null"
+  ) {
+    take("anyOf");
+    result.ref = parseDefinitionRef(anyOf[0].$ref, pointer + "/anyOf/0");
+    result.nullable = true;
+  } else if (node.$ref !== undefined) {
+    const ref = take("$ref");
+    if (typeof ref !== "string") {
+      return fail('"$ref" must be a string', "$ref");
+    }
+    result.ref = parseDefinitionRef(ref, pointer + "/$ref");
+  } else {
+    let type = take("type");
+    if (isArray(type)) {
+      const types = type.filter((type: unknown): boolean => type !== "null");
+      if (types.length !== 1 || types.length === type.length) {
+        return fail("Unsupported type " + JSON.stringify(type), "type");
+      }
+      result.nullable = true;
+      type = types[0];
+    }
+
+    const values = take("enum");
+    if (values !== undefined) {
+      if (type !== undefined && type !== "string") {
+        return fail("Unsupported enum type " + JSON.stringify(type), "type");
+      }
+      if (!isArray(values)) {
+        return fail('"enum" must be an array', "enum");
+      }
+      const strings = values.filter(
+        (value: unknown): value is string => typeof value === "string",
+      );
+      if (strings.length !== values.length) {
+        if (
+          strings.length + 1 !== values.length ||
+          !values.includes(null) ||
+          strings.length === 0
+        ) {
+          return fail('"enum" must only contain strings', "enum");
+        }
+        result.nullable = true;
+      }
+      result.enum = strings;
+    } else {
+      switch (type) {
+        case undefined:
+          break;
+        case "boolean":
+          result.type = "boolean";
+          break;
+        case "string":
+          result.type = take("format") === "date-time" ? "timestamp" : "string";
+          break;
+        case "number":
+          result.type = "float64";
+          break;
+        case "integer":
+          result.type = selectIntegerType(
+            take("minimum"),
+            take("maximum"),
+            fail,
+          );
+          break;
+        case "array": {
+          const items = take("items");
+          result.elements =
+            items !== undefined ?
+              convertJsonSchema(items, pointer + "/items")
+            : {};
+          break;
+        }
+        case "object":
+          convertObject(node, pointer, result, take, fail);
+          break;
+        default:
+          return fail("Unsupported type " + JSON.stringify(type), "type");
+      }
+    }
+  }
+
+  // Formats only annotate instances by default.
+  keys.delete("format");
+
+  for (const key of keys) {
+    fail("Unsupported keyword " + JSON.stringify(key), key);
+  }
+  return result;
+}
+
+/**
+ * Converts the object keywords of a JSON schema into a JTD `properties`,
+ * `values`, or `discriminator` form.
+ */
+function convertObject(
+  node: { readonly [key: string]: unknown },
+  pointer: string,
+  result: { -readonly [K in keyof JtdSchema]: JtdSchema[K] },
+  take: (key: string) => unknown,
+  fail: (message: string, key?: string) => never,
+): void {
+  const allOf = node.allOf;
+  if (isArray(allOf) && isObject(node.properties)) {
+    // Discriminated unions, as produced by toJsonSchema.
+    const required = node.required;
+    if (isArray(required) && required.length === 1) {
+      const discriminator = required[0];
+      if (typeof discriminator === "string") {
+        take("allOf");
+        take("properties");
+        take("required");
+        result.discriminator = discriminator;
+        const mapping: { [value: string]: JtdSchema } = {};
+        for (let index = 0; index < allOf.length; index += 1) {
+          const branch = allOf[index];
+          const condition =
+            isObject(branch) && isObject(branch.if) ?
+              branch.if.properties
+            : undefined;
+          const property =
+            isObject(condition) ? condition[discriminator] : undefined;
+          const tag = isObject(property) ? property.const : undefined;
+          if (typeof tag !== "string" || !isObject(branch)) {
+            return fail("Unsupported discriminated union", "allOf/" + index);
+          }
+          mapping[tag] = convertVariant(
+            branch.then,
+            pointer + "/allOf/" + index + "/then",
+            discriminator,
+          );
+        }
+        result.mapping = mapping;
+        return;
+      }
+    }
+  }
+
+  const properties = take("properties");
+  const required = take("required");
+  const additionalProperties = take("additionalProperties");
+
+  if (
+    properties === undefined &&
+    required === undefined &&
+    additionalProperties !== undefined &&
+    additionalProperties !== false
+  ) {
+    result.values = convertJsonSchema(
+      additionalProperties,
+      pointer + "/additionalProperties",
+    );
+    return;
+  }
+
+  if (properties !== undefined && !isObject(properties)) {
+    fail('"properties" must be an object', "properties");
+  }
+  const requiredNames =
+    isArray(required) ?
+      required.filter(
+        (name: unknown): name is string => typeof name === "string",
+      )
+    : [];
+  const requiredProperties: { [name: string]: JtdSchema } = {};
+  const optionalProperties: { [name: string]: JtdSchema } = {};
+  for (const [name, property] of Object.entries(
+    (properties ?? {}) as { [name: string]: unknown },
+  )) {
+    const converted = convertJsonSchema(
+      property,
+      pointer + "/properties/" + escapePointer(name),
+    );
+    if (requiredNames.includes(name)) {
+      requiredProperties[name] = converted;
+    } else {
+      optionalProperties[name] = converted;
+    }
+  }
+  for (const name of requiredNames) {
+    if (!Object.hasOwn(requiredProperties, name)) {
+      requiredProperties[name] = {};
+    }
+  }
+
+  // The properties form needs at least one of its property maps.
+  if (
+    Object.keys(requiredProperties).length !== 0 ||
+    Object.keys(optionalProperties).length === 0
+  ) {
+    result.properties = requiredProperties;
+  }
+  if (Object.keys(optionalProperties).length !== 0) {
+    result.optionalProperties = optionalProperties;
+  }
+  if (additionalProperties === undefined || additionalProperties === true) {
+    // JSON Schema admits additional properties by default.
+    result.additionalProperties = true;
+  } else if (additionalProperties !== false) {
+    fail("Unsupported additionalProperties schema", "additionalProperties");
+  }
+}
+
+/**
+ * Converts the `then` schema of a discriminated union branch into a JTD
+ * `properties` form schema, dropping the discriminator property.
+ */
+function convertVariant(
+  node: unknown,
+  pointer: string,
+  discriminator: string,
+): JtdSchema {
+  if (!isObject(node)) {
+    throw new ValidationError("Unsupported discriminated union", {
+      location: "#" + pointer,
+    });
+  }
+  const properties = Object.fromEntries(
+    Object.entries(isObject(node.properties) ? node.properties : {}).filter(
+      ([key]) => key !== discriminator,
+    ),
+  );
+  const variant = convertJsonSchema(
+    { ...node, type: "object", properties },
+    pointer,
+  );
+  return (
+      variant.properties !== undefined ||
+        variant.optionalProperties !== undefined
+    ) ?
+      variant
+    : { properties: {} };
+}
+
+/**
+ * Returns the name of the `$defs` definition referenced by a local
+ * JSON Schema reference.
+ */
+function parseDefinitionRef(ref: string, pointer: string): string {
+  const prefix = "#/$defs/";
+  const name = ref.startsWith(prefix) ? ref.slice(prefix.length) : undefined;
+  if (name === undefined || name.includes("/")) {
+    throw new ValidationError("Unsupported reference " + JSON.stringify(ref), {
+      location: "#" + pointer,
+    });
+  }
+  return parsePointer("/" + decodeURIComponent(name))[0]!;
+}
+
+/**
+ * Returns the JTD integer type with exactly the given range, since
+ * JTD can't express narrower or wider integer ranges.
+ */
+function selectIntegerType(
+  minimum: unknown,
+  maximum: unknown,
+  fail: (message: string, key?: string) => never,
+): JtdType {
+  const min = typeof minimum === "number" ? minimum : -Infinity;
+  const max = typeof maximum === "number" ? maximum : Infinity;
+  for (const [type, range] of Object.entries(integerRanges)) {
+    if (range[0] === min && range[1] === max) {
+      return type as JtdType;
+    }
+  }
+  return fail("Unsupported integer range [" + min + ", " + max + "]", "type");
+}
@@ -0,0 +1,7 @@
+export type { JtdType, JtdSchema } from "./schema.ts";
+export { checkSchema } from "./schema.ts";
+
+export type { JtdError, JtdValidateOptions } from "./validate.ts";
+export { validate } from "./validate.ts";
+
+export { toJsonSchema, fromJsonSchema } from "./convert.ts";
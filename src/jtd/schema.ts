@@ -0,0 +1,396 @@
+import { isArray, isObject, escapePointer } from "tool-json";
+import { ValidationError } from "../error.ts";
+
+/**
+ * The primitive types of the JTD `type` form.
+ *
+ * @see [RFC 8927 §2.2.3](https://datatracker.ietf.org/doc/html/rfc8927#section-2.2.3)
+ * @category JTD
+ */
+export type JtdType =
+  | "boolean"
+  | "float32"
+  | "float64"
+  | "int8"
+  | "uint8"
+  | "int16"
+  | "uint16"
+  | "int32"
+  | "uint32"
+  | "string"
+  | "timestamp";
+
+/**
+ * A JSON Type Definition schema. A well-formed schema takes exactly
+ * one of the empty, `ref`, `type`, `enum`, `elements`, `properties`,
+ * `values`, or `discriminator` forms.
+ *
+ * @see [RFC 8927 §2](https://datatracker.ietf.org/doc/html/rfc8927#section-2)
+ * @category JTD
+ */
+export interface JtdSchema {
+  /**
+   * Schemas that can be referenced by the `ref` form.
+   * Only allowed at the root of a schema.
+   *
+   * @see [RFC 8927 §2.1](https://datatracker.ietf.org/doc/html/rfc8927#section-2.1)
+   */
+  readonly definitions?: { readonly [name: string]: JtdSchema };
+
+  /**
+   * Additional data about the schema, which doesn't affect validation.
+   *
+   * @see [RFC 8927 §2.2](https://datatracker.ietf.org/doc/html/rfc8927#section-2.2)
+   */
+  readonly metadata?: { readonly [key: string]: unknown };
+
+  /**
+   * Whether `null` instances are accepted.
+   *
+   * @see [RFC 8927 §2.2](https://datatracker.ietf.org/doc/html/rfc8927#section-2.2)
+   */
+  readonly nullable?: boolean;
+
+  /**
+   * The name of a definition that instances must satisfy.
+   *
+   * @see [RFC 8927 §2.2.2](https://datatracker.ietf.org/doc/html/rfc8927#section-2.2.2)
+   */
+  readonly ref?: string;
+
+  /**
+   * The primitive type of instances.
+   *
+   * @see [RFC 8927 §2.2.3](https://datatracker.ietf.org/doc/html/rfc8927#section-2.2.3)
+   */
+  readonly type?: JtdType;
+
+  /**
+   * The strings instances must equal one of.
+   *
+   * @see [RFC 8927 §2.2.4](https://datatracker.ietf.org/doc/html/rfc8927#section-2.2.4)
+   */
+  readonly enum?: readonly string[];
+
+  /**
+   * The schema the elements of array instances must satisfy.
+   *
+   * @see [RFC 8927 §2.2.5](https://datatracker.ietf.org/doc/html/rfc8927#section-2.2.5)
+   */
+  readonly elements?: JtdSchema;
+
+  /**
+   * The required properties of object instances.
+   *
+   * @see [RFC 8927 §2.2.6](https://datatracker.ietf.org/doc/html/rfc8927#section-2.2.6)
+   */
+  readonly properties?: { readonly [name: string]: JtdSchema };
+
+  /**
+   * The optional properties of object instances.
+   *
+   * @see [RFC 8927 §2.2.6](https://datatracker.ietf.org/doc/html/rfc8927#section-2.2.6)
+   */
+  readonly optionalProperties?: { readonly [name: string]: JtdSchema };
+
+  /**
+   * Whether object instances may have properties that aren't described
+   * by `properties` or `optionalProperties`.
+   *
+   * @see [RFC 8927 §2.2.6](https://datatracker.ietf.org/doc/html/rfc8927#section-2.2.6)
+   */
+  readonly additionalProperties?: boolean;
+
+  /**
+   * The schema the values of object instances must satisfy.
+   *
+   * @see [RFC 8927 §2.2.7](https://datatracker.ietf.org/doc/html/rfc8927#section-2.2.7)
+   */
+  readonly values?: JtdSchema;
+
+  /**
+   * The name of the property whose value selects a `mapping` schema.
+   *
+   * @see [RFC 8927 §2.2.8](https://datatracker.ietf.org/doc/html/rfc8927#section-2.2.8)
+   */
+  readonly discriminator?: string;
+
+  /**
+   * The `properties` form schemas selected by the values of
+   * the discriminator property.
+   *
+   * @see [RFC 8927 §2.2.8](https://datatracker.ietf.org/doc/html/rfc8927#section-2.2.8)
+   */
+  readonly mapping?: { readonly [tag: string]: JtdSchema };
+}
+
+/**
+ * The primitive types of the JTD `type` form.
+ */
+const jtdTypes: readonly string[] = [
+  "boolean",
+  "float32",
+  "float64",
+  "int8",
+  "uint8",
+  "int16",
+  "uint16",
+  "int32",
+  "uint32",
+  "string",
+  "timestamp",
+];
+
+/**
+ * The members of each schema form, in addition to `metadata`
+ * and `nullable`.
+ *
+ * @see [RFC 8927 §2.2](https://datatracker.ietf.org/doc/html/rfc8927#section-2.2)
+ */
+const formMembers: readonly (readonly string[])[] = [
+  [],
+  ["ref"],
+  ["type"],
+  ["enum"],
+  ["elements"],
+  ["properties", "optionalProperties", "additionalProperties"],
+  ["values"],
+  ["discriminator", "mapping"],
+];
+
+/**
+ * Checks that the given node is a well-formed JTD root schema,
+ * returning it as a typed schema.
+ *
+ * @throws ValidationError if the node isn't a well-formed JTD schema.
+ * @see [RFC 8927 §2](https://datatracker.ietf.org/doc/html/rfc8927#section-2)
+ * @category JTD
+ */
+export function checkSchema(node: unknown): JtdSchema {
+  if (!isObject(node)) {
+    throw new ValidationError("JTD schema must be an object", {
+      location: "#",
+    });
+  }
+
+  const definitions = node.definitions;
+  if (definitions !== undefined) {
+    if (!isObject(definitions)) {
+      throw new ValidationError('"definitions" must be an object', {
+        location: "#/definitions",
+      });
+    }
+    for (const [name, definition] of Object.entries(definitions)) {
+      checkSubschema(
+        node,
+        definition,
+        "/definitions/" + escapePointer(name),
+        false,
+      );
+    }
+  }
+
+  checkSubschema(node, node, "", true);
+  return node as JtdSchema;
+}
+
+/**
+ * Checks that the given node is a well-formed JTD schema.
+ */
+function checkSubschema(
+  root: { readonly [key: string]: unknown },
+  node: unknown,
+  pointer: string,
+  isRoot: boolean,
+): void {
+  const fail = (message: string, key?: string): never => {
+    throw new ValidationError(message, {
+      location: "#" + pointer + (key !== undefined ? "/" + key : ""),
+    });
+  };
+
+  if (!isObject(node)) {
+    return fail("JTD schema must be an object");
+  }
+
+  // §2.1: The definitions member is only allowed at the root.
+  if (!isRoot && "definitions" in node) {
+    fail('"definitions" is only allowed at the root', "definitions");
+  }
+
+  const metadata = node.metadata;
+  if (metadata !== undefined && !isObject(metadata)) {
+    fail('"metadata" must be an object', "metadata");
+  }
+  const nullable = node.nullable;
+  if (nullable !== undefined && typeof nullable !== "boolean") {
+    fail('"nullable" must be a boolean', "nullable");
+  }
+
+  // §2.2: A schema must match exactly one form.
+  const keys = Object.keys(node).filter(
+    (key: string): boolean =>
+      key !== "metadata" &&
+      key !== "nullable" &&
+      !(isRoot && key === "definitions"),
+  );
+  const form = formMembers.find(
+    (members: readonly string[]): boolean =>
+      keys.every((key: string): boolean => members.includes(key)) &&
+      (members.length === 0 || keys.includes(members[0]!)),
+  );
+  if (form === undefined) {
+    if (keys.includes("optionalProperties")) {
+      // The properties form may omit "properties".
+      checkProperties(root, node, pointer, keys, fail);
+      return;
+    }
+    return fail(
+      "JTD schema has an invalid combination of members: " +
+        keys.map((key: string): string => JSON.stringify(key)).join(", "),
+    );
+  }
+
+  switch (form[0]) {
+    case "ref": {
+      const ref = node.ref;
+      const definitions = root.definitions;
+      if (typeof ref !== "string") {
+        return fail('"ref" must be a string', "ref");
+      }
+      if (!isObject(definitions) || !Object.hasOwn(definitions, ref)) {
+        return fail("Unknown definition " + JSON.stringify(ref), "ref");
+      }
+      break;
+    }
+    case "type":
+      if (typeof node.type !== "string" || !jtdTypes.includes(node.type)) {
+        return fail("Unknown type " + JSON.stringify(node.type), "type");
+      }
+      break;
+    case "enum": {
+      const values = node.enum;
+      if (
+        !isArray(values) ||
+        values.length === 0 ||
+        !values.every((value): value is string => typeof value === "string")
+      ) {
+        return fail('"enum" must be a non-empty array of strings', "enum");
+      }
+      if (new Set(values).size !== values.length) {
+        return fail('"enum" must not contain duplicates', "enum");
+      }
+      break;
+    }
+    case "elements":
+      checkSubschema(root, node.elements, pointer + "/elements", false);
+      break;
+    case "properties":
+      checkProperties(root, node, pointer, keys, fail);
+      break;
+    case "values":
+      checkSubschema(root, node.values, pointer + "/values", false);
+      break;
+    case "discriminator": {
+      const tag = node.discriminator;
+      const mapping = node.mapping;
+      if (typeof tag !== "string") {
+        return fail('"discriminator" must be a string', "discriminator");
+      }
+      if (!isObject(mapping)) {
+        return fail('"mapping" must be an object', "mapping");
+      }
+      for (const [key, variant] of Object.entries(mapping)) {
+        const variantPointer = pointer + "/mapping/" + escapePointer(key);
+        checkSubschema(root, variant, variantPointer, false);
+        // §2.2.8: Mapping values must be non-nullable properties form
+        // schemas that don't describe the discriminator property.
+        const variantSchema = variant as JtdSchema;
+        if (
+          variantSchema.properties === undefined &&
+          variantSchema.optionalProperties === undefined
+        ) {
+          fail(
+            "Discriminator mapping must be a properties form schema",
+            "mapping/" + escapePointer(key),
+          );
+        }
+        if (variantSchema.nullable === true) {
+          fail(
+            "Discriminator mapping must not be nullable",
+            "mapping/" + escapePointer(key),
+          );
+        }
+        if (
+          (variantSchema.properties !== undefined &&
+            Object.hasOwn(variantSchema.properties, tag)) ||
+          (variantSchema.optionalProperties !== undefined &&
+            Object.hasOwn(variantSchema.optionalProperties, tag))
+        ) {
+          fail(
+            "Discriminator mapping must not describe the discriminator " +
+              JSON.stringify(tag),
+            "mapping/" + escapePointer(key),
+          );
+        }
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Checks the members of a `properties` form schema.
+ */
+function checkProperties(
+  root: { readonly [key: string]: unknown },
+  node: { readonly [key: string]: unknown },
+  pointer: string,
+  keys: readonly string[],
+  fail: (message: string, key?: string) => never,
+): void {
+  for (const key of keys) {
+    if (
+      key !== "properties" &&
+      key !== "optionalProperties" &&
+      key !== "additionalProperties"
+    ) {
+      fail("Unexpected member " + JSON.stringify(key), key);
+    }
+  }
+
+  const additionalProperties = node.additionalProperties;
+  if (
+    additionalProperties !== undefined &&
+    typeof additionalProperties !== "boolean"
+  ) {
+    fail('"additionalProperties" must be a boolean', "additionalProperties");
+  }
+
+  const names = new Set<string>();
+  for (const member of ["properties", "optionalProperties"] as const) {
+    const properties = node[member];
+    if (properties === undefined) {
+      continue;
+    }
+    if (!isObject(properties)) {
+      fail(JSON.stringify(member) + " must be an object", member);
+    }
+    for (const [name, property] of Object.entries(properties)) {
+      // §2.2.6: properties and optionalProperties must not share keys.
+      if (names.has(name)) {
+        fail(
+          "Property " + JSON.stringify(name) + " is both required and optional",
+          member + "/" + escapePointer(name),
+        );
+      }
+      names.add(name);
+      checkSubschema(
+        root,
+        property,
+        pointer + "/" + member + "/" + escapePointer(name),
+        false,
+      );
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { jtd } from "tool-schema";
+
+void suite("JTD validation", () => {
+  void test("checks schema forms", () => {
+    assert.throws(() => jtd.checkSchema({ type: "integer" }));
+    assert.throws(() => jtd.checkSchema({ ref: "missing" }));
+    assert.throws(() => jtd.checkSchema({ type: "string", enum: ["a"] }));
+    assert.throws(() =>
+      jtd.checkSchema({ elements: { definitions: {}, type: "string" } }),
+    );
+    assert.throws(() =>
+      jtd.checkSchema({
+        properties: { a: { type: "string" } },
+        optionalProperties: { a: { type: "string" } },
+      }),
+    );
+    assert.throws(() =>
+      jtd.checkSchema({
+        discriminator: "kind",
+        mapping: { a: { type: "string" } },
+      }),
+    );
+    assert.doesNotThrow(() =>
+      jtd.checkSchema({
+        definitions: { name: { type: "string" } },
+        optionalProperties: { name: { ref: "name", nullable: true } },
+        metadata: { description: "A person" },
+      }),
+    );
+  });
+
+  void test("validates primitive types", () => {
+    const uint8 = jtd.checkSchema({ type: "uint8" });
+    assert.deepEqual(jtd.validate(uint8, 255), []);
+    assert.deepEqual(jtd.validate(uint8, 3.0), []);
+    assert.deepEqual(jtd.validate(uint8, 256), [
+      { instancePath: "", schemaPath: "/type" },
+    ]);
+    assert.deepEqual(jtd.validate(uint8, 1.5), [
+      { instancePath: "", schemaPath: "/type" },
+    ]);
+
+    const timestamp = jtd.checkSchema({ type: "timestamp" });
+    assert.deepEqual(jtd.validate(timestamp, "1985-04-12T23:20:50.52Z"), []);
+    assert.deepEqual(jtd.validate(timestamp, "1985-04-12"), [
+      { instancePath: "", schemaPath: "/type" },
+    ]);
+  });
+
+  void test("reports errors in instancePath/schemaPath form", () => {
+    const schema = jtd.checkSchema({
+      properties: {
+        name: { type: "string" },
+        tags: { elements: { enum: ["a", "b"] } },
+      },
+      optionalProperties: {
+        scores: { values: { type: "float64" } },
+      },
+    });
+    assert.deepEqual(
+      jtd.validate(schema, {
+        tags: ["a", "c"],
+        scores: { x: "high" },
+        extra: true,
+      }),
+      [
+        { instancePath: "", schemaPath: "/properties/name" },
+        {
+          instancePath: "/tags/1",
+          schemaPath: "/properties/tags/elements/enum",
+        },
+        {
+          instancePath: "/scores/x",
+          schemaPath: "/optionalProperties/scores/values/type",
+        },
+        { instancePath: "/extra", schemaPath: "" },
+      ],
+    );
+  });
+
+  void test("validates discriminators", () => {
+    const schema = jtd.checkSchema({
+      discriminator: "kind",
+      mapping: {
+        cat: { properties: { lives: { type: "uint8" } } },
+        dog: { properties: { good: { type: "boolean" } } },
+      },
+    });
+    assert.deepEqual(jtd.validate(schema, { kind: "cat", lives: 9 }), []);
+    assert.deepEqual(jtd.validate(schema, { kind: "dog", good: "yes" }), [
+      {
+        instancePath: "/good",
+        schemaPath: "/mapping/dog/properties/good/type",
+      },
+    ]);
+    assert.deepEqual(jtd.validate(schema, { kind: "fish" }), [
+      { instancePath: "/kind", schemaPath: "/mapping" },
+    ]);
+    assert.deepEqual(jtd.validate(schema, {}), [
+      { instancePath: "", schemaPath: "/discriminator" },
+    ]);
+  });
+
+  void test("follows refs and admits nullable instances", () => {
+    const schema = jtd.checkSchema({
+      definitions: {
+        node: {
+          properties: {
+            value: { type: "int32" },
+            next: { ref: "node", nullable: true },
+          },
+        },
+      },
+      ref: "node",
+    });
+    assert.deepEqual(
+      jtd.validate(schema, { value: 1, next: { value: 2, next: null } }),
+      [],
+    );
+    assert.deepEqual(
+      jtd.validate(schema, { value: 1, next: { value: "2", next: null } }),
+      [
+        {
+          instancePath: "/next/value",
+          schemaPath: "/definitions/node/properties/value/type",
+        },
+      ],
+    );
+  });
+
+  void test("limits errors and depth", () => {
+    const elements = jtd.checkSchema({ elements: { type: "string" } });
+    assert.equal(jtd.validate(elements, [1, 2, 3], { maxErrors: 2 }).length, 2);
+
+    const loop = jtd.checkSchema({
+      definitions: { loop: { ref: "loop" } },
+      ref: "loop",
+    });
+    assert.throws(() => jtd.validate(loop, null, { maxDepth: 32 }));
+  });
+});
@@ -0,0 +1,360 @@
+import { isArray, isObject, escapePointer } from "tool-json";
+import { ValidationError } from "../error.ts";
+import { parseDateTime } from "../format/date.ts";
+import type { JtdSchema } from "./schema.ts";
+
+/**
+ * An error indicator produced by validating an instance against
+ * a JTD schema.
+ *
+ * @see [RFC 8927 §3.2](https://datatracker.ietf.org/doc/html/rfc8927#section-3.2)
+ * @category JTD
+ */
+export interface JtdError {
+  /**
+   * A JSON Pointer to the part of the instance that was rejected.
+   */
+  readonly instancePath: string;
+
+  /**
+   * A JSON Pointer to the part of the schema that rejected the instance.
+   */
+  readonly schemaPath: string;
+}
+
+/**
+ * Options for validating an instance against a JTD schema.
+ *
+ * @category JTD
+ */
+export interface JtdValidateOptions {
+  /**
+   * The maximum number of `ref`s to follow without descending into
+   * the instance, beyond which validation fails. Defaults to `0`,
+   * for no limit.
+   *
+   * @see [RFC 8927 §3.1](https://datatracker.ietf.org/doc/html/rfc8927#section-3.1)
+   */
+  readonly maxDepth?: number | undefined;
+
+  /**
+   * The maximum number of errors to produce, beyond which validation stops.
+   * Defaults to `0`, for no limit.
+   *
+   * @see [RFC 8927 §3.1](https://datatracker.ietf.org/doc/html/rfc8927#section-3.1)
+   */
+  readonly maxErrors?: number | undefined;
+}
+
+/**
+ * The inclusive ranges of the JTD integer types.
+ *
+ * @see [RFC 8927 §2.2.3](https://datatracker.ietf.org/doc/html/rfc8927#section-2.2.3)
+ * @internal
+ */
+export const integerRanges: {
+  readonly [type: string]: readonly [min: number, max: number];
+} = {
+  int8: [-128, 127],
+  uint8: [0, 255],
+  int16: [-32768, 32767],
+  uint16: [0, 65535],
+  int32: [-2147483648, 2147483647],
+  uint32: [0, 4294967295],
+};
+
+/**
+ * The state of a JTD validation.
+ */
+interface JtdValidation {
+  readonly root: JtdSchema;
+  readonly maxDepth: number;
+  readonly maxErrors: number;
+  readonly errors: JtdError[];
+}
+
+/**
+ * Signals that the maximum number of errors was reached.
+ */
+const maxErrorsReached: unique symbol = Symbol("maxErrorsReached");
+
+/**
+ * Validates an instance against a well-formed JTD schema, returning
+ * the error indicators of the instance, if any.
+ *
+ * @throws ValidationError if the maximum depth is exceeded.
+ * @see [RFC 8927 §3](https://datatracker.ietf.org/doc/html/rfc8927#section-3)
+ * @category JTD
+ */
+export function validate(
+  schema: JtdSchema,
+  instance: unknown,
+  options?: JtdValidateOptions,
+): JtdError[] {
+  const validation: JtdValidation = {
+    root: schema,
+    maxDepth: options?.maxDepth ?? 0,
+    maxErrors: options?.maxErrors ?? 0,
+    errors: [],
+  };
+  try {
+    validateSchema(validation, schema, instance, "", "", 0, undefined);
+  } catch (error) {
+    if (error !== maxErrorsReached) {
+      throw error;
+    }
+  }
+  return validation.errors;
+}
+
+/**
+ * Validates an instance against a JTD schema.
+ *
+ * @see [RFC 8927 §3.3](https://datatracker.ietf.org/doc/html/rfc8927#section-3.3)
+ */
+function validateSchema(
+  validation: JtdValidation,
+  schema: JtdSchema,
+  instance: unknown,
+  instancePath: string,
+  schemaPath: string,
+  depth: number,
+  tag: string | undefined,
+): void {
+  // §3.3.1: If nullable is true, null instances are accepted by any form.
+  if (schema.nullable === true && instance === null) {
+    return;
+  }
+
+  // §3.3.2: Ref form.
+  if (schema.ref !== undefined) {
+    if (validation.maxDepth !== 0 && depth >= validation.maxDepth) {
+      throw new ValidationError("Max depth exceeded", {
+        location: "#" + schemaPath,
+      });
+    }
+    validateSchema(
+      validation,
+      validation.root.definitions![schema.ref]!,
+      instance,
+      instancePath,
+      "/definitions/" + escapePointer(schema.ref),
+      depth + 1,
+      undefined,
+    );
+    return;
+  }
+
+  // §3.3.3: Type form.
+  if (schema.type !== undefined) {
+    if (!checkType(schema.type, instance)) {
+      pushError(validation, instancePath, schemaPath + "/type");
+    }
+    return;
+  }
+
+  // §3.3.4: Enum form.
+  if (schema.enum !== undefined) {
+    if (typeof instance !== "string" || !schema.enum.includes(instance)) {
+      pushError(validation, instancePath, schemaPath + "/enum");
+    }
+    return;
+  }
+
+  // §3.3.5: Elements form.
+  if (schema.elements !== undefined) {
+    if (!isArray(instance)) {
+      pushError(validation, instancePath, schemaPath + "/elements");
+      return;
+    }
+    for (let index = 0; index < instance.length; index += 1) {
+      validateSchema(
+        validation,
+        schema.elements,
+        instance[index],
+        instancePath + "/" + index,
+        schemaPath + "/elements",
+        depth,
+        undefined,
+      );
+    }
+    return;
+  }
+
+  // §3.3.6: Properties form.
+  if (
+    schema.properties !== undefined ||
+    schema.optionalProperties !== undefined
+  ) {
+    if (!isObject(instance) || isArray(instance)) {
+      pushError(
+        validation,
+        instancePath,
+        schemaPath +
+          (schema.properties !== undefined ?
+            "/properties"
+          : "/optionalProperties"),
+      );
+      return;
+    }
+    for (const [name, property] of Object.entries(schema.properties ?? {})) {
+      const propertySchemaPath =
+        schemaPath + "/properties/" + escapePointer(name);
+      if (!Object.hasOwn(instance, name)) {
+        pushError(validation, instancePath, propertySchemaPath);
+        continue;
+      }
+      validateSchema(
+        validation,
+        property,
+        instance[name],
+        instancePath + "/" + escapePointer(name),
+        propertySchemaPath,
+        depth,
+        undefined,
+      );
+    }
+    for (const [name, property] of Object.entries(
+      schema.optionalProperties ?? {},
+    )) {
+      if (!Object.hasOwn(instance, name)) {
+        continue;
+      }
+      validateSchema(
+        validation,
+        property,
+        instance[name],
+        instancePath + "/" + escapePointer(name),
+        schemaPath + "/optionalProperties/" + escapePointer(name),
+        depth,
+        undefined,
+      );
+    }
+    if (schema.additionalProperties !== true) {
+      for (const name of Object.keys(instance)) {
+        if (
+          name !== tag &&
+          !Object.hasOwn(schema.properties ?? {}, name) &&
+          !Object.hasOwn(schema.optionalProperties ?? {}, name)
+        ) {
+          pushError(
+            validation,
+            instancePath + "/" + escapePointer(name),
+            schemaPath,
+          );
+        }
+      }
+    }
+    return;
+  }
+
+  // §3.3.7: Values form.
+  if (schema.values !== undefined) {
+    if (!isObject(instance) || isArray(instance)) {
+      pushError(validation, instancePath, schemaPath + "/values");
+      return;
+    }
+    for (const [name, value] of Object.entries(instance)) {
+      validateSchema(
+        validation,
+        schema.values,
+        value,
+        instancePath + "/" + escapePointer(name),
+        schemaPath + "/values",
+        depth,
+        undefined,
+      );
+    }
+    return;
+  }
+
+  // §3.3.8: Discriminator form.
+  if (schema.discriminator !== undefined) {
+    const discriminator = schema.discriminator;
+    if (!isObject(instance) || isArray(instance)) {
+      pushError(validation, instancePath, schemaPath + "/discriminator");
+      return;
+    }
+    if (!Object.hasOwn(instance, discriminator)) {
+      pushError(validation, instancePath, schemaPath + "/discriminator");
+      return;
+    }
+    const value = instance[discriminator];
+    const tagPath = instancePath + "/" + escapePointer(discriminator);
+    if (typeof value !== "string") {
+      pushError(validation, tagPath, schemaPath + "/discriminator");
+      return;
+    }
+    const mapping = schema.mapping ?? {};
+    if (!Object.hasOwn(mapping, value)) {
+      pushError(validation, tagPath, schemaPath + "/mapping");
+      return;
+    }
+    validateSchema(
+      validation,
+      mapping[value]!,
+      instance,
+      instancePath,
+      schemaPath + "/mapping/" + escapePointer(value),
+      depth,
+      discriminator,
+    );
+  }
+
+  // §3.3.1: Empty form accepts all instances.
+}
+
+/**
+ * Returns `true` if the instance satisfies the given JTD type.
+ *
+ * @see [RFC 8927 §3.3.3](https://datatracker.ietf.org/doc/html/rfc8927#section-3.3.3)
+ */
+function checkType(type: string, instance: unknown): boolean {
+  switch (type) {
+    case "boolean":
+      return typeof instance === "boolean";
+    case "float32":
+    case "float64":
+      return typeof instance === "number";
+    case "string":
+      return typeof instance === "string";
+    case "timestamp":
+      if (typeof instance !== "string") {
+        return false;
+      }
+      try {
+        // RFC 3339 §5.6: "T" and "Z" may alternatively be lower case.
+        parseDateTime(instance.toUpperCase());
+        return true;
+      } catch {
+        return false;
+      }
+    default: {
+      const range = integerRanges[type]!;
+      return (
+        typeof instance === "number" &&
+        Number.isInteger(instance) &&
+        instance >= range[0] &&
+        instance <= range[1]
+      );
+    }
+  }
+}
+
+/**
+ * Records an error indicator, stopping validation once the maximum
+ * number of errors is reached.
+ */
+function pushError(
+  validation: JtdValidation,
+  instancePath: string,
+  schemaPath: string,
+): void {
+  validation.errors.push({ instancePath, schemaPath });
+  if (
+    validation.maxErrors !== 0 &&
+    validation.errors.length >= validation.maxErrors
+  ) {
+    throw maxErrorsReached;
+  }
+}
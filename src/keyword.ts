@@ -1,7 +1,10 @@
 import { currentLocation } from "tool-json";
 import { ValidationError } from "./error.ts";
 import type { SchemaContext } from "./context.ts";
-import { attachAnnotation } from "./output.ts";
+import type { KeywordValidator } from "./compile.ts";
+import type { ModuleGenerator } from "./generate.ts";
+import { generateError } from "./generate.ts";
+import { attachError, attachAnnotation } from "./output.ts";
 
 /**
  * A JSON Schema keyword implementation.
@@ -25,6 +28,12 @@ export interface Keyword<T = unknown> {
    */
   readonly dependents: readonly string[];
 
+  /**
+   * Whether this keyword replaces its schema, causing all adjacent
+   * keywords to be ignored. Ignored keywords are never parsed.
+   */
+  readonly exclusive?: boolean | undefined;
+
   /**
    * Parses the input as a keyword node.
    *
@@ -36,6 +45,25 @@ export interface Keyword<T = unknown> {
    * Validates an instance against a keyword node.
    */
   validate(context: SchemaContext): void;
+
+  /**
+   * Compiles a keyword node into a validator closure that produces the same
+   * output as `validate`. Returns `undefined` if the keyword node never
+   * produces any output. Keywords that don't implement `compile` fall back
+   * to evaluating `validate` when compiled.
+   */
+  compile?(context: SchemaContext): KeywordValidator | undefined;
+
+  /**
+   * Generates standalone JavaScript statements that validate instances
+   * against a keyword node. Returns `undefined` if the keyword node never
+   * produces any errors. Schemas that use keywords with validation behavior
+   * that don't implement `generate` can't be generated.
+   */
+  generate?(
+    context: SchemaContext,
+    generator: ModuleGenerator,
+  ): string | undefined;
 }
 
 /**
@@ -90,6 +118,56 @@ export function unknownKeyword(key: string): Keyword {
   };
 }
 
+/**
+ * Returns a stand-in for a keyword whose node failed to parse with the
+ * given error. Keywords that only produce annotations, or that have no
+ * validation behavior, are replaced by annotations. Keywords that assert
+ * are replaced by a keyword that is never valid, since their constraints
+ * can't be checked.
+ *
+ * @category Dialect
+ * @internal
+ */
+export function invalidKeyword(
+  keyword: Keyword,
+  error: ValidationError,
+): Keyword {
+  const key = keyword.key;
+  const dependencies = keyword.dependencies;
+  const dependents = keyword.dependents;
+
+  if (
+    keyword.validate === Keyword.prototype.validate ||
+    keyword.validate === AnnotationKeyword.prototype.validate
+  ) {
+    return {
+      ...AnnotationKeyword.prototype,
+      key,
+      dependencies,
+      dependents,
+    };
+  }
+
+  const message = "invalid schema: " + error.message;
+  return {
+    ...Keyword.prototype,
+    key,
+    dependencies,
+    dependents,
+
+    validate(context: SchemaContext): void {
+      attachError(context, message, "invalidKeyword", {
+        keyword: key,
+        message: error.message,
+      });
+    },
+
+    generate(context: SchemaContext): string {
+      return generateError(context, JSON.stringify(message));
+    },
+  };
+}
+
 /**
  * Performs a stable topological sort in-place on the given `keywords` array,
  * ensuring that all keywords appear after all of their transitive dependencies,
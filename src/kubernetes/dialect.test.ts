@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { parseSchema, dialectKubernetes } from "tool-schema";
+
+void suite("Kubernetes", () => {
+  void test("admits integers and strings for int-or-string", async () => {
+    const schema = await parseSchema(
+      { "x-kubernetes-int-or-string": true },
+      { dialect: dialectKubernetes },
+    );
+    assert(schema.validate(80).valid);
+    assert(schema.validate("http").valid);
+    assert(!schema.validate(1.5).valid);
+    assert(!schema.validate(null).valid);
+  });
+
+  void test("admits null for nullable int-or-string", async () => {
+    const schema = await parseSchema(
+      { "x-kubernetes-int-or-string": true, nullable: true },
+      { dialect: dialectKubernetes },
+    );
+    assert(schema.validate(null).valid);
+    assert(!schema.validate(true).valid);
+  });
+
+  void test("requires type metadata of embedded resources", async () => {
+    const schema = await parseSchema(
+      {
+        type: "object",
+        "x-kubernetes-embedded-resource": true,
+        "x-kubernetes-preserve-unknown-fields": true,
+      },
+      { dialect: dialectKubernetes },
+    );
+    assert(schema.validate({ apiVersion: "v1", kind: "Pod" }).valid);
+    assert(!schema.validate({ apiVersion: "v1", kind: "" }).valid);
+
+    const output = schema.validate({ metadata: {} }, { output: "basic" });
+    assert(!output.valid);
+    assert.equal(
+      output.errors?.some(
+        (error) =>
+          error.code === "embeddedResource" &&
+          error.error ===
+            'missing embedded resource fields "apiVersion" and "kind"',
+      ),
+      true,
+    );
+  });
+
+  void test("requires unique items of set lists", async () => {
+    const schema = await parseSchema(
+      {
+        type: "array",
+        items: { type: "string" },
+        "x-kubernetes-list-type": "set",
+      },
+      { dialect: dialectKubernetes },
+    );
+    assert(schema.validate(["a", "b"]).valid);
+    assert(!schema.validate(["a", "b", "a"]).valid);
+  });
+
+  void test("requires unique map keys of map lists", async () => {
+    const schema = await parseSchema(
+      {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["name", "protocol"],
+          properties: {
+            name: { type: "string" },
+            protocol: { type: "string" },
+            port: { type: "integer" },
+          },
+        },
+        "x-kubernetes-list-type": "map",
+        "x-kubernetes-list-map-keys": ["name", "protocol"],
+      },
+      { dialect: dialectKubernetes },
+    );
+    assert(
+      schema.validate([
+        { name: "http", protocol: "TCP", port: 80 },
+        { name: "http", protocol: "UDP", port: 80 },
+      ]).valid,
+    );
+
+    const output = schema.validate(
+      [
+        { name: "http", protocol: "TCP", port: 80 },
+        { name: "http", protocol: "TCP", port: 8080 },
+      ],
+      { output: "basic" },
+    );
+    assert(!output.valid);
+    assert.equal(
+      output.errors?.some(
+        (error) =>
+          error.code === "listMapKeys" &&
+          error.error ===
+            'duplicate map keys at index 0 and 1: "name", "protocol"',
+      ),
+      true,
+    );
+  });
+
+  void test("allows duplicate items of atomic lists", async () => {
+    const schema = await parseSchema(
+      {
+        type: "array",
+        items: { type: "string" },
+        "x-kubernetes-list-type": "atomic",
+      },
+      { dialect: dialectKubernetes },
+    );
+    assert(schema.validate(["a", "a"]).valid);
+  });
+
+  void test("rejects invalid extension values", async () => {
+    await assert.rejects(
+      parseSchema(
+        { type: "array", "x-kubernetes-list-type": "bag" },
+        { dialect: dialectKubernetes },
+      ),
+    );
+    await assert.rejects(
+      parseSchema(
+        { type: "array", "x-kubernetes-list-type": "map" },
+        { dialect: dialectKubernetes },
+      ),
+    );
+    await assert.rejects(
+      parseSchema(
+        { type: "object", "x-kubernetes-map-type": "shallow" },
+        { dialect: dialectKubernetes },
+      ),
+    );
+  });
+});
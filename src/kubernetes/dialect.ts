@@ -0,0 +1,77 @@
+import type { Dialect } from "../dialect.ts";
+import type { CoreVocabulary } from "../oas-3.0/core.ts";
+import type { ValidationVocabulary } from "../oas-3.0/validation.ts";
+import type { BaseVocabulary } from "../oas-3.0/base.ts";
+import { dialect as oas30Dialect } from "../oas-3.0/dialect.ts";
+import type { KubernetesVocabulary } from "./vocabulary.ts";
+import { kubernetesVocabulary } from "./vocabulary.ts";
+
+/**
+ * A Custom Resource Definition schema, which uses the OpenAPI v3.0
+ * dialect with the Kubernetes extensions.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.7.24](https://spec.openapis.org/oas/v3.0.3.html#schema-object)
+ * @see [Custom Resource Definitions](https://kubernetes.io/docs/tasks/extend-kubernetes/custom-resources/custom-resource-definitions/)
+ * @category Dialect
+ */
+export interface Schema
+  extends
+    CoreVocabulary,
+    ValidationVocabulary<Schema>,
+    BaseVocabulary,
+    KubernetesVocabulary {}
+
+/**
+ * The Kubernetes Custom Resource Definition schema dialect, the OpenAPI
+ * v3.0 Schema Object dialect extended with the Kubernetes vocabulary.
+ *
+ * Kubernetes doesn't assign its schemas a dialect URI; this dialect is
+ * identified by the API type of Custom Resource Definition schemas.
+ * It isn't a standard dialect, so schemas must opt in to it with the
+ * `dialect` option.
+ *
+ * @see [Custom Resource Definitions](https://kubernetes.io/docs/tasks/extend-kubernetes/custom-resources/custom-resource-definitions/)
+ * @category Dialect
+ */
+export const dialect = {
+  uri: "https://kubernetes.io/schemas/apiextensions/v1/JSONSchemaProps",
+
+  formats: oas30Dialect.formats,
+
+  keywords: {
+    ...oas30Dialect.keywords,
+    ...kubernetesVocabulary.keywords,
+  },
+
+  vocabularies: {},
+
+  node: {
+    id: "https://kubernetes.io/schemas/apiextensions/v1/JSONSchemaProps",
+    $schema: "http://json-schema.org/draft-04/schema#",
+    description: "The Custom Resource Definition schema of Kubernetes",
+    allOf: [
+      { $ref: "https://spec.openapis.org/oas/3.0/dialect/base" },
+      {
+        properties: {
+          "x-kubernetes-preserve-unknown-fields": { type: "boolean" },
+          "x-kubernetes-int-or-string": { type: "boolean" },
+          "x-kubernetes-embedded-resource": { type: "boolean" },
+          "x-kubernetes-list-type": {
+            type: "string",
+            enum: ["atomic", "set", "map"],
+          },
+          "x-kubernetes-list-map-keys": {
+            type: "array",
+            items: { type: "string" },
+            minItems: 1,
+            uniqueItems: true,
+          },
+          "x-kubernetes-map-type": {
+            type: "string",
+            enum: ["granular", "atomic"],
+          },
+        },
+      },
+    ],
+  },
+} as const satisfies Dialect;
@@ -0,0 +1,16 @@
+export type { ListType, MapType, KubernetesVocabulary } from "./vocabulary.ts";
+export {
+  preserveUnknownFieldsKeyword,
+  intOrStringKeyword,
+  embeddedResourceKeyword,
+  listTypeKeyword,
+  listMapKeysKeyword,
+  mapTypeKeyword,
+  kubernetesVocabulary,
+} from "./vocabulary.ts";
+
+export type { StructuralViolation } from "./structural.ts";
+export { checkStructuralSchema, pruneUnknownFields } from "./structural.ts";
+
+export type { Schema } from "./dialect.ts";
+export { dialect } from "./dialect.ts";
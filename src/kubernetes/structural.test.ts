@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { kubernetes } from "tool-schema";
+
+void suite("Kubernetes structural schemas", () => {
+  void test("accepts structural schemas", () => {
+    const violations = kubernetes.checkStructuralSchema({
+      type: "object",
+      properties: {
+        metadata: {
+          type: "object",
+          properties: { name: { type: "string", maxLength: 63 } },
+        },
+        spec: {
+          type: "object",
+          properties: {
+            port: { "x-kubernetes-int-or-string": true },
+            replicas: { type: "integer", minimum: 0 },
+            template: {
+              type: "object",
+              "x-kubernetes-embedded-resource": true,
+              "x-kubernetes-preserve-unknown-fields": true,
+            },
+          },
+          anyOf: [{ required: ["port"] }, { required: ["replicas"] }],
+        },
+      },
+    });
+    assert.deepEqual(violations, []);
+  });
+
+  void test("reports nodes without types", () => {
+    const violations = kubernetes.checkStructuralSchema({
+      type: "object",
+      properties: {
+        spec: { properties: { size: { type: "integer" } } },
+      },
+    });
+    assert.deepEqual(violations, [
+      { location: "#/properties/spec", message: 'Schema must specify "type"' },
+    ]);
+  });
+
+  void test("reports skeleton keywords within logical junctors", () => {
+    const violations = kubernetes.checkStructuralSchema({
+      type: "object",
+      properties: {
+        spec: {
+          type: "object",
+          properties: { size: { type: "integer" } },
+          oneOf: [
+            { properties: { size: { type: "integer", minimum: 1 } } },
+            { properties: { replicas: { minimum: 1 } } },
+          ],
+        },
+      },
+    });
+    assert.deepEqual(violations, [
+      {
+        location: "#/properties/spec/oneOf/0/properties/size/type",
+        message: '"type" must not be specified within logical junctors',
+      },
+      {
+        location: "#/properties/spec/oneOf/1/properties/replicas",
+        message:
+          'Property "replicas" must also be specified outside of logical junctors',
+      },
+    ]);
+  });
+
+  void test("allows the int-or-string junctor pattern", () => {
+    const violations = kubernetes.checkStructuralSchema({
+      type: "object",
+      properties: {
+        port: {
+          "x-kubernetes-int-or-string": true,
+          anyOf: [{ type: "integer" }, { type: "string" }],
+        },
+      },
+    });
+    assert.deepEqual(violations, []);
+  });
+
+  void test("reports invalid map lists", () => {
+    const violations = kubernetes.checkStructuralSchema({
+      type: "object",
+      properties: {
+        ports: {
+          type: "array",
+          "x-kubernetes-list-type": "map",
+          "x-kubernetes-list-map-keys": ["name"],
+          items: {
+            type: "object",
+            properties: { name: { type: "string" } },
+          },
+        },
+      },
+    });
+    assert.deepEqual(violations, [
+      {
+        location: "#/properties/ports/x-kubernetes-list-map-keys",
+        message: 'Map key "name" must be required or have a default',
+      },
+    ]);
+  });
+
+  void test("reports unsupported keywords and metadata restrictions", () => {
+    const violations = kubernetes.checkStructuralSchema({
+      type: "object",
+      properties: {
+        metadata: {
+          type: "object",
+          properties: { labels: { type: "object" } },
+        },
+        spec: { $ref: "#/definitions/Spec" },
+      },
+    });
+    assert.deepEqual(
+      violations.map((violation) => violation.location),
+      [
+        "#/properties/metadata/properties/labels",
+        "#/properties/spec/$ref",
+        "#/properties/spec",
+      ],
+    );
+  });
+
+  void test("prunes unknown fields", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        spec: {
+          type: "object",
+          properties: {
+            size: { type: "integer" },
+            extra: {
+              type: "object",
+              "x-kubernetes-preserve-unknown-fields": true,
+            },
+          },
+        },
+      },
+    };
+    assert.deepEqual(
+      kubernetes.pruneUnknownFields(schema, {
+        apiVersion: "example.com/v1",
+        kind: "Widget",
+        metadata: { name: "widget", labels: { app: "demo" } },
+        spec: { size: 3, color: "red", extra: { anything: true } },
+        status: {},
+      }),
+      {
+        apiVersion: "example.com/v1",
+        kind: "Widget",
+        metadata: { name: "widget", labels: { app: "demo" } },
+        spec: { size: 3, extra: { anything: true } },
+      },
+    );
+  });
+});
@@ -0,0 +1,583 @@
+import { isArray, isObject, equal, escapePointer } from "tool-json";
+
+/**
+ * A reason that a Custom Resource Definition schema isn't structural.
+ *
+ * @category Kubernetes
+ */
+export interface StructuralViolation {
+  /**
+   * The location of the offending schema node, as a URI fragment
+   * JSON Pointer.
+   */
+  readonly location: string;
+
+  /**
+   * A description of the violation.
+   */
+  readonly message: string;
+}
+
+/**
+ * The state of a structural schema check.
+ */
+interface StructuralCheck {
+  readonly violations: StructuralViolation[];
+}
+
+/**
+ * The logical junctor keywords, whose subschemas may only add value
+ * validations to the structural skeleton.
+ */
+const junctorKeys: readonly string[] = ["allOf", "anyOf", "oneOf", "not"];
+
+/**
+ * Keywords that Custom Resource Definition schemas don't support.
+ */
+const unsupportedKeys: readonly string[] = [
+  "$ref",
+  "$schema",
+  "id",
+  "definitions",
+  "dependencies",
+  "patternProperties",
+  "additionalItems",
+];
+
+/**
+ * Keywords that specify the structural skeleton, and so must not appear
+ * within logical junctors.
+ */
+const skeletonKeys: readonly string[] = [
+  "type",
+  "description",
+  "default",
+  "additionalProperties",
+  "nullable",
+];
+
+/**
+ * The types whose instances can identify the items of `map` lists
+ * and `set` lists.
+ */
+const scalarTypes: readonly string[] = [
+  "string",
+  "integer",
+  "number",
+  "boolean",
+];
+
+/**
+ * The fields of `metadata` that schemas are allowed to restrict.
+ */
+const metadataFields: readonly string[] = ["name", "generateName"];
+
+/**
+ * The type metadata fields that are always kept in resources.
+ */
+const resourceFields: readonly string[] = ["apiVersion", "kind", "metadata"];
+
+/**
+ * Checks whether the given node is a structural Custom Resource Definition
+ * schema, returning the reasons it isn't, if any. The API server rejects
+ * Custom Resource Definitions whose schemas aren't structural.
+ *
+ * @see [Custom Resource Definitions §Specifying a structural schema](https://kubernetes.io/docs/tasks/extend-kubernetes/custom-resources/custom-resource-definitions/#specifying-a-structural-schema)
+ * @category Kubernetes
+ */
+export function checkStructuralSchema(node: unknown): StructuralViolation[] {
+  const check: StructuralCheck = { violations: [] };
+
+  if (isObject(node) && !isArray(node)) {
+    if (node.type !== undefined && node.type !== "object") {
+      report(check, "/type", 'Root schema must have type "object"');
+    }
+    if (node.nullable === true) {
+      report(check, "/nullable", "Root schema must not be nullable");
+    }
+  }
+
+  checkSkeleton(check, node, "", true);
+  return check.violations;
+}
+
+/**
+ * Checks a schema node of the structural skeleton, outside of any
+ * logical junctors.
+ */
+function checkSkeleton(
+  check: StructuralCheck,
+  node: unknown,
+  pointer: string,
+  isResource: boolean,
+): void {
+  if (!isObject(node) || isArray(node)) {
+    report(check, pointer, "Schema must be an object");
+    return;
+  }
+
+  checkUnsupported(check, node, pointer);
+
+  const intOrString = node["x-kubernetes-int-or-string"] === true;
+  const preserveUnknownFields = node["x-kubernetes-preserve-unknown-fields"];
+  const embeddedResource = node["x-kubernetes-embedded-resource"] === true;
+
+  // Every node of the skeleton must specify a type, unless it
+  // admits integers or strings, or preserves unknown fields.
+  if (intOrString) {
+    if (node.type !== undefined) {
+      report(
+        check,
+        pointer + "/type",
+        'Schema must not specify "type" with "x-kubernetes-int-or-string"',
+      );
+    }
+  } else if (typeof node.type !== "string" || node.type.length === 0) {
+    if (preserveUnknownFields !== true) {
+      report(check, pointer, 'Schema must specify "type"');
+    }
+  }
+
+  if (preserveUnknownFields !== undefined && preserveUnknownFields !== true) {
+    report(
+      check,
+      pointer + "/x-kubernetes-preserve-unknown-fields",
+      '"x-kubernetes-preserve-unknown-fields" must be true or unspecified',
+    );
+  }
+
+  if (embeddedResource) {
+    if (node.type !== "object") {
+      report(
+        check,
+        pointer + "/x-kubernetes-embedded-resource",
+        'Embedded resource must have type "object"',
+      );
+    }
+    if (node.properties === undefined && preserveUnknownFields !== true) {
+      report(
+        check,
+        pointer + "/x-kubernetes-embedded-resource",
+        'Embedded resource must specify "properties" or ' +
+          '"x-kubernetes-preserve-unknown-fields"',
+      );
+    }
+  }
+
+  if (
+    node.properties !== undefined &&
+    node.additionalProperties !== undefined
+  ) {
+    report(
+      check,
+      pointer + "/additionalProperties",
+      '"additionalProperties" and "properties" are mutually exclusive',
+    );
+  }
+
+  if (node["x-kubernetes-map-type"] !== undefined && node.type !== "object") {
+    report(
+      check,
+      pointer + "/x-kubernetes-map-type",
+      '"x-kubernetes-map-type" requires type "object"',
+    );
+  }
+
+  checkListType(check, node, pointer);
+
+  // Restrictions of resource metadata are limited to names.
+  const properties = node.properties;
+  if (isObject(properties) && !isArray(properties)) {
+    if ((isResource || embeddedResource) && properties.metadata !== undefined) {
+      checkMetadata(
+        check,
+        properties.metadata,
+        pointer + "/properties/metadata",
+      );
+    }
+    for (const [name, property] of Object.entries(properties)) {
+      checkSkeleton(
+        check,
+        property,
+        pointer + "/properties/" + escapePointer(name),
+        false,
+      );
+    }
+  }
+
+  const additionalProperties = node.additionalProperties;
+  if (isObject(additionalProperties)) {
+    checkSkeleton(
+      check,
+      additionalProperties,
+      pointer + "/additionalProperties",
+      false,
+    );
+  }
+
+  const items = node.items;
+  if (isArray(items)) {
+    report(check, pointer + "/items", '"items" must be a single schema');
+  } else if (items !== undefined) {
+    checkSkeleton(check, items, pointer + "/items", false);
+  }
+
+  for (const key of junctorKeys) {
+    const junctor = node[key];
+    // The int-or-string pattern may specify types within junctors.
+    if (
+      junctor === undefined ||
+      (intOrString && isIntOrStringPattern(junctor))
+    ) {
+      continue;
+    }
+    const subschemas =
+      key === "not" ? [junctor]
+      : isArray(junctor) ? junctor
+      : [];
+    for (let index = 0; index < subschemas.length; index += 1) {
+      checkJunctor(
+        check,
+        subschemas[index],
+        pointer + "/" + key + (key === "not" ? "" : "/" + index),
+        node,
+      );
+    }
+  }
+}
+
+/**
+ * Checks a schema node within a logical junctor, which may only add
+ * value validations to the corresponding `skeleton` node.
+ */
+function checkJunctor(
+  check: StructuralCheck,
+  node: unknown,
+  pointer: string,
+  skeleton: { readonly [key: string]: unknown } | undefined,
+): void {
+  if (!isObject(node) || isArray(node)) {
+    report(check, pointer, "Schema must be an object");
+    return;
+  }
+
+  checkUnsupported(check, node, pointer);
+
+  for (const key of skeletonKeys) {
+    if (node[key] !== undefined) {
+      report(
+        check,
+        pointer + "/" + key,
+        JSON.stringify(key) + " must not be specified within logical junctors",
+      );
+    }
+  }
+
+  // Fields and items validated within junctors must also be
+  // specified by the structural skeleton.
+  const properties = node.properties;
+  if (isObject(properties) && !isArray(properties)) {
+    const skeletonProperties = skeleton?.properties;
+    for (const [name, property] of Object.entries(properties)) {
+      const propertyPointer = pointer + "/properties/" + escapePointer(name);
+      const skeletonProperty =
+        (
+          isObject(skeletonProperties) &&
+          Object.hasOwn(skeletonProperties, name)
+        ) ?
+          skeletonProperties[name]
+        : undefined;
+      if (skeletonProperty === undefined) {
+        report(
+          check,
+          propertyPointer,
+          "Property " +
+            JSON.stringify(name) +
+            " must also be specified outside of logical junctors",
+        );
+      }
+      checkJunctor(check, property, propertyPointer, asNode(skeletonProperty));
+    }
+  }
+
+  const items = node.items;
+  if (items !== undefined) {
+    if (skeleton?.items === undefined) {
+      report(
+        check,
+        pointer + "/items",
+        '"items" must also be specified outside of logical junctors',
+      );
+    }
+    checkJunctor(check, items, pointer + "/items", asNode(skeleton?.items));
+  }
+
+  for (const key of junctorKeys) {
+    const junctor = node[key];
+    if (junctor === undefined) {
+      continue;
+    }
+    const subschemas =
+      key === "not" ? [junctor]
+      : isArray(junctor) ? junctor
+      : [];
+    for (let index = 0; index < subschemas.length; index += 1) {
+      checkJunctor(
+        check,
+        subschemas[index],
+        pointer + "/" + key + (key === "not" ? "" : "/" + index),
+        skeleton,
+      );
+    }
+  }
+}
+
+/**
+ * Checks the `x-kubernetes-list-type` and `x-kubernetes-list-map-keys`
+ * of a skeleton node.
+ *
+ * @see [Server-Side Apply §Merge strategy](https://kubernetes.io/docs/reference/using-api/server-side-apply/#merge-strategy)
+ */
+function checkListType(
+  check: StructuralCheck,
+  node: { readonly [key: string]: unknown },
+  pointer: string,
+): void {
+  const listType = node["x-kubernetes-list-type"];
+  const mapKeys = node["x-kubernetes-list-map-keys"];
+  const items = asNode(node.items);
+
+  if (mapKeys !== undefined && listType !== "map") {
+    report(
+      check,
+      pointer + "/x-kubernetes-list-map-keys",
+      '"x-kubernetes-list-map-keys" requires "x-kubernetes-list-type" ' +
+        'of "map"',
+    );
+  }
+
+  if (listType === undefined) {
+    return;
+  }
+  if (node.type !== "array") {
+    report(
+      check,
+      pointer + "/x-kubernetes-list-type",
+      '"x-kubernetes-list-type" requires type "array"',
+    );
+    return;
+  }
+
+  if (listType === "set" && items !== undefined) {
+    // Set items must be scalars, or atomic lists or maps.
+    const atomic =
+      (items.type === "object" &&
+        items["x-kubernetes-map-type"] === "atomic") ||
+      (items.type === "array" && items["x-kubernetes-list-type"] === "atomic");
+    if (!atomic && !scalarTypes.includes(items.type as string)) {
+      report(
+        check,
+        pointer + "/items",
+        'Items of "set" lists must be scalars or atomic',
+      );
+    }
+  } else if (listType === "map") {
+    if (items?.type !== "object") {
+      report(
+        check,
+        pointer + "/items",
+        'Items of "map" lists must have type "object"',
+      );
+      return;
+    }
+    if (!isArray(mapKeys) || mapKeys.length === 0) {
+      report(
+        check,
+        pointer + "/x-kubernetes-list-type",
+        '"map" lists require "x-kubernetes-list-map-keys"',
+      );
+      return;
+    }
+    // Map keys must be scalar properties that every item specifies.
+    const properties = asNode(items.properties);
+    const required = isArray(items.required) ? items.required : [];
+    for (const key of mapKeys) {
+      const property = asNode(properties?.[key as string]);
+      if (property === undefined) {
+        report(
+          check,
+          pointer + "/x-kubernetes-list-map-keys",
+          "Map key " + JSON.stringify(key) + " must be a property of items",
+        );
+        continue;
+      }
+      if (!scalarTypes.includes(property.type as string)) {
+        report(
+          check,
+          pointer + "/x-kubernetes-list-map-keys",
+          "Map key " + JSON.stringify(key) + " must have a scalar type",
+        );
+      }
+      if (!required.includes(key) && property.default === undefined) {
+        report(
+          check,
+          pointer + "/x-kubernetes-list-map-keys",
+          "Map key " +
+            JSON.stringify(key) +
+            " must be required or have a default",
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Checks that the schema of resource `metadata` only restricts names.
+ *
+ * @see [Custom Resource Definitions §Specifying a structural schema](https://kubernetes.io/docs/tasks/extend-kubernetes/custom-resources/custom-resource-definitions/#specifying-a-structural-schema)
+ */
+function checkMetadata(
+  check: StructuralCheck,
+  node: unknown,
+  pointer: string,
+): void {
+  if (!isObject(node) || isArray(node)) {
+    return; // Reported as a skeleton violation.
+  }
+  for (const key of Object.keys(node)) {
+    if (key !== "type" && key !== "properties") {
+      report(
+        check,
+        pointer + "/" + escapePointer(key),
+        "Metadata schema must only restrict " +
+          '"metadata.name" and "metadata.generateName"',
+      );
+    }
+  }
+  const properties = node.properties;
+  if (isObject(properties) && !isArray(properties)) {
+    for (const name of Object.keys(properties)) {
+      if (!metadataFields.includes(name)) {
+        report(
+          check,
+          pointer + "/properties/" + escapePointer(name),
+          "Metadata schema must only restrict " +
+            '"metadata.name" and "metadata.generateName"',
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Reports the keywords of a schema node that Custom Resource Definitions
+ * don't support.
+ */
+function checkUnsupported(
+  check: StructuralCheck,
+  node: { readonly [key: string]: unknown },
+  pointer: string,
+): void {
+  for (const key of unsupportedKeys) {
+    if (node[key] !== undefined) {
+      report(
+        check,
+        pointer + "/" + escapePointer(key),
+        JSON.stringify(key) + " is not supported",
+      );
+    }
+  }
+  if (node.uniqueItems === true) {
+    report(
+      check,
+      pointer + "/uniqueItems",
+      '"uniqueItems" must not be true; use "x-kubernetes-list-type" instead',
+    );
+  }
+}
+
+/**
+ * Returns a copy of a resource with the fields that the API server would
+ * prune removed. Fields are kept if they're specified by the structural
+ * skeleton of the schema, or if they're within a node that sets
+ * `x-kubernetes-preserve-unknown-fields`. The `apiVersion`, `kind`, and
+ * `metadata` fields of the root and of embedded resources are always kept.
+ *
+ * @see [Custom Resource Definitions §Field pruning](https://kubernetes.io/docs/tasks/extend-kubernetes/custom-resources/custom-resource-definitions/#field-pruning)
+ * @category Kubernetes
+ */
+export function pruneUnknownFields(node: unknown, instance: unknown): unknown {
+  return pruneValue(node, instance, true);
+}
+
+/**
+ * Prunes the unknown fields of a value against a skeleton node.
+ */
+function pruneValue(
+  node: unknown,
+  value: unknown,
+  isResource: boolean,
+): unknown {
+  const schema = asNode(node);
+  if (schema === undefined) {
+    return value;
+  }
+
+  if (isArray(value)) {
+    return schema.items !== undefined && !isArray(schema.items) ?
+        value.map((item) => pruneValue(schema.items, item, false))
+      : value;
+  }
+
+  if (!isObject(value)) {
+    return value;
+  }
+
+  const properties = asNode(schema.properties);
+  const additionalProperties = schema.additionalProperties;
+  const preserveUnknownFields =
+    schema["x-kubernetes-preserve-unknown-fields"] === true;
+  const embeddedResource = schema["x-kubernetes-embedded-resource"] === true;
+
+  const pruned: { [key: string]: unknown } = {};
+  for (const [key, field] of Object.entries(value)) {
+    if ((isResource || embeddedResource) && resourceFields.includes(key)) {
+      pruned[key] = field;
+    } else if (properties !== undefined && Object.hasOwn(properties, key)) {
+      pruned[key] = pruneValue(properties[key], field, false);
+    } else if (isObject(additionalProperties)) {
+      pruned[key] = pruneValue(additionalProperties, field, false);
+    } else if (additionalProperties === true || preserveUnknownFields) {
+      pruned[key] = field;
+    }
+  }
+  return pruned;
+}
+
+/**
+ * Returns `true` if a junctor has the form that `x-kubernetes-int-or-string`
+ * schemas may use to specify their types.
+ */
+function isIntOrStringPattern(junctor: unknown): boolean {
+  return equal(junctor, [{ type: "integer" }, { type: "string" }]);
+}
+
+/**
+ * Returns the given value if it's a schema object.
+ */
+function asNode(
+  value: unknown,
+): { readonly [key: string]: unknown } | undefined {
+  return isObject(value) && !isArray(value) ? value : undefined;
+}
+
+/**
+ * Records a structural schema violation.
+ */
+function report(
+  check: StructuralCheck,
+  pointer: string,
+  message: string,
+): void {
+  check.violations.push({ location: "#" + pointer, message });
+}
@@ -0,0 +1,562 @@
+import {
+  isArray,
+  isObject,
+  isInteger,
+  equal,
+  referToType,
+  currentFrame,
+  currentLocation,
+} from "tool-json";
+import { ValidationError } from "../error.ts";
+import type { SchemaContext, SchemaFrame } from "../context.ts";
+import { attachError } from "../output.ts";
+import type { Keyword } from "../keyword.ts";
+import { Keyword as KeywordMixin, AnnotationKeyword } from "../keyword.ts";
+import type { ModuleGenerator } from "../generate.ts";
+import {
+  generateError,
+  generateAssertion,
+  declareConstant,
+  declareHelper,
+  indent,
+} from "../generate.ts";
+import { getType } from "../draft-2020-12/validation.ts";
+
+declare module "../output.ts" {
+  interface ErrorParams {
+    /** The embedded resource is `missing` its type metadata fields. */
+    embeddedResource: { readonly missing: readonly string[] };
+
+    /** The list items at `indices` have equal values for the map `keys`. */
+    listMapKeys: {
+      readonly indices: readonly [number, number];
+      readonly keys: readonly string[];
+    };
+  }
+}
+
+/**
+ * The merge semantics of a list, as declared by `x-kubernetes-list-type`.
+ *
+ * @see [Server-Side Apply §Merge strategy](https://kubernetes.io/docs/reference/using-api/server-side-apply/#merge-strategy)
+ * @category Vocabularies
+ */
+export type ListType = "atomic" | "set" | "map";
+
+/**
+ * The merge semantics of a map, as declared by `x-kubernetes-map-type`.
+ *
+ * @see [Server-Side Apply §Merge strategy](https://kubernetes.io/docs/reference/using-api/server-side-apply/#merge-strategy)
+ * @category Vocabularies
+ */
+export type MapType = "granular" | "atomic";
+
+/**
+ * A schema that uses the Kubernetes OpenAPI v3 extensions.
+ *
+ * @see [Custom Resource Definitions](https://kubernetes.io/docs/tasks/extend-kubernetes/custom-resources/custom-resource-definitions/)
+ * @category Vocabularies
+ */
+export interface KubernetesVocabulary {
+  /**
+   * Keeps the API server from pruning fields that aren't specified
+   * by the schema.
+   *
+   * @see [Custom Resource Definitions §Controlling pruning](https://kubernetes.io/docs/tasks/extend-kubernetes/custom-resources/custom-resource-definitions/#controlling-pruning)
+   */
+  readonly "x-kubernetes-preserve-unknown-fields"?: boolean;
+
+  /**
+   * Specifies that instances must be integers or strings.
+   *
+   * @see [Custom Resource Definitions §IntOrString](https://kubernetes.io/docs/tasks/extend-kubernetes/custom-resources/custom-resource-definitions/#intorstring)
+   */
+  readonly "x-kubernetes-int-or-string"?: boolean;
+
+  /**
+   * Specifies that instances are complete Kubernetes objects,
+   * with `apiVersion`, `kind`, and `metadata` fields.
+   *
+   * @see [Custom Resource Definitions §Embedded resources](https://kubernetes.io/docs/tasks/extend-kubernetes/custom-resources/custom-resource-definitions/#embedded-resources)
+   */
+  readonly "x-kubernetes-embedded-resource"?: boolean;
+
+  /**
+   * Specifies the merge semantics of array instances. The items of `set`
+   * lists must be unique, and the items of `map` lists must be unique
+   * with respect to their `x-kubernetes-list-map-keys`.
+   *
+   * @see [Server-Side Apply §Merge strategy](https://kubernetes.io/docs/reference/using-api/server-side-apply/#merge-strategy)
+   */
+  readonly "x-kubernetes-list-type"?: ListType;
+
+  /**
+   * The properties that identify the items of a `map` list.
+   *
+   * @see [Server-Side Apply §Merge strategy](https://kubernetes.io/docs/reference/using-api/server-side-apply/#merge-strategy)
+   */
+  readonly "x-kubernetes-list-map-keys"?: readonly string[];
+
+  /**
+   * Specifies the merge semantics of object instances.
+   *
+   * @see [Server-Side Apply §Merge strategy](https://kubernetes.io/docs/reference/using-api/server-side-apply/#merge-strategy)
+   */
+  readonly "x-kubernetes-map-type"?: MapType;
+}
+
+/**
+ * The `x-kubernetes-preserve-unknown-fields` keyword.
+ *
+ * Only annotates the instance; unknown fields are pruned by the
+ * API server, not rejected. Use `pruneUnknownFields` to preview
+ * which fields would be kept.
+ *
+ * @see [Custom Resource Definitions §Controlling pruning](https://kubernetes.io/docs/tasks/extend-kubernetes/custom-resources/custom-resource-definitions/#controlling-pruning)
+ * @category Keywords
+ */
+export const preserveUnknownFieldsKeyword = {
+  ...AnnotationKeyword.prototype,
+  key: "x-kubernetes-preserve-unknown-fields",
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    if (typeof node !== "boolean") {
+      throw new ValidationError(
+        '"x-kubernetes-preserve-unknown-fields" must be a boolean',
+        { location: currentLocation(context) },
+      );
+    }
+  },
+} as const satisfies Keyword<boolean>;
+
+/**
+ * The `x-kubernetes-int-or-string` keyword.
+ *
+ * @see [Custom Resource Definitions §IntOrString](https://kubernetes.io/docs/tasks/extend-kubernetes/custom-resources/custom-resource-definitions/#intorstring)
+ * @category Keywords
+ */
+export const intOrStringKeyword = {
+  ...KeywordMixin.prototype,
+  key: "x-kubernetes-int-or-string",
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    if (typeof node !== "boolean") {
+      throw new ValidationError(
+        '"x-kubernetes-int-or-string" must be a boolean',
+        { location: currentLocation(context) },
+      );
+    }
+  },
+
+  validate(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as boolean;
+    const instance = frame.instance;
+
+    if (!node || isInteger(instance) || typeof instance === "string") {
+      return;
+    }
+
+    // A true value of "nullable" also admits null instances.
+    const nullable = isNullable(frame.parent?.node);
+    if (nullable && instance === null) {
+      return;
+    }
+
+    attachError(context, intOrStringMessage(nullable), "type", {
+      expected:
+        nullable ? ["integer", "string", "null"] : ["integer", "string"],
+      actual: getType(instance),
+    });
+  },
+
+  generate(
+    context: SchemaContext,
+    generator: ModuleGenerator,
+  ): string | undefined {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as boolean;
+    if (!node) {
+      return undefined;
+    }
+
+    const nullable = isNullable(frame.parent?.node);
+
+    return generateAssertion(
+      context,
+      "!(" +
+        (nullable ? "instance === null || " : "") +
+        'Number.isInteger(instance) || typeof instance === "string")',
+      intOrStringMessage(nullable),
+    );
+  },
+} as const satisfies Keyword<boolean>;
+
+/**
+ * The `x-kubernetes-embedded-resource` keyword.
+ *
+ * Asserts that object instances have non-empty `apiVersion` and `kind`
+ * fields. The API server defaults and validates `metadata` itself.
+ *
+ * @see [Custom Resource Definitions §Embedded resources](https://kubernetes.io/docs/tasks/extend-kubernetes/custom-resources/custom-resource-definitions/#embedded-resources)
+ * @category Keywords
+ */
+export const embeddedResourceKeyword = {
+  ...KeywordMixin.prototype,
+  key: "x-kubernetes-embedded-resource",
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    if (typeof node !== "boolean") {
+      throw new ValidationError(
+        '"x-kubernetes-embedded-resource" must be a boolean',
+        { location: currentLocation(context) },
+      );
+    }
+  },
+
+  validate(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as boolean;
+    const instance = frame.instance;
+
+    if (!node || !isObject(instance) || isArray(instance)) {
+      return; // Not applicable.
+    }
+
+    const missing: string[] = [];
+    for (const field of embeddedResourceFields) {
+      const value = instance[field];
+      if (typeof value !== "string" || value.length === 0) {
+        missing.push(field);
+      }
+    }
+
+    if (missing.length !== 0) {
+      attachError(
+        context,
+        "missing embedded resource " +
+          (missing.length === 1 ? "field " : "fields ") +
+          missing.map((field) => JSON.stringify(field)).join(" and "),
+        "embeddedResource",
+        { missing },
+      );
+    }
+  },
+
+  generate(
+    context: SchemaContext,
+    generator: ModuleGenerator,
+  ): string | undefined {
+    const node = (currentFrame(context) as SchemaFrame).node as boolean;
+    if (!node) {
+      return undefined;
+    }
+
+    const fields = declareConstant(
+      generator,
+      JSON.stringify(embeddedResourceFields),
+    );
+
+    let source = "if (isObject(instance)) {\n";
+    source += "  const missing = " + fields + ".filter((field) => ";
+    source += '!(typeof instance[field] === "string" && ';
+    source += "instance[field].length !== 0));\n";
+    source += "  if (missing.length !== 0) {\n";
+    source += indent(
+      generateError(
+        context,
+        '"missing embedded resource " + ' +
+          '(missing.length === 1 ? "field " : "fields ") + ' +
+          'missing.map((field) => JSON.stringify(field)).join(" and ")',
+      ),
+      "    ",
+    );
+    source += "\n  }\n";
+    source += "}";
+    return source;
+  },
+} as const satisfies Keyword<boolean>;
+
+/**
+ * The `x-kubernetes-list-type` keyword.
+ *
+ * Asserts that the items of `set` lists are unique, and that the items
+ * of `map` lists have unique values for the adjacent
+ * `x-kubernetes-list-map-keys`.
+ *
+ * @see [Server-Side Apply §Merge strategy](https://kubernetes.io/docs/reference/using-api/server-side-apply/#merge-strategy)
+ * @category Keywords
+ */
+export const listTypeKeyword = {
+  ...KeywordMixin.prototype,
+  key: "x-kubernetes-list-type",
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    if (typeof node !== "string" || !listTypes.has(node)) {
+      throw new ValidationError(
+        '"x-kubernetes-list-type" must be "atomic", "set", or "map"',
+        { location: currentLocation(context) },
+      );
+    }
+
+    if (node === "map" && getListMapKeys(frame.parent?.node) === undefined) {
+      throw new ValidationError(
+        '"x-kubernetes-list-type" of "map" requires ' +
+          '"x-kubernetes-list-map-keys"',
+        { location: currentLocation(context) },
+      );
+    }
+  },
+
+  validate(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as ListType;
+    const instance = frame.instance;
+
+    if (!isArray(instance) || node === "atomic") {
+      return; // Not applicable.
+    }
+
+    if (node === "set") {
+      // Set items must be unique.
+      for (let i = 0; i < instance.length; i += 1) {
+        for (let j = i + 1; j < instance.length; j += 1) {
+          if (equal(instance[i], instance[j])) {
+            attachError(
+              context,
+              "duplicate item at index " + i + " and " + j,
+              "uniqueItems",
+              { indices: [i, j] },
+            );
+            return;
+          }
+        }
+      }
+      return;
+    }
+
+    // Map items must be unique with respect to their map keys.
+    const keys = getListMapKeys(frame.parent?.node)!;
+    for (let i = 0; i < instance.length; i += 1) {
+      for (let j = i + 1; j < instance.length; j += 1) {
+        if (equalMapKeys(instance[i], instance[j], keys)) {
+          attachError(context, listMapKeysMessage(i, j, keys), "listMapKeys", {
+            indices: [i, j],
+            keys,
+          });
+          return;
+        }
+      }
+    }
+  },
+
+  generate(
+    context: SchemaContext,
+    generator: ModuleGenerator,
+  ): string | undefined {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as ListType;
+    if (node === "atomic") {
+      return undefined;
+    }
+
+    const equal = declareHelper(generator, "equal");
+
+    let comparison: string;
+    let message: string;
+    if (node === "set") {
+      comparison = equal + "(instance[i], instance[j])";
+      message = '"duplicate item at index " + i + " and " + j';
+    } else {
+      const keys = getListMapKeys(frame.parent?.node)!;
+      const keysConstant = declareConstant(generator, JSON.stringify(keys));
+      comparison =
+        "isObject(instance[i]) && isObject(instance[j]) && " +
+        keysConstant +
+        ".every((key) => " +
+        equal +
+        "(instance[i][key], instance[j][key]))";
+      message =
+        '"duplicate map keys at index " + i + " and " + j + ' +
+        JSON.stringify(
+          ": " + keys.map((key) => JSON.stringify(key)).join(", "),
+        );
+    }
+
+    let source = "if (Array.isArray(instance)) {\n";
+    source += "  search: for (let i = 0; i < instance.length; i += 1) {\n";
+    source += "    for (let j = i + 1; j < instance.length; j += 1) {\n";
+    source += "      if (" + comparison + ") {\n";
+    source += indent(generateError(context, message), "        ");
+    source += "\n        break search;\n";
+    source += "      }\n";
+    source += "    }\n";
+    source += "  }\n";
+    source += "}";
+    return source;
+  },
+} as const satisfies Keyword<ListType>;
+
+/**
+ * The `x-kubernetes-list-map-keys` keyword.
+ *
+ * Has no behavior on its own; the adjacent `x-kubernetes-list-type`
+ * keyword uses its value to identify the items of `map` lists.
+ *
+ * @see [Server-Side Apply §Merge strategy](https://kubernetes.io/docs/reference/using-api/server-side-apply/#merge-strategy)
+ * @category Keywords
+ */
+export const listMapKeysKeyword = {
+  ...KeywordMixin.prototype,
+  key: "x-kubernetes-list-map-keys",
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    if (
+      !isArray(node) ||
+      node.length === 0 ||
+      !node.every((key): key is string => typeof key === "string")
+    ) {
+      throw new ValidationError(
+        '"x-kubernetes-list-map-keys" must be a non-empty array of strings',
+        { location: currentLocation(context) },
+      );
+    }
+
+    if (new Set(node).size !== node.length) {
+      throw new ValidationError(
+        '"x-kubernetes-list-map-keys" must not contain duplicates',
+        { location: currentLocation(context) },
+      );
+    }
+  },
+} as const satisfies Keyword<readonly string[]>;
+
+/**
+ * The `x-kubernetes-map-type` keyword.
+ *
+ * @see [Server-Side Apply §Merge strategy](https://kubernetes.io/docs/reference/using-api/server-side-apply/#merge-strategy)
+ * @category Keywords
+ */
+export const mapTypeKeyword = {
+  ...AnnotationKeyword.prototype,
+  key: "x-kubernetes-map-type",
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    if (node !== "granular" && node !== "atomic") {
+      throw new ValidationError(
+        '"x-kubernetes-map-type" must be "granular" or "atomic"',
+        { location: currentLocation(context) },
+      );
+    }
+  },
+} as const satisfies Keyword<MapType>;
+
+/**
+ * The Kubernetes OpenAPI v3 extensions used by Custom Resource Definitions.
+ * This vocabulary is opt-in; spread its keywords into a dialect, or use
+ * the Kubernetes dialect, to enable them.
+ *
+ * @see [Custom Resource Definitions](https://kubernetes.io/docs/tasks/extend-kubernetes/custom-resources/custom-resource-definitions/)
+ * @category Vocabularies
+ */
+export const kubernetesVocabulary = {
+  keywords: {
+    "x-kubernetes-preserve-unknown-fields": preserveUnknownFieldsKeyword,
+    "x-kubernetes-int-or-string": intOrStringKeyword,
+    "x-kubernetes-embedded-resource": embeddedResourceKeyword,
+    "x-kubernetes-list-type": listTypeKeyword,
+    "x-kubernetes-list-map-keys": listMapKeysKeyword,
+    "x-kubernetes-map-type": mapTypeKeyword,
+  },
+} as const;
+
+/**
+ * The valid values of the `x-kubernetes-list-type` keyword.
+ */
+const listTypes: ReadonlySet<string> = new Set(["atomic", "set", "map"]);
+
+/**
+ * The type metadata fields that embedded resources must specify.
+ */
+const embeddedResourceFields: readonly string[] = ["apiVersion", "kind"];
+
+/**
+ * Returns the `x-kubernetes-list-map-keys` of a schema node, if any.
+ */
+function getListMapKeys(node: unknown): readonly string[] | undefined {
+  if (!isObject(node)) {
+    return undefined;
+  }
+  const keys = node["x-kubernetes-list-map-keys"];
+  return isArray(keys) ? (keys as readonly string[]) : undefined;
+}
+
+/**
+ * Returns `true` if two list items have equal values for all map keys.
+ */
+function equalMapKeys(
+  x: unknown,
+  y: unknown,
+  keys: readonly string[],
+): boolean {
+  if (!isObject(x) || isArray(x) || !isObject(y) || isArray(y)) {
+    return false;
+  }
+  return keys.every((key) => equal(x[key], y[key]));
+}
+
+/**
+ * Returns `true` if the given schema node admits null instances.
+ */
+function isNullable(node: unknown): boolean {
+  return isObject(node) && node.nullable === true;
+}
+
+/**
+ * Returns the error message for instances that aren't integers or strings.
+ */
+function intOrStringMessage(nullable: boolean): string {
+  return (
+    "not " +
+    referToType("integer") +
+    (nullable ? ", " : " or ") +
+    referToType("string") +
+    (nullable ? " or null" : "")
+  );
+}
+
+/**
+ * Returns the error message for map list items with duplicate map keys.
+ */
+function listMapKeysMessage(
+  i: number,
+  j: number,
+  keys: readonly string[],
+): string {
+  return (
+    "duplicate map keys at index " +
+    i +
+    " and " +
+    j +
+    ": " +
+    keys.map((key) => JSON.stringify(key)).join(", ")
+  );
+}
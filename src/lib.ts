@@ -1,4 +1,4 @@
-export { ValidationError } from "./error.ts";
+export { ValidationError, GenerateError } from "./error.ts";
 
 export type {
   SchemaContext,
@@ -15,25 +15,74 @@ export {
   instanceLocation,
 } from "./context.ts";
 
-export type { OutputUnit, OutputCheckpoint } from "./output.ts";
+export type {
+  StrictPolicy,
+  StrictOptions,
+  StrictCheck,
+  SchemaWarning,
+} from "./strict.ts";
+export { strictOptions, checkStrictSchema } from "./strict.ts";
+
+export type { ResourceLoader } from "./loader.ts";
+export {
+  loadFileResource,
+  createMemoryLoader,
+  isAllowedResource,
+  loadMetaSchemas,
+  loadSchemaResources,
+  collectResourceUris,
+} from "./loader.ts";
+
+export type {
+  OutputUnit,
+  ErrorParams,
+  ErrorCode,
+  OutputFormat,
+  OutputCheckpoint,
+} from "./output.ts";
 export {
   initOutput,
   emitOutput,
   attachError,
+  attachFrameError,
   attachAnnotation,
+  attachFrameAnnotation,
   getAnnotations,
   getAnnotation,
   getChildAnnotation,
   saveCheckpoint,
   restoreCheckpoint,
+  formatOutput,
 } from "./output.ts";
 
-export { Format } from "./format.ts";
+export type { MessageFormatter, MessageCatalog } from "./message.ts";
+export {
+  englishCatalog,
+  getMessageCatalog,
+  formatMessage,
+  localizeOutput,
+} from "./message.ts";
+
+export { bestMatch } from "./best-match.ts";
+
+export type { ReportOptions } from "./report.ts";
+export { formatReport } from "./report.ts";
+
+export type { EvaluationNode, EvaluationFormat } from "./evaluation.ts";
+export {
+  beginEvaluation,
+  recordEvaluation,
+  endEvaluation,
+  formatEvaluation,
+} from "./evaluation.ts";
+
+export { Format, getFormat } from "./format.ts";
 
 export {
   Keyword,
   AnnotationKeyword,
   unknownKeyword,
+  invalidKeyword,
   sortKeywords,
 } from "./keyword.ts";
 
@@ -47,9 +96,11 @@ export {
   initSchemaResource,
   parseSchemaResource,
   validateSchemaResource,
+  requiresAnnotations,
   isMetaSchemaResource,
   initMetaSchemaResource,
   parseMetaSchemaResource,
+  discoverDialect,
 } from "./resource.ts";
 
 /** @category Dialect */
@@ -64,6 +115,15 @@ export type { Schema as Schema202012 } from "./draft-2020-12/mod.ts";
 /** @category Dialect */
 export { dialect as dialect202012 } from "./draft-2020-12/mod.ts";
 
+/** @category Dialect */
+export * as draft201909 from "./draft-2019-09/mod.ts";
+
+/** @category Schema */
+export type { Schema as Schema201909 } from "./draft-2019-09/mod.ts";
+
+/** @category Dialect */
+export { dialect as dialect201909 } from "./draft-2019-09/mod.ts";
+
 /** @category Dialect */
 export * as draft07 from "./draft-07/mod.ts";
 
@@ -73,6 +133,15 @@ export type { Schema as Schema07 } from "./draft-07/mod.ts";
 /** @category Dialect */
 export { dialect as dialect07 } from "./draft-07/mod.ts";
 
+/** @category Dialect */
+export * as draft06 from "./draft-06/mod.ts";
+
+/** @category Schema */
+export type { Schema as Schema06 } from "./draft-06/mod.ts";
+
+/** @category Dialect */
+export { dialect as dialect06 } from "./draft-06/mod.ts";
+
 /** @category Dialect */
 export * as draft05 from "./draft-05/mod.ts";
 
@@ -82,14 +151,93 @@ export type { Schema as Schema05 } from "./draft-05/mod.ts";
 /** @category Dialect */
 export { dialect as dialect05 } from "./draft-05/mod.ts";
 
+/** @category Dialect */
+export * as draft03 from "./draft-03/mod.ts";
+
+/** @category Schema */
+export type { Schema as Schema03 } from "./draft-03/mod.ts";
+
+/** @category Dialect */
+export { dialect as dialect03 } from "./draft-03/mod.ts";
+
 /** @category Dialect */
 export * as oas31 from "./oas-3.1/mod.ts";
 
 /** @category Schema */
 export type { Schema as SchemaOas31 } from "./oas-3.1/mod.ts";
 
+/** @category Dialect */
+export * as oas30 from "./oas-3.0/mod.ts";
+
+/** @category Schema */
+export type { Schema as SchemaOas30 } from "./oas-3.0/mod.ts";
+
+/** @category Dialect */
+export { dialect as dialectOas30 } from "./oas-3.0/mod.ts";
+
 /** @category Dialect */
 export { dialect as dialectOas31 } from "./oas-3.1/mod.ts";
 
-export type { SchemaOptions } from "./schema.ts";
-export { Schema, dialects, parseSchema, parseDialect } from "./schema.ts";
+/** @category Dialect */
+export * as asyncapi30 from "./asyncapi-3.0/mod.ts";
+
+/** @category Schema */
+export type { Schema as SchemaAsyncapi30 } from "./asyncapi-3.0/mod.ts";
+
+/** @category Dialect */
+export { dialect as dialectAsyncapi30 } from "./asyncapi-3.0/mod.ts";
+
+/** @category JTD */
+export * as jtd from "./jtd/mod.ts";
+
+/** @category Kubernetes */
+export * as kubernetes from "./kubernetes/mod.ts";
+
+/** @category Schema */
+export type { Schema as SchemaKubernetes } from "./kubernetes/mod.ts";
+
+/** @category Dialect */
+export { dialect as dialectKubernetes } from "./kubernetes/mod.ts";
+
+/** @category Dialect */
+export * as errorMessage from "./error-message/mod.ts";
+
+export type {
+  SchemaValidator,
+  KeywordValidator,
+  CompiledValidator,
+} from "./compile.ts";
+export {
+  compileSchemaResource,
+  compileSchemaNode,
+  compileKeyword,
+  createKeywordFrame,
+  createSubschemaFrame,
+  emitKeywordError,
+  emitKeywordAnnotation,
+} from "./compile.ts";
+
+export type { ModuleGenerator } from "./generate.ts";
+export {
+  createModuleGenerator,
+  generateModule,
+  generateSchemaResource,
+  generateSchemaNode,
+  generateKeyword,
+  generateError,
+  generateAssertion,
+  generateApply,
+  declareConstant,
+  declarePattern,
+  declareLocal,
+  declareHelper,
+} from "./generate.ts";
+
+export type { SchemaOptions, ValidateOptions } from "./schema.ts";
+export {
+  Schema,
+  dialects,
+  initParseContext,
+  parseSchema,
+  parseDialect,
+} from "./schema.ts";
@@ -0,0 +1,179 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { mkdtemp, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { createMemoryLoader, loadFileResource, parseSchema } from "tool-schema";
+
+void suite("Resource loading", () => {
+  void test("loads referenced resources from memory", async () => {
+    const schema = await parseSchema(
+      {
+        type: "object",
+        properties: {
+          address: { $ref: "https://example.com/schemas/address" },
+        },
+      },
+      {
+        loadResource: createMemoryLoader({
+          "https://example.com/schemas/address": {
+            type: "object",
+            properties: {
+              country: { $ref: "country" },
+            },
+            required: ["country"],
+          },
+          "https://example.com/schemas/country": {
+            type: "string",
+            pattern: "^[A-Z]{2}$",
+          },
+        }),
+      },
+    );
+    assert(schema.validate({ address: { country: "NZ" } }).valid);
+    assert(!schema.validate({ address: {} }).valid);
+    assert(!schema.validate({ address: { country: "nz" } }).valid);
+  });
+
+  void test("loads meta-schemas named by $schema", async () => {
+    const schema = await parseSchema(
+      {
+        $schema: "https://example.com/meta/validation",
+        type: "string",
+        properties: { name: { type: "string" } },
+      },
+      {
+        loadResource: createMemoryLoader({
+          "https://example.com/meta/validation": {
+            $schema: "https://json-schema.org/draft/2020-12/schema",
+            $id: "https://example.com/meta/validation",
+            $vocabulary: {
+              "https://json-schema.org/draft/2020-12/vocab/core": true,
+              "https://json-schema.org/draft/2020-12/vocab/validation": true,
+            },
+          },
+        }),
+      },
+    );
+    assert(schema.validate("name").valid);
+    assert(!schema.validate(1).valid);
+  });
+
+  void test("only loads allowed resources", async () => {
+    const requested: string[] = [];
+    const loader = createMemoryLoader({
+      "https://example.com/schemas/name": { type: "string" },
+    });
+    await parseSchema(
+      {
+        properties: {
+          name: { $ref: "https://example.com/schemas/name" },
+          secret: { $ref: "file:///etc/secret.json" },
+        },
+      },
+      {
+        loadResource: (uri: string): Promise<unknown> => {
+          requested.push(uri);
+          return loader(uri);
+        },
+        allowedResources: ["https://example.com/schemas/"],
+      },
+    );
+    assert.deepEqual(requested, ["https://example.com/schemas/name"]);
+  });
+
+  void test("rejects resources that escape allowed prefixes", async () => {
+    const requested: string[] = [];
+    await parseSchema(
+      {
+        properties: {
+          name: { $ref: "file:///srv/schemas/name.json" },
+          encoded: { $ref: "file:///srv/schemas/%2e%2e/%2E%2E/etc/passwd" },
+          dotted: { $ref: "file:///srv/schemas/../secret.json" },
+        },
+      },
+      {
+        loadResource: (uri: string): Promise<unknown> => {
+          requested.push(uri);
+          return Promise.resolve({ type: "string" });
+        },
+        allowedResources: ["file:///srv/schemas/"],
+      },
+    );
+    assert.deepEqual(requested, ["file:///srv/schemas/name.json"]);
+  });
+
+  void test("rejects sibling directories of allowed prefixes", async () => {
+    const requested: string[] = [];
+    await parseSchema(
+      {
+        properties: {
+          name: { $ref: "file:///srv/schemas/name.json" },
+          secret: { $ref: "file:///srv/schemas-private/secret.json" },
+        },
+      },
+      {
+        loadResource: (uri: string): Promise<unknown> => {
+          requested.push(uri);
+          return Promise.resolve({ type: "string" });
+        },
+        allowedResources: ["file:///srv/schemas"],
+      },
+    );
+    assert.deepEqual(requested, ["file:///srv/schemas/name.json"]);
+  });
+
+  void test("doesn't load the schema's own resources", async () => {
+    const requested: string[] = [];
+    const schema = await parseSchema(
+      {
+        $id: "https://example.com/schemas/root",
+        $defs: {
+          name: { $id: "name", type: "string" },
+        },
+        properties: {
+          self: { $ref: "#/$defs/name" },
+          name: { $ref: "https://example.com/schemas/name" },
+          tree: { $ref: "https://example.com/schemas/root" },
+        },
+      },
+      {
+        loadResource: (uri: string): Promise<unknown> => {
+          requested.push(uri);
+          return Promise.resolve(undefined);
+        },
+      },
+    );
+    assert.deepEqual(requested, []);
+    assert(schema.validate({ self: "a", name: "b", tree: {} }).valid);
+    assert(!schema.validate({ name: 1 }).valid);
+  });
+
+  void test("loads resources from files", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "tool-schema-"));
+    try {
+      const file = join(dir, "name.json");
+      await writeFile(file, JSON.stringify({ type: "string", minLength: 1 }));
+
+      const schema = await parseSchema(
+        { properties: { name: { $ref: pathToFileURL(file).href } } },
+        { loadResource: loadFileResource },
+      );
+      assert(schema.validate({ name: "a" }).valid);
+      assert(!schema.validate({ name: "" }).valid);
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+
+  void test("skips missing files", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "tool-schema-"));
+    try {
+      const file = join(dir, "missing.json");
+      assert.equal(await loadFileResource(pathToFileURL(file).href), undefined);
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,323 @@
+import type { Uri } from "tool-uri";
+import { isAbsoluteUri, parseUriReference, resolveUri } from "tool-uri";
+import {
+  isArray,
+  isObject,
+  nestFrame,
+  currentFrame,
+  createResource,
+  getResource,
+  setResource,
+} from "tool-json";
+import type { SchemaContext, SchemaFrame } from "./context.ts";
+import type { SchemaResource } from "./resource.ts";
+import { parseSchemaResource } from "./resource.ts";
+
+/**
+ * A function that loads the JSON document identified by an absolute URI,
+ * without a fragment. Returns `undefined` if the loader doesn't support
+ * the URI, leaving the reference unresolved.
+ *
+ * @category Context
+ */
+export type ResourceLoader = (uri: string) => Promise<unknown>;
+
+/**
+ * Loads JSON documents identified by `file:` URIs from the file system.
+ * Returns `undefined` for URIs with other schemes, and for files that
+ * don't exist.
+ *
+ * Restrict the files that untrusted schemas can read with the
+ * `allowedResources` option.
+ *
+ * @category Context
+ */
+export async function loadFileResource(uri: string): Promise<unknown> {
+  if (!uri.startsWith("file:")) {
+    return undefined;
+  }
+
+  // Import lazily, so that the module loads in environments without node:fs.
+  const { readFile } = await import("node:fs/promises");
+  const { fileURLToPath } = await import("node:url");
+
+  let text: string;
+  try {
+    text = await readFile(fileURLToPath(uri), "utf8");
+  } catch (error) {
+    if ((error as { readonly code?: unknown }).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+  return JSON.parse(text) as unknown;
+}
+
+/**
+ * Returns a loader for JSON documents held in memory, keyed by URI.
+ * The loader returns `undefined` for URIs without a document.
+ *
+ * @category Context
+ */
+export function createMemoryLoader(
+  documents: ReadonlyMap<string, unknown> | { readonly [uri: string]: unknown },
+): ResourceLoader {
+  const entries =
+    documents instanceof Map ?
+      (documents as ReadonlyMap<string, unknown>)
+    : new Map(Object.entries(documents));
+  return (uri: string): Promise<unknown> => Promise.resolve(entries.get(uri));
+}
+
+/**
+ * Returns `true` if the context permits loading the resource with the given
+ * URI. Resources are permitted if their normalized URI equals an allowed
+ * prefix, starts with an allowed prefix followed by a path segment,
+ * or matches an allowed pattern. Prefixes always end at a path segment
+ * boundary, so `"file:///srv/schemas"` permits `"file:///srv/schemas/a.json"`,
+ * but not `"file:///srv/schemas-private/a.json"`. URIs containing
+ * percent-encoded dots or slashes are never permitted, since they can
+ * escape an allowed prefix once decoded. All resources are permitted
+ * if the context has no allow-list.
+ *
+ * @category Context
+ * @internal
+ */
+export function isAllowedResource(
+  context: SchemaContext,
+  uri: string,
+): boolean {
+  const allowed = context.allowedResources;
+  if (allowed === undefined) {
+    return true;
+  }
+  const href = normalizeResourceUri(uri);
+  if (href === undefined) {
+    return false;
+  }
+  return allowed.some((pattern: string | RegExp): boolean => {
+    if (typeof pattern !== "string") {
+      return pattern.test(href);
+    }
+    return (
+      href === pattern ||
+      href.startsWith(pattern.endsWith("/") ? pattern : pattern + "/")
+    );
+  });
+}
+
+/**
+ * Returns the given URI with its dot segments resolved, or `undefined`
+ * if the URI is malformed, or contains percent-encoded dots or slashes.
+ */
+function normalizeResourceUri(uri: string): string | undefined {
+  if (/%2[ef]/i.test(uri)) {
+    return undefined;
+  }
+  try {
+    return new URL(uri).href;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Loads and parses the meta-schemas named by `$schema` keywords in the
+ * schema node at the top of the stack, and the meta-schemas they name
+ * in turn, using the context's resource loader, so that their dialects
+ * can be discovered when the schema is parsed.
+ *
+ * Returns the loaded meta-schemas, whose references remain to be resolved.
+ *
+ * @category Resource
+ * @internal
+ */
+export async function loadMetaSchemas(
+  context: SchemaContext,
+): Promise<SchemaResource[]> {
+  if (context.loadResource === undefined) {
+    return [];
+  }
+
+  const frame = currentFrame(context) as SchemaFrame;
+  const loaded: { readonly uri: string; readonly node: unknown }[] = [];
+  const pending = collectResourceUris(frame.node, frame.baseUri, ["$schema"]);
+  while (pending.length !== 0) {
+    const uri = pending.shift()!;
+    const node = await fetchResource(context, uri);
+    if (node === undefined) {
+      continue;
+    }
+    loaded.push({ uri, node });
+
+    // Load the meta-schemas of the meta-schema in turn.
+    pending.push(...collectResourceUris(node, uri, ["$schema"]));
+  }
+
+  // Parse meta-schemas, which are found after the schemas that use them,
+  // before their dependent schemas.
+  const resources: SchemaResource[] = [];
+  for (let i = loaded.length - 1; i >= 0; i -= 1) {
+    const { uri, node } = loaded[i]!;
+    const resource = nestFrame(context, (frame: SchemaFrame) => {
+      frame.baseUri = uri;
+      frame.node = node;
+      return parseSchemaResource(context);
+    });
+    if (resource !== undefined) {
+      resources.push(resource);
+    }
+  }
+  return resources;
+}
+
+/**
+ * Loads and parses the external resources referenced by the parsed schema
+ * node at the top of the stack, and by the resources they reference
+ * in turn, using the context's resource loader.
+ *
+ * Only absolute URIs that remain unresolved after parsing are loaded,
+ * so references to the schema's own `$id`, and to embedded resources,
+ * never reach the loader. Resources that the context doesn't allow,
+ * or that the loader doesn't support, are skipped. Returns the loaded
+ * resources, including their meta-schemas, whose references remain
+ * to be resolved.
+ *
+ * @category Resource
+ * @internal
+ */
+export async function loadSchemaResources(
+  context: SchemaContext,
+): Promise<SchemaResource[]> {
+  if (context.loadResource === undefined) {
+    return [];
+  }
+
+  const frame = currentFrame(context) as SchemaFrame;
+  const resources: SchemaResource[] = [];
+  const pending: {
+    readonly uri: string | undefined;
+    readonly node: unknown;
+  }[] = [{ uri: frame.baseUri, node: frame.node }];
+  while (pending.length !== 0) {
+    const parent = pending.shift()!;
+    const uris = collectResourceUris(parent.node, parent.uri, [
+      "$ref",
+      "$dynamicRef",
+    ]);
+    for (const uri of uris) {
+      const node = await fetchResource(context, uri);
+      if (node === undefined) {
+        continue;
+      }
+
+      // Parse the document, and its meta-schemas, before loading
+      // the resources that it references in turn.
+      await nestFrame(context, async (frame: SchemaFrame): Promise<void> => {
+        frame.baseUri = uri;
+        frame.node = node;
+        resources.push(...(await loadMetaSchemas(context)));
+        const resource = parseSchemaResource(context);
+        if (resource !== undefined) {
+          resources.push(resource);
+        }
+      });
+      pending.push({ uri, node });
+    }
+  }
+  return resources;
+}
+
+/**
+ * Loads the document with the given URI, and registers it at its
+ * retrieval URI. Returns `undefined` without loading the document
+ * if it's already registered, if it's a known dialect, if the context
+ * doesn't allow it, or if the loader doesn't support it.
+ */
+async function fetchResource(
+  context: SchemaContext,
+  uri: string,
+): Promise<unknown> {
+  if (
+    context.loadResource === undefined ||
+    getResource(context, uri) !== undefined ||
+    context.dialects?.has(uri) === true ||
+    context.dialects?.has(uri + "#") === true ||
+    !isAllowedResource(context, uri)
+  ) {
+    return undefined;
+  }
+
+  const node = await context.loadResource(uri);
+  if (node !== undefined) {
+    setResource(context, createResource(uri, node));
+  }
+  return node;
+}
+
+/**
+ * Keywords whose values are instances, rather than schemas, and so can't
+ * contain references.
+ */
+const instanceKeys: ReadonlySet<string> = new Set([
+  "const",
+  "default",
+  "enum",
+  "examples",
+]);
+
+/**
+ * Returns the absolute URIs, without fragments, of the resources referenced
+ * by the given keywords, such as `$ref` or `$schema`, in the given node,
+ * resolved against the `$id` or `id` of their enclosing schemas.
+ *
+ * @category Resource
+ * @internal
+ */
+export function collectResourceUris(
+  node: unknown,
+  baseUri: string | undefined,
+  keys: readonly string[],
+  uris: string[] = [],
+): string[] {
+  if (isArray(node)) {
+    for (const item of node) {
+      collectResourceUris(item, baseUri, keys, uris);
+    }
+  } else if (isObject(node)) {
+    const id = typeof node.$id === "string" ? node.$id : node.id;
+    if (typeof id === "string") {
+      baseUri = resolveReference(baseUri, id)?.href ?? baseUri;
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      if (keys.includes(key) && typeof value === "string") {
+        const uri = resolveReference(baseUri, value);
+        if (uri !== undefined && isAbsoluteUri(uri)) {
+          const href = uri.href.split("#")[0]!;
+          if (!uris.includes(href)) {
+            uris.push(href);
+          }
+        }
+      } else if (!instanceKeys.has(key)) {
+        collectResourceUris(value, baseUri, keys, uris);
+      }
+    }
+  }
+  return uris;
+}
+
+/**
+ * Resolves a URI reference against a base URI, returning `undefined`
+ * if the reference is malformed.
+ */
+function resolveReference(
+  baseUri: string | undefined,
+  reference: string,
+): Uri | undefined {
+  try {
+    return resolveUri(baseUri, parseUriReference(reference));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import type { ErrorCode, ErrorParams, MessageCatalog } from "tool-schema";
+import {
+  englishCatalog,
+  formatMessage,
+  localizeOutput,
+  parseSchema,
+} from "tool-schema";
+
+const germanCatalog: MessageCatalog = {
+  locale: "de",
+  messages: {
+    minimum: ({ limit }) => "kleiner als " + limit,
+    required: ({ missing }) =>
+      "fehlende Eigenschaften: " + missing.map((key) => `"${key}"`).join(", "),
+  },
+};
+
+const schemaNode = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  type: "object",
+  properties: {
+    count: { type: ["integer", "null"], minimum: 1, multipleOf: 2 },
+    name: { type: "string", minLength: 3, pattern: "^[a-z]+$" },
+    tags: { type: "array", prefixItems: [true, true], uniqueItems: true },
+    kind: { enum: ["a", "b"], const: "a" },
+  },
+  dependentRequired: { count: ["total"] },
+  required: ["id", "name"],
+  additionalProperties: false,
+  not: { required: ["kind"] },
+};
+
+const instance = {
+  count: -1,
+  name: "A",
+  tags: [1, 1],
+  kind: "c",
+  extra: true,
+};
+
+void suite("Message catalogs", () => {
+  void test("render English messages identical to keyword messages", async () => {
+    const schema = await parseSchema(schemaNode);
+    const output = schema.validate(instance, { output: "basic" });
+
+    assert(output.errors !== undefined && output.errors.length !== 0);
+    for (const unit of output.errors) {
+      assert.notEqual(unit.code, undefined, unit.keywordLocation);
+      assert.equal(
+        formatMessage(
+          englishCatalog,
+          unit.code as ErrorCode,
+          unit.params as ErrorParams[ErrorCode],
+        ),
+        unit.error,
+        unit.keywordLocation,
+      );
+    }
+  });
+
+  void test("render English format messages identical to format parsers", async () => {
+    const node = {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      properties: {
+        date: { format: "date" },
+        email: { format: "email" },
+      },
+    };
+    const formatInstance = { date: "2024-13-01", email: "a@" };
+    const expected = (await parseSchema(node, { validation: true })).validate(
+      formatInstance,
+      { output: "basic" },
+    );
+    const actual = (
+      await parseSchema(node, { validation: true, locale: "en" })
+    ).validate(formatInstance, { output: "basic" });
+
+    assert.equal(expected.errors?.length, 2);
+    assert.deepEqual(actual, expected);
+  });
+
+  void test("render messages in the locale of the context", async () => {
+    const schema = await parseSchema(schemaNode, {
+      locale: "de",
+      catalogs: [germanCatalog],
+    });
+    const output = schema.validate(instance, { output: "basic" });
+
+    const units = new Map(
+      output.errors?.map((unit) => [unit.keywordLocation, unit]),
+    );
+    assert.equal(
+      units.get("/properties/count/minimum")?.error,
+      "kleiner als 1",
+    );
+    assert.equal(units.get("/required")?.error, 'fehlende Eigenschaften: "id"');
+    // Codes missing from the catalog fall back to English.
+    assert.equal(
+      units.get("/properties/count/multipleOf")?.error,
+      "not a multiple of 2",
+    );
+  });
+
+  void test("fall back to the primary language subtag", async () => {
+    const schema = await parseSchema(
+      { $schema: "https://json-schema.org/draft/2020-12/schema", minimum: 5 },
+      { locale: "de-CH", catalogs: [germanCatalog] },
+    );
+
+    assert.equal(schema.validate(3).errors?.[0]?.error, "kleiner als 5");
+  });
+
+  void test("fall back to English for unregistered locales", async () => {
+    const schema = await parseSchema(
+      { $schema: "https://json-schema.org/draft/2020-12/schema", minimum: 5 },
+      { locale: "fr" },
+    );
+
+    assert.equal(schema.validate(3).errors?.[0]?.error, "less than 5");
+  });
+
+  void test("localize existing output", async () => {
+    const schema = await parseSchema(schemaNode);
+    const output = schema.validate(instance, { output: "detailed" });
+    const localized = localizeOutput(output, germanCatalog);
+
+    const properties = localized.errors?.find(
+      (unit) => unit.keywordLocation === "/properties",
+    );
+    const count = properties?.errors?.find(
+      (unit) => unit.keywordLocation === "/properties/count",
+    );
+    const minimum = count?.errors?.find(
+      (unit) => unit.keywordLocation === "/properties/count/minimum",
+    );
+    assert.equal(minimum?.error, "kleiner als 1");
+    assert.equal(minimum?.code, "minimum");
+    // The original output is left unchanged.
+    assert.notEqual(output, localized);
+    assert.equal(JSON.stringify(output).includes("kleiner als"), false);
+  });
+});
@@ -0,0 +1,272 @@
+import { referToType } from "tool-json";
+import type { SchemaContext } from "./context.ts";
+import type { OutputUnit, ErrorCode, ErrorParams } from "./output.ts";
+
+/**
+ * A function that renders the message of an error from its params.
+ *
+ * @category Output
+ */
+export type MessageFormatter<Code extends ErrorCode = ErrorCode> = (
+  params: ErrorParams[Code],
+) => string;
+
+/**
+ * A catalog of localized error messages, keyed by error code.
+ * Errors whose codes are missing from the catalog retain
+ * their default English messages.
+ *
+ * @category Output
+ */
+export interface MessageCatalog {
+  /**
+   * The BCP 47 language tag of the catalog, such as `"en"` or `"pt-BR"`.
+   */
+  readonly locale: string;
+
+  /**
+   * The message formatters of the catalog, keyed by error code.
+   */
+  readonly messages: { readonly [Code in ErrorCode]?: MessageFormatter<Code> };
+}
+
+/**
+ * The default catalog of English error messages.
+ *
+ * @category Output
+ */
+export const englishCatalog: MessageCatalog = {
+  locale: "en",
+  messages: {
+    falseSchema: () => "never valid",
+    type: ({ expected }) =>
+      expected.length !== 0 ?
+        "not " + joinValues(expected.map(referToType), "or", false)
+      : "no types allowed",
+    enum: ({ allowed }) =>
+      "not one of " +
+      (allowed.length !== 0 ? joinValues(allowed, "or") : "empty enum"),
+    const: ({ expected }) => "not equal to " + JSON.stringify(expected),
+    multipleOf: ({ divisor }) => "not a multiple of " + divisor,
+    maximum: ({ limit }) => "greater than " + limit,
+    exclusiveMaximum: ({ limit }) => "greater than or equal to " + limit,
+    minimum: ({ limit }) => "less than " + limit,
+    exclusiveMinimum: ({ limit }) => "less than or equal to " + limit,
+    maxLength: ({ limit }) => "longer than " + limit + " characters",
+    minLength: ({ limit }) => "shorter than " + limit + " characters",
+    pattern: ({ pattern }) =>
+      "does not match pattern " + JSON.stringify(pattern),
+    maxItems: ({ limit }) => "more than " + limit + " items",
+    minItems: ({ limit }) => "fewer than " + limit + " items",
+    uniqueItems: ({ indices }) =>
+      "duplicate item at index " + indices[0] + " and " + indices[1],
+    maxContains: ({ limit }) => "more than " + limit + " contained items",
+    minContains: ({ limit }) => "fewer than " + limit + " contained items",
+    maxProperties: ({ limit }) => "more than " + limit + " properties",
+    minProperties: ({ limit }) => "fewer than " + limit + " properties",
+    required: ({ missing }) =>
+      "missing required " +
+      (missing.length === 1 ? "property " : "properties ") +
+      joinValues(missing, "and"),
+    dependentRequired: ({ missing }) => {
+      const parts: string[] = [];
+      for (const [key, requirements] of Object.entries(missing)) {
+        for (const requirement of requirements) {
+          parts.push(
+            JSON.stringify(requirement) +
+              " (required by " +
+              JSON.stringify(key) +
+              ")",
+          );
+        }
+      }
+      return (
+        "missing dependent " +
+        (parts.length === 1 ? "property " : "properties ") +
+        joinValues(parts, "and", false)
+      );
+    },
+    allOf: () => "not valid against all subschemas",
+    anyOf: () => "not valid against any subschemas",
+    oneOf: () => "not valid against exactly one subschema",
+    not: () => "unexpectedly valid",
+    dependentSchemas: ({ properties }) =>
+      properties.length === 1 ?
+        JSON.stringify(properties[0]) + " dependent subschema"
+      : "not valid against " +
+        joinValues(properties, "and") +
+        " dependent subschemas",
+    prefixItems: ({ expected, actual }) =>
+      (actual === 0 ?
+        "empty array is missing " + expected
+      : "array is missing " + (expected - actual) + " of " + expected) +
+      " expected prefix " +
+      (expected === 1 ? "item" : "items"),
+    items: () => "not valid against all items",
+    additionalItems: () => "not valid against all additional items",
+    contains: () => "does not contain item",
+    properties: ({ properties }) =>
+      propertiesMessage("property", "properties", properties),
+    patternProperties: ({ properties }) =>
+      propertiesMessage("pattern property", "pattern properties", properties),
+    additionalProperties: ({ properties }) =>
+      propertiesMessage(
+        "additional property",
+        "additional properties",
+        properties,
+      ),
+    propertyNames: ({ properties }) =>
+      propertiesMessage("property name", "property names", properties),
+    unevaluatedItems: () => "not valid against all unevaluated items",
+    unevaluatedProperties: ({ properties }) =>
+      propertiesMessage(
+        "unevaluated property",
+        "unevaluated properties",
+        properties,
+      ),
+    dependencies: ({ properties, missing }) => {
+      const parts: string[] = [];
+      if (properties.length !== 0) {
+        parts.push(
+          properties.length === 1 ?
+            JSON.stringify(properties[0]) + " dependent subschema"
+          : "not valid against " +
+              joinValues(properties, "and") +
+              " dependent subschemas",
+        );
+      }
+      if (missing.length !== 0) {
+        parts.push(
+          "missing dependent " +
+            (missing.length === 1 ? "property " : "properties ") +
+            joinValues(missing, "and"),
+        );
+      }
+      return parts.join(" and ");
+    },
+    format: ({ message }) => message,
+    unknownFormat: ({ format }) => "Unknown format: " + JSON.stringify(format),
+    unknownReference: () => "unknown schema reference",
+    unresolvedReference: () => "unresolved schema reference",
+    invalidKeyword: ({ message }) => "invalid schema: " + message,
+  },
+};
+
+/**
+ * Returns a message listing a single invalid property, or many.
+ */
+function propertiesMessage(
+  singular: string,
+  plural: string,
+  properties: readonly string[],
+): string {
+  if (properties.length === 1) {
+    return "invalid " + singular + " " + JSON.stringify(properties[0]);
+  }
+  return "invalid " + plural + " " + joinValues(properties, "and");
+}
+
+/**
+ * Returns a comma-separated list of values, with the last two values
+ * separated by the given conjunction.
+ */
+function joinValues(
+  values: readonly unknown[],
+  conjunction: string,
+  stringify: boolean = true,
+): string {
+  let list = "";
+  for (let i = 0; i < values.length; i += 1) {
+    if (i !== 0) {
+      list += i !== values.length - 1 ? ", " : " " + conjunction + " ";
+    }
+    list += stringify ? JSON.stringify(values[i]) : String(values[i]);
+  }
+  return list;
+}
+
+/**
+ * Returns the message catalog registered for the given locale, falling back
+ * to the catalog of its primary language subtag, and then to the English
+ * catalog. Defaults to the locale of the context.
+ *
+ * @category Output
+ */
+export function getMessageCatalog(
+  context: SchemaContext,
+  locale: string | undefined = context.locale,
+): MessageCatalog {
+  if (locale !== undefined && context.catalogs !== undefined) {
+    let catalog = context.catalogs.get(locale);
+    if (catalog === undefined) {
+      const dashIndex = locale.indexOf("-");
+      if (dashIndex !== -1) {
+        catalog = context.catalogs.get(locale.slice(0, dashIndex));
+      }
+    }
+    if (catalog !== undefined) {
+      return catalog;
+    }
+  }
+  return englishCatalog;
+}
+
+/**
+ * Renders the message of an error with the given code and params using the
+ * given message catalog. Returns `undefined` if the catalog has no message
+ * for the error code.
+ *
+ * @category Output
+ */
+export function formatMessage<Code extends ErrorCode>(
+  catalog: MessageCatalog,
+  code: Code,
+  params: ErrorParams[Code],
+): string | undefined {
+  if (!Object.hasOwn(catalog.messages, code)) {
+    return undefined;
+  }
+  const formatter: MessageFormatter<Code> | undefined = catalog.messages[code];
+  if (formatter === undefined) {
+    return undefined;
+  }
+  return formatter(params);
+}
+
+/**
+ * Returns a copy of the given output hierarchy with the messages of all
+ * coded errors rendered using the given message catalog. Errors whose
+ * codes are missing from the catalog retain their original messages.
+ *
+ * @category Output
+ */
+export function localizeOutput(
+  output: OutputUnit,
+  catalog: MessageCatalog,
+): OutputUnit {
+  const result: OutputUnit = { ...output };
+
+  if (output.code !== undefined && output.params !== undefined) {
+    const message = formatMessage(
+      catalog,
+      output.code as ErrorCode,
+      output.params as ErrorParams[ErrorCode],
+    );
+    if (message !== undefined) {
+      result.error = message;
+    }
+  }
+
+  if (output.errors !== undefined) {
+    result.errors = output.errors.map((unit: OutputUnit): OutputUnit =>
+      localizeOutput(unit, catalog),
+    );
+  }
+  if (output.annotations !== undefined) {
+    result.annotations = output.annotations.map(
+      (unit: OutputUnit): OutputUnit => localizeOutput(unit, catalog),
+    );
+  }
+
+  return result;
+}
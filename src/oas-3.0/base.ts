@@ -0,0 +1,135 @@
+import { currentFrame, currentLocation } from "tool-json";
+import { ValidationError } from "../error.ts";
+import type { SchemaContext, SchemaFrame } from "../context.ts";
+import type { Keyword } from "../keyword.ts";
+import { AnnotationKeyword } from "../keyword.ts";
+import {
+  deprecatedKeyword,
+  readOnlyKeyword,
+  writeOnlyKeyword,
+} from "../draft-2020-12/meta-data.ts";
+import type {
+  DiscriminatorKeyword,
+  XmlKeyword,
+  ExternalDocsKeyword,
+} from "../oas-3.1/base.ts";
+import {
+  discriminatorKeyword,
+  xmlKeyword,
+  externalDocsKeyword,
+  exampleKeyword,
+} from "../oas-3.1/base.ts";
+
+/**
+ * A Schema Object that uses the fixed fields OpenAPI v3.0 adds
+ * to JSON Schema.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.7.24.2](https://spec.openapis.org/oas/v3.0.3.html#fixed-fields-19)
+ * @category Vocabularies
+ */
+export interface BaseVocabulary {
+  /**
+   * A `true` value adds `null` to the allowed types specified by
+   * the adjacent `type` keyword. Has no effect without `type`.
+   *
+   * @see [OpenAPI Specification v3.0.3 §4.7.24.2](https://spec.openapis.org/oas/v3.0.3.html#fixed-fields-19)
+   */
+  readonly nullable?: boolean;
+
+  /**
+   * Determines which of a set of schemas a payload is expected to satisfy.
+   *
+   * @see [OpenAPI Specification v3.0.3 §4.7.25](https://spec.openapis.org/oas/v3.0.3.html#discriminator-object)
+   */
+  readonly discriminator?: DiscriminatorKeyword;
+
+  /**
+   * Declares the property as "read only", meaning it may be sent
+   * in responses, but shouldn't be sent in requests.
+   *
+   * @see [OpenAPI Specification v3.0.3 §4.7.24.2](https://spec.openapis.org/oas/v3.0.3.html#fixed-fields-19)
+   */
+  readonly readOnly?: boolean;
+
+  /**
+   * Declares the property as "write only", meaning it may be sent
+   * in requests, but shouldn't be sent in responses.
+   *
+   * @see [OpenAPI Specification v3.0.3 §4.7.24.2](https://spec.openapis.org/oas/v3.0.3.html#fixed-fields-19)
+   */
+  readonly writeOnly?: boolean;
+
+  /**
+   * Adds additional metadata to describe the XML representation
+   * of this property.
+   *
+   * @see [OpenAPI Specification v3.0.3 §4.7.26](https://spec.openapis.org/oas/v3.0.3.html#xml-object)
+   */
+  readonly xml?: XmlKeyword;
+
+  /**
+   * Additional external documentation for this schema.
+   *
+   * @see [OpenAPI Specification v3.0.3 §4.7.11](https://spec.openapis.org/oas/v3.0.3.html#external-documentation-object)
+   */
+  readonly externalDocs?: ExternalDocsKeyword;
+
+  /**
+   * A free-form field to include an example of an instance for this schema.
+   *
+   * @see [OpenAPI Specification v3.0.3 §4.7.24.2](https://spec.openapis.org/oas/v3.0.3.html#fixed-fields-19)
+   */
+  readonly example?: unknown;
+
+  /**
+   * Specifies that the schema is deprecated and should be
+   * transitioned out of usage.
+   *
+   * @see [OpenAPI Specification v3.0.3 §4.7.24.2](https://spec.openapis.org/oas/v3.0.3.html#fixed-fields-19)
+   */
+  readonly deprecated?: boolean;
+}
+
+/**
+ * The `nullable` keyword.
+ *
+ * Only annotates the instance; the adjacent `type` keyword
+ * admits `null` instances when `nullable` is `true`.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.7.24.2](https://spec.openapis.org/oas/v3.0.3.html#fixed-fields-19)
+ * @category Keywords
+ */
+export const nullableKeyword = {
+  ...AnnotationKeyword.prototype,
+  key: "nullable",
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    if (typeof node !== "boolean") {
+      throw new ValidationError('"nullable" must be a boolean', {
+        location: currentLocation(context),
+      });
+    }
+  },
+} as const satisfies Keyword<boolean>;
+
+/**
+ * The fixed fields OpenAPI v3.0 adds to JSON Schema.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.7.24.2](https://spec.openapis.org/oas/v3.0.3.html#fixed-fields-19)
+ * @category Vocabularies
+ */
+export const baseVocabulary = {
+  keywords: {
+    nullable: nullableKeyword,
+    discriminator: discriminatorKeyword,
+    readOnly: readOnlyKeyword,
+    writeOnly: writeOnlyKeyword,
+    xml: xmlKeyword,
+    externalDocs: externalDocsKeyword,
+    example: exampleKeyword,
+    deprecated: deprecatedKeyword,
+  },
+} as const;
@@ -0,0 +1,59 @@
+import type { Keyword } from "../keyword.ts";
+import {
+  $schemaKeyword,
+  $refKeyword as $refKeyword202012,
+} from "../draft-2020-12/core.ts";
+
+/**
+ * A Schema Object that uses the OpenAPI v3.0 core keywords.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.7.23](https://spec.openapis.org/oas/v3.0.3.html#reference-object)
+ * @category Vocabularies
+ */
+export interface CoreVocabulary {
+  /**
+   * A URI identifying the dialect of the schema. OpenAPI v3.0 doesn't
+   * define this keyword; it's only recognized to select the dialect
+   * of standalone schemas.
+   */
+  readonly $schema?: string;
+
+  /**
+   * A URI-reference to the schema to apply in place of this one.
+   * All sibling keywords are ignored.
+   *
+   * @see [OpenAPI Specification v3.0.3 §4.7.23](https://spec.openapis.org/oas/v3.0.3.html#reference-object)
+   */
+  readonly $ref?: string;
+}
+
+/**
+ * The `$ref` keyword.
+ *
+ * Unlike JSON Schema Draft 2019-09 and later, a schema that contains
+ * a `$ref` keyword is a Reference Object, rather than a Schema Object.
+ * Any keywords adjacent to `$ref` aren't parsed or applied.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.7.23](https://spec.openapis.org/oas/v3.0.3.html#reference-object)
+ * @category Keywords
+ */
+export const $refKeyword = {
+  ...$refKeyword202012,
+
+  // §4.7.23 ¶1: This object cannot be extended with additional properties
+  // and any properties added SHALL be ignored.
+  exclusive: true,
+} as const satisfies Keyword<string>;
+
+/**
+ * The OpenAPI v3.0 core keywords.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.7.24](https://spec.openapis.org/oas/v3.0.3.html#schema-object)
+ * @category Vocabularies
+ */
+export const coreVocabulary = {
+  keywords: {
+    $schema: $schemaKeyword,
+    $ref: $refKeyword,
+  },
+} as const;
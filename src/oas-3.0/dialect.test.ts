@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { parseSchema } from "tool-schema";
+
+void suite("OAS 3.0", () => {
+  void test("supports type assertions", async () => {
+    const schema = await parseSchema({
+      $schema: "https://spec.openapis.org/oas/3.0/dialect/base",
+      type: "string",
+    });
+    assert(schema.validate("hello").valid);
+    assert(!schema.validate(null).valid);
+  });
+
+  void test("rejects type arrays and null types", async () => {
+    await assert.rejects(
+      parseSchema({
+        $schema: "https://spec.openapis.org/oas/3.0/dialect/base",
+        type: ["string", "null"],
+      }),
+    );
+    await assert.rejects(
+      parseSchema({
+        $schema: "https://spec.openapis.org/oas/3.0/dialect/base",
+        type: "null",
+      }),
+    );
+  });
+
+  void test("admits null instances of nullable types", async () => {
+    const schema = await parseSchema({
+      $schema: "https://spec.openapis.org/oas/3.0/dialect/base",
+      type: "string",
+      nullable: true,
+    });
+    assert(schema.validate("hello").valid);
+    assert(schema.validate(null).valid);
+    assert(!schema.validate(1).valid);
+  });
+
+  void test("doesn't admit null instances excluded by enum", async () => {
+    const schema = await parseSchema({
+      $schema: "https://spec.openapis.org/oas/3.0/dialect/base",
+      type: "string",
+      nullable: true,
+      enum: ["a", "b"],
+    });
+    assert(schema.validate("a").valid);
+    assert(!schema.validate(null).valid);
+  });
+
+  void test("supports boolean exclusive bounds", async () => {
+    const schema = await parseSchema({
+      $schema: "https://spec.openapis.org/oas/3.0/dialect/base",
+      type: "number",
+      minimum: 0,
+      exclusiveMinimum: true,
+      maximum: 10,
+    });
+    assert(schema.validate(10).valid);
+    assert(!schema.validate(0).valid);
+  });
+
+  void test("ignores keywords adjacent to $ref", async () => {
+    const schema = await parseSchema({
+      $schema: "https://spec.openapis.org/oas/3.0/dialect/base",
+      type: "object",
+      properties: {
+        child: { $ref: "#", type: "string", nullable: "invalid" },
+      },
+    });
+    assert(schema.validate({ child: {} }).valid);
+    assert(!schema.validate({ child: "hello" }).valid);
+  });
+
+  void test("doesn't parse keywords adjacent to $ref", async () => {
+    const schema = await parseSchema({
+      $schema: "https://spec.openapis.org/oas/3.0/dialect/base",
+      type: "object",
+      properties: {
+        child: {
+          $ref: "#",
+          allOf: "invalid",
+          enum: "invalid",
+          minimum: "invalid",
+          required: "invalid",
+        },
+      },
+    });
+    assert(schema.validate({ child: {} }).valid);
+  });
+
+  void test("validates numeric formats", async () => {
+    const schema = await parseSchema(
+      {
+        $schema: "https://spec.openapis.org/oas/3.0/dialect/base",
+        type: "integer",
+        format: "int32",
+      },
+      { validation: true },
+    );
+    assert(schema.validate(2147483647).valid);
+    assert(!schema.validate(2147483648).valid);
+  });
+
+  void test("validates byte formats", async () => {
+    const schema = await parseSchema(
+      {
+        $schema: "https://spec.openapis.org/oas/3.0/dialect/base",
+        type: "string",
+        format: "byte",
+      },
+      { validation: true },
+    );
+    assert(schema.validate("aGVsbG8=").valid);
+    assert(!schema.validate("not base64!").valid);
+  });
+
+  void test("supports discriminator keywords", async () => {
+    const schema = await parseSchema({
+      $schema: "https://spec.openapis.org/oas/3.0/dialect/base",
+      type: "object",
+      required: ["petType"],
+      properties: {
+        petType: { type: "string" },
+      },
+      discriminator: {
+        propertyName: "petType",
+      },
+      xml: { name: "pet" },
+      externalDocs: { url: "https://example.com/docs" },
+      example: { petType: "dog" },
+    });
+    assert(schema.validate({ petType: "dog" }).valid);
+  });
+});
@@ -0,0 +1,167 @@
+import type { Format } from "../format.ts";
+import type { Dialect } from "../dialect.ts";
+import * as jsonSchemaFormats from "../format/mod.ts";
+import type { CoreVocabulary } from "./core.ts";
+import { coreVocabulary } from "./core.ts";
+import type { ValidationVocabulary } from "./validation.ts";
+import { validationVocabulary } from "./validation.ts";
+import type { BaseVocabulary } from "./base.ts";
+import { baseVocabulary } from "./base.ts";
+import { formats } from "./format.ts";
+
+/**
+ * A Schema Object that uses the OpenAPI v3.0 dialect.
+ *
+ * @see [JSON Schema Validation Draft 05](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00)
+ * @see [OpenAPI Specification v3.0.3 §4.7.24](https://spec.openapis.org/oas/v3.0.3.html#schema-object)
+ * @category Dialect
+ */
+export interface Schema
+  extends CoreVocabulary, ValidationVocabulary<Schema>, BaseVocabulary {}
+
+/**
+ * The OpenAPI v3.0 Schema Object dialect, an extended subset
+ * of JSON Schema Draft 05.
+ *
+ * OpenAPI v3.0 doesn't assign its Schema Object a dialect URI;
+ * this dialect is identified by analogy with the OpenAPI v3.1
+ * base dialect.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.7.24](https://spec.openapis.org/oas/v3.0.3.html#schema-object)
+ * @category Dialect
+ */
+export const dialect = {
+  uri: "https://spec.openapis.org/oas/3.0/dialect/base",
+
+  formats: {
+    ...(jsonSchemaFormats as { readonly [format: string]: Format }),
+    ...formats,
+  },
+
+  keywords: {
+    ...coreVocabulary.keywords,
+    ...validationVocabulary.keywords,
+    ...baseVocabulary.keywords,
+  },
+
+  vocabularies: {},
+
+  node: {
+    id: "https://spec.openapis.org/oas/3.0/dialect/base",
+    $schema: "http://json-schema.org/draft-04/schema#",
+    description: "The Schema Object of OpenAPI v3.0",
+    oneOf: [
+      { $ref: "#/definitions/Schema" },
+      { $ref: "#/definitions/Reference" },
+    ],
+    definitions: {
+      Schema: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          multipleOf: { type: "number", minimum: 0, exclusiveMinimum: true },
+          maximum: { type: "number" },
+          exclusiveMaximum: { type: "boolean", default: false },
+          minimum: { type: "number" },
+          exclusiveMinimum: { type: "boolean", default: false },
+          maxLength: { type: "integer", minimum: 0 },
+          minLength: { type: "integer", minimum: 0, default: 0 },
+          pattern: { type: "string", format: "regex" },
+          maxItems: { type: "integer", minimum: 0 },
+          minItems: { type: "integer", minimum: 0, default: 0 },
+          uniqueItems: { type: "boolean", default: false },
+          maxProperties: { type: "integer", minimum: 0 },
+          minProperties: { type: "integer", minimum: 0, default: 0 },
+          required: {
+            type: "array",
+            items: { type: "string" },
+            minItems: 1,
+            uniqueItems: true,
+          },
+          enum: {
+            type: "array",
+            items: {},
+            minItems: 1,
+            uniqueItems: false,
+          },
+          type: {
+            type: "string",
+            enum: ["array", "boolean", "integer", "number", "object", "string"],
+          },
+          not: { $ref: "#" },
+          allOf: { type: "array", items: { $ref: "#" } },
+          oneOf: { type: "array", items: { $ref: "#" } },
+          anyOf: { type: "array", items: { $ref: "#" } },
+          items: { $ref: "#" },
+          properties: {
+            type: "object",
+            additionalProperties: { $ref: "#" },
+          },
+          additionalProperties: {
+            oneOf: [{ $ref: "#" }, { type: "boolean" }],
+            default: true,
+          },
+          description: { type: "string" },
+          format: { type: "string" },
+          default: {},
+          nullable: { type: "boolean", default: false },
+          discriminator: { $ref: "#/definitions/Discriminator" },
+          readOnly: { type: "boolean", default: false },
+          writeOnly: { type: "boolean", default: false },
+          example: {},
+          externalDocs: { $ref: "#/definitions/ExternalDocumentation" },
+          deprecated: { type: "boolean", default: false },
+          xml: { $ref: "#/definitions/XML" },
+        },
+        patternProperties: {
+          "^x-": {},
+        },
+        additionalProperties: false,
+      },
+      Reference: {
+        type: "object",
+        required: ["$ref"],
+        patternProperties: {
+          "^\\$ref$": { type: "string", format: "uri-reference" },
+        },
+      },
+      Discriminator: {
+        type: "object",
+        required: ["propertyName"],
+        properties: {
+          propertyName: { type: "string" },
+          mapping: {
+            type: "object",
+            additionalProperties: { type: "string" },
+          },
+        },
+      },
+      ExternalDocumentation: {
+        type: "object",
+        required: ["url"],
+        properties: {
+          description: { type: "string" },
+          url: { type: "string", format: "uri-reference" },
+        },
+        patternProperties: {
+          "^x-": {},
+        },
+        additionalProperties: false,
+      },
+      XML: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          namespace: { type: "string", format: "uri" },
+          prefix: { type: "string" },
+          attribute: { type: "boolean", default: false },
+          wrapped: { type: "boolean", default: false },
+        },
+        patternProperties: {
+          "^x-": {},
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+} as const satisfies Dialect;
@@ -0,0 +1,168 @@
+import { currentFrame } from "tool-json";
+import type { SchemaContext, SchemaFrame } from "../context.ts";
+import { attachError } from "../output.ts";
+import { Format } from "../format.ts";
+
+/**
+ * The largest finite single precision floating point number.
+ */
+const maxFloat = 3.4028234663852886e38;
+
+/**
+ * A numeric instance is valid against this attribute if it's
+ * a signed 32-bit integer.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.4](https://spec.openapis.org/oas/v3.0.3.html#data-types)
+ */
+export const int32Format = {
+  name: "int32",
+  validate(context: SchemaContext): void {
+    validateNumber(
+      context,
+      "int32",
+      (instance: number): boolean =>
+        Number.isInteger(instance) &&
+        instance >= -2147483648 &&
+        instance <= 2147483647,
+      "not a signed 32-bit integer",
+    );
+  },
+} as const satisfies Format;
+
+/**
+ * A numeric instance is valid against this attribute if it's
+ * a signed 64-bit integer. Integers beyond `Number.MAX_SAFE_INTEGER`
+ * can't be represented exactly, so only their range is checked.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.4](https://spec.openapis.org/oas/v3.0.3.html#data-types)
+ */
+export const int64Format = {
+  name: "int64",
+  validate(context: SchemaContext): void {
+    validateNumber(
+      context,
+      "int64",
+      (instance: number): boolean =>
+        Number.isInteger(instance) &&
+        instance >= -(2 ** 63) &&
+        instance < 2 ** 63,
+      "not a signed 64-bit integer",
+    );
+  },
+} as const satisfies Format;
+
+/**
+ * A numeric instance is valid against this attribute if it's
+ * within the range of a single precision floating point number.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.4](https://spec.openapis.org/oas/v3.0.3.html#data-types)
+ */
+export const floatFormat = {
+  name: "float",
+  validate(context: SchemaContext): void {
+    validateNumber(
+      context,
+      "float",
+      (instance: number): boolean => Math.abs(instance) <= maxFloat,
+      "not a single precision number",
+    );
+  },
+} as const satisfies Format;
+
+/**
+ * A numeric instance is valid against this attribute if it's
+ * a finite double precision floating point number.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.4](https://spec.openapis.org/oas/v3.0.3.html#data-types)
+ */
+export const doubleFormat = {
+  name: "double",
+  validate(context: SchemaContext): void {
+    validateNumber(
+      context,
+      "double",
+      Number.isFinite,
+      "not a double precision number",
+    );
+  },
+} as const satisfies Format;
+
+/**
+ * A string instance is valid against this attribute if it's
+ * base64 encoded characters, as defined by
+ * [RFC 4648 §4](https://datatracker.ietf.org/doc/html/rfc4648#section-4).
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.4](https://spec.openapis.org/oas/v3.0.3.html#data-types)
+ */
+export const byteFormat = {
+  ...Format.prototype,
+  name: "byte",
+  parse(input: string): string {
+    if (
+      !/^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/.test(
+        input,
+      )
+    ) {
+      throw new Error("Invalid base64 string");
+    }
+    return input;
+  },
+} as const satisfies Format<string>;
+
+/**
+ * Any sequence of octets. All string instances are valid
+ * against this attribute.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.4](https://spec.openapis.org/oas/v3.0.3.html#data-types)
+ */
+export const binaryFormat = {
+  name: "binary",
+} as const satisfies Format;
+
+/**
+ * A hint to obscure the value of a string. All string instances
+ * are valid against this attribute.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.4](https://spec.openapis.org/oas/v3.0.3.html#data-types)
+ */
+export const passwordFormat = {
+  name: "password",
+} as const satisfies Format;
+
+/**
+ * Attaches a format error to the output of the keyword at the top
+ * of the stack if its numeric instance doesn't satisfy the given predicate.
+ */
+function validateNumber(
+  context: SchemaContext,
+  format: string,
+  predicate: (instance: number) => boolean,
+  message: string,
+): void {
+  const frame = currentFrame(context) as SchemaFrame;
+  const instance = frame.instance;
+
+  if (typeof instance !== "number") {
+    return; // Not applicable.
+  }
+
+  if (!predicate(instance)) {
+    attachError(context, message, "format", { format, message });
+  }
+}
+
+/**
+ * The formats defined by OpenAPI v3.0.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.4](https://spec.openapis.org/oas/v3.0.3.html#data-types)
+ * @category Dialect
+ */
+export const formats = {
+  int32: int32Format,
+  int64: int64Format,
+  float: floatFormat,
+  double: doubleFormat,
+  byte: byteFormat,
+  binary: binaryFormat,
+  password: passwordFormat,
+} as const satisfies { readonly [name: string]: Format };
@@ -0,0 +1,22 @@
+export type { CoreVocabulary } from "./core.ts";
+export { $refKeyword, coreVocabulary } from "./core.ts";
+
+export type { DataType, ValidationVocabulary } from "./validation.ts";
+export { typeKeyword, validationVocabulary } from "./validation.ts";
+
+export type { BaseVocabulary } from "./base.ts";
+export { nullableKeyword, baseVocabulary } from "./base.ts";
+
+export {
+  int32Format,
+  int64Format,
+  floatFormat,
+  doubleFormat,
+  byteFormat,
+  binaryFormat,
+  passwordFormat,
+  formats,
+} from "./format.ts";
+
+export type { Schema } from "./dialect.ts";
+export { dialect } from "./dialect.ts";
@@ -0,0 +1,427 @@
+import type { NodeType } from "tool-json";
+import {
+  referToType,
+  isObject,
+  isType,
+  currentFrame,
+  currentLocation,
+} from "tool-json";
+import { ValidationError } from "../error.ts";
+import type { SchemaContext, SchemaFrame } from "../context.ts";
+import { attachError } from "../output.ts";
+import { Keyword } from "../keyword.ts";
+import type { ModuleGenerator } from "../generate.ts";
+import { generateAssertion } from "../generate.ts";
+import {
+  allOfKeyword,
+  anyOfKeyword,
+  oneOfKeyword,
+  notKeyword,
+  itemsKeyword,
+  propertiesKeyword,
+  additionalPropertiesKeyword,
+} from "../draft-2020-12/applicator.ts";
+import {
+  enumKeyword,
+  multipleOfKeyword,
+  maxLengthKeyword,
+  minLengthKeyword,
+  patternKeyword,
+  maxItemsKeyword,
+  minItemsKeyword,
+  uniqueItemsKeyword,
+  maxPropertiesKeyword,
+  minPropertiesKeyword,
+  requiredKeyword,
+  getType,
+} from "../draft-2020-12/validation.ts";
+import { formatAnnotationKeyword } from "../draft-2020-12/format-annotation.ts";
+import {
+  titleKeyword,
+  descriptionKeyword,
+  defaultKeyword,
+} from "../draft-2020-12/meta-data.ts";
+import {
+  maximumKeyword,
+  exclusiveMaximumKeyword,
+  minimumKeyword,
+  exclusiveMinimumKeyword,
+} from "../draft-05/validation.ts";
+
+/**
+ * The data types of OpenAPI v3.0. Unlike JSON Schema,
+ * `null` isn't a type; schemas admit `null` with `nullable`.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.4](https://spec.openapis.org/oas/v3.0.3.html#data-types)
+ * @category Vocabularies
+ */
+export type DataType = Exclude<NodeType, "null">;
+
+/**
+ * A Schema Object that uses the keywords OpenAPI v3.0 takes from
+ * JSON Schema Validation Draft 05, with its own adjusted definitions.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.7.24.1](https://spec.openapis.org/oas/v3.0.3.html#properties)
+ * @category Vocabularies
+ */
+export interface ValidationVocabulary<Schema> {
+  /**
+   * A short description for documentation purposes.
+   *
+   * @see [JSON Schema Validation §6.1](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-6.1)
+   */
+  readonly title?: string;
+
+  /**
+   * A detailed description for documentation purposes.
+   * [CommonMark](https://spec.commonmark.org/) syntax may be used
+   * for rich text representation.
+   *
+   * @see [JSON Schema Validation §6.1](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-6.1)
+   */
+  readonly description?: string;
+
+  /**
+   * A default value, which must conform to the defined type
+   * for the Schema Object.
+   *
+   * @see [JSON Schema Validation §6.2](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-6.2)
+   */
+  readonly default?: unknown;
+
+  /**
+   * The data type of valid instances. Must be a single string.
+   *
+   * @see [OpenAPI Specification v3.0.3 §4.7.24.1](https://spec.openapis.org/oas/v3.0.3.html#properties)
+   */
+  readonly type?: DataType;
+
+  /**
+   * An array of values, to one of which an instance must be equal.
+   *
+   * @see [JSON Schema Validation §5.20](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.20)
+   */
+  readonly enum?: readonly unknown[];
+
+  /**
+   * The format of the data type, which may be any of the formats defined
+   * by JSON Schema, the formats defined by OpenAPI, or any other string.
+   *
+   * @see [OpenAPI Specification v3.0.3 §4.4](https://spec.openapis.org/oas/v3.0.3.html#data-types)
+   */
+  readonly format?: string;
+
+  /**
+   * A factor by which numeric instances must be an integer multiple.
+   * Must be strictly greater than `0`.
+   *
+   * @see [JSON Schema Validation §5.1](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.1)
+   */
+  readonly multipleOf?: number;
+
+  /**
+   * The inclusive upper bound for numeric instances.
+   *
+   * @see [JSON Schema Validation §5.2](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.2)
+   */
+  readonly maximum?: number;
+
+  /**
+   * Whether the limit in "maximum" is exclusive or not.
+   *
+   * @see [JSON Schema Validation §5.3](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.3)
+   */
+  readonly exclusiveMaximum?: boolean;
+
+  /**
+   * The inclusive lower bound for numeric instances.
+   *
+   * @see [JSON Schema Validation §5.4](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.4)
+   */
+  readonly minimum?: number;
+
+  /**
+   * Whether the limit in "minimum" is exclusive or not.
+   *
+   * @see [JSON Schema Validation §5.5](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.5)
+   */
+  readonly exclusiveMinimum?: boolean;
+
+  /**
+   * The maximum length of string instances. Must be a non-negative integer.
+   *
+   * @see [JSON Schema Validation §5.6](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.6)
+   */
+  readonly maxLength?: number;
+
+  /**
+   * The minimum length of string instances. Must be a non-negative integer.
+   *
+   * @see [JSON Schema Validation §5.7](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.7)
+   */
+  readonly minLength?: number;
+
+  /**
+   * A regular expression pattern that string instances must match.
+   * Should be a valid regex according to ECMA-262.
+   *
+   * @see [JSON Schema Validation §5.8](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.8)
+   */
+  readonly pattern?: string;
+
+  /**
+   * A schema to validate all items in array instances.
+   * Must be a single schema, not an array.
+   *
+   * @see [OpenAPI Specification v3.0.3 §4.7.24.1](https://spec.openapis.org/oas/v3.0.3.html#properties)
+   */
+  readonly items?: Schema;
+
+  /**
+   * The maximum number of items allowed in array instances.
+   * Must be a non-negative integer.
+   *
+   * @see [JSON Schema Validation §5.10](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.10)
+   */
+  readonly maxItems?: number;
+
+  /**
+   * The minimum number of items required in array instances.
+   * Must be a non-negative integer.
+   *
+   * @see [JSON Schema Validation §5.11](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.11)
+   */
+  readonly minItems?: number;
+
+  /**
+   * Indicates that all items in array instances must be unique.
+   *
+   * @see [JSON Schema Validation §5.12](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.12)
+   */
+  readonly uniqueItems?: boolean;
+
+  /**
+   * The maximum number of properties allowed in object instances.
+   * Must be a non-negative integer.
+   *
+   * @see [JSON Schema Validation §5.13](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.13)
+   */
+  readonly maxProperties?: number;
+
+  /**
+   * The minimum number of properties required in object instances.
+   * Must be a non-negative integer.
+   *
+   * @see [JSON Schema Validation §5.14](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.14)
+   */
+  readonly minProperties?: number;
+
+  /**
+   * A list of property names that object instances are required to have.
+   * Elements must be unique.
+   *
+   * @see [JSON Schema Validation §5.15](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.15)
+   */
+  readonly required?: readonly string[];
+
+  /**
+   * Schemas for validating the properties of object instances.
+   *
+   * @see [JSON Schema Validation §5.16](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.16)
+   */
+  readonly properties?: { readonly [key: string]: Schema };
+
+  /**
+   * A schema for properties not matched by `properties`.
+   *
+   * @see [JSON Schema Validation §5.18](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.18)
+   */
+  readonly additionalProperties?: Schema | boolean;
+
+  /**
+   * An array of schemas, all of which must validate instances.
+   *
+   * @see [JSON Schema Validation §5.22](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.22)
+   */
+  readonly allOf?: readonly Schema[];
+
+  /**
+   * An array of schemas, at least one of which must validate instances.
+   *
+   * @see [JSON Schema Validation §5.23](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.23)
+   */
+  readonly anyOf?: readonly Schema[];
+
+  /**
+   * An array of schemas, exactly one of which must validate instances.
+   *
+   * @see [JSON Schema Validation §5.24](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.24)
+   */
+  readonly oneOf?: readonly Schema[];
+
+  /**
+   * A schema which instances must not validate against.
+   *
+   * @see [JSON Schema Validation §5.25](https://datatracker.ietf.org/doc/html/draft-wright-json-schema-validation-00#section-5.25)
+   */
+  readonly not?: Schema;
+}
+
+/**
+ * The data types allowed by the OpenAPI v3.0 `type` keyword.
+ */
+const dataTypes: ReadonlySet<string> = new Set([
+  "array",
+  "boolean",
+  "integer",
+  "number",
+  "object",
+  "string",
+]);
+
+/**
+ * The `type` keyword.
+ *
+ * Unlike JSON Schema, the value must be a single data type other than
+ * `null`. An adjacent `nullable` keyword with a value of `true` also
+ * admits `null` instances.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.7.24.1](https://spec.openapis.org/oas/v3.0.3.html#properties)
+ * @category Keywords
+ */
+export const typeKeyword = {
+  ...Keyword.prototype,
+  key: "type",
+
+  parse(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node;
+
+    // §4.7.24.1: Value MUST be a string. Multiple types via an array
+    // are not supported.
+    if (typeof node !== "string") {
+      throw new ValidationError('"type" must be a string', {
+        location: currentLocation(context),
+      });
+    }
+
+    // §4.4 ¶2: null is not supported as a type.
+    if (!dataTypes.has(node)) {
+      throw new ValidationError("Unsupported type " + JSON.stringify(node), {
+        location: currentLocation(context),
+      });
+    }
+  },
+
+  validate(context: SchemaContext): void {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as DataType;
+    const instance = frame.instance;
+
+    const nullable = isNullable(frame.parent?.node);
+
+    // §4.7.24.2: A true value of "nullable" adds "null" to the allowed
+    // types specified by the type keyword.
+    if (nullable && instance === null) {
+      return;
+    }
+
+    if (!isType(node, instance)) {
+      attachError(context, typeMessage(node, nullable), "type", {
+        expected: nullable ? [node, "null"] : [node],
+        actual: getType(instance),
+      });
+    }
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    const frame = currentFrame(context) as SchemaFrame;
+    const node = frame.node as DataType;
+
+    const nullable = isNullable(frame.parent?.node);
+
+    return generateAssertion(
+      context,
+      nullable ?
+        "!(instance === null || " + generateTypeCheck(node) + ")"
+      : "!(" + generateTypeCheck(node) + ")",
+      typeMessage(node, nullable),
+    );
+  },
+} as const satisfies Keyword<DataType>;
+
+/**
+ * Returns `true` if the given schema node has a `nullable` keyword
+ * with a value of `true`.
+ */
+function isNullable(node: unknown): boolean {
+  return isObject(node) && node.nullable === true;
+}
+
+/**
+ * Returns an expression that tests whether `instance` has the given type.
+ */
+function generateTypeCheck(type: DataType): string {
+  switch (type) {
+    case "boolean":
+      return 'typeof instance === "boolean"';
+    case "integer":
+      return "Number.isInteger(instance)";
+    case "number":
+      return 'typeof instance === "number"';
+    case "string":
+      return 'typeof instance === "string"';
+    case "array":
+      return "Array.isArray(instance)";
+    case "object":
+      return "isObject(instance)";
+    default:
+      return "false";
+  }
+}
+
+/**
+ * Returns the error message for an instance that doesn't have
+ * the given type.
+ */
+function typeMessage(type: DataType, nullable: boolean): string {
+  return "not " + referToType(type) + (nullable ? " or null" : "");
+}
+
+/**
+ * The OpenAPI v3.0 keywords taken from JSON Schema Validation Draft 05.
+ *
+ * @see [OpenAPI Specification v3.0.3 §4.7.24.1](https://spec.openapis.org/oas/v3.0.3.html#properties)
+ * @category Vocabularies
+ */
+export const validationVocabulary = {
+  keywords: {
+    title: titleKeyword,
+    description: descriptionKeyword,
+    default: defaultKeyword,
+    type: typeKeyword,
+    enum: enumKeyword,
+    format: formatAnnotationKeyword,
+    multipleOf: multipleOfKeyword,
+    maximum: maximumKeyword,
+    exclusiveMaximum: exclusiveMaximumKeyword,
+    minimum: minimumKeyword,
+    exclusiveMinimum: exclusiveMinimumKeyword,
+    maxLength: maxLengthKeyword,
+    minLength: minLengthKeyword,
+    pattern: patternKeyword,
+    items: itemsKeyword,
+    maxItems: maxItemsKeyword,
+    minItems: minItemsKeyword,
+    uniqueItems: uniqueItemsKeyword,
+    maxProperties: maxPropertiesKeyword,
+    minProperties: minPropertiesKeyword,
+    required: requiredKeyword,
+    properties: propertiesKeyword,
+    additionalProperties: additionalPropertiesKeyword,
+    allOf: allOfKeyword,
+    anyOf: anyOfKeyword,
+    oneOf: oneOfKeyword,
+    not: notKeyword,
+  },
+} as const;
@@ -1,9 +1,37 @@
-import { isObject, currentFrame, currentLocation } from "tool-json";
-import { ValidationError } from "../error.ts";
+import { parseUriReference, resolveUri } from "tool-uri";
+import {
+  isObject,
+  nestFrame,
+  currentFrame,
+  currentBaseUri,
+  currentLocation,
+  getResource,
+} from "tool-json";
+import { ValidationError, GenerateError } from "../error.ts";
 import type { SchemaContext, SchemaFrame } from "../context.ts";
+import { emitOutput, attachError } from "../output.ts";
 import type { Keyword } from "../keyword.ts";
 import { AnnotationKeyword } from "../keyword.ts";
 import type { Vocabulary } from "../vocabulary.ts";
+import type { ModuleGenerator } from "../generate.ts";
+import { isSchemaResource, validateSchemaResource } from "../resource.ts";
+import {
+  anyOfKeyword as anyOfKeyword202012,
+  oneOfKeyword as oneOfKeyword202012,
+} from "../draft-2020-12/applicator.ts";
+
+declare module "../output.ts" {
+  interface ErrorParams {
+    /** The instance has no string value for the discriminating property. */
+    discriminatorProperty: { readonly propertyName: string };
+
+    /** The discriminating `value` doesn't select any subschema. */
+    discriminatorValue: {
+      readonly propertyName: string;
+      readonly value: string;
+    };
+  }
+}
 
 /**
  * A JSON Schema that uses the OpenAPI v3.1 Base vocabulary.
@@ -210,6 +238,241 @@ export const exampleKeyword = {
   key: "example",
 } as const satisfies Keyword<unknown>;
 
+/**
+ * The `anyOf` keyword.
+ *
+ * When discriminator enforcement is enabled, an adjacent `discriminator`
+ * keyword selects the only subschema against which object instances
+ * are evaluated.
+ *
+ * @see [OpenAPI Specification §4.8.25.2](https://spec.openapis.org/oas/v3.1.1.html#conditions-for-using-the-discriminator-object)
+ * @category Keywords
+ */
+export const anyOfKeyword = {
+  ...anyOfKeyword202012,
+
+  validate(context: SchemaContext): void {
+    if (!validateDiscriminator(context, "anyOf")) {
+      anyOfKeyword202012.validate(context);
+    }
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    checkDiscriminatorGeneration(context);
+    return anyOfKeyword202012.generate(context, generator);
+  },
+} as const satisfies Keyword<readonly unknown[]>;
+
+/**
+ * The `oneOf` keyword.
+ *
+ * When discriminator enforcement is enabled, an adjacent `discriminator`
+ * keyword selects the only subschema against which object instances
+ * are evaluated.
+ *
+ * @see [OpenAPI Specification §4.8.25.2](https://spec.openapis.org/oas/v3.1.1.html#conditions-for-using-the-discriminator-object)
+ * @category Keywords
+ */
+export const oneOfKeyword = {
+  ...oneOfKeyword202012,
+
+  validate(context: SchemaContext): void {
+    if (!validateDiscriminator(context, "oneOf")) {
+      oneOfKeyword202012.validate(context);
+    }
+  },
+
+  generate(context: SchemaContext, generator: ModuleGenerator): string {
+    checkDiscriminatorGeneration(context);
+    return oneOfKeyword202012.generate(context, generator);
+  },
+} as const satisfies Keyword<readonly unknown[]>;
+
+/**
+ * Returns the enforceable discriminator of the schema that contains the
+ * keyword at the top of the stack, or `undefined` if discriminators aren't
+ * enforced, or if the schema has no valid discriminator.
+ */
+function getDiscriminator(
+  context: SchemaContext,
+): DiscriminatorKeyword | undefined {
+  if (context.discriminator !== true) {
+    return undefined;
+  }
+
+  const frame = currentFrame(context) as SchemaFrame;
+  const parentNode = frame.parent?.node;
+  if (!isObject(parentNode)) {
+    return undefined;
+  }
+
+  const discriminator = parentNode.discriminator;
+  if (
+    !isObject(discriminator) ||
+    typeof discriminator.propertyName !== "string"
+  ) {
+    return undefined;
+  }
+
+  return discriminator as unknown as DiscriminatorKeyword;
+}
+
+/**
+ * Validates the instance at the top of the stack against the subschema
+ * of the `anyOf` or `oneOf` keyword at the top of the stack selected
+ * by the adjacent discriminator. Returns `false` if the keyword isn't
+ * discriminated, in which case no validation is performed.
+ */
+function validateDiscriminator(
+  context: SchemaContext,
+  code: "anyOf" | "oneOf",
+): boolean {
+  const frame = currentFrame(context) as SchemaFrame;
+  const node = frame.node as readonly unknown[];
+  const instance = frame.instance;
+
+  const discriminator = getDiscriminator(context);
+  if (discriminator === undefined || !isObject(instance)) {
+    return false;
+  }
+  const propertyName = discriminator.propertyName;
+
+  // §4.8.25.2 ¶1: The discriminating property MUST be a required property
+  // of the schema, so payloads always carry a discriminating value.
+  const value = instance[propertyName];
+  if (typeof value !== "string") {
+    attachError(
+      context,
+      value === undefined ?
+        "missing discriminator property " + JSON.stringify(propertyName)
+      : "discriminator property " +
+          JSON.stringify(propertyName) +
+          " is not a string",
+      "discriminatorProperty",
+      { propertyName },
+    );
+    return true;
+  }
+
+  // §4.8.25.3 ¶3: If the discriminating value does not match a schema name
+  // or implicit mapping, no schema can be determined and validation
+  // SHOULD fail.
+  const index = selectSubschema(context, node, discriminator, value);
+  if (index === undefined) {
+    attachError(
+      context,
+      "unknown discriminator value " + JSON.stringify(value),
+      "discriminatorValue",
+      { propertyName, value },
+    );
+    return true;
+  }
+
+  const subschema = node[index];
+  let valid = true;
+  nestFrame(context, (frame: SchemaFrame): void => {
+    frame.nodeKey = index;
+    frame.node = subschema;
+    frame.instance = instance;
+    frame.output = { valid: true };
+    validateSchemaResource(context);
+    valid = frame.output.valid;
+    emitOutput(context, frame);
+  });
+
+  if (!valid && code === "oneOf") {
+    attachError(context, "not valid against exactly one subschema", "oneOf", {
+      matches: 0,
+    });
+  } else if (!valid) {
+    attachError(context, "not valid against any subschemas", "anyOf", {});
+  }
+  return true;
+}
+
+/**
+ * Returns the index of the subschema selected by the given discriminating
+ * value, or `undefined` if no subschema references the schema to which
+ * the value maps.
+ */
+function selectSubschema(
+  context: SchemaContext,
+  node: readonly unknown[],
+  discriminator: DiscriminatorKeyword,
+  value: string,
+): number | undefined {
+  // §4.8.25.3 ¶1: Unmapped values are implicitly schema names.
+  const mapped = discriminator.mapping?.[value];
+  if (mapped === undefined) {
+    return findSubschema(context, node, "#/components/schemas/" + value);
+  }
+
+  // §4.8.25.3 ¶1: Mapped values are either URI references or schema names.
+  // Prefer URI references, falling back to schema names.
+  const index = findSubschema(context, node, mapped);
+  if (index !== undefined || !/^[a-zA-Z0-9.\-_]+$/.test(mapped)) {
+    return index;
+  }
+  return findSubschema(context, node, "#/components/schemas/" + mapped);
+}
+
+/**
+ * Returns the index of the subschema whose `$ref` resolves to the same URI
+ * as the given URI reference, resolved against the current base URI.
+ */
+function findSubschema(
+  context: SchemaContext,
+  node: readonly unknown[],
+  target: string,
+): number | undefined {
+  const frame = currentFrame(context) as SchemaFrame;
+
+  let targetUri: string;
+  try {
+    targetUri = resolveUri(
+      currentBaseUri(frame),
+      parseUriReference(target),
+    ).href;
+  } catch {
+    return undefined;
+  }
+
+  for (let index = 0; index < node.length; index += 1) {
+    const subschema = node[index];
+    if (!isObject(subschema) || typeof subschema.$ref !== "string") {
+      continue;
+    }
+
+    const resource = getResource(context, subschema);
+    const baseUri =
+      isSchemaResource(resource) ? resource.baseUri : currentBaseUri(frame);
+    try {
+      const refUri = resolveUri(baseUri, parseUriReference(subschema.$ref));
+      if (refUri.href === targetUri) {
+        return index;
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Throws a `GenerateError` if the `anyOf` or `oneOf` keyword at the top
+ * of the stack is discriminated, since discriminated evaluation can't be
+ * generated.
+ */
+function checkDiscriminatorGeneration(context: SchemaContext): void {
+  if (getDiscriminator(context) !== undefined) {
+    throw new GenerateError(
+      "Enforced discriminators do not support generation",
+      { location: currentLocation(context) },
+    );
+  }
+}
+
 /**
  * The OpenAPI v3.1 Base JSON Schema vocabulary.
  *
@@ -224,6 +487,8 @@ export const baseVocabulary = {
     xml: xmlKeyword,
     externalDocs: externalDocsKeyword,
     example: exampleKeyword,
+    anyOf: anyOfKeyword,
+    oneOf: oneOfKeyword,
   },
 
   node: {
@@ -117,3 +117,109 @@ void suite("OAS 3.1", () => {
     assert(schema.validate({ id: 1, name: "root" }).valid);
   });
 });
+
+void suite("OAS 3.1 discriminators", () => {
+  void test("enforces discriminators when enabled", async () => {
+    const schema = await parseSchema(
+      {
+        $schema: "https://spec.openapis.org/oas/3.1/dialect/base",
+        $defs: {
+          Cat: {
+            type: "object",
+            properties: {
+              petType: { const: "cat" },
+              name: { type: "string" },
+            },
+          },
+          Dog: {
+            type: "object",
+            properties: {
+              petType: { const: "dog" },
+              bark: { type: "string" },
+            },
+          },
+        },
+        oneOf: [{ $ref: "#/$defs/Cat" }, { $ref: "#/$defs/Dog" }],
+        discriminator: {
+          propertyName: "petType",
+          mapping: {
+            cat: "#/$defs/Cat",
+            dog: "#/$defs/Dog",
+          },
+        },
+      },
+      { discriminator: true },
+    );
+    assert(schema.validate({ petType: "cat", name: "Misty" }).valid);
+    assert(schema.validate({ petType: "dog", bark: "soft" }).valid);
+
+    const unknown = schema.validate({ petType: "lizard" }, { output: "basic" });
+    assert(!unknown.valid);
+    assert.equal(
+      unknown.errors?.some(
+        (error) => error.error === 'unknown discriminator value "lizard"',
+      ),
+      true,
+    );
+
+    const missing = schema.validate({ name: "Misty" }, { output: "basic" });
+    assert(!missing.valid);
+    assert.equal(
+      missing.errors?.some(
+        (error) => error.error === 'missing discriminator property "petType"',
+      ),
+      true,
+    );
+
+    const invalid = schema.validate(
+      { petType: "cat", name: 1 },
+      { output: "basic" },
+    );
+    assert(!invalid.valid);
+    assert.equal(
+      invalid.errors?.some(
+        (error) => error.keywordLocation?.startsWith("/oneOf/1") === true,
+      ),
+      false,
+    );
+  });
+
+  void test("resolves mapped values as URI references", async () => {
+    const schema = await parseSchema(
+      {
+        $schema: "https://spec.openapis.org/oas/3.1/dialect/base",
+        $id: "https://example.com/schemas/pet.json",
+        $defs: {
+          Cat: {
+            $id: "Cat.json",
+            type: "object",
+            properties: { meow: { type: "string" } },
+          },
+          Dog: {
+            $id: "Dog.json",
+            type: "object",
+            properties: { bark: { type: "string" } },
+          },
+        },
+        oneOf: [{ $ref: "Cat.json" }, { $ref: "Dog.json" }],
+        discriminator: {
+          propertyName: "petType",
+          mapping: { cat: "Cat.json", dog: "Dog.json" },
+        },
+      },
+      { discriminator: true },
+    );
+    assert(schema.validate({ petType: "cat", meow: "soft" }).valid);
+    assert(schema.validate({ petType: "dog", bark: "loud" }).valid);
+    assert.equal(schema.validate({ petType: "cat", meow: 1 }).valid, false);
+  });
+
+  void test("ignores discriminators by default", async () => {
+    const schema = await parseSchema({
+      $schema: "https://spec.openapis.org/oas/3.1/dialect/base",
+      anyOf: [{ type: "object" }],
+      discriminator: { propertyName: "petType" },
+    });
+    assert(schema.validate({ petType: "lizard" }).valid);
+  });
+});
@@ -0,0 +1,228 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { ValidationError, oas31 } from "tool-schema";
+
+const petstore = {
+  openapi: "3.1.0",
+  info: { title: "Petstore", version: "1.0.0" },
+  paths: {
+    "/pets": {
+      get: {
+        operationId: "listPets",
+        parameters: [
+          {
+            name: "limit",
+            in: "query",
+            schema: { type: "integer", maximum: 100 },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "A list of pets",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/Pet" },
+                },
+              },
+            },
+          },
+          default: { $ref: "#/components/responses/Error" },
+        },
+      },
+      post: {
+        operationId: "createPet",
+        requestBody: { $ref: "#/components/requestBodies/Pet" },
+        responses: {
+          "201": { description: "Created" },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: "object",
+        required: ["id", "name"],
+        properties: {
+          id: { type: "integer" },
+          name: { type: "string" },
+        },
+      },
+      Error: {
+        type: "object",
+        required: ["message"],
+        properties: {
+          message: { type: "string" },
+        },
+      },
+    },
+    requestBodies: {
+      Pet: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/Pet" },
+          },
+        },
+      },
+    },
+    responses: {
+      Error: {
+        description: "An error",
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/Error" },
+          },
+        },
+      },
+    },
+  },
+};
+
+void suite("OAS 3.1 documents", () => {
+  void test("registers component schemas", async () => {
+    const document = await oas31.parseDocument(petstore);
+    const schema = document.getComponentSchema("Pet")!;
+    assert(schema.validate({ id: 1, name: "Misty" }).valid);
+    assert(!schema.validate({ id: "1", name: "Misty" }).valid);
+  });
+
+  void test("looks up operations", async () => {
+    const document = await oas31.parseDocument(petstore);
+    assert.equal(document.operations.length, 2);
+    assert.equal(document.getOperation("createPet")?.method, "post");
+    assert.equal(
+      document.findOperation("GET", "/pets")?.operationId,
+      "listPets",
+    );
+  });
+
+  void test("looks up response schemas", async () => {
+    const document = await oas31.parseDocument(petstore);
+    const schema = document.getResponseSchema("listPets", 200)!;
+    assert(schema.validate([{ id: 1, name: "Misty" }]).valid);
+    assert(!schema.validate([{ id: 1 }]).valid);
+
+    const error = document.getResponseSchema("listPets", 500)!;
+    assert(error.validate({ message: "oops" }).valid);
+    assert(!error.validate({}).valid);
+  });
+
+  void test("looks up request body schemas", async () => {
+    const document = await oas31.parseDocument(petstore);
+    const schema = document.getRequestBodySchema(
+      "createPet",
+      "application/json; charset=utf-8",
+    )!;
+    assert(schema.validate({ id: 1, name: "Misty" }).valid);
+    assert(!schema.validate({ name: "Misty" }).valid);
+    assert.equal(
+      document.getRequestBodySchema("createPet", "text/plain"),
+      undefined,
+    );
+  });
+
+  void test("looks up parameter schemas", async () => {
+    const document = await oas31.parseDocument(petstore);
+    const schema = document.getParameterSchema("listPets", "limit", "query")!;
+    assert(schema.validate(10).valid);
+    assert(!schema.validate(1000).valid);
+  });
+
+  void test("honors the jsonSchemaDialect field", async () => {
+    const document = await oas31.parseDocument({
+      openapi: "3.1.0",
+      info: { title: "Legacy", version: "1.0.0" },
+      jsonSchemaDialect: "http://json-schema.org/draft-07/schema#",
+      components: {
+        schemas: {
+          Pair: {
+            type: "array",
+            items: [{ type: "string" }, { type: "integer" }],
+          },
+        },
+      },
+    });
+    assert.equal(
+      document.context.dialect?.uri,
+      "http://json-schema.org/draft-07/schema#",
+    );
+    const schema = document.getComponentSchema("Pair")!;
+    assert(schema.validate(["a", 1]).valid);
+    assert(!schema.validate([1, "a"]).valid);
+  });
+
+  void test("rejects unsupported OpenAPI versions", async () => {
+    await assert.rejects(oas31.parseDocument({ openapi: "3.0.3" }));
+  });
+
+  void test("resolves referenced path items", async () => {
+    const document = await oas31.parseDocument({
+      openapi: "3.1.0",
+      info: { title: "Petstore", version: "1.0.0" },
+      paths: {
+        "/pets/{petId}": { $ref: "#/components/pathItems/Pet" },
+      },
+      components: {
+        pathItems: {
+          Pet: {
+            parameters: [
+              {
+                name: "petId",
+                in: "path",
+                required: true,
+                schema: { type: "integer" },
+              },
+            ],
+            get: { operationId: "showPet", responses: {} },
+          },
+        },
+      },
+    });
+    const operation = document.findOperation("GET", "/pets/{petId}");
+    assert.equal(operation?.operationId, "showPet");
+    const schema = document.getParameterSchema("showPet", "petId", "path")!;
+    assert(schema.validate(1).valid);
+    assert(!schema.validate("1").valid);
+  });
+
+  void test("reports the locations of invalid nodes", async () => {
+    await assert.rejects(
+      oas31.parseDocument({ openapi: "3.0.3" }),
+      (error: unknown): boolean =>
+        error instanceof ValidationError && error.location === "#/openapi",
+    );
+    await assert.rejects(
+      oas31.parseDocument({
+        openapi: "3.1.0",
+        paths: { "/pets": { $ref: "#/components/pathItems/Missing" } },
+      }),
+      (error: unknown): boolean =>
+        error instanceof ValidationError &&
+        error.location?.endsWith("/paths/~1pets") === true,
+    );
+  });
+
+  void test("rejects external Reference Objects", async () => {
+    await assert.rejects(
+      oas31.parseDocument({
+        openapi: "3.1.0",
+        paths: {
+          "/pets": {
+            get: {
+              parameters: [
+                { $ref: "https://example.com/openapi.json#/parameters/limit" },
+              ],
+              responses: {},
+            },
+          },
+        },
+      }),
+      (error: unknown): boolean =>
+        error instanceof ValidationError &&
+        error.location?.endsWith("/paths/~1pets/get/parameters/0") === true,
+    );
+  });
+});
@@ -0,0 +1,876 @@
+import {
+  isArray,
+  isObject,
+  nestFrame,
+  currentFrame,
+  currentLocation,
+  parsePointer,
+  createResource,
+  getResource,
+  setResource,
+  resolveReferences,
+} from "tool-json";
+import { ValidationError } from "../error.ts";
+import type {
+  SchemaContext,
+  SchemaContextOptions,
+  SchemaFrame,
+} from "../context.ts";
+import {
+  isSchemaResource,
+  parseSchemaResource,
+  discoverDialect,
+} from "../resource.ts";
+import { Schema, initParseContext } from "../schema.ts";
+import { dialect } from "./dialect.ts";
+
+/**
+ * The HTTP methods of the operations of an OpenAPI v3.1 Path Item Object.
+ *
+ * @see [OpenAPI Specification §4.8.9.1](https://spec.openapis.org/oas/v3.1.1.html#fixed-fields-6)
+ * @category OpenAPI
+ */
+export type OperationMethod =
+  "get" | "put" | "post" | "delete" | "options" | "head" | "patch" | "trace";
+
+/**
+ * The locations of OpenAPI v3.1 parameters.
+ *
+ * @see [OpenAPI Specification §4.8.12.1](https://spec.openapis.org/oas/v3.1.1.html#parameter-locations)
+ * @category OpenAPI
+ */
+export type ParameterLocation = "query" | "header" | "path" | "cookie";
+
+/**
+ * Options for parsing an OpenAPI v3.1 document. External resources
+ * aren't loaded, so Reference Objects must refer to locations in the
+ * document, and Schema Objects must refer to the document, or to schemas
+ * registered in the context.
+ *
+ * @category OpenAPI
+ */
+export interface DocumentOptions extends Omit<
+  SchemaContextOptions,
+  "loadResource" | "allowedResources"
+> {
+  /**
+   * The base URI for the document.
+   */
+  baseUri?: string | undefined;
+}
+
+/**
+ * An operation of an OpenAPI v3.1 document.
+ *
+ * @see [OpenAPI Specification §4.8.10](https://spec.openapis.org/oas/v3.1.1.html#operation-object)
+ * @category OpenAPI
+ */
+export interface Operation {
+  /**
+   * The HTTP method of the operation.
+   */
+  readonly method: OperationMethod;
+
+  /**
+   * The templated path of the operation, relative to the server URL.
+   */
+  readonly path: string;
+
+  /**
+   * The unique identifier of the operation, if it has one.
+   */
+  readonly operationId: string | undefined;
+
+  /**
+   * The raw Operation Object.
+   */
+  readonly node: { readonly [key: string]: unknown };
+
+  /**
+   * The raw Path Item Object that contains the operation.
+   */
+  readonly pathItem: { readonly [key: string]: unknown };
+}
+
+/**
+ * The HTTP methods of Path Item Object operations, in document order.
+ */
+const operationMethods: readonly OperationMethod[] = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+];
+
+/**
+ * A handle to a parsed OpenAPI v3.1 document, whose Schema Objects
+ * are resolvable schema resources in a shared context.
+ *
+ * @category OpenAPI
+ */
+export class Document {
+  /**
+   * The raw OpenAPI Object.
+   */
+  readonly node: { readonly [key: string]: unknown };
+
+  /**
+   * The context in which the document was parsed.
+   */
+  readonly #context: SchemaContext;
+
+  /**
+   * The operations of the document, in document order.
+   */
+  readonly #operations: readonly Operation[];
+
+  /** @internal */
+  constructor(
+    node: { readonly [key: string]: unknown },
+    context: SchemaContext,
+    operations: readonly Operation[],
+  ) {
+    this.node = node;
+    this.#context = context;
+    this.#operations = operations;
+  }
+
+  /**
+   * The context in which the document was parsed.
+   */
+  get context(): SchemaContext {
+    return this.#context;
+  }
+
+  /**
+   * The operations of the document, in document order.
+   */
+  get operations(): readonly Operation[] {
+    return this.#operations;
+  }
+
+  /**
+   * Returns the operation with the given `operationId`.
+   */
+  getOperation(operationId: string): Operation | undefined {
+    return this.#operations.find(
+      (operation: Operation): boolean => operation.operationId === operationId,
+    );
+  }
+
+  /**
+   * Returns the operation with the given HTTP method and templated path,
+   * such as `"/pets/{petId}"`.
+   */
+  findOperation(method: string, path: string): Operation | undefined {
+    method = method.toLowerCase();
+    return this.#operations.find(
+      (operation: Operation): boolean =>
+        operation.method === method && operation.path === path,
+    );
+  }
+
+  /**
+   * Returns the value of the given Reference Object, or the given node
+   * itself if it's not a Reference Object. Only references to locations
+   * in this document can be resolved.
+   */
+  resolveReference(node: unknown): unknown {
+    return resolveReference(this.node, node);
+  }
+
+  /**
+   * Returns the raw node at the given JSON Pointer in this document.
+   */
+  getNode(pointer: string): unknown {
+    return getNode(this.node, pointer);
+  }
+
+  /**
+   * Returns the schema at the given JSON Pointer in this document,
+   * or `undefined` if no schema was parsed at that location.
+   */
+  getSchema(pointer: string): Schema | undefined {
+    return this.#toSchema(this.getNode(pointer));
+  }
+
+  /**
+   * Returns the schema defined under `components/schemas` with the given name.
+   */
+  getComponentSchema(name: string): Schema | undefined {
+    const components = this.node.components;
+    const schemas = isObject(components) ? components.schemas : undefined;
+    return isObject(schemas) ? this.#toSchema(schemas[name]) : undefined;
+  }
+
+  /**
+   * Returns the schema of the parameter of an operation with the given name
+   * and location. Operation parameters override path-level parameters.
+   * For parameters described by `content`, the schema of the first
+   * media type is returned.
+   */
+  getParameterSchema(
+    operation: Operation | string,
+    name: string,
+    location: ParameterLocation,
+  ): Schema | undefined {
+    const parameter = this.getParameter(operation, name, location);
+    if (parameter === undefined) {
+      return undefined;
+    }
+    if ("schema" in parameter) {
+      return this.#toSchema(parameter.schema);
+    }
+    // §4.8.12.2.2: The content map MUST only contain one entry.
+    const content = parameter.content;
+    return isObject(content) ?
+        this.#toMediaTypeSchema(Object.values(content)[0])
+      : undefined;
+  }
+
+  /**
+   * Returns the resolved Parameter Object of an operation with the given
+   * name and location. Operation parameters override path-level parameters.
+   */
+  getParameter(
+    operation: Operation | string,
+    name: string,
+    location: ParameterLocation,
+  ): { readonly [key: string]: unknown } | undefined {
+    const resolved = this.#toOperation(operation);
+    if (resolved === undefined) {
+      return undefined;
+    }
+    // §4.8.10.1: Parameters defined at the Operation level override
+    // parameters defined at the Path Item level.
+    for (const parameters of [
+      resolved.node.parameters,
+      resolved.pathItem.parameters,
+    ]) {
+      if (!isArray(parameters)) {
+        continue;
+      }
+      for (const element of parameters) {
+        const parameter = this.resolveReference(element);
+        if (
+          isObject(parameter) &&
+          parameter.name === name &&
+          parameter.in === location
+        ) {
+          return parameter;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the schema of the request body of an operation
+   * for the given media type.
+   */
+  getRequestBodySchema(
+    operation: Operation | string,
+    mediaType: string = "application/json",
+  ): Schema | undefined {
+    const resolved = this.#toOperation(operation);
+    const requestBody = this.resolveReference(resolved?.node.requestBody);
+    if (!isObject(requestBody)) {
+      return undefined;
+    }
+    return this.#toMediaTypeSchema(
+      selectMediaType(requestBody.content, mediaType),
+    );
+  }
+
+  /**
+   * Returns the schema of the response of an operation with the given
+   * status code for the given media type. Falls back to the response
+   * for the status code's range, such as `"2XX"`, and then to the
+   * `"default"` response.
+   */
+  getResponseSchema(
+    operation: Operation | string,
+    status: number | string,
+    mediaType: string = "application/json",
+  ): Schema | undefined {
+    const response = this.getResponse(operation, status);
+    if (response === undefined) {
+      return undefined;
+    }
+    return this.#toMediaTypeSchema(
+      selectMediaType(response.content, mediaType),
+    );
+  }
+
+  /**
+   * Returns the schema of the header with the given name of the response
+   * of an operation with the given status code. Header names are
+   * case-insensitive.
+   */
+  getResponseHeaderSchema(
+    operation: Operation | string,
+    status: number | string,
+    name: string,
+  ): Schema | undefined {
+    const headers = this.getResponse(operation, status)?.headers;
+    if (!isObject(headers)) {
+      return undefined;
+    }
+    name = name.toLowerCase();
+    for (const [key, value] of Object.entries(headers)) {
+      if (key.toLowerCase() !== name) {
+        continue;
+      }
+      const header = this.resolveReference(value);
+      if (!isObject(header)) {
+        return undefined;
+      }
+      if ("schema" in header) {
+        return this.#toSchema(header.schema);
+      }
+      // §4.8.21.1: The content map MUST only contain one entry.
+      const content = header.content;
+      return isObject(content) ?
+          this.#toMediaTypeSchema(Object.values(content)[0])
+        : undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the resolved Response Object of an operation with the given
+   * status code. Falls back to the response for the status code's range,
+   * such as `"2XX"`, and then to the `"default"` response.
+   */
+  getResponse(
+    operation: Operation | string,
+    status: number | string,
+  ): { readonly [key: string]: unknown } | undefined {
+    const resolved = this.#toOperation(operation);
+    const responses = resolved?.node.responses;
+    if (!isObject(responses)) {
+      return undefined;
+    }
+    const code = String(status);
+    // §4.8.16.2: An explicit code definition takes precedence over
+    // the range definition for that code.
+    const response =
+      responses[code] ?? responses[code.charAt(0) + "XX"] ?? responses.default;
+    const resolvedResponse = this.resolveReference(response);
+    return isObject(resolvedResponse) ? resolvedResponse : undefined;
+  }
+
+  /**
+   * Returns the operation with the given `operationId`, or the given
+   * operation itself.
+   */
+  #toOperation(operation: Operation | string): Operation | undefined {
+    return typeof operation === "string" ?
+        this.getOperation(operation)
+      : operation;
+  }
+
+  /**
+   * Returns the schema of the given Media Type Object.
+   */
+  #toMediaTypeSchema(mediaType: unknown): Schema | undefined {
+    mediaType = this.resolveReference(mediaType);
+    return isObject(mediaType) ? this.#toSchema(mediaType.schema) : undefined;
+  }
+
+  /**
+   * Returns a handle to the given schema node, if it was parsed
+   * as a schema resource.
+   */
+  #toSchema(node: unknown): Schema | undefined {
+    if (typeof node === "boolean") {
+      return new Schema(node, this.#context);
+    }
+    if (
+      !isObject(node) ||
+      !isSchemaResource(getResource(this.#context, node))
+    ) {
+      return undefined;
+    }
+    return new Schema(node, this.#context);
+  }
+}
+
+/**
+ * Returns the value of the given Reference Object, or the given node
+ * itself if it's not a Reference Object. Only references to locations
+ * in the given document can be resolved.
+ */
+function resolveReference(document: unknown, node: unknown): unknown {
+  const seen = new Set<unknown>();
+  while (isObject(node) && typeof node.$ref === "string") {
+    if (seen.has(node)) {
+      return undefined; // Circular reference.
+    }
+    seen.add(node);
+    const ref = node.$ref;
+    if (!ref.startsWith("#")) {
+      return undefined; // External reference.
+    }
+    node = getNode(document, decodeURIComponent(ref.slice(1)));
+  }
+  return node;
+}
+
+/**
+ * Returns the raw node at the given JSON Pointer in the given document.
+ */
+function getNode(document: unknown, pointer: string): unknown {
+  let node = document;
+  for (const token of parsePointer(pointer)) {
+    if (isArray(node)) {
+      node = node[Number(token)];
+    } else if (isObject(node)) {
+      node = node[token];
+    } else {
+      return undefined;
+    }
+  }
+  return node;
+}
+
+/**
+ * Returns the Media Type Object of the given content map that best matches
+ * the given media type. More specific media ranges take precedence,
+ * so `"application/json"` matches `"application/json"` before
+ * `"application/*"`, and `"application/*"` before `"*\/*"`.
+ *
+ * @see [OpenAPI Specification §4.8.14](https://spec.openapis.org/oas/v3.1.1.html#request-body-object)
+ * @category OpenAPI
+ */
+export function selectMediaType(content: unknown, mediaType: string): unknown {
+  if (!isObject(content)) {
+    return undefined;
+  }
+  // Ignore media type parameters, such as charset.
+  const essence = mediaType.split(";")[0]!.trim().toLowerCase();
+  const type = essence.split("/")[0]!;
+  for (const key of [essence, type + "/*", "*/*"]) {
+    for (const [range, value] of Object.entries(content)) {
+      if (range.split(";")[0]!.trim().toLowerCase() === key) {
+        return value;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses an OpenAPI v3.1 document, registering every Schema Object
+ * of its components and paths as a resolvable schema resource
+ * in a shared context.
+ *
+ * The document's `jsonSchemaDialect` field selects the default dialect
+ * of its Schema Objects, which otherwise defaults to the OpenAPI v3.1
+ * base dialect.
+ *
+ * @throws ValidationError if the node isn't a valid OpenAPI v3.1 document,
+ * or if one of its Reference Objects can't be resolved.
+ * @category OpenAPI
+ */
+export async function parseDocument(
+  node: unknown,
+  options?: DocumentOptions,
+): Promise<Document> {
+  if (!isObject(node)) {
+    throw new ValidationError("OpenAPI document must be an object", {
+      location: "#",
+    });
+  }
+
+  // §4.8.1.1: The version number of the OpenAPI Specification
+  // that the document uses.
+  const version = node.openapi;
+  if (typeof version !== "string" || !/^3\.1\.\d+/.test(version)) {
+    throw new ValidationError(
+      "Unsupported OpenAPI version " + JSON.stringify(version),
+      { location: "#/openapi" },
+    );
+  }
+
+  const context = initParseContext(options, dialect);
+
+  // §4.8.1.1: The default value for the $schema keyword within Schema
+  // Objects contained within this OAS document.
+  const dialectUri = node.jsonSchemaDialect;
+  if (dialectUri !== undefined) {
+    if (typeof dialectUri !== "string") {
+      throw new ValidationError('"jsonSchemaDialect" must be a string', {
+        location: "#/jsonSchemaDialect",
+      });
+    }
+    context.dialect =
+      context.dialects?.get(dialectUri) ?? discoverDialect(context, dialectUri);
+    if (context.dialect === undefined) {
+      throw new ValidationError(
+        "Unknown dialect " + JSON.stringify(dialectUri),
+        { location: "#/jsonSchemaDialect" },
+      );
+    }
+  }
+
+  const operations: Operation[] = [];
+
+  // Isolate parsing in a nested stack frame.
+  await nestFrame(context, async (frame: SchemaFrame): Promise<void> => {
+    frame.baseUri = options?.baseUri;
+    frame.node = node;
+
+    // Register the document as a resource, so that references
+    // to its components resolve.
+    const resource = createResource(options?.baseUri, node);
+    setResource(context, resource);
+
+    nestNode(context, "components", node.components, parseComponents);
+    nestNode(context, "paths", node.paths, (context: SchemaContext): void => {
+      parsePaths(context, operations);
+    });
+    nestNode(context, "webhooks", node.webhooks, parsePaths);
+
+    // Resolve all references registered during parsing.
+    await resolveReferences(context, resource);
+  });
+
+  return new Document(node, context, operations);
+}
+
+/**
+ * Calls `parse` in a nested stack frame for the given child node,
+ * if the node is present.
+ */
+function nestNode(
+  context: SchemaContext,
+  key: string | number,
+  node: unknown,
+  parse: (context: SchemaContext) => void,
+): void {
+  if (node === undefined) {
+    return;
+  }
+  nestFrame(context, (frame: SchemaFrame): void => {
+    frame.nodeKey = key;
+    frame.node = node;
+    parse(context);
+  });
+}
+
+/**
+ * Calls `parse` in a nested stack frame for each entry of the object
+ * node at the top of the stack.
+ */
+function nestEntries(
+  context: SchemaContext,
+  parse: (context: SchemaContext) => void,
+): void {
+  const node = (currentFrame(context) as SchemaFrame).node;
+  if (node === undefined) {
+    return;
+  }
+  if (!isObject(node)) {
+    throw new ValidationError("Expected an object", {
+      location: currentLocation(context),
+    });
+  }
+  for (const [key, value] of Object.entries(node)) {
+    nestNode(context, key, value, parse);
+  }
+}
+
+/**
+ * Returns the OpenAPI document being parsed, which is the node
+ * of the outermost stack frame.
+ */
+function currentDocument(context: SchemaContext): unknown {
+  let frame = currentFrame(context) as SchemaFrame;
+  while (frame.parent?.node !== undefined) {
+    frame = frame.parent;
+  }
+  return frame.node;
+}
+
+/**
+ * Checks that the Reference Object at the top of the stack refers to
+ * a location in the document being parsed.
+ *
+ * @throws ValidationError if the reference is external, or unresolvable.
+ */
+function checkReference(context: SchemaContext): void {
+  const node = (currentFrame(context) as SchemaFrame).node as {
+    readonly $ref: unknown;
+  };
+  if (!isObject(resolveReference(currentDocument(context), node))) {
+    throw new ValidationError(
+      "Unresolvable reference " + JSON.stringify(node.$ref),
+      { location: currentLocation(context) },
+    );
+  }
+}
+
+/**
+ * Parses the Components Object at the top of the stack.
+ *
+ * @see [OpenAPI Specification §4.8.7](https://spec.openapis.org/oas/v3.1.1.html#components-object)
+ */
+function parseComponents(context: SchemaContext): void {
+  const node = (currentFrame(context) as SchemaFrame).node;
+  if (!isObject(node)) {
+    throw new ValidationError("Components must be an object", {
+      location: currentLocation(context),
+    });
+  }
+
+  nestNode(context, "schemas", node.schemas, (context: SchemaContext): void => {
+    nestEntries(context, parseSchemaResource);
+  });
+  nestNode(
+    context,
+    "responses",
+    node.responses,
+    (context: SchemaContext): void => {
+      nestEntries(context, parseResponse);
+    },
+  );
+  nestNode(
+    context,
+    "parameters",
+    node.parameters,
+    (context: SchemaContext): void => {
+      nestEntries(context, parseParameter);
+    },
+  );
+  nestNode(
+    context,
+    "requestBodies",
+    node.requestBodies,
+    (context: SchemaContext): void => {
+      nestEntries(context, parseRequestBody);
+    },
+  );
+  nestNode(context, "headers", node.headers, (context: SchemaContext): void => {
+    nestEntries(context, parseParameter);
+  });
+  nestNode(
+    context,
+    "pathItems",
+    node.pathItems,
+    (context: SchemaContext): void => {
+      nestEntries(context, (context: SchemaContext): void => {
+        parsePathItem(context);
+      });
+    },
+  );
+}
+
+/**
+ * Parses the Paths Object at the top of the stack, collecting
+ * its operations.
+ *
+ * @see [OpenAPI Specification §4.8.8](https://spec.openapis.org/oas/v3.1.1.html#paths-object)
+ */
+function parsePaths(context: SchemaContext, operations?: Operation[]): void {
+  nestEntries(context, (context: SchemaContext): void => {
+    const frame = currentFrame(context) as SchemaFrame;
+    parsePathItem(context);
+    if (operations === undefined) {
+      return;
+    }
+
+    // §4.8.9.1: Path items can reference a path item defined elsewhere
+    // in the document, whose operations apply to this path.
+    const pathItem = resolveReference(currentDocument(context), frame.node);
+    if (isObject(pathItem)) {
+      collectOperations(pathItem, frame.nodeKey as string, operations);
+    }
+  });
+}
+
+/**
+ * Parses the Path Item Object at the top of the stack.
+ *
+ * @see [OpenAPI Specification §4.8.9](https://spec.openapis.org/oas/v3.1.1.html#path-item-object)
+ */
+function parsePathItem(context: SchemaContext): void {
+  const node = (currentFrame(context) as SchemaFrame).node;
+  if (!isObject(node)) {
+    throw new ValidationError("Path item must be an object", {
+      location: currentLocation(context),
+    });
+  }
+  if ("$ref" in node) {
+    checkReference(context);
+    return; // Reference Objects are parsed at their targets.
+  }
+
+  nestNode(context, "parameters", node.parameters, parseParameters);
+  for (const method of operationMethods) {
+    nestNode(context, method, node[method], parseOperation);
+  }
+}
+
+/**
+ * Appends the operations of the given Path Item Object to `operations`.
+ */
+function collectOperations(
+  pathItem: { readonly [key: string]: unknown },
+  path: string,
+  operations: Operation[],
+): void {
+  for (const method of operationMethods) {
+    const operation = pathItem[method];
+    if (isObject(operation)) {
+      operations.push({
+        method,
+        path,
+        operationId:
+          typeof operation.operationId === "string" ?
+            operation.operationId
+          : undefined,
+        node: operation,
+        pathItem,
+      });
+    }
+  }
+}
+
+/**
+ * Parses the Operation Object at the top of the stack.
+ *
+ * @see [OpenAPI Specification §4.8.10](https://spec.openapis.org/oas/v3.1.1.html#operation-object)
+ */
+function parseOperation(context: SchemaContext): void {
+  const node = (currentFrame(context) as SchemaFrame).node;
+  if (!isObject(node)) {
+    throw new ValidationError("Operation must be an object", {
+      location: currentLocation(context),
+    });
+  }
+
+  nestNode(context, "parameters", node.parameters, parseParameters);
+  nestNode(context, "requestBody", node.requestBody, parseRequestBody);
+  nestNode(
+    context,
+    "responses",
+    node.responses,
+    (context: SchemaContext): void => {
+      nestEntries(context, parseResponse);
+    },
+  );
+  nestNode(
+    context,
+    "callbacks",
+    node.callbacks,
+    (context: SchemaContext): void => {
+      nestEntries(context, parseCallback);
+    },
+  );
+}
+
+/**
+ * Parses the Callback Object at the top of the stack.
+ *
+ * @see [OpenAPI Specification §4.8.18](https://spec.openapis.org/oas/v3.1.1.html#callback-object)
+ */
+function parseCallback(context: SchemaContext): void {
+  const node = (currentFrame(context) as SchemaFrame).node;
+  if (isObject(node) && "$ref" in node) {
+    checkReference(context);
+    return; // Reference Objects are parsed at their targets.
+  }
+  nestEntries(context, parsePathItem);
+}
+
+/**
+ * Parses the array of Parameter Objects at the top of the stack.
+ */
+function parseParameters(context: SchemaContext): void {
+  const node = (currentFrame(context) as SchemaFrame).node;
+  if (!isArray(node)) {
+    throw new ValidationError("Parameters must be an array", {
+      location: currentLocation(context),
+    });
+  }
+  for (let index = 0; index < node.length; index += 1) {
+    nestNode(context, index, node[index], parseParameter);
+  }
+}
+
+/**
+ * Parses the Parameter or Header Object at the top of the stack.
+ *
+ * @see [OpenAPI Specification §4.8.12](https://spec.openapis.org/oas/v3.1.1.html#parameter-object)
+ */
+function parseParameter(context: SchemaContext): void {
+  const node = (currentFrame(context) as SchemaFrame).node;
+  if (!isObject(node)) {
+    return;
+  }
+  if ("$ref" in node) {
+    checkReference(context);
+    return; // Reference Objects are parsed at their targets.
+  }
+  nestNode(context, "schema", node.schema, parseSchemaResource);
+  nestNode(context, "content", node.content, parseContent);
+}
+
+/**
+ * Parses the Request Body Object at the top of the stack.
+ *
+ * @see [OpenAPI Specification §4.8.13](https://spec.openapis.org/oas/v3.1.1.html#request-body-object)
+ */
+function parseRequestBody(context: SchemaContext): void {
+  const node = (currentFrame(context) as SchemaFrame).node;
+  if (!isObject(node)) {
+    return;
+  }
+  if ("$ref" in node) {
+    checkReference(context);
+    return; // Reference Objects are parsed at their targets.
+  }
+  nestNode(context, "content", node.content, parseContent);
+}
+
+/**
+ * Parses the Response Object at the top of the stack.
+ *
+ * @see [OpenAPI Specification §4.8.17](https://spec.openapis.org/oas/v3.1.1.html#response-object)
+ */
+function parseResponse(context: SchemaContext): void {
+  const node = (currentFrame(context) as SchemaFrame).node;
+  if (!isObject(node)) {
+    return;
+  }
+  if ("$ref" in node) {
+    checkReference(context);
+    return; // Reference Objects are parsed at their targets.
+  }
+  nestNode(context, "headers", node.headers, (context: SchemaContext): void => {
+    nestEntries(context, parseParameter);
+  });
+  nestNode(context, "content", node.content, parseContent);
+}
+
+/**
+ * Parses the map of Media Type Objects at the top of the stack.
+ *
+ * @see [OpenAPI Specification §4.8.14](https://spec.openapis.org/oas/v3.1.1.html#media-type-object)
+ */
+function parseContent(context: SchemaContext): void {
+  nestEntries(context, (context: SchemaContext): void => {
+    const node = (currentFrame(context) as SchemaFrame).node;
+    if (!isObject(node)) {
+      throw new ValidationError("Media type must be an object", {
+        location: currentLocation(context),
+      });
+    }
+    nestNode(context, "schema", node.schema, parseSchemaResource);
+  });
+}
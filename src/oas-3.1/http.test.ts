@@ -0,0 +1,289 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import type { OutputUnit } from "tool-schema";
+import { oas31 } from "tool-schema";
+
+const document = await oas31.parseDocument({
+  openapi: "3.1.0",
+  info: { title: "Petstore", version: "1.0.0" },
+  paths: {
+    "/pets": {
+      get: {
+        operationId: "listPets",
+        parameters: [
+          { name: "limit", in: "query", schema: { type: "integer" } },
+          {
+            name: "tags",
+            in: "query",
+            explode: false,
+            schema: { type: "array", items: { type: "string" } },
+          },
+          {
+            name: "filter",
+            in: "query",
+            style: "deepObject",
+            explode: true,
+            schema: {
+              type: "object",
+              properties: { age: { type: "integer" } },
+            },
+          },
+          {
+            name: "X-Request-ID",
+            in: "header",
+            required: true,
+            schema: { type: "string", format: "uuid", pattern: "^[0-9a-f-]+$" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "A list of pets",
+            headers: {
+              "X-Rate-Limit": { schema: { type: "integer" } },
+            },
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/Pet" },
+                },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        operationId: "createPet",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/Pet" },
+            },
+          },
+        },
+        responses: {
+          "201": { description: "Created" },
+        },
+      },
+    },
+    "/pets/mine": {
+      get: {
+        operationId: "listMyPets",
+        responses: { "200": { description: "My pets" } },
+      },
+    },
+    "/pets/{petId}": {
+      parameters: [
+        {
+          name: "petId",
+          in: "path",
+          required: true,
+          schema: { type: "integer" },
+        },
+      ],
+      get: {
+        operationId: "showPet",
+        responses: { "200": { description: "A pet" } },
+      },
+    },
+    "/points/{point}": {
+      get: {
+        operationId: "showPoint",
+        parameters: [
+          {
+            name: "point",
+            in: "path",
+            required: true,
+            style: "matrix",
+            explode: true,
+            schema: {
+              type: "object",
+              properties: {
+                x: { type: "number" },
+                y: { type: "number" },
+              },
+              required: ["x", "y"],
+            },
+          },
+        ],
+        responses: { "200": { description: "A point" } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: "object",
+        required: ["id", "name"],
+        properties: {
+          id: { type: "integer" },
+          name: { type: "string" },
+        },
+      },
+    },
+  },
+});
+
+const requestId = "0f8fad5b-d9cb-469f-a165-70867728950e";
+
+function instanceLocations(output: OutputUnit): (string | undefined)[] {
+  return (output.errors ?? []).map((error) => error.instanceLocation);
+}
+
+void suite("OAS 3.1 HTTP validation", () => {
+  void test("matches concrete paths before templated paths", () => {
+    const mine = oas31.matchOperation(document, "GET", "/pets/mine");
+    assert.equal(mine?.operation.operationId, "listMyPets");
+
+    const pet = oas31.matchOperation(document, "GET", "/pets/42?verbose");
+    assert.equal(pet?.operation.operationId, "showPet");
+    assert.deepEqual(pet?.pathParameters, { petId: "42" });
+
+    assert.equal(oas31.matchOperation(document, "DELETE", "/pets"), undefined);
+  });
+
+  void test("validates path parameters", () => {
+    assert(
+      oas31.validateRequest(document, { method: "GET", path: "/pets/42" })
+        .valid,
+    );
+    assert.deepEqual(
+      oas31
+        .validateRequest(document, { method: "GET", path: "/pets/abc" })
+        .errors?.map((error) => error.instanceLocation),
+      ["/path/petId"],
+    );
+  });
+
+  void test("deserializes matrix path parameters", () => {
+    assert(
+      oas31.validateRequest(document, {
+        method: "GET",
+        path: "/points/;x=1.5;y=-2",
+      }).valid,
+    );
+    const output = oas31.validateRequest(document, {
+      method: "GET",
+      path: "/points/;x=1.5",
+    });
+    assert.equal(output.valid, false);
+    assert(instanceLocations(output).includes("/path/point"));
+  });
+
+  void test("deserializes query parameters", () => {
+    assert(
+      oas31.validateRequest(document, {
+        method: "GET",
+        path: "/pets",
+        query: "?limit=10&tags=cat,dog&filter[age]=3",
+        headers: { "x-request-id": requestId },
+      }).valid,
+    );
+    const output = oas31.validateRequest(document, {
+      method: "GET",
+      path: "/pets?limit=ten&filter[age]=old",
+      headers: { "X-Request-ID": requestId },
+    });
+    const locations = instanceLocations(output);
+    assert(locations.includes("/query/limit"));
+    assert(locations.includes("/query/filter/age"));
+  });
+
+  void test("reports missing required parameters", () => {
+    const output = oas31.validateRequest(document, {
+      method: "GET",
+      path: "/pets",
+    });
+    assert.deepEqual(output.errors, [
+      {
+        valid: false,
+        instanceLocation: "/header/X-Request-ID",
+        error: 'missing required header parameter "X-Request-ID"',
+        code: "requiredParameter",
+        params: { name: "X-Request-ID", location: "header" },
+      },
+    ]);
+  });
+
+  void test("validates request bodies", () => {
+    assert(
+      oas31.validateRequest(document, {
+        method: "POST",
+        path: "/pets",
+        headers: { "Content-Type": "application/json; charset=utf-8" },
+        body: { id: 1, name: "Misty" },
+      }).valid,
+    );
+
+    const invalid = oas31.validateRequest(document, {
+      method: "POST",
+      path: "/pets",
+      body: { id: "1", name: "Misty" },
+    });
+    assert(instanceLocations(invalid).includes("/body/id"));
+
+    const missing = oas31.validateRequest(document, {
+      method: "POST",
+      path: "/pets",
+    });
+    assert.equal(missing.errors?.[0]?.code, "requiredBody");
+
+    const unsupported = oas31.validateRequest(document, {
+      method: "POST",
+      path: "/pets",
+      headers: { "Content-Type": "text/plain" },
+      body: "Misty",
+    });
+    assert.equal(unsupported.errors?.[0]?.code, "mediaType");
+  });
+
+  void test("rejects request bodies of operations without one", () => {
+    const output = oas31.validateRequest(document, {
+      method: "GET",
+      path: "/pets/mine",
+      body: { id: 1 },
+    });
+    assert.deepEqual(output.errors, [
+      {
+        valid: false,
+        instanceLocation: "/body",
+        error: "unexpected request body",
+        code: "unexpectedBody",
+        params: {},
+      },
+    ]);
+  });
+
+  void test("reports unmatched requests", () => {
+    const output = oas31.validateRequest(document, {
+      method: "PUT",
+      path: "/pets",
+    });
+    assert.equal(output.errors?.[0]?.code, "operation");
+  });
+
+  void test("validates responses", () => {
+    assert(
+      oas31.validateResponse(document, "listPets", {
+        status: 200,
+        headers: { "X-Rate-Limit": "100" },
+        body: [{ id: 1, name: "Misty" }],
+      }).valid,
+    );
+
+    const output = oas31.validateResponse(document, "listPets", {
+      status: 200,
+      headers: { "X-Rate-Limit": "many" },
+      body: [{ id: 1 }],
+    });
+    const locations = instanceLocations(output);
+    assert(locations.includes("/header/X-Rate-Limit"));
+    assert(locations.includes("/body/0"));
+
+    const undocumented = oas31.validateResponse(document, "listPets", {
+      status: 500,
+    });
+    assert.equal(undocumented.errors?.[0]?.code, "responseStatus");
+  });
+});
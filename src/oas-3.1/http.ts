@@ -0,0 +1,961 @@
+import { isArray, isObject, escapePointer } from "tool-json";
+import type { OutputUnit, ErrorCode, ErrorParams } from "../output.ts";
+import { getMessageCatalog, formatMessage } from "../message.ts";
+import type { Schema } from "../schema.ts";
+import type { Operation, ParameterLocation, Document } from "./document.ts";
+import { selectMediaType } from "./document.ts";
+
+declare module "../output.ts" {
+  interface ErrorParams {
+    /** No operation of the document matches the request. */
+    operation: { readonly method: string; readonly path: string };
+
+    /** A required parameter is missing from the request. */
+    requiredParameter: {
+      readonly name: string;
+      readonly location: ParameterLocation;
+    };
+
+    /** A required request body is missing from the request. */
+    requiredBody: {};
+
+    /** A request has a body, but the operation doesn't describe one. */
+    unexpectedBody: {};
+
+    /** The content type of a message body isn't described by the operation. */
+    mediaType: { readonly mediaType: string };
+
+    /** The status code of a response isn't described by the operation. */
+    responseStatus: { readonly status: number };
+  }
+}
+
+/**
+ * The headers of an HTTP message, keyed by header name.
+ * Header names are case-insensitive.
+ *
+ * @category OpenAPI
+ */
+export type HttpHeaders = {
+  readonly [name: string]: string | readonly string[] | undefined;
+};
+
+/**
+ * An HTTP request to validate against an OpenAPI v3.1 document.
+ *
+ * @category OpenAPI
+ */
+export interface HttpRequest {
+  /**
+   * The HTTP method of the request.
+   */
+  readonly method: string;
+
+  /**
+   * The path of the request, relative to the server URL.
+   * May include a query string.
+   */
+  readonly path: string;
+
+  /**
+   * The headers of the request.
+   */
+  readonly headers?: HttpHeaders | undefined;
+
+  /**
+   * The raw query string of the request, with or without a leading `"?"`.
+   * Defaults to the query component of `path`.
+   */
+  readonly query?: string | undefined;
+
+  /**
+   * The parsed body of the request, or `undefined` if the request
+   * has no body.
+   */
+  readonly body?: unknown;
+}
+
+/**
+ * An HTTP response to validate against an OpenAPI v3.1 document.
+ *
+ * @category OpenAPI
+ */
+export interface HttpResponse {
+  /**
+   * The status code of the response.
+   */
+  readonly status: number;
+
+  /**
+   * The headers of the response.
+   */
+  readonly headers?: HttpHeaders | undefined;
+
+  /**
+   * The parsed body of the response, or `undefined` if the response
+   * has no body.
+   */
+  readonly body?: unknown;
+}
+
+/**
+ * The operation that matches a request path, with the raw values
+ * of its path parameters.
+ *
+ * @category OpenAPI
+ */
+export interface OperationMatch {
+  /**
+   * The matched operation.
+   */
+  readonly operation: Operation;
+
+  /**
+   * The raw, percent-encoded values of the path template expressions,
+   * keyed by parameter name.
+   */
+  readonly pathParameters: { readonly [name: string]: string };
+}
+
+/**
+ * A name-value pair of a query string or cookie header, both still
+ * percent-encoded.
+ */
+type RawPair = readonly [name: string, value: string];
+
+/**
+ * The shape a parameter value is deserialized into.
+ */
+type ValueShape = "primitive" | "array" | "object";
+
+/**
+ * Returns the operation of the document that matches the given HTTP method
+ * and request path, relative to the server URL. Concrete paths are matched
+ * before their templated counterparts.
+ *
+ * @see [OpenAPI Specification §4.8.8.2](https://spec.openapis.org/oas/v3.1.1.html#path-templating-matching)
+ * @category OpenAPI
+ */
+export function matchOperation(
+  document: Document,
+  method: string,
+  path: string,
+): OperationMatch | undefined {
+  method = method.toLowerCase();
+  path = splitPath(path)[0];
+
+  let templated: OperationMatch | undefined;
+  for (const operation of document.operations) {
+    if (operation.method !== method) {
+      continue;
+    }
+    if (operation.path === path) {
+      return { operation, pathParameters: {} };
+    }
+    if (templated === undefined) {
+      const pathParameters = matchPathTemplate(operation.path, path);
+      if (pathParameters !== undefined) {
+        templated = { operation, pathParameters };
+      }
+    }
+  }
+  return templated;
+}
+
+/**
+ * Validates an HTTP request against the matching operation of an OpenAPI v3.1
+ * document. Deserializes path, query, header, and cookie parameters according
+ * to their `style` and `explode` fields, and validates the request body
+ * against the schema of its content type. Request bodies sent to
+ * operations without a `requestBody` are rejected.
+ *
+ * Returns the output in the basic output format. Instance locations are
+ * prefixed by the part of the request they refer to, such as
+ * `"/path/petId"`, `"/query/limit"`, `"/header/X-Request-ID"`,
+ * `"/cookie/session"`, or `"/body"`.
+ *
+ * @see [OpenAPI Specification §4.8.12](https://spec.openapis.org/oas/v3.1.1.html#parameter-object)
+ * @category OpenAPI
+ */
+export function validateRequest(
+  document: Document,
+  request: HttpRequest,
+): OutputUnit {
+  const errors: OutputUnit[] = [];
+  const [path, pathQuery] = splitPath(request.path);
+
+  const match = matchOperation(document, request.method, path);
+  if (match === undefined) {
+    const method = request.method.toUpperCase();
+    errors.push(
+      createError(
+        document,
+        "",
+        "no operation matches " + method + " " + path,
+        "operation",
+        { method, path },
+      ),
+    );
+    return { valid: false, errors };
+  }
+  const operation = match.operation;
+
+  let query = request.query ?? pathQuery;
+  if (query.startsWith("?")) {
+    query = query.slice(1);
+  }
+  const queryPairs = parsePairs(query, "&");
+  const cookie = getHeader(request.headers, "cookie");
+  const cookiePairs = cookie !== undefined ? parsePairs(cookie, ";") : [];
+
+  const parameters = getParameters(document, operation);
+  const queryNames = parameters
+    .filter((parameter): boolean => parameter.in === "query")
+    .map((parameter): string => parameter.name as string);
+
+  for (const parameter of parameters) {
+    const name = parameter.name as string;
+    const location = parameter.in as ParameterLocation;
+
+    // §4.8.12.1: Header parameters named "Accept", "Content-Type",
+    // or "Authorization" SHALL be ignored.
+    if (
+      location === "header" &&
+      ["accept", "content-type", "authorization"].includes(name.toLowerCase())
+    ) {
+      continue;
+    }
+
+    const instanceLocation = "/" + location + "/" + escapePointer(name);
+    const schema = document.getParameterSchema(operation, name, location);
+    const value = deserializeParameter(
+      document,
+      parameter,
+      location === "path" ? match.pathParameters[name]
+      : location === "header" ? getHeader(request.headers, name)
+      : undefined,
+      location === "query" ? queryPairs
+      : location === "cookie" ? cookiePairs
+      : [],
+      queryNames,
+    );
+
+    if (value === undefined) {
+      // §4.8.12.2: If the parameter location is "path", this field
+      // is REQUIRED and its value MUST be true.
+      if (location === "path" || parameter.required === true) {
+        errors.push(
+          createError(
+            document,
+            instanceLocation,
+            "missing required " +
+              location +
+              " parameter " +
+              JSON.stringify(name),
+            "requiredParameter",
+            { name, location },
+          ),
+        );
+      }
+      continue;
+    }
+
+    if (schema !== undefined) {
+      validateValue(schema, value, instanceLocation, errors);
+    }
+  }
+
+  const requestBody = document.resolveReference(operation.node.requestBody);
+  if (isObject(requestBody)) {
+    if (request.body === undefined && requestBody.required === true) {
+      errors.push(
+        createError(
+          document,
+          "/body",
+          "missing required request body",
+          "requiredBody",
+          {},
+        ),
+      );
+    }
+    validateBody(
+      document,
+      request.body,
+      requestBody.content,
+      getHeader(request.headers, "content-type"),
+      (mediaType: string): Schema | undefined =>
+        document.getRequestBodySchema(operation, mediaType),
+      errors,
+    );
+  } else if (request.body !== undefined) {
+    errors.push(
+      createError(
+        document,
+        "/body",
+        "unexpected request body",
+        "unexpectedBody",
+        {},
+      ),
+    );
+  }
+
+  return errors.length !== 0 ? { valid: false, errors } : { valid: true };
+}
+
+/**
+ * Validates an HTTP response against the response of the given operation
+ * for its status code. Deserializes the declared response headers,
+ * and validates the response body against the schema of its content type.
+ *
+ * Returns the output in the basic output format. Instance locations are
+ * prefixed by the part of the response they refer to, such as
+ * `"/header/X-Rate-Limit"` or `"/body"`.
+ *
+ * @see [OpenAPI Specification §4.8.17](https://spec.openapis.org/oas/v3.1.1.html#response-object)
+ * @category OpenAPI
+ */
+export function validateResponse(
+  document: Document,
+  operation: Operation | string,
+  response: HttpResponse,
+): OutputUnit {
+  const errors: OutputUnit[] = [];
+  const status = response.status;
+
+  const node = document.getResponse(operation, status);
+  if (node === undefined) {
+    errors.push(
+      createError(
+        document,
+        "",
+        "undocumented response status " + status,
+        "responseStatus",
+        { status },
+      ),
+    );
+    return { valid: false, errors };
+  }
+
+  const headers = node.headers;
+  if (isObject(headers)) {
+    for (const [name, value] of Object.entries(headers)) {
+      // §4.8.17.1: If a response header is defined with the name
+      // "Content-Type", it SHALL be ignored.
+      if (name.toLowerCase() === "content-type") {
+        continue;
+      }
+      const header = document.resolveReference(value);
+      if (!isObject(header)) {
+        continue;
+      }
+
+      const instanceLocation = "/header/" + escapePointer(name);
+      const schema = document.getResponseHeaderSchema(operation, status, name);
+      const raw = getHeader(response.headers, name);
+      const headerValue =
+        raw !== undefined ?
+          deserializeParameter(document, header, raw, [], [])
+        : undefined;
+
+      if (headerValue === undefined) {
+        if (header.required === true) {
+          errors.push(
+            createError(
+              document,
+              instanceLocation,
+              "missing required header " + JSON.stringify(name),
+              "requiredParameter",
+              { name, location: "header" },
+            ),
+          );
+        }
+        continue;
+      }
+
+      if (schema !== undefined) {
+        validateValue(schema, headerValue, instanceLocation, errors);
+      }
+    }
+  }
+
+  validateBody(
+    document,
+    response.body,
+    node.content,
+    getHeader(response.headers, "content-type"),
+    (mediaType: string): Schema | undefined =>
+      document.getResponseSchema(operation, status, mediaType),
+    errors,
+  );
+
+  return errors.length !== 0 ? { valid: false, errors } : { valid: true };
+}
+
+/**
+ * Validates a message body against the schema of the Media Type Object
+ * of the given content map that matches its content type. Content types
+ * default to `"application/json"`. Absent bodies aren't validated.
+ */
+function validateBody(
+  document: Document,
+  body: unknown,
+  content: unknown,
+  contentType: string | undefined,
+  getSchema: (mediaType: string) => Schema | undefined,
+  errors: OutputUnit[],
+): void {
+  if (body === undefined || !isObject(content)) {
+    return; // No body, or no content described.
+  }
+
+  const mediaType = contentType ?? "application/json";
+  if (selectMediaType(content, mediaType) === undefined) {
+    errors.push(
+      createError(
+        document,
+        "/body",
+        "unsupported media type " + JSON.stringify(mediaType),
+        "mediaType",
+        { mediaType },
+      ),
+    );
+    return;
+  }
+
+  const schema = getSchema(mediaType);
+  if (schema !== undefined) {
+    validateValue(schema, body, "/body", errors);
+  }
+}
+
+/**
+ * Validates a value against a schema, collecting its basic output errors
+ * with their instance locations prefixed by the given location.
+ */
+function validateValue(
+  schema: Schema,
+  value: unknown,
+  instanceLocation: string,
+  errors: OutputUnit[],
+): void {
+  const output = schema.validate(value, { output: "basic" });
+  if (output.valid) {
+    return;
+  }
+  for (const error of output.errors ?? []) {
+    errors.push({
+      ...error,
+      instanceLocation: instanceLocation + (error.instanceLocation ?? ""),
+    });
+  }
+}
+
+/**
+ * Creates an error output unit, rendering its message in the locale
+ * of the document's context.
+ */
+function createError<Code extends ErrorCode>(
+  document: Document,
+  instanceLocation: string,
+  message: string,
+  code: Code,
+  params: ErrorParams[Code],
+): OutputUnit {
+  const context = document.context;
+  if (context.locale !== undefined) {
+    message =
+      formatMessage(getMessageCatalog(context), code, params) ?? message;
+  }
+  return { valid: false, instanceLocation, error: message, code, params };
+}
+
+/**
+ * Returns the resolved Parameter Objects of an operation. Operation
+ * parameters override path-level parameters with the same name
+ * and location.
+ */
+function getParameters(
+  document: Document,
+  operation: Operation,
+): { readonly [key: string]: unknown }[] {
+  const parameters: { readonly [key: string]: unknown }[] = [];
+  // §4.8.10.1: Parameters defined at the Operation level override
+  // parameters defined at the Path Item level.
+  for (const elements of [
+    operation.node.parameters,
+    operation.pathItem.parameters,
+  ]) {
+    if (!isArray(elements)) {
+      continue;
+    }
+    for (const element of elements) {
+      const parameter = document.resolveReference(element);
+      if (
+        !isObject(parameter) ||
+        typeof parameter.name !== "string" ||
+        typeof parameter.in !== "string" ||
+        parameters.some(
+          (other): boolean =>
+            other.name === parameter.name && other.in === parameter.in,
+        )
+      ) {
+        continue;
+      }
+      parameters.push(parameter);
+    }
+  }
+  return parameters;
+}
+
+/**
+ * Deserializes the raw value of a Parameter or Header Object. Path and
+ * header values are passed as `raw`; query and cookie values are looked up
+ * in `pairs`. Returns `undefined` if the parameter is absent.
+ *
+ * @see [OpenAPI Specification §4.8.12.4](https://spec.openapis.org/oas/v3.1.1.html#style-values)
+ */
+function deserializeParameter(
+  document: Document,
+  parameter: { readonly [key: string]: unknown },
+  raw: string | undefined,
+  pairs: readonly RawPair[],
+  queryNames: readonly string[],
+): unknown {
+  const name = typeof parameter.name === "string" ? parameter.name : "";
+  const location = parameter.in;
+
+  // Header values aren't percent-encoded; Header Objects have no location.
+  const decoder =
+    location === "path" ? decodePath
+    : location === "query" || location === "cookie" ? decodeQuery
+    : (input: string): string => input;
+
+  // §4.8.12.2.2: Parameters described by content are serialized
+  // according to their media type.
+  const content = parameter.content;
+  if (isObject(content)) {
+    if (raw === undefined) {
+      const pair = pairs.find(
+        (pair: RawPair): boolean => decoder(pair[0]) === name,
+      );
+      raw = pair !== undefined ? pair[1] : undefined;
+    }
+    if (raw === undefined) {
+      return undefined;
+    }
+    const value = decoder(raw);
+    const mediaType = Object.keys(content)[0] ?? "";
+    if (/[/+]json\b/i.test(mediaType)) {
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        return value; // Let the schema report the malformed value.
+      }
+    }
+    return value;
+  }
+
+  const schema = document.resolveReference(parameter.schema);
+  const shape = getValueShape(document, schema);
+
+  // §4.8.12.4: The default style is "form" for query and cookie
+  // parameters, and "simple" for path and header parameters.
+  const style =
+    typeof parameter.style === "string" ? parameter.style
+    : location === "query" || location === "cookie" ? "form"
+    : "simple";
+  // §4.8.12.2.1: When style is "form", the default value of explode
+  // is true. For all other styles, the default value is false.
+  const explode =
+    typeof parameter.explode === "boolean" ?
+      parameter.explode
+    : style === "form";
+
+  const value =
+    raw !== undefined ?
+      deserializePathValue(raw, name, style, explode, shape, decoder)
+    : deserializeQueryValue(
+        pairs,
+        name,
+        style,
+        explode,
+        shape,
+        queryNames,
+        decoder,
+      );
+  if (value === undefined) {
+    return undefined;
+  }
+  return coerceValue(document, schema, value);
+}
+
+/**
+ * Deserializes a path or header parameter value serialized with the
+ * `"simple"`, `"label"`, or `"matrix"` style.
+ */
+function deserializePathValue(
+  raw: string,
+  name: string,
+  style: string,
+  explode: boolean,
+  shape: ValueShape,
+  decoder: (input: string) => string,
+): unknown {
+  let parts: string[];
+  switch (style) {
+    case "label":
+      // .5, .3,4,5 or .3.4.5, .R,100,G,200 or .R=100.G=200
+      raw = raw.startsWith(".") ? raw.slice(1) : raw;
+      if (shape === "primitive") {
+        return decoder(raw);
+      }
+      parts = raw === "" ? [] : raw.split(explode ? "." : ",");
+      break;
+    case "matrix": {
+      // ;id=5, ;id=3,4,5 or ;id=3;id=4;id=5,
+      // ;id=R,100,G,200 or ;R=100;G=200
+      raw = raw.startsWith(";") ? raw.slice(1) : raw;
+      const prefix = name + "=";
+      if (explode && shape !== "primitive") {
+        parts = raw === "" ? [] : raw.split(";");
+        if (shape === "array") {
+          parts = parts.map((part: string): string =>
+            part.startsWith(prefix) ? part.slice(prefix.length) : part,
+          );
+        }
+      } else {
+        raw =
+          raw.startsWith(prefix) ? raw.slice(prefix.length)
+          : raw === name ? ""
+          : raw;
+        if (shape === "primitive") {
+          return decoder(raw);
+        }
+        parts = raw === "" ? [] : raw.split(",");
+      }
+      break;
+    }
+    default:
+      // 5, 3,4,5, R,100,G,200 or R=100,G=200
+      if (shape === "primitive") {
+        return decoder(raw);
+      }
+      parts = raw === "" ? [] : raw.split(",");
+      break;
+  }
+
+  if (shape === "array") {
+    return parts.map(decoder);
+  }
+  return explode ?
+      toObjectFromEntries(parts, decoder)
+    : toObjectFromList(parts, decoder);
+}
+
+/**
+ * Deserializes a query or cookie parameter value serialized with the
+ * `"form"`, `"spaceDelimited"`, `"pipeDelimited"`, or `"deepObject"` style.
+ */
+function deserializeQueryValue(
+  pairs: readonly RawPair[],
+  name: string,
+  style: string,
+  explode: boolean,
+  shape: ValueShape,
+  queryNames: readonly string[],
+  decoder: (input: string) => string,
+): unknown {
+  if (style === "deepObject") {
+    // id[role]=admin&id[firstName]=Alex
+    const prefix = name + "[";
+    const object: { [key: string]: string } = {};
+    let found = false;
+    for (const [key, value] of pairs) {
+      const decodedKey = decoder(key);
+      if (decodedKey.startsWith(prefix) && decodedKey.endsWith("]")) {
+        object[decodedKey.slice(prefix.length, -1)] = decoder(value);
+        found = true;
+      }
+    }
+    return found ? object : undefined;
+  }
+
+  if (shape === "object" && explode) {
+    // R=100&G=200: every pair not claimed by another parameter
+    // is a property of the object.
+    const object: { [key: string]: string } = {};
+    let found = false;
+    for (const [key, value] of pairs) {
+      const decodedKey = decoder(key);
+      if (!queryNames.includes(decodedKey)) {
+        object[decodedKey] = decoder(value);
+        found = true;
+      }
+    }
+    return found ? object : undefined;
+  }
+
+  const values = pairs
+    .filter((pair: RawPair): boolean => decoder(pair[0]) === name)
+    .map((pair: RawPair): string => pair[1]);
+  if (values.length === 0) {
+    return undefined;
+  }
+
+  if (shape === "primitive") {
+    return decoder(values[0]!);
+  }
+
+  let parts: string[];
+  if (explode) {
+    // id=3&id=4&id=5
+    parts = values;
+  } else {
+    // id=3,4,5, id=3%204%205, id=3|4|5, id=R,100,G,200
+    const delimiter =
+      style === "spaceDelimited" ? /%20|\+| /
+      : style === "pipeDelimited" ? /%7C|\|/i
+      : /,|%2C/i;
+    parts = values[0] === "" ? [] : values[0]!.split(delimiter);
+  }
+
+  return shape === "array" ?
+      parts.map(decoder)
+    : toObjectFromList(parts, decoder);
+}
+
+/**
+ * Converts alternating encoded keys and values into an object.
+ */
+function toObjectFromList(
+  parts: readonly string[],
+  decoder: (input: string) => string,
+): { [key: string]: string } {
+  const object: { [key: string]: string } = {};
+  for (let index = 0; index + 1 < parts.length; index += 2) {
+    object[decoder(parts[index]!)] = decoder(parts[index + 1]!);
+  }
+  return object;
+}
+
+/**
+ * Converts encoded `key=value` entries into an object.
+ */
+function toObjectFromEntries(
+  parts: readonly string[],
+  decoder: (input: string) => string,
+): { [key: string]: string } {
+  const object: { [key: string]: string } = {};
+  for (const part of parts) {
+    const index = part.indexOf("=");
+    if (index < 0) {
+      object[decoder(part)] = "";
+    } else {
+      object[decoder(part.slice(0, index))] = decoder(part.slice(index + 1));
+    }
+  }
+  return object;
+}
+
+/**
+ * Returns the shape a parameter with the given schema deserializes into.
+ */
+function getValueShape(document: Document, schema: unknown): ValueShape {
+  const types = getSchemaTypes(document, schema);
+  if (types.includes("array")) {
+    return "array";
+  }
+  if (types.includes("object")) {
+    return "object";
+  }
+  return "primitive";
+}
+
+/**
+ * Returns the types a schema node declares, inferring them from
+ * applicable keywords when the `type` keyword is absent.
+ */
+function getSchemaTypes(
+  document: Document,
+  schema: unknown,
+): readonly string[] {
+  schema = document.resolveReference(schema);
+  if (!isObject(schema)) {
+    return [];
+  }
+  const type = schema.type;
+  if (typeof type === "string") {
+    return [type];
+  }
+  if (isArray(type)) {
+    return type.filter((type): type is string => typeof type === "string");
+  }
+  if (
+    "properties" in schema ||
+    "additionalProperties" in schema ||
+    "patternProperties" in schema
+  ) {
+    return ["object"];
+  }
+  if ("items" in schema || "prefixItems" in schema) {
+    return ["array"];
+  }
+  return [];
+}
+
+/**
+ * Converts the string values of a deserialized parameter to the
+ * primitive types declared by its schema.
+ */
+function coerceValue(
+  document: Document,
+  schema: unknown,
+  value: unknown,
+): unknown {
+  schema = document.resolveReference(schema);
+  if (isArray(value)) {
+    const items = isObject(schema) ? schema.items : undefined;
+    return value.map((item: unknown): unknown =>
+      coerceValue(document, items, item),
+    );
+  }
+  if (isObject(value)) {
+    const properties = isObject(schema) ? schema.properties : undefined;
+    const additionalProperties =
+      isObject(schema) ? schema.additionalProperties : undefined;
+    const object: { [key: string]: unknown } = {};
+    for (const [key, item] of Object.entries(value)) {
+      object[key] = coerceValue(
+        document,
+        isObject(properties) && key in properties ?
+          properties[key]
+        : additionalProperties,
+        item,
+      );
+    }
+    return object;
+  }
+  if (typeof value !== "string") {
+    return value;
+  }
+
+  const types = getSchemaTypes(document, schema);
+  if (types.includes("string")) {
+    return value;
+  }
+  if (
+    (types.includes("integer") || types.includes("number")) &&
+    value.trim() !== "" &&
+    Number.isFinite(Number(value))
+  ) {
+    return Number(value);
+  }
+  if (types.includes("boolean") && (value === "true" || value === "false")) {
+    return value === "true";
+  }
+  if (types.includes("null") && (value === "" || value === "null")) {
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Matches a request path against a templated path, returning the raw
+ * values of its template expressions, or `undefined` if the path
+ * doesn't match.
+ *
+ * @see [OpenAPI Specification §4.8.8.1](https://spec.openapis.org/oas/v3.1.1.html#patterned-fields)
+ */
+function matchPathTemplate(
+  template: string,
+  path: string,
+): { [name: string]: string } | undefined {
+  const names: string[] = [];
+  let source = "^";
+  for (const part of template.split(/(\{[^{}]*\})/)) {
+    if (part.startsWith("{") && part.endsWith("}")) {
+      names.push(part.slice(1, -1));
+      source += "([^/]+)";
+    } else {
+      source += part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  source += "$";
+
+  const match = new RegExp(source).exec(path);
+  if (match === null) {
+    return undefined;
+  }
+  const values: { [name: string]: string } = {};
+  for (let index = 0; index < names.length; index += 1) {
+    values[names[index]!] = match[index + 1]!;
+  }
+  return values;
+}
+
+/**
+ * Splits a request path into its path and query components.
+ */
+function splitPath(path: string): [path: string, query: string] {
+  const index = path.indexOf("?");
+  return index < 0 ? [path, ""] : [path.slice(0, index), path.slice(index)];
+}
+
+/**
+ * Splits a query string or cookie header into its name-value pairs.
+ */
+function parsePairs(input: string, separator: string): RawPair[] {
+  const pairs: RawPair[] = [];
+  for (let part of input.split(separator)) {
+    part = part.trim();
+    if (part === "") {
+      continue;
+    }
+    const index = part.indexOf("=");
+    pairs.push(
+      index < 0 ? [part, ""] : [part.slice(0, index), part.slice(index + 1)],
+    );
+  }
+  return pairs;
+}
+
+/**
+ * Returns the value of the header with the given case-insensitive name.
+ * Repeated headers are combined into a comma-separated list.
+ */
+function getHeader(
+  headers: HttpHeaders | undefined,
+  name: string,
+): string | undefined {
+  if (headers === undefined) {
+    return undefined;
+  }
+  name = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() !== name || value === undefined) {
+      continue;
+    }
+    return typeof value === "string" ? value : value.join(",");
+  }
+  return undefined;
+}
+
+/**
+ * Decodes a percent-encoded path component. Malformed escape sequences
+ * are left as-is.
+ */
+function decodePath(input: string): string {
+  try {
+    return decodeURIComponent(input);
+  } catch {
+    return input;
+  }
+}
+
+/**
+ * Decodes a percent-encoded query or cookie component, treating `"+"`
+ * as a space.
+ */
+function decodeQuery(input: string): string {
+  return decodePath(input.replace(/\+/g, " "));
+}
@@ -9,8 +9,26 @@ export {
   xmlKeyword,
   externalDocsKeyword,
   exampleKeyword,
+  anyOfKeyword,
+  oneOfKeyword,
   baseVocabulary,
 } from "./base.ts";
 
 export type { Schema } from "./dialect.ts";
 export { dialect } from "./dialect.ts";
+
+export type {
+  DocumentOptions,
+  OperationMethod,
+  ParameterLocation,
+  Operation,
+} from "./document.ts";
+export { Document, selectMediaType, parseDocument } from "./document.ts";
+
+export type {
+  HttpHeaders,
+  HttpRequest,
+  HttpResponse,
+  OperationMatch,
+} from "./http.ts";
+export { matchOperation, validateRequest, validateResponse } from "./http.ts";
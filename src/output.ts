@@ -1,3 +1,4 @@
+import type { NodeType } from "tool-json";
 import {
   escapePointer,
   currentFrame,
@@ -6,6 +7,7 @@ import {
 } from "tool-json";
 import type { SchemaContext, SchemaFrame } from "./context.ts";
 import { instanceLocation } from "./context.ts";
+import { getMessageCatalog, formatMessage } from "./message.ts";
 
 /**
  * A JSON Schema output unit.
@@ -48,6 +50,19 @@ export interface OutputUnit {
    */
   error?: string | undefined;
 
+  /**
+   * A stable, machine-readable code that identifies the kind of error
+   * produced by a failed validation. Built-in keywords use the codes
+   * declared by {@link ErrorParams}.
+   */
+  code?: string | undefined;
+
+  /**
+   * The parameters of the error produced by a failed validation,
+   * with the shape declared for its `code` by {@link ErrorParams}.
+   */
+  params?: { readonly [key: string]: unknown } | undefined;
+
   /**
    * The annotation produced by a successful validation.
    */
@@ -64,6 +79,175 @@ export interface OutputUnit {
   annotations?: OutputUnit[] | undefined;
 }
 
+/**
+ * The parameters of the errors produced by built-in keywords, keyed by
+ * error code. Custom keywords can declare additional error codes by
+ * augmenting this interface.
+ *
+ * @category Output
+ */
+export interface ErrorParams {
+  /** The instance was evaluated against a `false` schema. */
+  falseSchema: {};
+
+  /** The instance type is not one of the `expected` types. */
+  type: { readonly expected: readonly NodeType[]; readonly actual: NodeType };
+
+  /** The instance is not equal to any of the `allowed` values. */
+  enum: { readonly allowed: readonly unknown[] };
+
+  /** The instance is not equal to the `expected` value. */
+  const: { readonly expected: unknown };
+
+  /** The `actual` number is not a multiple of the `divisor`. */
+  multipleOf: { readonly divisor: number; readonly actual: number };
+
+  /** The `actual` number is greater than the inclusive `limit`. */
+  maximum: { readonly limit: number; readonly actual: number };
+
+  /** The `actual` number is greater than or equal to the exclusive `limit`. */
+  exclusiveMaximum: { readonly limit: number; readonly actual: number };
+
+  /** The `actual` number is less than the inclusive `limit`. */
+  minimum: { readonly limit: number; readonly actual: number };
+
+  /** The `actual` number is less than or equal to the exclusive `limit`. */
+  exclusiveMinimum: { readonly limit: number; readonly actual: number };
+
+  /** The `actual` string length is greater than the `limit`. */
+  maxLength: { readonly limit: number; readonly actual: number };
+
+  /** The `actual` string length is less than the `limit`. */
+  minLength: { readonly limit: number; readonly actual: number };
+
+  /** The string does not match the regular expression `pattern`. */
+  pattern: { readonly pattern: string };
+
+  /** The `actual` number of items is greater than the `limit`. */
+  maxItems: { readonly limit: number; readonly actual: number };
+
+  /** The `actual` number of items is less than the `limit`. */
+  minItems: { readonly limit: number; readonly actual: number };
+
+  /** The items at the given `indices` are equal. */
+  uniqueItems: { readonly indices: readonly [number, number] };
+
+  /** The `actual` number of contained items is greater than the `limit`. */
+  maxContains: { readonly limit: number; readonly actual: number };
+
+  /** The `actual` number of contained items is less than the `limit`. */
+  minContains: { readonly limit: number; readonly actual: number };
+
+  /** The `actual` number of properties is greater than the `limit`. */
+  maxProperties: { readonly limit: number; readonly actual: number };
+
+  /** The `actual` number of properties is less than the `limit`. */
+  minProperties: { readonly limit: number; readonly actual: number };
+
+  /** The object is `missing` required properties. */
+  required: { readonly missing: readonly string[] };
+
+  /**
+   * The object is `missing` properties required by present properties,
+   * keyed by the name of the property that requires them.
+   */
+  dependentRequired: {
+    readonly missing: { readonly [property: string]: readonly string[] };
+  };
+
+  /** The instance is not valid against every subschema. */
+  allOf: {};
+
+  /** The instance is not valid against any subschema. */
+  anyOf: {};
+
+  /** The instance is valid against `matches` subschemas, instead of one. */
+  oneOf: { readonly matches: number };
+
+  /** The instance is valid against the negated subschema. */
+  not: {};
+
+  /** The dependent subschemas of the given `properties` failed. */
+  dependentSchemas: { readonly properties: readonly string[] };
+
+  /** The array has `actual` items, fewer than the `expected` prefix items. */
+  prefixItems: { readonly expected: number; readonly actual: number };
+
+  /** Some items are not valid against the items subschema. */
+  items: {};
+
+  /** Some additional items are not valid against the items subschema. */
+  additionalItems: {};
+
+  /** No item is valid against the contains subschema. */
+  contains: {};
+
+  /** The given `properties` are not valid against their subschemas. */
+  properties: { readonly properties: readonly string[] };
+
+  /** The given `properties` are not valid against matching subschemas. */
+  patternProperties: { readonly properties: readonly string[] };
+
+  /** The given `properties` are not valid against the additional schema. */
+  additionalProperties: { readonly properties: readonly string[] };
+
+  /** The given property names are not valid against the names subschema. */
+  propertyNames: { readonly properties: readonly string[] };
+
+  /** Some unevaluated items are not valid against the subschema. */
+  unevaluatedItems: {};
+
+  /** The given unevaluated `properties` are not valid against the subschema. */
+  unevaluatedProperties: { readonly properties: readonly string[] };
+
+  /**
+   * The object is `missing` properties required by the given `properties`,
+   * or their dependent subschemas failed.
+   */
+  dependencies: {
+    readonly properties: readonly string[];
+    readonly missing: readonly string[];
+  };
+
+  /**
+   * The string is not a valid instance of the given `format`,
+   * for the reason described by the format's `message`.
+   */
+  format: { readonly format: string; readonly message: string };
+
+  /** The given `format` is not known. */
+  unknownFormat: { readonly format: string };
+
+  /** The `reference` does not identify a known schema. */
+  unknownReference: { readonly reference: string };
+
+  /** The `reference` identifies a schema that was never resolved. */
+  unresolvedReference: { readonly reference: string };
+
+  /** The `keyword` failed to parse with the given `message`. */
+  invalidKeyword: { readonly keyword: string; readonly message: string };
+}
+
+/**
+ * A stable, machine-readable code that identifies the kind of error
+ * produced by a built-in keyword.
+ *
+ * @category Output
+ */
+export type ErrorCode = keyof ErrorParams;
+
+/**
+ * A standard JSON Schema output format:
+ * - `"flag"`: a boolean validation result
+ * - `"basic"`: a flat list of errors or annotations
+ * - `"detailed"`: a condensed hierarchy of errors or annotations
+ * - `"verbose"`: the full hierarchy of schema evaluation results
+ *
+ * @see [JSON Schema Core §12.4](https://datatracker.ietf.org/doc/html/draft-bhutton-json-schema-01#section-12.4)
+ * @category Output
+ */
+export type OutputFormat = "flag" | "basic" | "detailed" | "verbose";
+
 /**
  * Initializes a new schema output unit for the current stack frame.
  *
@@ -92,6 +276,12 @@ export function initOutput(
   if (!("error" in output)) {
     output.error = undefined;
   }
+  if (!("code" in output)) {
+    output.code = undefined;
+  }
+  if (!("params" in output)) {
+    output.params = undefined;
+  }
   if (!("annotation" in output)) {
     output.annotation = undefined;
   }
@@ -118,17 +308,39 @@ export function emitOutput(
   frame: SchemaFrame | undefined,
 ): OutputUnit | undefined {
   let output = frame?.output;
-  if (
-    output === undefined ||
-    (output.error === undefined &&
-      output.annotation === undefined &&
-      (output.errors === undefined || output.errors.length === 0) &&
-      (output.annotations === undefined || output.annotations.length === 0))
+  if (output === undefined) {
+    return undefined;
+  }
+
+  // Flag mode doesn't record errors, so only propagate the failure.
+  if (context.flag === true && !output.valid) {
+    for (frame = frame!.parent; frame !== undefined; frame = frame.parent) {
+      if (frame.output !== undefined) {
+        frame.output.valid = false;
+        return frame.output;
+      }
+    }
+    return undefined;
+  }
+
+  // Verbose output retains every output unit, without collapsing.
+  const verbose = context.outputFormat === "verbose";
+  if (verbose) {
+    initOutput(context, frame!);
+  } else if (
+    output.error === undefined &&
+    output.annotation === undefined &&
+    (output.errors === undefined || output.errors.length === 0) &&
+    (output.annotations === undefined || output.annotations.length === 0)
   ) {
     return undefined;
   }
 
-  if (output.error === undefined && output.annotation === undefined) {
+  if (
+    !verbose &&
+    output.error === undefined &&
+    output.annotation === undefined
+  ) {
     if (
       output.errors?.length === 1 &&
       (output.annotations === undefined || output.annotations?.length === 1)
@@ -172,20 +384,66 @@ export function emitOutput(
 }
 
 /**
- * Attaches a schema error to the current stack location.
+ * Attaches a schema error to the current stack location, identified by
+ * an optional error `code` with its associated `params`.
+ *
+ * @category Output
+ */
+export function attachError<Code extends ErrorCode>(
+  context: SchemaContext,
+  message: string,
+  code?: Code,
+  params?: ErrorParams[Code],
+): OutputUnit {
+  return attachFrameError(
+    context,
+    currentFrame(context) as SchemaFrame,
+    message,
+    code,
+    params,
+  );
+}
+
+/**
+ * Attaches a schema error to the given stack frame, identified by
+ * an optional error `code` with its associated `params`.
  *
  * @category Output
+ * @internal
  */
-export function attachError(
+export function attachFrameError<Code extends ErrorCode>(
   context: SchemaContext,
+  frame: SchemaFrame,
   message: string,
+  code?: Code,
+  params?: ErrorParams[Code],
 ): OutputUnit {
-  const frame = currentFrame(context) as SchemaFrame;
+  // Only record the validation result in flag mode.
+  if (context.flag === true) {
+    let output = frame.output;
+    if (output === undefined) {
+      frame.output = output = { valid: false };
+    }
+    output.valid = false;
+    return output;
+  }
 
-  // Attach the error to the output unit for the current stack frame.
+  // Render the error message in the locale of the context.
+  if (
+    context.locale !== undefined &&
+    code !== undefined &&
+    params !== undefined
+  ) {
+    message =
+      formatMessage(getMessageCatalog(context), code, params) ?? message;
+  }
+
+  // Attach the error to the output unit for the stack frame.
   const output = initOutput(context, frame);
   output.valid = false;
   output.error = message;
+  output.code = code;
+  output.params = params;
 
   return output;
 }
@@ -199,9 +457,25 @@ export function attachAnnotation(
   context: SchemaContext,
   value: unknown,
 ): OutputUnit {
-  const frame = currentFrame(context) as SchemaFrame;
+  return attachFrameAnnotation(
+    context,
+    currentFrame(context) as SchemaFrame,
+    value,
+  );
+}
 
-  // Attach the annotation to the output unit for the current stack frame.
+/**
+ * Attaches a schema annotation to the given stack frame.
+ *
+ * @category Output
+ * @internal
+ */
+export function attachFrameAnnotation(
+  context: SchemaContext,
+  frame: SchemaFrame,
+  value: unknown,
+): OutputUnit {
+  // Attach the annotation to the output unit for the stack frame.
   const output = initOutput(context, frame);
   output.annotation = value;
 
@@ -314,6 +588,8 @@ export interface OutputCheckpoint {
   output: OutputUnit | undefined;
   valid: boolean | undefined;
   error: string | undefined;
+  code: string | undefined;
+  params: { readonly [key: string]: unknown } | undefined;
   errors: OutputUnit[] | undefined;
 }
 
@@ -330,6 +606,8 @@ export function saveCheckpoint(
     output,
     valid: output?.valid,
     error: output?.error,
+    code: output?.code,
+    params: output?.params,
     errors: output?.errors?.slice(),
   };
 }
@@ -348,5 +626,180 @@ export function restoreCheckpoint(checkpoint: OutputCheckpoint): void {
 
   output.valid = checkpoint.valid!;
   output.error = checkpoint.error;
+  output.code = checkpoint.code;
+  output.params = checkpoint.params;
   output.errors = checkpoint.errors;
 }
+
+/**
+ * Converts the output of a schema evaluation to the given standard
+ * output format. Verbose output can only be converted from output
+ * produced by an evaluation in verbose mode.
+ *
+ * @see [JSON Schema Core §12.4](https://datatracker.ietf.org/doc/html/draft-bhutton-json-schema-01#section-12.4)
+ * @category Output
+ */
+export function formatOutput(
+  output: OutputUnit,
+  format: OutputFormat,
+): OutputUnit {
+  switch (format) {
+    case "flag":
+      // §12.4.1: A boolean which simply indicates the overall
+      // validation result with no further details.
+      return { valid: output.valid };
+    case "basic":
+      return formatBasicOutput(output);
+    case "detailed":
+      return formatDetailedOutput(output) ?? createOutputResult(output);
+    case "verbose":
+      return formatVerboseOutput(output);
+  }
+}
+
+/**
+ * Converts evaluation output to the basic output format.
+ *
+ * @see [JSON Schema Core §12.4.2](https://datatracker.ietf.org/doc/html/draft-bhutton-json-schema-01#section-12.4.2)
+ */
+function formatBasicOutput(output: OutputUnit): OutputUnit {
+  // §12.4.2: Provides validation information in a flat list structure.
+  const units: OutputUnit[] = [];
+  collectOutputResults(output, output.valid, units);
+
+  const result: OutputUnit = { valid: output.valid };
+  if (units.length !== 0) {
+    if (output.valid) {
+      result.annotations = units;
+    } else {
+      result.errors = units;
+    }
+  }
+  return result;
+}
+
+/**
+ * Accumulates the errors (if `valid` is `false`), or the annotations
+ * (if `valid` is `true`), contained in the given output hierarchy.
+ */
+function collectOutputResults(
+  output: OutputUnit,
+  valid: boolean,
+  units: OutputUnit[],
+): void {
+  if (output.valid !== valid) {
+    return;
+  }
+
+  if (
+    (!valid && output.error !== undefined) ||
+    (valid && output.annotation !== undefined)
+  ) {
+    units.push(createOutputResult(output));
+  }
+
+  const children = valid ? output.annotations : output.errors;
+  if (children !== undefined) {
+    for (const child of children) {
+      collectOutputResults(child, valid, units);
+    }
+  }
+}
+
+/**
+ * Converts evaluation output to the detailed output format.
+ * Returns `undefined` if the output contains no results.
+ *
+ * @see [JSON Schema Core §12.4.3](https://datatracker.ietf.org/doc/html/draft-bhutton-json-schema-01#section-12.4.3)
+ */
+function formatDetailedOutput(
+  output: OutputUnit,
+  root: boolean = true,
+): OutputUnit | undefined {
+  const result = createOutputResult(output);
+
+  // §12.4.3: Provides validation information in a condensed hierarchical
+  // structure based on the structure of the schema. Failed validations
+  // only report errors, and successful validations only report annotations.
+  const children = output.valid ? output.annotations : output.errors;
+  const units: OutputUnit[] = [];
+  if (children !== undefined) {
+    for (const child of children) {
+      if (child.valid !== output.valid) {
+        continue;
+      }
+      const unit = formatDetailedOutput(child, false);
+      if (unit !== undefined) {
+        units.push(unit);
+      }
+    }
+  }
+
+  if (!root && result.error === undefined && result.annotation === undefined) {
+    // Omit output units that contain no results.
+    if (units.length === 0) {
+      return undefined;
+    }
+    // Collapse output units with a single child.
+    if (units.length === 1) {
+      return units[0]!;
+    }
+  }
+
+  if (units.length !== 0) {
+    if (output.valid) {
+      result.annotations = units;
+    } else {
+      result.errors = units;
+    }
+  }
+  return result;
+}
+
+/**
+ * Converts evaluation output to the verbose output format.
+ *
+ * @see [JSON Schema Core §12.4.4](https://datatracker.ietf.org/doc/html/draft-bhutton-json-schema-01#section-12.4.4)
+ */
+function formatVerboseOutput(output: OutputUnit): OutputUnit {
+  // §12.4.4: A fully realized hierarchy that exactly matches
+  // that of the schema.
+  const result = createOutputResult(output);
+  if (output.errors !== undefined && output.errors.length !== 0) {
+    result.errors = output.errors.map(formatVerboseOutput);
+  }
+  if (output.annotations !== undefined && output.annotations.length !== 0) {
+    result.annotations = output.annotations.map(formatVerboseOutput);
+  }
+  return result;
+}
+
+/**
+ * Returns a copy of the given output unit with its validation result,
+ * locations, and error or annotation, omitting undefined properties.
+ */
+function createOutputResult(output: OutputUnit): OutputUnit {
+  const result: OutputUnit = { valid: output.valid };
+  if (output.keywordLocation !== undefined) {
+    result.keywordLocation = output.keywordLocation;
+  }
+  if (output.absoluteKeywordLocation !== undefined) {
+    result.absoluteKeywordLocation = output.absoluteKeywordLocation;
+  }
+  if (output.instanceLocation !== undefined) {
+    result.instanceLocation = output.instanceLocation;
+  }
+  if (output.error !== undefined) {
+    result.error = output.error;
+  }
+  if (output.code !== undefined) {
+    result.code = output.code;
+  }
+  if (output.params !== undefined) {
+    result.params = output.params;
+  }
+  if (output.annotation !== undefined) {
+    result.annotation = output.annotation;
+  }
+  return result;
+}
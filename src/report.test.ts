@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { formatReport, parseSchema } from "tool-schema";
+
+void suite("formatReport", () => {
+  const schemaNode = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    properties: {
+      name: {
+        title: "Name",
+        description: "The name of the person",
+        minLength: 2,
+      },
+      address: { $ref: "#/$defs/address" },
+    },
+    required: ["id"],
+    $defs: {
+      address: {
+        title: "Address",
+        properties: { zip: { type: "string", maxLength: 5 } },
+      },
+    },
+  } as const;
+
+  void test("renders valid output", async () => {
+    const schema = await parseSchema(schemaNode);
+    const instance = { id: 1 };
+
+    assert.equal(
+      formatReport(schema, instance, schema.validate(instance)),
+      "valid",
+    );
+  });
+
+  void test("renders plain text reports", async () => {
+    const schema = await parseSchema(schemaNode);
+    const instance = { name: "a", address: { zip: "1234567" } };
+    const report = formatReport(schema, instance, schema.validate(instance));
+
+    assert.equal(
+      report,
+      [
+        "invalid: 3 errors",
+        "",
+        "1. /name: shorter than 2 characters",
+        '   value:   "a"',
+        "   keyword: minLength = 2 (at /properties/name/minLength)",
+        "   schema:  Name - The name of the person",
+        "",
+        "2. /address/zip: longer than 5 characters",
+        '   value:   "1234567"',
+        "   keyword: maxLength = 5 (at /properties/address/$ref/properties/zip/maxLength)",
+        "",
+        '3. (root): missing required property "id"',
+        '   value:   {"name":"a","address":{"zip":"1234567"}}',
+        '   keyword: required = ["id"] (at /required)',
+      ].join("\n"),
+    );
+  });
+
+  void test("truncates long values", async () => {
+    const schema = await parseSchema({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      maxLength: 3,
+    });
+    const instance = "abcdefghijklmnopqrstuvwxyz";
+    const report = formatReport(schema, instance, schema.validate(instance), {
+      maxValueLength: 10,
+    });
+
+    assert.match(report, /value: {3}"abcdefgh…$/m);
+  });
+
+  void test("renders ANSI colored reports", async () => {
+    const schema = await parseSchema(schemaNode);
+    const instance = { name: "a", id: 2 };
+    const report = formatReport(schema, instance, schema.validate(instance), {
+      color: true,
+    });
+
+    assert(report.includes("\x1b[31mshorter than 2 characters\x1b[0m"));
+    let plain = report;
+    for (const code of [0, 1, 2, 31, 32, 33, 36]) {
+      plain = plain.replaceAll("\x1b[" + code + "m", "");
+    }
+    assert.equal(
+      plain,
+      formatReport(schema, instance, schema.validate(instance)),
+    );
+  });
+});
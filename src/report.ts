@@ -0,0 +1,239 @@
+import { isArray, isObject, parsePointer, getReference } from "tool-json";
+import type { OutputUnit } from "./output.ts";
+import type { Schema } from "./schema.ts";
+
+/**
+ * Options for rendering a validation report.
+ *
+ * @category Output
+ */
+export interface ReportOptions {
+  /**
+   * Whether to style the report with ANSI escape codes.
+   * Defaults to `false`.
+   */
+  color?: boolean | undefined;
+
+  /**
+   * The maximum length of rendered instance and keyword values,
+   * beyond which values are truncated. Defaults to `60`.
+   */
+  maxValueLength?: number | undefined;
+}
+
+/**
+ * ANSI escape codes used to style validation reports.
+ */
+const ansi = {
+  reset: "\x1b[0m",
+  bold: "\x1b[1m",
+  dim: "\x1b[2m",
+  red: "\x1b[31m",
+  green: "\x1b[32m",
+  yellow: "\x1b[33m",
+  cyan: "\x1b[36m",
+} as const;
+
+/**
+ * Renders the output of validating an instance against a schema as a human
+ * readable, multi-line report. Each error is listed with the location and
+ * an excerpt of the offending instance value, the failed keyword and its
+ * value, and the `title` and `description` of the enclosing subschema.
+ *
+ * Only the innermost errors of hierarchical output are listed, since
+ * the errors that contain them merely summarize their failures.
+ *
+ * @category Output
+ */
+export function formatReport(
+  schema: Schema,
+  instance: unknown,
+  output: OutputUnit,
+  options?: ReportOptions,
+): string {
+  const color = options?.color ?? false;
+  const maxValueLength = options?.maxValueLength ?? 60;
+
+  const style = (code: keyof typeof ansi, text: string): string =>
+    color ? ansi[code] + text + ansi.reset : text;
+
+  if (output.valid) {
+    return style("green", "valid");
+  }
+
+  const errors: OutputUnit[] = [];
+  collectReportErrors(output, errors);
+
+  const lines: string[] = [
+    style(
+      "bold",
+      style(
+        "red",
+        "invalid: " +
+          errors.length +
+          (errors.length === 1 ? " error" : " errors"),
+      ),
+    ),
+  ];
+
+  for (let i = 0; i < errors.length; i += 1) {
+    const error = errors[i]!;
+    const indent = " ".repeat(String(i + 1).length + 2);
+
+    lines.push("");
+    lines.push(
+      style("bold", i + 1 + ".") +
+        " " +
+        style("cyan", formatLocation(error.instanceLocation)) +
+        ": " +
+        style("red", error.error ?? "invalid"),
+    );
+
+    if (error.instanceLocation !== undefined) {
+      const value = resolveInstance(instance, error.instanceLocation);
+      lines.push(
+        indent +
+          style("dim", "value:   ") +
+          style("yellow", excerptValue(value, maxValueLength)),
+      );
+    }
+
+    if (error.keywordLocation !== undefined) {
+      const keyword = resolveKeyword(schema, error.keywordLocation);
+      let line = indent + style("dim", "keyword: ");
+      if (keyword.key !== undefined) {
+        line += keyword.key + " = ";
+      }
+      line +=
+        style("yellow", excerptValue(keyword.value, maxValueLength)) +
+        style("dim", " (at " + formatLocation(error.keywordLocation) + ")");
+      lines.push(line);
+
+      const title = keyword.schema?.title;
+      const description = keyword.schema?.description;
+      if (typeof title === "string" || typeof description === "string") {
+        let line = indent + style("dim", "schema:  ");
+        if (typeof title === "string") {
+          line += style("bold", title);
+        }
+        if (typeof title === "string" && typeof description === "string") {
+          line += " - ";
+        }
+        if (typeof description === "string") {
+          line += description;
+        }
+        lines.push(line);
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Accumulates the errors in the given output hierarchy
+ * that don't contain any nested errors.
+ */
+function collectReportErrors(output: OutputUnit, errors: OutputUnit[]): void {
+  if (output.valid) {
+    return;
+  }
+  if (output.errors === undefined || output.errors.length === 0) {
+    if (output.error !== undefined) {
+      errors.push(output);
+    }
+    return;
+  }
+  for (const error of output.errors) {
+    collectReportErrors(error, errors);
+  }
+}
+
+/**
+ * Returns the display form of a JSON Pointer.
+ */
+function formatLocation(location: string | undefined): string {
+  if (location === undefined) {
+    return "(unknown)";
+  }
+  return location.length !== 0 ? location : "(root)";
+}
+
+/**
+ * Returns a JSON excerpt of a value, truncated to the given maximum length.
+ */
+function excerptValue(value: unknown, maxLength: number): string {
+  let excerpt: string;
+  try {
+    excerpt = JSON.stringify(value) ?? String(value);
+  } catch {
+    excerpt = String(value);
+  }
+  if (excerpt.length > maxLength) {
+    excerpt = excerpt.slice(0, Math.max(0, maxLength - 1)) + "…";
+  }
+  return excerpt;
+}
+
+/**
+ * Returns the instance value at the given JSON Pointer.
+ */
+function resolveInstance(instance: unknown, pointer: string): unknown {
+  let value = instance;
+  for (const token of parsePointer(pointer)) {
+    if (isArray(value)) {
+      value = value[Number(token)];
+    } else if (isObject(value)) {
+      value = value[token];
+    } else {
+      return undefined;
+    }
+  }
+  return value;
+}
+
+/**
+ * Returns the keyword at the end of the given keyword location, following
+ * schema references traversed during evaluation, along with its value and
+ * its enclosing schema object. Boolean schemas have no keyword or
+ * enclosing schema.
+ */
+function resolveKeyword(
+  schema: Schema,
+  keywordLocation: string,
+): {
+  key: string | undefined;
+  value: unknown;
+  schema: { readonly [key: string]: unknown } | undefined;
+} {
+  const tokens = parsePointer(keywordLocation);
+
+  let node = schema.node;
+  let parent: { readonly [key: string]: unknown } | undefined;
+  for (let i = 0; i < tokens.length; i += 1) {
+    const token = tokens[i]!;
+    if (
+      i !== tokens.length - 1 &&
+      isObject(node) &&
+      (token === "$ref" || token === "$dynamicRef")
+    ) {
+      // Follow the reference into the referenced schema.
+      node = getReference(schema.context, node)?.target;
+      continue;
+    }
+    if (isArray(node)) {
+      parent = undefined;
+      node = node[Number(token)];
+    } else if (isObject(node)) {
+      parent = node;
+      node = node[token];
+    } else {
+      return { key: undefined, value: undefined, schema: undefined };
+    }
+  }
+
+  if (typeof node === "boolean" || parent === undefined) {
+    return { key: undefined, value: node, schema: undefined };
+  }
+  return { key: tokens[tokens.length - 1], value: node, schema: parent };
+}
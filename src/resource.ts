@@ -15,9 +15,21 @@ import type { SchemaContext, SchemaFrame } from "./context.ts";
 import { emitOutput, attachError } from "./output.ts";
 import type { Format } from "./format.ts";
 import type { Keyword } from "./keyword.ts";
-import { unknownKeyword, sortKeywords } from "./keyword.ts";
+import {
+  AnnotationKeyword,
+  unknownKeyword,
+  invalidKeyword,
+  sortKeywords,
+} from "./keyword.ts";
 import type { Vocabulary } from "./vocabulary.ts";
 import type { Dialect } from "./dialect.ts";
+import { checkStrictSchema } from "./strict.ts";
+import type { SchemaValidator } from "./compile.ts";
+import {
+  beginEvaluation,
+  recordEvaluation,
+  endEvaluation,
+} from "./evaluation.ts";
 
 /**
  * A JSON Schema resource.
@@ -34,6 +46,19 @@ export interface SchemaResource extends Resource {
    * The dependency-ordered keywords used by the schema.
    */
   keys: readonly Keyword[] | undefined;
+
+  /**
+   * Whether the schema has keywords that depend on the annotations
+   * of in-place applicators, such as `unevaluatedProperties`.
+   * @internal
+   */
+  unevaluated: boolean | undefined;
+
+  /**
+   * The compiled validator for the schema, if the schema has been compiled.
+   * @internal
+   */
+  validator: SchemaValidator | undefined;
 }
 
 /**
@@ -65,6 +90,12 @@ export function initSchemaResource(
   if (!("keys" in resource)) {
     resource.keys = undefined;
   }
+  if (!("unevaluated" in resource)) {
+    resource.unevaluated = undefined;
+  }
+  if (!("validator" in resource)) {
+    resource.validator = undefined;
+  }
   return resource as SchemaResource;
 }
 
@@ -128,7 +159,8 @@ export function parseSchemaResource(
     // §8.1.1 ¶1: The identifier of a resource which is itself a JSON Schema,
     // which describes the set of valid schemas written for this particular
     // dialect.
-    resource.dialect = context.dialects?.get(dialectUri);
+    resource.dialect =
+      context.dialects?.get(dialectUri) ?? discoverDialect(context, dialectUri);
     if (resource.dialect === undefined) {
       throw new ValidationError(
         "Unknown dialect " + JSON.stringify(dialectUri),
@@ -148,22 +180,54 @@ export function parseSchemaResource(
   // Collect the schema's keyword implementations.
   const keywords: Keyword[] = [];
   for (const key of Object.keys(node)) {
-    keywords.push(resource.dialect.keywords[key] ?? unknownKeyword(key));
+    keywords.push(
+      Object.hasOwn(resource.dialect.keywords, key) ?
+        resource.dialect.keywords[key]!
+      : unknownKeyword(key),
+    );
+  }
+  // Drop the keywords adjacent to an exclusive keyword.
+  const exclusive = keywords.find(
+    (keyword: Keyword): boolean => keyword.exclusive === true,
+  );
+  if (exclusive !== undefined) {
+    keywords.splice(0, keywords.length, exclusive);
   }
   // Sort the schema's keywords into dependency order.
   sortKeywords(keywords, context);
   // Cache the sorted keywords in the schema resource.
   resource.keys = keywords;
+  // Determine whether the schema depends on in-place annotations.
+  resource.unevaluated = keywords.some((keyword: Keyword): boolean =>
+    keyword.dependencies.includes("@unevaluated"),
+  );
 
   // Parse the schema's keywords in dependency order.
-  for (const keyword of keywords) {
-    nestFrame(context, (frame: SchemaFrame): void => {
-      frame.nodeKey = keyword.key;
-      frame.node = node[keyword.key];
-      keyword.parse(context);
-    });
+  for (let i = 0; i < keywords.length; i += 1) {
+    const keyword = keywords[i]!;
+    try {
+      nestFrame(context, (frame: SchemaFrame): void => {
+        frame.nodeKey = keyword.key;
+        frame.node = node[keyword.key];
+        keyword.parse(context);
+      });
+    } catch (error) {
+      // Rethrow parse errors, unless diagnostics are being collected.
+      if (
+        context.diagnostics === undefined ||
+        !(error instanceof ValidationError)
+      ) {
+        throw error;
+      }
+      // Record the parse error, and replace the keyword with a stand-in.
+      context.diagnostics.push(error);
+      keywords[i] = invalidKeyword(keyword, error);
+    }
   }
 
+  // Check the schema against the context's strict mode policies.
+  checkStrictSchema(context, resource);
+
   return resource;
 }
 
@@ -175,6 +239,26 @@ export function parseSchemaResource(
  * @internal
  */
 export function validateSchemaResource(context: SchemaContext): void {
+  const evaluation = context.evaluation;
+  if (evaluation === undefined) {
+    evaluateSchemaResource(context);
+    return;
+  }
+
+  // Record the evaluation of the schema in the evaluation tree.
+  beginEvaluation(context, currentFrame(context) as SchemaFrame);
+  try {
+    evaluateSchemaResource(context);
+  } finally {
+    endEvaluation(context, evaluation);
+  }
+}
+
+/**
+ * Validates the instance at the top of the stack against the keywords
+ * of the schema at the top of the stack.
+ */
+function evaluateSchemaResource(context: SchemaContext): void {
   // Get the schema node and the instance to validate from the top of the stack.
   const frame = currentFrame(context) as SchemaFrame;
   const node = frame.node;
@@ -184,7 +268,10 @@ export function validateSchemaResource(context: SchemaContext): void {
   if (node === true) {
     return;
   } else if (node === false) {
-    attachError(context, "never valid");
+    attachError(context, "never valid", "falseSchema", {});
+    if (context.evaluation !== undefined) {
+      context.evaluation.valid = false;
+    }
     return;
   }
 
@@ -208,8 +295,27 @@ export function validateSchemaResource(context: SchemaContext): void {
     frame.baseUri = resource.baseUri;
   }
 
+  // Update the schema location of the evaluation now that the
+  // frame's base URI is known.
+  if (context.evaluation !== undefined) {
+    context.evaluation.schemaLocation = currentLocation(context, frame);
+  }
+
+  // Determine whether the annotations produced by the schema are required,
+  // and cache the result for the schema's keywords and subschemas.
+  const annotate = requiresAnnotations(context, frame);
+  frame.annotate = annotate;
+
   // Validate the instance against the schema's keywords.
   for (const keyword of resource.keys!) {
+    // Skip annotation-only keywords when annotations aren't required.
+    if (
+      !annotate &&
+      keyword.validate === AnnotationKeyword.prototype.validate
+    ) {
+      continue;
+    }
+
     nestFrame(context, (frame: SchemaFrame): void => {
       frame.nodeKey = keyword.key;
       frame.node = node[keyword.key];
@@ -217,10 +323,69 @@ export function validateSchemaResource(context: SchemaContext): void {
       frame.output = { valid: true };
       keyword.validate(context);
       emitOutput(context, frame);
+      if (context.evaluation !== undefined) {
+        recordEvaluation(context.evaluation, keyword.key, frame.output);
+      }
     });
+
+    // Stop at the first failing keyword in flag mode.
+    if (context.flag === true && frame.output?.valid === false) {
+      break;
+    }
+  }
+
+  // Discard annotations that only adjacent keywords needed.
+  if (!annotate && frame.output !== undefined) {
+    frame.output.annotations = undefined;
   }
 }
 
+/**
+ * Returns `true` if annotations produced at the given stack frame are
+ * required to determine the validation result. Annotations are always
+ * required, except in flag mode, where they're only required when a schema
+ * that applies to the same instance location has an `unevaluatedItems`
+ * or `unevaluatedProperties` keyword. Results are cached in the frames
+ * of evaluated schemas, so only frames up to the nearest evaluated schema
+ * are checked.
+ *
+ * @category Resource
+ * @internal
+ */
+export function requiresAnnotations(
+  context: SchemaContext,
+  frame: SchemaFrame | undefined,
+): boolean {
+  if (context.flag !== true) {
+    return true;
+  }
+
+  while (frame !== undefined) {
+    // Reuse the result determined for an enclosing schema.
+    if (frame.annotate !== undefined) {
+      return frame.annotate;
+    }
+
+    // Check for keywords that depend on the annotations of in-place
+    // applicators, such as "unevaluatedProperties".
+    const node = frame.node;
+    if (isObject(node)) {
+      const resource = getResource(context, node);
+      if (isSchemaResource(resource) && resource.unevaluated === true) {
+        return true;
+      }
+    }
+
+    // Annotations don't propagate past changes in instance location.
+    if (frame.instanceKey !== undefined) {
+      break;
+    }
+    frame = frame.parent;
+  }
+
+  return false;
+}
+
 /**
  * A JSON meta-schema resource.
  *
@@ -342,12 +507,77 @@ export function parseMetaSchemaResource(
     resource = createResource(canonicalUri, node) as MetaSchemaResource;
     setResource(context, resource);
   }
+  // Check if the node has already been parsed as a regular schema.
+  const parsed = isSchemaResource(resource);
   // Initialize the JSON resource as a meta-schema resource.
   initSchemaResource(resource);
   initMetaSchemaResource(resource);
 
-  // Parse the meta-schema as a regular schema.
-  parseSchemaResource(context);
+  if (!parsed) {
+    // Parse the meta-schema as a regular schema.
+    parseSchemaResource(context);
+  } else {
+    // Parse the vocabularies of the meta-schema, which are ignored
+    // when a meta-schema is parsed as a regular schema.
+    const keyword = resource.keys!.find(
+      (keyword: Keyword): boolean => keyword.key === "$vocabulary",
+    );
+    if (keyword !== undefined) {
+      nestFrame(context, (frame: SchemaFrame): void => {
+        frame.nodeKey = keyword.key;
+        frame.node = node[keyword.key];
+        keyword.parse(context);
+      });
+    }
+  }
+
+  // Meta-schemas without "$vocabulary" describe schemas that use
+  // the vocabularies of the meta-schema's own dialect.
+  if (node.$vocabulary === undefined && resource.dialect !== undefined) {
+    resource.formats = resource.dialect.formats;
+    resource.keywords = resource.dialect.keywords;
+    resource.vocabularies = resource.dialect.vocabularies;
+  }
 
   return resource;
 }
+
+/**
+ * Returns a dialect for the meta-schema identified by the given URI,
+ * if a schema with that URI is registered in the context. The dialect
+ * is built from the meta-schema's vocabularies, and cached in the
+ * context's supported dialects.
+ *
+ * @category Resource
+ * @internal
+ */
+export function discoverDialect(
+  context: SchemaContext,
+  uri: string,
+): Dialect | undefined {
+  // Look up the meta-schema, ignoring any empty fragment.
+  const resource = (getResource(context, uri) ??
+    getResource(context, uri.replace(/#$/, ""))) as SchemaResource | undefined;
+  // Only consider meta-schemas that have finished parsing, which
+  // excludes self-describing and mutually recursive meta-schemas.
+  if (!isSchemaResource(resource) || !isObject(resource.node)) {
+    return undefined;
+  }
+  const node = resource.node;
+
+  // Parse the meta-schema as a dialect.
+  const dialect = nestFrame(
+    context,
+    (frame: SchemaFrame): MetaSchemaResource => {
+      frame.node = node;
+      return parseMetaSchemaResource(context);
+    },
+  );
+
+  // Cache the dialect in the context.
+  const dialects = new Map<string, Dialect>(context.dialects);
+  dialects.set(uri, dialect);
+  context.dialects = dialects;
+
+  return dialect;
+}
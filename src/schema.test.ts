@@ -0,0 +1,484 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import { ValidationError, createSchemaContext, parseSchema } from "tool-schema";
+
+void suite("Schema", () => {
+  void suite("isValid", () => {
+    void test("agrees with validate", async () => {
+      const schema = await parseSchema({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        type: "object",
+        properties: {
+          name: { type: "string", title: "Name" },
+          tags: { type: "array", items: { type: "string" } },
+        },
+        required: ["name"],
+        anyOf: [{ required: ["tags"] }, { maxProperties: 1 }],
+        if: { properties: { name: { const: "a" } } },
+        then: { required: ["tags"] },
+      });
+
+      for (const instance of [
+        { name: "a", tags: ["b"] },
+        { name: "a" },
+        { name: "b" },
+        { name: "b", tags: [1] },
+        { name: 1, tags: ["b"] },
+        { tags: [] },
+        null,
+      ]) {
+        assert.equal(schema.isValid(instance), schema.validate(instance).valid);
+      }
+    });
+
+    void test("collects annotations required by unevaluated keywords", async () => {
+      const schema = await parseSchema({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        properties: { a: true },
+        anyOf: [{ properties: { b: true } }, { properties: { c: true } }],
+        allOf: [{ $ref: "#/$defs/d" }],
+        unevaluatedProperties: false,
+        $defs: {
+          d: { properties: { d: true } },
+        },
+      });
+
+      assert(schema.isValid({ a: 1, b: 2, c: 3, d: 4 }));
+      assert(!schema.isValid({ a: 1, e: 5 }));
+      assert(schema.isValid({}));
+    });
+
+    void test("agrees with validate on keywords that inspect failures", async () => {
+      const schema = await parseSchema({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        properties: { a: { type: "number" } },
+        additionalProperties: false,
+        not: { required: ["b"] },
+        if: { properties: { a: { minimum: 10 } } },
+        then: { required: ["a"] },
+        else: { maxProperties: 0 },
+      });
+
+      for (const instance of [{}, { a: 10 }, { a: 1 }, { a: "a" }, { b: 1 }]) {
+        assert.equal(schema.isValid(instance), schema.validate(instance).valid);
+      }
+    });
+
+    void test("doesn't affect subsequent validation output", async () => {
+      const schema = await parseSchema({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        title: "Test",
+        allOf: [{ minimum: 2 }, { multipleOf: 2 }],
+      });
+
+      assert(!schema.isValid(1));
+      const output = schema.validate(1);
+      assert(!output.valid);
+      assert.equal(output.errors?.[0]?.errors?.length, 2);
+    });
+  });
+
+  void suite("validate output formats", () => {
+    const schemaNode = {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      $id: "https://example.com/person",
+      title: "Person",
+      properties: {
+        name: { type: "string" },
+        age: { minimum: 0 },
+      },
+    } as const;
+
+    void test("produces flag output", async () => {
+      const schema = await parseSchema(schemaNode);
+
+      assert.deepEqual(schema.validate({ name: "a" }, { output: "flag" }), {
+        valid: true,
+      });
+      assert.deepEqual(schema.validate({ name: 1 }, { output: "flag" }), {
+        valid: false,
+      });
+    });
+
+    void test("produces basic output", async () => {
+      const schema = await parseSchema(schemaNode);
+      const output = schema.validate({ name: 1, age: -1 }, { output: "basic" });
+
+      assert.equal(output.valid, false);
+      assert.equal(output.annotations, undefined);
+      assert.deepEqual(
+        output.errors?.map((unit) => unit.keywordLocation).sort(),
+        ["/properties", "/properties/age/minimum", "/properties/name/type"],
+      );
+      for (const unit of output.errors!) {
+        assert.equal(unit.valid, false);
+        assert.equal(unit.errors, undefined);
+        assert.equal(typeof unit.error, "string");
+      }
+      const typeError = output.errors!.find(
+        (unit) => unit.keywordLocation === "/properties/name/type",
+      );
+      assert.match(
+        typeError!.absoluteKeywordLocation!,
+        /\/properties\/name\/type$/,
+      );
+      assert.equal(typeError?.instanceLocation, "/name");
+    });
+
+    void test("produces basic annotations for valid instances", async () => {
+      const schema = await parseSchema(schemaNode);
+      const output = schema.validate({ name: "a" }, { output: "basic" });
+
+      assert.equal(output.valid, true);
+      assert.equal(output.errors, undefined);
+      assert.deepEqual(
+        output.annotations?.map((unit) => unit.keywordLocation).sort(),
+        ["/properties", "/title"],
+      );
+    });
+
+    void test("produces detailed output", async () => {
+      const schema = await parseSchema(schemaNode);
+      const output = schema.validate(
+        { name: 1, age: -1 },
+        { output: "detailed" },
+      );
+
+      assert.equal(output.valid, false);
+      assert.equal(output.keywordLocation, "");
+      assert.equal(output.instanceLocation, "");
+      assert.equal(output.annotations, undefined);
+      assert.equal(output.errors?.length, 1);
+      const properties = output.errors![0]!;
+      assert.equal(properties.keywordLocation, "/properties");
+      assert.deepEqual(
+        properties.errors?.map((unit) => unit.keywordLocation),
+        ["/properties/name/type", "/properties/age/minimum"],
+      );
+    });
+
+    void test("produces verbose output", async () => {
+      const schema = await parseSchema(schemaNode);
+      const output = schema.validate({ name: "a" }, { output: "verbose" });
+
+      assert.equal(output.valid, true);
+      const title = output.annotations?.find(
+        (unit) => unit.keywordLocation === "/title",
+      );
+      assert.equal(title?.annotation, "Person");
+      const properties = output.annotations?.find(
+        (unit) => unit.keywordLocation === "/properties",
+      );
+      assert.deepEqual(properties?.annotation, ["name"]);
+      assert.deepEqual(
+        properties?.annotations?.map((unit) => unit.keywordLocation),
+        ["/properties/name"],
+      );
+      assert.deepEqual(
+        properties?.annotations?.[0]?.annotations?.map(
+          (unit) => unit.keywordLocation,
+        ),
+        ["/properties/name/type"],
+      );
+    });
+  });
+
+  void suite("validate error codes", () => {
+    void test("attaches error codes and params", async () => {
+      const schema = await parseSchema({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        type: "object",
+        properties: {
+          count: { type: "integer", multipleOf: 5, maximum: 10 },
+          name: { type: "string", minLength: 3 },
+          tags: { type: "array", uniqueItems: true },
+          kind: { enum: ["a", "b"] },
+        },
+        required: ["id", "name"],
+      });
+      const output = schema.validate(
+        { count: 12, name: "ab", tags: [1, 2, 1], kind: "c" },
+        { output: "basic" },
+      );
+
+      const units = new Map(
+        output.errors?.map((unit) => [unit.keywordLocation, unit]),
+      );
+      const multipleOf = units.get("/properties/count/multipleOf");
+      assert.equal(multipleOf?.code, "multipleOf");
+      assert.deepEqual(multipleOf?.params, { divisor: 5, actual: 12 });
+      assert.equal(multipleOf?.error, "not a multiple of 5");
+      const maximum = units.get("/properties/count/maximum");
+      assert.equal(maximum?.code, "maximum");
+      assert.deepEqual(maximum?.params, { limit: 10, actual: 12 });
+      const minLength = units.get("/properties/name/minLength");
+      assert.equal(minLength?.code, "minLength");
+      assert.deepEqual(minLength?.params, { limit: 3, actual: 2 });
+      const uniqueItems = units.get("/properties/tags/uniqueItems");
+      assert.equal(uniqueItems?.code, "uniqueItems");
+      assert.deepEqual(uniqueItems?.params, { indices: [0, 2] });
+      const enumUnit = units.get("/properties/kind/enum");
+      assert.equal(enumUnit?.code, "enum");
+      assert.deepEqual(enumUnit?.params, { allowed: ["a", "b"] });
+      const properties = units.get("/properties");
+      assert.equal(properties?.code, "properties");
+      assert.deepEqual(properties?.params, {
+        properties: ["count", "name", "tags", "kind"],
+      });
+      const required = units.get("/required");
+      assert.equal(required?.code, "required");
+      assert.deepEqual(required?.params, { missing: ["id"] });
+    });
+
+    void test("attaches type error params", async () => {
+      const schema = await parseSchema({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        type: ["string", "null"],
+      });
+      const output = schema.validate(1.5);
+
+      assert.equal(output.errors?.[0]?.code, "type");
+      assert.deepEqual(output.errors?.[0]?.params, {
+        expected: ["string", "null"],
+        actual: "number",
+      });
+    });
+
+    void test("attaches codes to false schema errors", async () => {
+      const schema = await parseSchema({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        properties: { a: false },
+      });
+      const output = schema.validate({ a: 1 }, { output: "basic" });
+
+      const unit = output.errors?.find(
+        (unit) => unit.keywordLocation === "/properties/a",
+      );
+      assert.equal(unit?.code, "falseSchema");
+      assert.deepEqual(unit?.params, {});
+    });
+
+    void test("compiles error codes and params", async () => {
+      const schema = await parseSchema({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        minimum: 5,
+      });
+      const output = schema.compile()(3);
+
+      assert.equal(output.errors?.[0]?.code, "minimum");
+      assert.deepEqual(output.errors?.[0]?.params, { limit: 5, actual: 3 });
+    });
+  });
+
+  void suite("evaluate", () => {
+    const schemaNode = {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      $id: "https://example.com/order",
+      properties: {
+        item: { $ref: "#/$defs/item" },
+      },
+      $defs: {
+        item: { title: "Item", type: "string", minLength: 2 },
+      },
+    } as const;
+
+    void test("produces hierarchical output", async () => {
+      const schema = await parseSchema(schemaNode);
+      const output = schema.evaluate({ item: "a" });
+
+      assert.equal(output.valid, false);
+      assert.equal(output.evaluationPath, "");
+      assert.equal(output.instanceLocation, "");
+      assert.equal(typeof output.errors?.properties, "string");
+
+      const item = output.details?.[0];
+      assert.equal(item?.valid, false);
+      assert.equal(item?.evaluationPath, "/properties/item");
+      assert.equal(item?.instanceLocation, "/item");
+
+      const ref = item?.details?.[0];
+      assert.equal(ref?.valid, false);
+      assert.equal(ref?.evaluationPath, "/properties/item/$ref");
+      assert.match(ref!.schemaLocation, /#\/\$defs\/item$/);
+      assert.deepEqual(Object.keys(ref?.errors ?? {}), ["minLength"]);
+      assert.deepEqual(ref?.droppedAnnotations, { title: "Item" });
+      assert.equal(ref?.annotations, undefined);
+    });
+
+    void test("produces list output", async () => {
+      const schema = await parseSchema(schemaNode);
+      const output = schema.evaluate({ item: "ab" }, "list");
+
+      assert.equal(output.valid, true);
+      assert.deepEqual(
+        output.details?.map((detail) => detail.evaluationPath),
+        ["/properties/item", "/properties/item/$ref"],
+      );
+      for (const detail of output.details!) {
+        assert.equal(detail.details, undefined);
+      }
+      assert.deepEqual(output.details?.[1]?.annotations, { title: "Item" });
+      assert.deepEqual(output.annotations, { properties: ["item"] });
+    });
+  });
+
+  void suite("validateSchema", () => {
+    void test("accepts schemas that satisfy their meta-schema", async () => {
+      const schema = await parseSchema(
+        {
+          $schema: "https://json-schema.org/draft/2020-12/schema",
+          type: "object",
+          properties: { name: { type: "string", minLength: 1 } },
+        },
+        { validateSchema: true },
+      );
+      assert(schema.validate({ name: "a" }).valid);
+    });
+
+    void test("rejects schemas that violate their meta-schema", async () => {
+      await assert.rejects(
+        parseSchema(
+          {
+            $schema: "https://json-schema.org/draft/2020-12/schema",
+            properties: { name: { type: "string", minLength: -1 } },
+          },
+          { validateSchema: true },
+        ),
+        (error: unknown) => {
+          assert(error instanceof ValidationError);
+          assert.equal(error.output?.valid, false);
+          assert.match(error.message, /"\/properties\/name\/minLength"/);
+          return true;
+        },
+      );
+    });
+
+    void test("validates schemas of dialects that reference others", async () => {
+      await assert.rejects(
+        parseSchema(
+          {
+            $schema: "https://spec.openapis.org/oas/3.1/dialect/base",
+            type: "object",
+            discriminator: { mapping: {} },
+          },
+          { validateSchema: true },
+        ),
+        (error: unknown) =>
+          error instanceof ValidationError && error.output !== undefined,
+      );
+    });
+  });
+
+  void suite("dialect discovery", () => {
+    void test("uses meta-schemas registered in the context", async () => {
+      const context = createSchemaContext();
+      await parseSchema(
+        {
+          $schema: "https://json-schema.org/draft/2020-12/schema",
+          $id: "https://example.com/meta/strings",
+          $vocabulary: {
+            "https://json-schema.org/draft/2020-12/vocab/core": true,
+            "https://json-schema.org/draft/2020-12/vocab/validation": true,
+          },
+        },
+        context,
+      );
+
+      const schema = await parseSchema(
+        {
+          $schema: "https://example.com/meta/strings",
+          type: "object",
+          properties: { name: { type: "string" } },
+        },
+        context,
+      );
+      assert(!schema.validate("name").valid);
+      // "properties" is an annotation without the applicator vocabulary.
+      assert(schema.validate({ name: 1 }).valid);
+    });
+
+    void test("uses the dialect of meta-schemas without vocabularies", async () => {
+      const context = createSchemaContext();
+      await parseSchema(
+        {
+          $schema: "http://json-schema.org/draft-07/schema#",
+          $id: "https://example.com/meta/draft-07",
+          allOf: [{ $ref: "http://json-schema.org/draft-07/schema#" }],
+        },
+        context,
+      );
+
+      const schema = await parseSchema(
+        {
+          $schema: "https://example.com/meta/draft-07#",
+          properties: { name: { type: "string" } },
+        },
+        context,
+      );
+      assert(!schema.validate({ name: 1 }).valid);
+    });
+
+    void test("rejects unregistered meta-schemas", async () => {
+      await assert.rejects(
+        parseSchema({ $schema: "https://example.com/meta/unknown" }),
+        ValidationError,
+      );
+    });
+  });
+
+  void suite("tolerant", () => {
+    void test("collects every keyword parse error", async () => {
+      const schema = await parseSchema(
+        {
+          type: "object",
+          properties: {
+            name: { type: "string", minLength: -1 },
+            tags: { type: "array", items: { type: 1 } },
+          },
+          required: "name",
+          title: 1,
+        },
+        { tolerant: true },
+      );
+      assert.deepEqual(
+        schema.diagnostics.map((error) => error.message).sort(),
+        [
+          '"minLength" must be a non-negative integer',
+          '"required" must be an array of strings',
+          '"title" must be a string',
+          '"type" must be a string or an array of strings',
+        ],
+      );
+    });
+
+    void test("replaces invalid assertions with never valid keywords", async () => {
+      const schema = await parseSchema(
+        {
+          type: "object",
+          properties: { name: { type: "string", minLength: -1 } },
+          title: 1,
+        },
+        { tolerant: true },
+      );
+      assert(schema.validate({}).valid);
+      assert(!schema.validate(1).valid);
+      const output = schema.validate({ name: "a" }, { output: "basic" });
+      assert(!output.valid);
+      assert.equal(
+        output.errors?.some(
+          (error) =>
+            error.code === "invalidKeyword" &&
+            error.keywordLocation === "/properties/name/minLength",
+        ),
+        true,
+      );
+    });
+
+    void test("throws parse errors by default", async () => {
+      await assert.rejects(
+        parseSchema({ type: "string", minLength: -1 }),
+        ValidationError,
+      );
+    });
+  });
+});
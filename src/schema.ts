@@ -1,16 +1,29 @@
 import {
+  isArray,
+  isObject,
   initContext,
   nestFrame,
+  currentFrame,
+  currentLocation,
   getResource,
   resolveReferences,
 } from "tool-json";
+import { ValidationError } from "./error.ts";
 import type {
   SchemaContext,
   SchemaContextOptions,
   SchemaFrame,
 } from "./context.ts";
-import { initSchemaContext } from "./context.ts";
-import type { OutputUnit } from "./output.ts";
+import {
+  initSchemaContext,
+  createSchemaContext,
+  createSchemaFrame,
+} from "./context.ts";
+import type { OutputUnit, OutputFormat } from "./output.ts";
+import { initOutput, formatOutput } from "./output.ts";
+import { bestMatch } from "./best-match.ts";
+import type { EvaluationNode, EvaluationFormat } from "./evaluation.ts";
+import { formatEvaluation } from "./evaluation.ts";
 import type { Dialect } from "./dialect.ts";
 import type { SchemaResource } from "./resource.ts";
 import {
@@ -18,10 +31,23 @@ import {
   validateSchemaResource,
   parseMetaSchemaResource,
 } from "./resource.ts";
+import {
+  loadMetaSchemas,
+  loadSchemaResources,
+  collectResourceUris,
+} from "./loader.ts";
+import type { CompiledValidator } from "./compile.ts";
+import { compileSchemaResource } from "./compile.ts";
+import { generateModule } from "./generate.ts";
 import { dialect as dialect202012 } from "./draft-2020-12/dialect.ts";
+import { dialect as dialect201909 } from "./draft-2019-09/dialect.ts";
 import { dialect as dialect07 } from "./draft-07/dialect.ts";
+import { dialect as dialect06 } from "./draft-06/dialect.ts";
 import { dialect as dialect05 } from "./draft-05/dialect.ts";
+import { dialect as dialect03 } from "./draft-03/dialect.ts";
+import { dialect as dialectOas30 } from "./oas-3.0/dialect.ts";
 import { dialect as dialectOas31 } from "./oas-3.1/dialect.ts";
+import { dialect as dialectAsyncapi30 } from "./asyncapi-3.0/dialect.ts";
 
 /**
  * Options for parsing a JSON schema.
@@ -33,6 +59,35 @@ export interface SchemaOptions extends SchemaContextOptions {
    * The base URI for the schema.
    */
   baseUri?: string | undefined;
+
+  /**
+   * Whether to validate the schema against the meta-schema of its dialect
+   * before parsing it. Invalid schemas throw a `ValidationError` whose
+   * `output` locates every violation. Schemas are only checked by their
+   * keywords by default.
+   */
+  validateSchema?: boolean | undefined;
+
+  /**
+   * Whether to collect the errors of keywords that fail to parse into the
+   * `diagnostics` of the parsed schema, rather than throwing the first one.
+   * Invalid keywords that assert are never valid; invalid annotation
+   * keywords are only collected as annotations.
+   */
+  tolerant?: boolean | undefined;
+}
+
+/**
+ * Options for validating an instance against a JSON schema.
+ *
+ * @category Schema
+ */
+export interface ValidateOptions {
+  /**
+   * The standard output format to produce. If not specified, returns
+   * the condensed output hierarchy produced by the validator.
+   */
+  output?: OutputFormat | undefined;
 }
 
 /**
@@ -46,14 +101,25 @@ export class Schema {
    */
   readonly node: unknown;
 
+  /**
+   * The errors of keywords that failed to parse, if the schema
+   * was parsed in tolerant mode.
+   */
+  readonly diagnostics: readonly ValidationError[];
+
   /**
    * The context in which the schema was parsed.
    */
   readonly #context: SchemaContext;
 
   /** @internal */
-  constructor(node: unknown, context: SchemaContext) {
+  constructor(
+    node: unknown,
+    context: SchemaContext,
+    diagnostics: readonly ValidationError[] = [],
+  ) {
     this.node = node;
+    this.diagnostics = diagnostics;
     this.#context = context;
   }
 
@@ -72,21 +138,143 @@ export class Schema {
   }
 
   /**
-   * Validates an instance against this schema.
+   * Validates an instance against this schema. Returns the output
+   * in the requested standard output format, if specified.
    */
-  validate(instance: unknown): OutputUnit {
+  validate(instance: unknown, options?: ValidateOptions): OutputUnit {
+    const context = this.context;
+    const format = options?.output;
+
+    // Evaluate flag output in flag mode.
+    if (format === "flag") {
+      return { valid: this.isValid(instance) };
+    }
+
     // Initialize the validation output.
     const output: OutputUnit = { valid: true };
 
-    // Isolate validation in a nested stack frame.
-    nestFrame(this.context, (frame: SchemaFrame): void => {
-      frame.node = this.node;
+    const outputFormat = context.outputFormat;
+    context.outputFormat = format;
+    try {
+      // Isolate validation in a nested stack frame.
+      nestFrame(context, (frame: SchemaFrame): void => {
+        frame.node = this.node;
+        frame.instance = instance;
+        frame.output = output;
+        if (format !== undefined) {
+          initOutput(context, frame);
+        }
+        validateSchemaResource(context);
+      });
+    } finally {
+      context.outputFormat = outputFormat;
+    }
+
+    // Convert the output to the requested standard format.
+    if (format !== undefined) {
+      return formatOutput(output, format);
+    }
+    return output;
+  }
+
+  /**
+   * Evaluates an instance against this schema, returning the results
+   * in the list or hierarchical format of the JSON Schema output proposal,
+   * which identifies subschemas by `evaluationPath` and `schemaLocation`.
+   */
+  evaluate(
+    instance: unknown,
+    format: EvaluationFormat = "hierarchical",
+  ): EvaluationNode {
+    const context = this.context;
+
+    // Collect the root evaluation in the details of a placeholder node.
+    const root: EvaluationNode = {
+      valid: true,
+      evaluationPath: "",
+      schemaLocation: "",
+      instanceLocation: "",
+    };
+
+    const evaluation = context.evaluation;
+    context.evaluation = root;
+    try {
+      this.validate(instance);
+    } finally {
+      context.evaluation = evaluation;
+    }
+
+    return formatEvaluation(root.details![0]!, format);
+  }
+
+  /**
+   * Returns `true` if an instance is valid against this schema. Evaluates
+   * the schema in flag mode, which stops at the first failing keyword and
+   * skips collecting annotations, unless `unevaluatedItems` or
+   * `unevaluatedProperties` depend on them.
+   */
+  isValid(instance: unknown): boolean {
+    const context = this.context;
+    const flag = context.flag;
+    context.flag = true;
+    try {
+      return this.validate(instance).valid;
+    } finally {
+      context.flag = flag;
+    }
+  }
+
+  /**
+   * Compiles this schema into a validator function. The compiled validator
+   * produces the same output as `validate`, but avoids re-dispatching the
+   * schema's keywords on every call.
+   */
+  compile(): CompiledValidator {
+    const context = this.context;
+    const node = this.node;
+
+    // Compile the schema in a nested stack frame.
+    const validator = nestFrame(context, (frame: SchemaFrame) => {
+      frame.node = node;
+      return compileSchemaResource(context);
+    });
+
+    return (instance: unknown): OutputUnit => {
+      // Initialize the validation output.
+      const output: OutputUnit = { valid: true };
+
+      // Isolate validation in a detached stack frame.
+      const frame = createSchemaFrame(context.stack);
+      frame.node = node;
       frame.instance = instance;
       frame.output = output;
-      validateSchemaResource(this.context);
-    });
+      validator(frame);
 
-    return output;
+      return output;
+    };
+  }
+
+  /**
+   * Generates the source code of a standalone ES module that validates
+   * instances against this schema. The module exports a `validate` function,
+   * also as its default export, which returns an object with a `valid`
+   * boolean and, if invalid, an array of `errors`.
+   *
+   * Generated modules have no runtime dependencies, and don't evaluate code
+   * at runtime, so they can run in environments that restrict `eval`.
+   *
+   * @throws GenerateError if the schema uses a keyword or format that
+   * doesn't support code generation.
+   */
+  generate(): string {
+    const context = this.context;
+    const node = this.node;
+
+    // Generate the module in a nested stack frame.
+    return nestFrame(context, (frame: SchemaFrame): string => {
+      frame.node = node;
+      return generateModule(context);
+    });
   }
 
   /**
@@ -98,14 +286,18 @@ export class Schema {
 }
 
 /**
- * Parses a JSON schema.
+ * Initializes a context for parsing schemas with the given options.
+ * The context supports all standard dialects, and defaults to the given
+ * dialect, or else the first supported dialect, unless the options
+ * specify otherwise.
  *
  * @category Schema
+ * @internal
  */
-export async function parseSchema(
-  node: unknown,
+export function initParseContext(
   options?: SchemaOptions,
-): Promise<Schema> {
+  defaultDialect?: Dialect,
+): SchemaContext {
   const context = initSchemaContext(initContext({}, options), options);
 
   // Configure default dialects.
@@ -116,24 +308,163 @@ export async function parseSchema(
 
   // Configure the default dialect.
   if (context.dialect === undefined) {
-    // Use the first dialect as the default.
-    for (const dialect of context.dialects.values()) {
-      context.dialect = dialect;
-      break;
+    if (defaultDialect !== undefined) {
+      context.dialect = defaultDialect;
+    } else {
+      // Use the first dialect as the default.
+      for (const dialect of context.dialects.values()) {
+        context.dialect = dialect;
+        break;
+      }
     }
   }
 
-  // Isolate parsing in a nested stack frame.
-  await nestFrame(context, async (frame: SchemaFrame): Promise<void> => {
-    frame.baseUri = options?.baseUri;
-    frame.node = node;
-    // Parse the schema resource.
-    const resource = parseSchemaResource(context);
-    // Resolve all references registered during parsing.
-    await resolveReferences(context, resource);
+  return context;
+}
+
+/**
+ * Parses a JSON schema.
+ *
+ * @category Schema
+ */
+export async function parseSchema(
+  node: unknown,
+  options?: SchemaOptions,
+): Promise<Schema> {
+  const context = initParseContext(options);
+
+  // Collect parse errors in tolerant mode.
+  const diagnostics: ValidationError[] = [];
+  const contextDiagnostics = context.diagnostics;
+  if (options?.tolerant === true) {
+    context.diagnostics = diagnostics;
+  }
+
+  try {
+    // Isolate parsing in a nested stack frame.
+    await nestFrame(context, async (frame: SchemaFrame): Promise<void> => {
+      frame.baseUri = options?.baseUri;
+      frame.node = node;
+      // Load the meta-schemas of the schema's dialects.
+      const metaSchemas = await loadMetaSchemas(context);
+      // Validate the schema against its meta-schema.
+      if (options?.validateSchema === true) {
+        await validateMetaSchema(context);
+      }
+      // Parse the schema resource.
+      const resource = parseSchemaResource(context);
+      // Load the external resources that remain unresolved.
+      const resources = await loadSchemaResources(context);
+      // Resolve all references registered during parsing.
+      await resolveReferences(context, resource);
+      for (const resource of [...metaSchemas, ...resources]) {
+        await resolveReferences(context, resource);
+      }
+    });
+  } finally {
+    context.diagnostics = contextDiagnostics;
+  }
+
+  return new Schema(node, context, diagnostics);
+}
+
+/**
+ * Validates the schema node at the top of the stack against the meta-schema
+ * of its dialect. Schemas whose dialect is unknown, or has no meta-schema,
+ * are left for the parser to check.
+ *
+ * @throws ValidationError if the schema is invalid against its meta-schema.
+ */
+async function validateMetaSchema(context: SchemaContext): Promise<void> {
+  const node = (currentFrame(context) as SchemaFrame).node;
+  if (!isObject(node) || isArray(node)) {
+    return;
+  }
+
+  const dialect =
+    typeof node.$schema === "string" ?
+      context.dialects?.get(node.$schema)
+    : context.dialect;
+  if (dialect?.node === undefined) {
+    return;
+  }
+
+  let cache = context.metaSchemaCache;
+  if (cache === undefined) {
+    context.metaSchemaCache = cache = new Map();
+  }
+
+  let metaSchema = cache.get(dialect);
+  if (metaSchema === undefined) {
+    metaSchema = await parseMetaSchemas(dialect, context);
+    cache.set(dialect, metaSchema);
+  }
+
+  const output = metaSchema.validate(node, { output: "detailed" });
+  if (!output.valid) {
+    const error = bestMatch(output);
+    throw new ValidationError(
+      "Schema is not valid against its meta-schema" +
+        (error !== undefined ?
+          ": " + error.error + " at " + JSON.stringify(error.instanceLocation)
+        : ""),
+      { location: currentLocation(context), output },
+    );
+  }
+}
+
+/**
+ * Parses the meta-schema of a dialect in an isolated context, along with
+ * the meta-schemas of its vocabularies, and of the dialects it references.
+ */
+async function parseMetaSchemas(
+  dialect: Dialect,
+  context: SchemaContext,
+): Promise<Schema> {
+  const metaContext = createSchemaContext({
+    dialect,
+    dialects: context.dialects,
   });
 
-  return new Schema(node, context);
+  // Collect the meta-schemas reachable from the dialect's meta-schema.
+  const nodes = new Set<object>();
+  const pending: Dialect[] = [dialect];
+  while (pending.length !== 0) {
+    const next = pending.pop()!;
+    nodes.add(next.node!);
+    for (const vocabulary of Object.values(next.vocabularies)) {
+      if (vocabulary.node !== undefined) {
+        nodes.add(vocabulary.node);
+      }
+    }
+    for (const uri of collectResourceUris(next.node, next.uri, [
+      "$ref",
+      "$dynamicRef",
+      "$schema",
+    ])) {
+      const referenced =
+        context.dialects?.get(uri) ?? context.dialects?.get(uri + "#");
+      if (referenced?.node !== undefined && !nodes.has(referenced.node)) {
+        pending.push(referenced);
+      }
+    }
+  }
+
+  // Register the meta-schemas before resolving their references.
+  const resources: (SchemaResource | undefined)[] = [];
+  for (const node of nodes) {
+    resources.push(
+      nestFrame(metaContext, (frame: SchemaFrame) => {
+        frame.node = node;
+        return parseSchemaResource(metaContext);
+      }),
+    );
+  }
+  for (const resource of resources) {
+    await resolveReferences(metaContext, resource);
+  }
+
+  return new Schema(dialect.node!, metaContext);
 }
 
 /**
@@ -144,9 +475,14 @@ export async function parseSchema(
  */
 export const dialects: ReadonlyMap<string, Dialect> = new Map<string, Dialect>([
   [dialect202012.uri, dialect202012],
+  [dialect201909.uri, dialect201909],
   [dialect07.uri, dialect07],
+  [dialect06.uri, dialect06],
   [dialect05.uri, dialect05],
+  [dialect03.uri, dialect03],
+  [dialectOas30.uri, dialectOas30],
   [dialectOas31.uri, dialectOas31],
+  [dialectAsyncapi30.uri, dialectAsyncapi30],
 ]);
 
 /**
@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { suite, test } from "node:test";
+import type { SchemaWarning } from "tool-schema";
+import { ValidationError, parseSchema } from "tool-schema";
+
+void suite("Strict mode", () => {
+  void test("accepts mistaken schemas by default", async () => {
+    const schema = await parseSchema({
+      type: "object",
+      properties: { name: { type: "string" } },
+      requried: ["name"],
+    });
+    assert(schema.validate({}).valid);
+  });
+
+  void test("rejects unknown keywords", async () => {
+    await assert.rejects(
+      parseSchema(
+        {
+          type: "object",
+          properties: { name: { type: "string", maxLenght: 10 } },
+        },
+        { strict: true },
+      ),
+      (error: unknown): boolean =>
+        error instanceof ValidationError &&
+        error.message === 'Unknown keyword "maxLenght"',
+    );
+  });
+
+  void test("allows specification extensions", async () => {
+    await parseSchema({ type: "string", "x-internal": true }, { strict: true });
+  });
+
+  void test("rejects unknown formats", async () => {
+    await assert.rejects(
+      parseSchema({ type: "string", format: "e-mail" }, { strict: true }),
+      ValidationError,
+    );
+    await parseSchema({ type: "string", format: "email" }, { strict: true });
+  });
+
+  void test("rejects undeclared required properties", async () => {
+    await assert.rejects(
+      parseSchema(
+        {
+          type: "object",
+          properties: { name: { type: "string" } },
+          required: ["nmae"],
+        },
+        { strict: true },
+      ),
+      ValidationError,
+    );
+    await parseSchema(
+      { anyOf: [{ required: ["name"] }, { required: ["id"] }] },
+      { strict: true },
+    );
+  });
+
+  void test("checks own names only", async () => {
+    await assert.rejects(
+      parseSchema(
+        {
+          type: "object",
+          properties: { name: { type: "string" } },
+          required: ["constructor"],
+        },
+        { strict: true },
+      ),
+      (error: unknown): boolean =>
+        error instanceof ValidationError &&
+        error.message ===
+          'Required property "constructor" is not declared in "properties"',
+    );
+    await assert.rejects(
+      parseSchema({ type: "string", toString: 1 }, { strict: true }),
+      (error: unknown): boolean =>
+        error instanceof ValidationError &&
+        error.message === 'Unknown keyword "toString"',
+    );
+  });
+
+  void test("rejects items without array type", async () => {
+    await assert.rejects(
+      parseSchema({ items: { type: "string" } }, { strict: true }),
+      ValidationError,
+    );
+    await parseSchema(
+      { type: ["array", "null"], items: { type: "string" } },
+      { strict: true },
+    );
+  });
+
+  void test("rejects union types", async () => {
+    await assert.rejects(
+      parseSchema({ type: ["string", "number"] }, { strict: true }),
+      ValidationError,
+    );
+    await parseSchema({ type: ["string", "null"] }, { strict: true });
+  });
+
+  void test("reports warnings", async () => {
+    const warnings: SchemaWarning[] = [];
+    const schema = await parseSchema(
+      {
+        type: "object",
+        properties: {
+          tags: { items: { type: "string" } },
+        },
+        additonalProperties: false,
+      },
+      {
+        strict: { keywords: "warn", items: "warn" },
+        onWarning: (warning: SchemaWarning): void => {
+          warnings.push(warning);
+        },
+      },
+    );
+    assert(schema.validate({ other: 1 }).valid);
+    assert.deepEqual(
+      warnings.map((warning) => [warning.check, warning.message]),
+      [
+        ["items", '"items" requires "type" to be "array"'],
+        ["keywords", 'Unknown keyword "additonalProperties"'],
+      ],
+    );
+  });
+
+  void test("ignores checks with the ignore policy", async () => {
+    await parseSchema(
+      { type: ["string", "number"] },
+      { strict: { keywords: "error", unions: "ignore" } },
+    );
+  });
+});
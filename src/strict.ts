@@ -0,0 +1,258 @@
+import { isArray, isObject, nestFrame, currentLocation } from "tool-json";
+import { ValidationError } from "./error.ts";
+import type { SchemaContext, SchemaFrame } from "./context.ts";
+import type { SchemaResource } from "./resource.ts";
+
+/**
+ * How a strict mode check handles schemas that fail it:
+ * - `"error"`: throw a `ValidationError` when parsing the schema
+ * - `"warn"`: report a warning to the context's `onWarning` callback
+ * - `"ignore"`: accept the schema
+ *
+ * @category Context
+ */
+export type StrictPolicy = "error" | "warn" | "ignore";
+
+/**
+ * Policies for the checks performed by strict mode, which rejects schemas
+ * that are valid, but likely mistaken. Unspecified checks are ignored.
+ *
+ * @see [Ajv strict mode](https://ajv.js.org/strict-mode.html)
+ * @category Context
+ */
+export interface StrictOptions {
+  /**
+   * Keywords not supported by the schema's dialect, which are otherwise
+   * treated as annotations. Specification extensions prefixed by `x-`
+   * are always allowed.
+   */
+  readonly keywords?: StrictPolicy | undefined;
+
+  /**
+   * `format` values not supported by the schema's dialect, or by the
+   * context's additional formats.
+   */
+  readonly formats?: StrictPolicy | undefined;
+
+  /**
+   * `required` properties not declared by a sibling `properties` keyword.
+   */
+  readonly required?: StrictPolicy | undefined;
+
+  /**
+   * `items` keywords without a sibling `type` that allows arrays.
+   */
+  readonly items?: StrictPolicy | undefined;
+
+  /**
+   * `type` keywords that allow more than one type, other than a single
+   * type and `"null"`.
+   */
+  readonly unions?: StrictPolicy | undefined;
+}
+
+/**
+ * A strict mode check.
+ *
+ * @category Context
+ */
+export type StrictCheck = keyof StrictOptions;
+
+/**
+ * A strict mode violation reported by a check with the `"warn"` policy.
+ *
+ * @category Context
+ */
+export interface SchemaWarning {
+  /**
+   * The check that reported the warning.
+   */
+  readonly check: StrictCheck;
+
+  /**
+   * A description of the violation.
+   */
+  readonly message: string;
+
+  /**
+   * The absolute location of the offending keyword.
+   */
+  readonly location: string;
+}
+
+/**
+ * Strict mode options that apply the `"error"` policy to every check.
+ */
+const strictErrors = {
+  keywords: "error",
+  formats: "error",
+  required: "error",
+  items: "error",
+  unions: "error",
+} as const satisfies Required<StrictOptions>;
+
+/**
+ * Returns the strict mode options denoted by the given `strict` option.
+ * `true` applies the `"error"` policy to every check.
+ *
+ * @category Context
+ * @internal
+ */
+export function strictOptions(
+  strict: boolean | StrictOptions | undefined,
+): StrictOptions | undefined {
+  if (strict === true) {
+    return strictErrors;
+  } else if (strict === false) {
+    return undefined;
+  }
+  return strict;
+}
+
+/**
+ * Checks the schema node at the top of the stack, which has been parsed
+ * as the given schema resource, against the context's strict mode policies.
+ *
+ * @category Resource
+ * @internal
+ */
+export function checkStrictSchema(
+  context: SchemaContext,
+  resource: SchemaResource,
+): void {
+  const strict = context.strict;
+  const dialect = resource.dialect;
+  const node = resource.node;
+  if (strict === undefined || dialect === undefined || !isObject(node)) {
+    return;
+  }
+
+  // Check for keywords unknown to the schema's dialect.
+  if (isEnabled(strict.keywords)) {
+    for (const key of Object.keys(node)) {
+      if (!Object.hasOwn(dialect.keywords, key) && !key.startsWith("x-")) {
+        reportStrict(
+          context,
+          node,
+          key,
+          "keywords",
+          "Unknown keyword " + JSON.stringify(key),
+        );
+      }
+    }
+  }
+
+  // Check for formats unknown to the schema's dialect.
+  const format = node.format;
+  if (
+    isEnabled(strict.formats) &&
+    dialect.keywords.format !== undefined &&
+    typeof format === "string" &&
+    context.formats?.get(format) === undefined &&
+    dialect.formats?.[format] === undefined
+  ) {
+    reportStrict(
+      context,
+      node,
+      "format",
+      "formats",
+      "Unknown format " + JSON.stringify(format),
+    );
+  }
+
+  // Check for required properties that aren't declared.
+  const required = node.required;
+  const properties = node.properties;
+  if (
+    isEnabled(strict.required) &&
+    dialect.keywords.required !== undefined &&
+    isArray(required) &&
+    isObject(properties)
+  ) {
+    for (const name of required) {
+      if (typeof name === "string" && !Object.hasOwn(properties, name)) {
+        reportStrict(
+          context,
+          node,
+          "required",
+          "required",
+          "Required property " +
+            JSON.stringify(name) +
+            ' is not declared in "properties"',
+        );
+      }
+    }
+  }
+
+  // Check for array keywords that apply to non-array instances.
+  const type = node.type;
+  if (
+    isEnabled(strict.items) &&
+    dialect.keywords.items !== undefined &&
+    node.items !== undefined &&
+    !(isArray(type) ? type.includes("array") : type === "array")
+  ) {
+    reportStrict(
+      context,
+      node,
+      "items",
+      "items",
+      '"items" requires "type" to be "array"',
+    );
+  }
+
+  // Check for union types.
+  if (
+    isEnabled(strict.unions) &&
+    dialect.keywords.type !== undefined &&
+    isArray(type) &&
+    type.length > 1 &&
+    !(type.length === 2 && type.includes("null"))
+  ) {
+    reportStrict(
+      context,
+      node,
+      "type",
+      "unions",
+      "Union type " + JSON.stringify(type) + " allows multiple types",
+    );
+  }
+}
+
+/**
+ * Returns `true` if the given strict mode policy rejects or reports
+ * violations.
+ */
+function isEnabled(policy: StrictPolicy | undefined): boolean {
+  return policy === "error" || policy === "warn";
+}
+
+/**
+ * Applies the context's policy for a strict mode check to a violation
+ * by the given keyword of a schema node.
+ */
+function reportStrict(
+  context: SchemaContext,
+  node: { readonly [key: string]: unknown },
+  key: string,
+  check: StrictCheck,
+  message: string,
+): void {
+  const policy = context.strict?.[check];
+  nestFrame(context, (frame: SchemaFrame): void => {
+    frame.nodeKey = key;
+    frame.node = node[key];
+    const location = currentLocation(context);
+
+    if (policy === "error") {
+      const error = new ValidationError(message, { location });
+      // Record the violation, if diagnostics are being collected.
+      if (context.diagnostics === undefined) {
+        throw error;
+      }
+      context.diagnostics.push(error);
+    } else if (policy === "warn") {
+      context.onWarning?.({ check, message, location });
+    }
+  });
+}